@@ -0,0 +1,99 @@
+import { execSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { performance } from 'node:perf_hooks';
+
+// Batch triage throughput on a synthetic corpus built from fixtures/bench/ticket-templates.json.
+//
+//   node scripts/bench-triage.mjs [--tickets 100000] [--workers 0,2,4] [--chunk-size 500] [--duplicates]
+//
+// Worker count 0 is the single-threaded triageBatch. Every run uses the same clock, so all
+// runs must produce the same output; the script fails if their digests differ.
+// Near-duplicate detection runs once on the calling thread after the pool and is off unless
+// --duplicates is given: the corpus repeats a handful of templates, so almost every pair of
+// tickets is a candidate and that step would dominate the timings.
+
+function ensureBuild() {
+  if (!existsSync(resolve('dist/index.js'))) {
+    execSync('pnpm run build', { stdio: 'inherit' });
+  }
+}
+
+function arg(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? fallback : process.argv[index + 1];
+}
+
+function buildCorpus(fixture, count) {
+  const start = Date.UTC(2024, 0, 1);
+  const tickets = new Array(count);
+  let seed = 42;
+  const random = () => {
+    // Park-Miller LCG: the corpus is the same on every run
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  for (let i = 0; i < count; i++) {
+    const template = fixture.templates[i % fixture.templates.length];
+    const customer = Math.floor(random() * count / 4);
+    const domain = fixture.domains[customer % fixture.domains.length];
+    tickets[i] = {
+      tenant_id: fixture.tenant_id,
+      project_id: fixture.project_id,
+      id: `bench-${i}`,
+      subject: template.subject.replaceAll('{n}', String(100000 + i)),
+      body: template.body.replaceAll('{n}', String(100000 + i)),
+      status: 'open',
+      priority: template.priority,
+      customer_email: `customer${customer}@${domain}`,
+      created_at: new Date(start + Math.floor(random() * 30 * 86_400_000)).toISOString(),
+      tags: [],
+      messages: [],
+      metadata: {},
+    };
+  }
+  return tickets;
+}
+
+function digest(batch) {
+  const hash = createHash('sha256');
+  for (const result of batch.results) {
+    hash.update(JSON.stringify(result));
+  }
+  hash.update(JSON.stringify([batch.stats, batch.duplicateClusters, batch.incidents]));
+  return hash.digest('hex').slice(0, 16);
+}
+
+ensureBuild();
+const { triageBatch, triageBatchParallel } = await import('../dist/index.js');
+
+const count = Number(arg('tickets', '100000'));
+const workerCounts = arg('workers', '0,2,4').split(',').map(Number);
+const chunkSize = Number(arg('chunk-size', '500'));
+const fixture = JSON.parse(readFileSync(resolve('fixtures/bench/ticket-templates.json'), 'utf-8'));
+
+const tickets = buildCorpus(fixture, count);
+const withDuplicates = process.argv.includes('--duplicates');
+const options = { now: new Date('2024-02-01T00:00:00.000Z'), ...(withDuplicates ? {} : { duplicates: false }) };
+console.log(`Corpus: ${count} tickets from ${fixture.templates.length} templates${withDuplicates ? ', with near-duplicate detection' : ''}`);
+
+const digests = new Set();
+for (const workers of workerCounts) {
+  const started = performance.now();
+  const batch = workers === 0
+    ? triageBatch(tickets, options)
+    : await triageBatchParallel(tickets, options, { workers, chunkSize });
+  const seconds = (performance.now() - started) / 1000;
+  const runDigest = digest(batch);
+  digests.add(runDigest);
+
+  const mode = workers === 0 ? 'single-threaded' : `${workers} worker(s)`;
+  console.log(`${mode.padEnd(16)} ${seconds.toFixed(1).padStart(7)} s ${Math.round(count / seconds).toString().padStart(8)} tickets/s  digest ${runDigest}`);
+}
+
+if (digests.size > 1) {
+  console.error('Outputs differ between runs');
+  process.exit(1);
+}
@@ -2,10 +2,37 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { readFileSync, mkdirSync, writeFileSync, existsSync } from 'fs';
-import { resolve } from 'path';
+import { readFileSync, mkdirSync, writeFileSync, existsSync, createReadStream, createWriteStream } from 'fs';
+import { once } from 'events';
+import { join, resolve } from 'path';
 import { ingestDirectory, buildIndex, retrieveForTicket } from './kb/index.js';
-import { triageBatch } from './triage/index.js';
+import {
+  triageBatch,
+  trainClassifier,
+  saveClassifierModel,
+  loadClassifierModel,
+  loadTriageConfig,
+  profileToTriageOptions,
+  evaluateTriage,
+  compareTriageConfigs,
+  renderEvaluationMarkdown,
+  diffTriageResults,
+  renderTriageDiffMarkdown,
+  loadSlaPolicies,
+  loadTopicTaxonomies,
+  loadInfoRequirements,
+  loadCustomerDirectories,
+  isGenuine,
+  triageStream,
+  triageBatchParallel,
+  triageBatchIncremental,
+  loadTriageCache,
+  saveTriageCache,
+  reconcilePriorities,
+  renderPriorityReconciliationMarkdown,
+  type TriageStream,
+  type TriageStreamOptions,
+} from './triage/index.js';
 import { draftResponse } from './draft/index.js';
 import { proposeKBPatch } from './kb-proposals/index.js';
 import {
@@ -16,13 +43,30 @@ import {
   formatJobForgeOutput,
 } from './jobforge/index.js';
 import { validateTickets, type Ticket } from './contracts/ticket.js';
-import { validateTriageResult } from './contracts/triage-result.js';
+import { validateTriageResult, type TriageResult } from './contracts/triage-result.js';
+import { validateLabeledTickets } from './contracts/labeled-ticket.js';
 import { validateKBSources } from './contracts/kb-source.js';
 import type { TonePreset } from './draft/generator.js';
 import { redactTicket } from './utils/pii.js';
-import { loadProfile, getDefaultProfile } from './utils/profiles.js';
-import { analyze, renderMetrics, renderReport, validateBundle } from './jobforge/integration.js';
+import { loadProfile, getDefaultProfile, type Profile } from './utils/profiles.js';
+import {
+  explainRouting,
+  loadRoutingConfigs,
+  parseRoutingConfigs,
+  selectRoutingConfig,
+  validateRoutingRules,
+  type RoutingValidationResult,
+} from './routing/index.js';
+import type { RoutingConfig } from './contracts/routing-rule.js';
+import {
+  analyze,
+  priorityReconciliationMetadata,
+  renderMetrics,
+  renderReport,
+  validateBundle,
+} from './jobforge/integration.js';
 import { serializeDeterministic } from './utils/deterministic.js';
+import { readLines, writeNdjson } from './utils/ndjson.js';
 import { ExitCode, toRunnerException, type RunnerError } from './runner/errors.js';
 import { ArtifactManager } from './runner/artifacts.js';
 import { supportAutopilotRunner } from './runner/contract.js';
@@ -49,7 +93,46 @@ interface TriageOptions extends GlobalOptions {
   tenant: string;
   project: string;
   profile?: string;
+  model?: string;
+  sla?: string;
+  taxonomy?: string;
+  requirements?: string;
+  customers?: string;
+  history?: string;
   jobforge?: boolean;
+  ndjson?: boolean;
+  rejects?: string;
+  workers?: string;
+  cache?: string;
+  now?: string;
+  reconcile?: boolean;
+}
+
+interface TrainClassifierOptions extends GlobalOptions {
+  modelOut: string;
+  modelVersion?: string;
+  minTokenCount?: string;
+}
+
+interface RouteOptions extends GlobalOptions {
+  tenant: string;
+  project: string;
+  rules?: string;
+  profile?: string;
+  explain?: boolean;
+  check?: boolean;
+}
+
+interface EvalTriageOptions extends GlobalOptions {
+  compare?: string;
+  maxRegression?: string;
+}
+
+interface TriageDiffOptions extends GlobalOptions {
+  compare?: string;
+  baselineResults?: string;
+  candidateResults?: string;
+  maxTickets?: string;
 }
 
 interface DraftOptions extends GlobalOptions {
@@ -137,6 +220,64 @@ function handleError(error: unknown, opts: GlobalOptions): never {
   process.exit(re.exitCode);
 }
 
+/**
+ * Routing configs from a rules file, the profile and the --config file, most specific source first.
+ * Returns undefined when no source defines routing.
+ */
+function loadRouting(opts: { rules?: string; config?: string }, profile: Profile): RoutingConfig[] | undefined {
+  const configs: RoutingConfig[] = [];
+  if (opts.rules !== undefined) {
+    configs.push(...loadRoutingConfigs(opts.rules));
+  }
+  if (opts.config !== undefined) {
+    configs.push(...(loadTriageConfig(opts.config).routing ?? []));
+  }
+  if (profile.routing !== undefined) {
+    configs.push(...parseRoutingConfigs(profile.routing));
+  }
+  return configs.length > 0 ? configs : undefined;
+}
+
+/**
+ * NDJSON triage: tickets are read line by line from a file or stdin (`-`) and
+ * each result is written to stdout as soon as it is ready. Rejected lines go
+ * to `rejectsPath` (stderr by default).
+ */
+async function triageNdjson(
+  ticketsPath: string,
+  options: TriageStreamOptions,
+  rejectsPath: string | undefined
+): Promise<TriageStream> {
+  const input = ticketsPath === '-' ? process.stdin : createReadStream(ticketsPath);
+  const rejects = rejectsPath !== undefined ? createWriteStream(rejectsPath) : process.stderr;
+
+  const stream = triageStream(readLines(input), {
+    ...options,
+    onReject: reject => writeNdjson(rejects, reject),
+  });
+  for await (const result of stream) {
+    await writeNdjson(process.stdout, result);
+  }
+
+  if (rejects !== process.stderr) {
+    rejects.end();
+    await once(rejects, 'finish');
+  }
+  return stream;
+}
+
+/**
+ * Triage results saved by `support triage --json` (a JSON array) or `--ndjson` (one result per line).
+ */
+function loadTriageResults(resultsPath: string): TriageResult[] {
+  const content = readFileSync(resultsPath, 'utf-8');
+  const trimmed = content.trimStart();
+  const data: unknown[] = trimmed.startsWith('[')
+    ? JSON.parse(content) as unknown[]
+    : trimmed.split('\n').filter(line => line.trim() !== '').map(line => JSON.parse(line) as unknown);
+  return data.map(result => validateTriageResult(result));
+}
+
 /** Resolve the artifact output directory (--out or default ./artifacts) */
 function resolveOutDir(opts: GlobalOptions): string {
   return resolve(opts.out ?? './artifacts');
@@ -295,15 +436,40 @@ program
         ticketsPath = resolve('examples/tickets/sample-tickets.json');
       }
 
-      // 1. Validate tickets
-      const ticketsData: unknown = JSON.parse(readFileSync(ticketsPath, 'utf-8'));
-      const tickets = validateTickets(Array.isArray(ticketsData) ? ticketsData : [ticketsData]);
-      artifacts.logger.info('run.tickets_validated', `Validated ${tickets.length} tickets`);
+      let tickets: Ticket[] = [];
+      let results: TriageResult[] = [];
 
-      // 2. Triage
-      const { results, stats } = triageBatch(tickets);
-      artifacts.writeEvidence('triage-results', { results, stats });
-      artifacts.logger.info('run.triage_complete', `Triaged ${stats.total} tickets`, { stats });
+      if (/\.(?:ndjson|jsonl)$/i.test(ticketsPath)) {
+        // 1-2. Stream NDJSON exports through triage; results are not kept, so drafting and KB proposals are skipped
+        const evidence = artifacts.openEvidenceStream('triage-results');
+        const rejects = artifacts.openEvidenceStream('triage-rejects');
+        const stream = triageStream(readLines(createReadStream(ticketsPath)), {
+          tenantId: opts.tenant,
+          projectId: opts.project,
+          onReject: reject => rejects.write(reject),
+        });
+        for await (const result of stream) {
+          await evidence.write(result);
+        }
+        await evidence.close();
+        await rejects.close();
+        artifacts.writeEvidence('triage-stats', { stats: stream.stats, rejected: stream.rejected });
+        artifacts.logger.info('run.triage_complete', `Triaged ${stream.stats.total} tickets (${stream.rejected} rejected)`, {
+          stats: stream.stats,
+          rejected: stream.rejected,
+        });
+      } else {
+        // 1. Validate tickets
+        const ticketsData: unknown = JSON.parse(readFileSync(ticketsPath, 'utf-8'));
+        tickets = validateTickets(Array.isArray(ticketsData) ? ticketsData : [ticketsData]);
+        artifacts.logger.info('run.tickets_validated', `Validated ${tickets.length} tickets`);
+
+        // 2. Triage
+        const batch = triageBatch(tickets);
+        results = batch.results;
+        artifacts.writeEvidence('triage-results', { results, stats: batch.stats });
+        artifacts.logger.info('run.triage_complete', `Triaged ${batch.stats.total} tickets`, { stats: batch.stats });
+      }
 
       // 3. KB ingest (if examples/kb exists)
       const kbDir = resolve('examples/kb');
@@ -322,8 +488,8 @@ program
       }
 
       // 4. Draft a response for the first triaged ticket
-      if (results.length > 0 && kbSources.length > 0) {
-        const firstResult = results[0];
+      const firstResult = results.find(isGenuine);
+      if (firstResult && kbSources.length > 0) {
         const firstTicket = tickets.find(t => t.id === firstResult.ticket_id) ?? tickets[0];
         const index = buildIndex(opts.tenant, opts.project, kbSources);
         const kbResults = retrieveForTicket(index, firstTicket.subject, firstTicket.body);
@@ -418,17 +584,99 @@ program
   .requiredOption('--tenant <id>', 'Tenant ID')
   .requiredOption('--project <id>', 'Project ID')
   .option('--profile <path>', 'Profile configuration file')
+  .option('--model <path>', 'Trained classifier model file (keyword rules used as fallback)')
+  .option('--sla <path>', 'SLA policy file (computes deadlines and breach risk)')
+  .option('--taxonomy <path>', 'Topic taxonomy file (hierarchical topics)')
+  .option('--requirements <path>', 'Required-information definitions per topic')
+  .option('--customers <path>', 'Customer directory (JSON or CSV) joined on customer email or account ID')
+  .option('--history <tickets.json>', 'Earlier tickets searched for repeat contacts from the same customer')
   .option('--jobforge', 'Output JobForge job requests instead of direct results')
+  .option('--ndjson', 'Stream NDJSON tickets (a file, or - for stdin) to NDJSON results on stdout')
+  .option('--rejects <path>', 'With --ndjson, write rejected lines here instead of stderr')
+  .option('--workers <n>', 'Triage the batch on n worker threads (same output as single-threaded)')
+  .option('--cache <path>', 'Triage cache file: reuse results for unchanged tickets and update it')
+  .option('--now <timestamp>', 'Clock for SLA deadlines and ticket age (ISO 8601, default: current time)')
+  .option('--reconcile', 'Report over- and under-prioritized tickets (priority-reconciliation.json/.md in --out)')
   .option('--out <dir>', 'Output directory for artifacts')
   .option('--json', 'Emit structured JSON output only')
   .option('--dry-run', 'Dry-run mode')
-  .action(function (this: Command, ticketsPath: string, options: unknown) {
+  .action(async function (this: Command, ticketsPath: string, options: unknown) {
     const opts = mergeGlobal(options as TriageOptions, this);
     try {
-      if (opts.json !== true) {
+      if (opts.ndjson === true && opts.jobforge === true) {
+        console.error(chalk.red('--jobforge cannot be combined with --ndjson'));
+        process.exit(ExitCode.ValidationError);
+      }
+      if (opts.ndjson === true && opts.workers !== undefined) {
+        console.error(chalk.red('--workers cannot be combined with --ndjson'));
+        process.exit(ExitCode.ValidationError);
+      }
+      if (opts.ndjson === true && opts.cache !== undefined) {
+        console.error(chalk.red('--cache cannot be combined with --ndjson'));
+        process.exit(ExitCode.ValidationError);
+      }
+      if (opts.ndjson === true && opts.reconcile === true) {
+        console.error(chalk.red('--reconcile cannot be combined with --ndjson'));
+        process.exit(ExitCode.ValidationError);
+      }
+      const now = opts.now !== undefined ? new Date(opts.now) : undefined;
+      if (now && Number.isNaN(now.getTime())) {
+        console.error(chalk.red(`--now must be an ISO 8601 timestamp, got "${opts.now}"`));
+        process.exit(ExitCode.ValidationError);
+      }
+      if (opts.json !== true && opts.ndjson !== true) {
         console.log(chalk.blue('Triaging tickets from:'), ticketsPath);
       }
 
+      const historyData: unknown = opts.history !== undefined ? JSON.parse(readFileSync(opts.history, 'utf-8')) : undefined;
+      const history = historyData !== undefined
+        ? validateTickets(Array.isArray(historyData) ? historyData : [historyData]).filter(t => t.tenant_id === opts.tenant)
+        : undefined;
+
+      const profile = opts.profile !== undefined ? loadProfile(opts.profile) : getDefaultProfile();
+      const routing = loadRouting(opts, profile);
+
+      const model = opts.model !== undefined ? loadClassifierModel(opts.model) : undefined;
+      if (model && opts.json !== true) {
+        console.log(chalk.blue('Using classifier model:'), model.model_version);
+      }
+
+      const slaPolicies = opts.sla !== undefined ? loadSlaPolicies(opts.sla) : undefined;
+      const taxonomies = opts.taxonomy !== undefined ? loadTopicTaxonomies(opts.taxonomy) : undefined;
+      const infoRequirements = opts.requirements !== undefined ? loadInfoRequirements(opts.requirements) : undefined;
+      const customerDirectories = opts.customers !== undefined
+        ? loadCustomerDirectories(opts.customers, { tenant_id: opts.tenant, project_id: opts.project })
+        : undefined;
+      // Flags take precedence over the same settings in --config
+      const config = opts.config !== undefined ? loadTriageConfig(opts.config) : {};
+      const triageOptions = {
+        ...profileToTriageOptions(profile),
+        ...config,
+        model: model ?? config.model,
+        slaPolicies: slaPolicies ?? config.slaPolicies,
+        taxonomies: taxonomies ?? config.taxonomies,
+        infoRequirements: infoRequirements ?? config.infoRequirements,
+        customerDirectories: customerDirectories ?? config.customerDirectories,
+        history,
+        routing,
+        ...(now && { now }),
+      };
+
+      // stdout carries the results, so the summary goes to stderr
+      if (opts.ndjson === true) {
+        const stream = await triageNdjson(
+          ticketsPath,
+          { ...triageOptions, tenantId: opts.tenant, projectId: opts.project },
+          opts.rejects
+        );
+        if (opts.json === true) {
+          process.stderr.write(JSON.stringify({ stats: stream.stats, rejected: stream.rejected }) + '\n');
+        } else {
+          console.error(chalk.green(`Triaged ${stream.stats.total} tickets`), chalk.gray(`(${stream.rejected} rejected)`));
+        }
+        return;
+      }
+
       const ticketsData: unknown = JSON.parse(readFileSync(ticketsPath, 'utf-8'));
       const tickets = validateTickets(Array.isArray(ticketsData) ? ticketsData : [ticketsData]);
 
@@ -440,33 +688,92 @@ program
         }
       }
 
-      // Profile loaded for future use when LLM integration is added
-      const profile = opts.profile !== undefined ? loadProfile(opts.profile) : getDefaultProfile();
-      void profile; // Mark as intentionally unused for now
-
-      const { results, stats } = triageBatch(tickets);
+      const workers = opts.workers !== undefined ? Number(opts.workers) : undefined;
+      if (workers !== undefined && (!Number.isInteger(workers) || workers < 1)) {
+        console.error(chalk.red('--workers must be a positive integer'));
+        process.exit(ExitCode.ValidationError);
+      }
+      const parallel = workers !== undefined ? { workers } : undefined;
+      const incremental = opts.cache !== undefined
+        ? await triageBatchIncremental(tickets, triageOptions, existsSync(opts.cache) ? loadTriageCache(opts.cache) : undefined, parallel)
+        : undefined;
+      const { results, stats, duplicateClusters, incidents } = incremental
+        ?? (parallel ? await triageBatchParallel(tickets, triageOptions, parallel) : triageBatch(tickets, triageOptions));
+
+      if (incremental && opts.cache !== undefined && opts.dryRun !== true) {
+        saveTriageCache(incremental.cache, opts.cache);
+      }
+      if (incremental && opts.json === true) {
+        // stdout carries the results
+        process.stderr.write(JSON.stringify({ cache: incremental.cacheStats }) + '\n');
+      }
 
       if (opts.json !== true) {
         console.log(chalk.green(`Triaged ${stats.total} tickets`));
+        if (incremental) {
+          const { reused, recomputed, invalidated } = incremental.cacheStats;
+          console.log(chalk.gray(`  Cache: ${reused} reused, ${recomputed} recomputed${invalidated ? ' (triage options changed, cache rebuilt)' : ''}`));
+        }
         console.log(chalk.yellow(`  Critical: ${stats.critical}`));
         console.log(chalk.yellow(`  High: ${stats.high}`));
         console.log(chalk.yellow(`  Medium: ${stats.medium}`));
         console.log(chalk.yellow(`  Low: ${stats.low}`));
         console.log(chalk.yellow(`  Needs human review: ${stats.needsHumanReview}`));
         console.log(chalk.yellow(`  Needs KB update: ${stats.needsKbUpdate}`));
+        console.log(chalk.yellow(`  Escalated: ${stats.escalated}`));
+        console.log(chalk.yellow(`  Duplicates: ${stats.duplicates}`));
+        console.log(chalk.yellow(`  Repeat contacts: ${stats.repeatContacts}`));
+        if (triageOptions.aging) {
+          console.log(chalk.yellow(`  Escalated due to age: ${stats.agedEscalations}`));
+        }
+        if (stats.autoReplies + stats.bounces + stats.spam > 0) {
+          console.log(chalk.gray(`  Filtered: ${stats.autoReplies} auto-replies, ${stats.bounces} bounces, ${stats.spam} spam`));
+        }
+        if (slaPolicies) {
+          console.log(chalk.yellow(`  SLA at risk: ${stats.slaAtRisk}`));
+          console.log(chalk.yellow(`  SLA breached: ${stats.slaBreached}`));
+        }
+        for (const cluster of duplicateClusters) {
+          console.log(chalk.gray(`    merge ${cluster.ticket_ids.slice(1).join(', ')} into ${cluster.canonical_ticket_id}`));
+        }
+        for (const incident of incidents) {
+          console.log(chalk.red(`  Possible incident ${incident.incident_id}: ${incident.ticket_ids.length} tickets since ${incident.first_seen}`));
+        }
+      }
+
+      const reconciliation = opts.reconcile === true ? reconcilePriorities(tickets, results) : undefined;
+      if (reconciliation) {
+        if (opts.dryRun !== true) {
+          const outDir = resolveOutDir(opts);
+          mkdirSync(outDir, { recursive: true });
+          writeFileSync(join(outDir, 'priority-reconciliation.json'), serializeDeterministic(reconciliation) + '\n');
+          writeFileSync(join(outDir, 'priority-reconciliation.md'), renderPriorityReconciliationMarkdown(reconciliation) + '\n');
+        }
+        if (opts.json === true) {
+          const { ticket_count, over_prioritized, under_prioritized } = reconciliation;
+          process.stderr.write(JSON.stringify({ reconciliation: { ticket_count, over_prioritized, under_prioritized } }) + '\n');
+        } else {
+          console.log(chalk.yellow(`  Over-prioritized: ${reconciliation.over_prioritized}, under-prioritized: ${reconciliation.under_prioritized}`));
+          for (const customer of reconciliation.customers.slice(0, 5)) {
+            console.log(chalk.gray(`    ${customer.customer}: ${customer.over_prioritized} of ${customer.ticket_count} tickets over-prioritized`));
+          }
+        }
       }
 
       if (opts.jobforge === true) {
-        const jobs = results.map(result =>
-          createTriageJob(
+        const conflicts = new Map(reconciliation?.conflicts.map(conflict => [conflict.ticket_id, conflict]));
+        const jobs = results.filter(isGenuine).map(result => {
+          const conflict = conflicts.get(result.ticket_id);
+          return createTriageJob(
             tickets.find(t => t.id === result.ticket_id)!,
             {
               tenantId: opts.tenant,
               projectId: opts.project,
               priority: result.urgency === 'critical' ? 'critical' : 'normal',
+              ...(conflict && { metadata: priorityReconciliationMetadata(conflict) }),
             }
-          )
-        );
+          );
+        });
 
         if (opts.json !== true) {
           console.log('\n' + formatJobForgeOutput(jobs, true));
@@ -480,6 +787,270 @@ program
     }
   });
 
+program
+  .command('route')
+  .description('Route tickets to queues with declarative rules, or check a rules file')
+  .argument('[tickets.json]', 'Path to JSON file containing tickets')
+  .requiredOption('--tenant <id>', 'Tenant ID')
+  .requiredOption('--project <id>', 'Project ID')
+  .option('--rules <path>', 'Routing rules file')
+  .option('--profile <path>', 'Profile configuration file (uses its routing rules)')
+  .option('--explain', 'Show how every rule evaluated for each ticket')
+  .option('--check', 'Validate the routing rules and exit')
+  .option('--json', 'Emit structured JSON output only')
+  .action(function (this: Command, ticketsPath: string | undefined, options: unknown) {
+    const opts = mergeGlobal(options as RouteOptions, this);
+    try {
+      const profile = opts.profile !== undefined ? loadProfile(opts.profile) : getDefaultProfile();
+
+      if (opts.check === true) {
+        const checks: Record<string, RoutingValidationResult> = {};
+        if (opts.rules !== undefined) {
+          checks[opts.rules] = validateRoutingRules(JSON.parse(readFileSync(opts.rules, 'utf-8')));
+        }
+        if (profile.routing !== undefined) {
+          checks[opts.profile ?? 'profile'] = validateRoutingRules(profile.routing);
+        }
+        const valid = Object.values(checks).every(c => c.valid);
+
+        if (opts.json !== true) {
+          for (const [source, check] of Object.entries(checks)) {
+            console.log(check.valid ? chalk.green(`✓ ${source}`) : chalk.red(`✗ ${source}`));
+            for (const error of check.errors) {
+              console.log(chalk.red(`  ${error}`));
+            }
+          }
+        }
+        outputResult({ valid, sources: checks }, opts);
+        if (!valid) {
+          process.exit(ExitCode.ValidationError);
+        }
+        return;
+      }
+
+      if (ticketsPath === undefined) {
+        console.error(chalk.red('A tickets file is required unless --check is given'));
+        process.exit(ExitCode.ValidationError);
+      }
+
+      const routing = loadRouting(opts, profile);
+      if (!routing) {
+        console.error(chalk.red('No routing rules found; pass --rules, --config or a profile with routing'));
+        process.exit(ExitCode.ValidationError);
+      }
+
+      const ticketsData: unknown = JSON.parse(readFileSync(ticketsPath, 'utf-8'));
+      const tickets = validateTickets(Array.isArray(ticketsData) ? ticketsData : [ticketsData]);
+      for (const ticket of tickets) {
+        if (ticket.tenant_id !== opts.tenant || ticket.project_id !== opts.project) {
+          console.error(chalk.red('Tenant/Project mismatch in ticket:'), ticket.id);
+          process.exit(ExitCode.ValidationError);
+        }
+      }
+
+      const triageOptions = opts.config !== undefined ? loadTriageConfig(opts.config) : {};
+      const { results } = triageBatch(tickets, { ...profileToTriageOptions(profile), ...triageOptions, routing: undefined });
+
+      const routed = results.map((result, index) => {
+        const config = selectRoutingConfig(routing, tickets[index]);
+        if (!config) {
+          return { ticket_id: result.ticket_id, required_skills: [], matched_rule_ids: [], queue_source: 'none' as const, rules: [] };
+        }
+        return explainRouting(tickets[index], result, config);
+      });
+
+      if (opts.json !== true) {
+        for (const trace of routed) {
+          console.log(`${trace.ticket_id}: ${trace.assigned_queue ?? chalk.gray('(unassigned)')}`
+            + (trace.required_skills.length > 0 ? ` [${trace.required_skills.join(', ')}]` : ''));
+        }
+      }
+
+      outputResult(
+        opts.explain === true
+          ? routed
+          : routed.map(({ ticket_id, assigned_queue, required_skills, matched_rule_ids }) => ({
+            ticket_id,
+            assigned_queue,
+            required_skills,
+            matched_rule_ids,
+          })),
+        opts
+      );
+    } catch (error) {
+      handleError(error, opts);
+    }
+  });
+
+program
+  .command('train-classifier')
+  .description('Train an offline topic/urgency classifier from labeled tickets')
+  .argument('<labeled.json>', 'Path to JSON file containing labeled tickets')
+  .requiredOption('--model-out <path>', 'Where to write the trained model file')
+  .option('--model-version <version>', 'Version label recorded in the model (default: content hash)')
+  .option('--min-token-count <n>', 'Drop tokens seen in fewer than n tickets', '1')
+  .option('--json', 'Emit structured JSON output only')
+  .action(function (this: Command, labeledPath: string, options: unknown) {
+    const opts = mergeGlobal(options as TrainClassifierOptions, this);
+    try {
+      if (opts.json !== true) {
+        console.log(chalk.blue('Training classifier from:'), labeledPath);
+      }
+
+      const labeledData: unknown = JSON.parse(readFileSync(labeledPath, 'utf-8'));
+      const examples = validateLabeledTickets(Array.isArray(labeledData) ? labeledData : [labeledData]);
+
+      const model = trainClassifier(examples, {
+        modelVersion: opts.modelVersion,
+        minTokenCount: opts.minTokenCount !== undefined ? Number(opts.minTokenCount) : undefined,
+      });
+      saveClassifierModel(model, opts.modelOut);
+
+      const summary = {
+        model_path: resolve(opts.modelOut),
+        model_version: model.model_version,
+        training_examples: model.training_examples,
+        vocabulary_size: model.vocabulary.length,
+        urgency_classes: model.urgency?.classes ?? [],
+        topics: Object.keys(model.topics),
+      };
+
+      if (opts.json !== true) {
+        console.log(chalk.green(`Trained ${model.model_version} on ${model.training_examples} tickets`));
+      }
+      outputResult(summary, opts);
+    } catch (error) {
+      handleError(error, opts);
+    }
+  });
+
+program
+  .command('eval-triage')
+  .description('Evaluate triage against labeled tickets and optionally compare two configs')
+  .argument('<labeled.json>', 'Path to JSON file containing labeled tickets')
+  .option('--config <path>', 'Triage config to evaluate (baseline when --compare is given)')
+  .option('--compare <path>', 'Candidate triage config to compare against the baseline')
+  .option('--max-regression <n>', 'Largest allowed drop in any metric, as a fraction (e.g. 0.02)', '0')
+  .option('--out <dir>', 'Output directory for the evaluation report')
+  .option('--json', 'Emit structured JSON output only')
+  .action(function (this: Command, labeledPath: string, options: unknown) {
+    const opts = mergeGlobal(options as EvalTriageOptions, this);
+    try {
+      if (opts.json !== true) {
+        console.log(chalk.blue('Evaluating triage on:'), labeledPath);
+      }
+
+      const maxRegression = Number(opts.maxRegression ?? '0');
+      if (!Number.isFinite(maxRegression) || maxRegression < 0) {
+        console.error(chalk.red('--max-regression must be a non-negative number'));
+        process.exit(ExitCode.ValidationError);
+      }
+
+      const labeledData: unknown = JSON.parse(readFileSync(labeledPath, 'utf-8'));
+      const labeled = validateLabeledTickets(Array.isArray(labeledData) ? labeledData : [labeledData]);
+      const baselineOptions = opts.config !== undefined ? loadTriageConfig(opts.config) : {};
+
+      const report = opts.compare !== undefined
+        ? compareTriageConfigs(labeled, baselineOptions, loadTriageConfig(opts.compare), { maxRegression })
+        : evaluateTriage(labeled, baselineOptions);
+
+      const outDir = resolveOutDir(opts);
+      mkdirSync(outDir, { recursive: true });
+      writeFileSync(join(outDir, 'triage-evaluation.json'), serializeDeterministic(report) + '\n');
+      writeFileSync(join(outDir, 'triage-evaluation.md'), renderEvaluationMarkdown(report) + '\n');
+
+      if (opts.json !== true) {
+        if ('deltas' in report) {
+          for (const d of report.deltas) {
+            const color = d.regressed ? chalk.red : chalk.green;
+            console.log(color(`  ${d.metric}: ${d.baseline} -> ${d.candidate} (${d.delta >= 0 ? '+' : ''}${d.delta})`));
+          }
+        } else {
+          console.log(chalk.green(`Urgency accuracy: ${report.urgency.accuracy}`));
+          console.log(chalk.green(`Topics macro F1: ${report.topics.macro_f1}`));
+          console.log(chalk.green(`Tags macro F1: ${report.tags.macro_f1}`));
+          console.log(chalk.yellow(`Misclassified: ${report.misclassified.length}`));
+        }
+        console.log(chalk.blue('Report written to:'), outDir);
+      }
+      outputResult(report, opts);
+
+      if ('passed' in report && !report.passed) {
+        if (opts.json !== true) {
+          console.error(chalk.red('Candidate config regressed beyond the allowed threshold'));
+        }
+        process.exit(ExitCode.ValidationError);
+      }
+    } catch (error) {
+      handleError(error, opts);
+    }
+  });
+
+program
+  .command('triage-diff')
+  .description('Compare two sets of triage results for the same tickets (drift report)')
+  .argument('[tickets.json]', 'Tickets to triage with --config (baseline) and --compare (candidate)')
+  .option('--config <path>', 'Baseline triage config (built-in rules when omitted)')
+  .option('--compare <path>', 'Candidate triage config (built-in rules when omitted)')
+  .option('--baseline-results <path>', 'Load baseline results (JSON array or NDJSON) instead of triaging')
+  .option('--candidate-results <path>', 'Load candidate results (JSON array or NDJSON) instead of triaging')
+  .option('--max-tickets <n>', 'Changed tickets listed in the Markdown report', '50')
+  .option('--out <dir>', 'Output directory for the drift report')
+  .option('--json', 'Emit structured JSON output only')
+  .action(function (this: Command, ticketsPath: string | undefined, options: unknown) {
+    const opts = mergeGlobal(options as TriageDiffOptions, this);
+    try {
+      if (ticketsPath === undefined && (opts.baselineResults === undefined || opts.candidateResults === undefined)) {
+        console.error(chalk.red('Give tickets to triage, or both --baseline-results and --candidate-results'));
+        process.exit(ExitCode.ValidationError);
+      }
+      const maxTickets = Number(opts.maxTickets ?? '50');
+      if (!Number.isInteger(maxTickets) || maxTickets < 0) {
+        console.error(chalk.red('--max-tickets must be a non-negative integer'));
+        process.exit(ExitCode.ValidationError);
+      }
+
+      const ticketsData: unknown = ticketsPath !== undefined ? JSON.parse(readFileSync(ticketsPath, 'utf-8')) : undefined;
+      const tickets = ticketsData !== undefined
+        ? validateTickets(Array.isArray(ticketsData) ? ticketsData : [ticketsData])
+        : [];
+      // One clock for both sides so SLA-driven fields do not drift on their own
+      const now = new Date();
+      const resultsFor = (resultsPath: string | undefined, configPath: string | undefined): TriageResult[] =>
+        resultsPath !== undefined
+          ? loadTriageResults(resultsPath)
+          : triageBatch(tickets, { ...(configPath !== undefined ? loadTriageConfig(configPath) : {}), now }).results;
+
+      const diff = diffTriageResults(
+        resultsFor(opts.baselineResults, opts.config),
+        resultsFor(opts.candidateResults, opts.compare)
+      );
+
+      const outDir = resolveOutDir(opts);
+      mkdirSync(outDir, { recursive: true });
+      writeFileSync(join(outDir, 'triage-diff.json'), serializeDeterministic(diff) + '\n');
+      writeFileSync(join(outDir, 'triage-diff.md'), renderTriageDiffMarkdown(diff, { maxTickets }) + '\n');
+
+      if (opts.json !== true) {
+        console.log(chalk.green(`Compared ${diff.ticket_count} tickets: ${diff.changed_count} changed`));
+        for (const from of Object.keys(diff.urgency_transitions) as Array<keyof typeof diff.urgency_transitions>) {
+          for (const [to, count] of Object.entries(diff.urgency_transitions[from])) {
+            if (to !== from && count > 0) {
+              console.log(chalk.yellow(`  ${count} ticket(s) ${from} -> ${to}`));
+            }
+          }
+        }
+        if (diff.only_in_baseline.length + diff.only_in_candidate.length > 0) {
+          console.log(chalk.gray(`  Not compared: ${diff.only_in_baseline.length} only in baseline, ${diff.only_in_candidate.length} only in candidate`));
+        }
+        console.log(chalk.blue('Report written to:'), outDir);
+      }
+      outputResult(diff, opts);
+    } catch (error) {
+      handleError(error, opts);
+    }
+  });
+
 program
   .command('draft')
   .description('Draft a response for a ticket')
@@ -509,6 +1080,9 @@ program
             )
           : triageData
       );
+      if (!isGenuine(triageResult)) {
+        throw new Error(`Ticket ${triageResult.ticket_id} was triaged as ${triageResult.disposition}; no reply is drafted`);
+      }
 
       const kbData: unknown = JSON.parse(readFileSync(opts.kb, 'utf-8'));
       const kbSources = validateKBSources(Array.isArray(kbData) ? kbData : [kbData]);
@@ -528,6 +1102,7 @@ program
         priority: triageResult.suggested_priority ?? 'medium',
         created_at: new Date().toISOString(),
         tags: triageResult.suggested_tags ?? [],
+        messages: [],
         metadata: {},
       };
 
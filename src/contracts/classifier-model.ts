@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { TriageUrgencySchema } from './triage-result.js';
+
+export const CLASSIFIER_MODEL_FORMAT = 'support-autopilot.naive-bayes' as const;
+export const CLASSIFIER_MODEL_FORMAT_VERSION = 1 as const;
+
+/**
+ * Multinomial naive Bayes parameters for one prediction head.
+ * Counts are stored raw so models stay inspectable and can be retrained incrementally.
+ */
+export const NaiveBayesHeadSchema = z.object({
+  classes: z.array(z.string().min(1)).min(1),
+  doc_counts: z.record(z.number().int().nonnegative()),
+  token_counts: z.record(z.record(z.number().int().nonnegative())),
+  token_totals: z.record(z.number().int().nonnegative()),
+});
+
+export type NaiveBayesHead = z.infer<typeof NaiveBayesHeadSchema>;
+
+/**
+ * The urgency head: its classes are the urgency levels it predicts.
+ */
+export const UrgencyHeadSchema = NaiveBayesHeadSchema.extend({
+  classes: z.array(TriageUrgencySchema).min(1),
+});
+
+export type UrgencyHead = z.infer<typeof UrgencyHeadSchema>;
+
+/**
+ * Persisted, versioned offline triage classifier.
+ * `urgency` is a single multi-class head; `topics` holds one binary
+ * (positive/negative) head per topic so tickets can carry several topics.
+ */
+export const ClassifierModelSchema = z.object({
+  format: z.literal(CLASSIFIER_MODEL_FORMAT),
+  format_version: z.literal(CLASSIFIER_MODEL_FORMAT_VERSION),
+  model_version: z.string().min(1),
+  trained_at: z.string().datetime(),
+  training_examples: z.number().int().nonnegative(),
+  alpha: z.number().positive(),
+  vocabulary: z.array(z.string()),
+  urgency: UrgencyHeadSchema.optional(),
+  topics: z.record(NaiveBayesHeadSchema).default({}),
+});
+
+export type ClassifierModel = z.infer<typeof ClassifierModelSchema>;
+
+export function validateClassifierModel(data: unknown): ClassifierModel {
+  return ClassifierModelSchema.parse(data);
+}
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { RoutingConditionSchema } from './routing-rule.js';
+
+/**
+ * One customer account as supplied by the tenant.
+ * Tickets are joined on `customer_email`, then on `account_id`.
+ */
+export const CustomerRecordSchema = z.object({
+  customer_email: z.string().email().optional(),
+  account_id: z.string().min(1).optional(),
+  customer_name: z.string().optional(),
+  plan_tier: z.string().min(1).optional(),
+  /** Monthly recurring revenue, in the tenant's billing currency. */
+  mrr: z.number().nonnegative().optional(),
+  region: z.string().min(1).optional(),
+  /** The account is affected by an incident that is still open. */
+  open_incident: z.boolean().default(false),
+}).refine(record => record.customer_email !== undefined || record.account_id !== undefined, {
+  message: 'Give customer_email or account_id',
+});
+
+/**
+ * Customer directory for a tenant, or one project of a tenant.
+ * Without `tenant_id` it applies to any tenant.
+ */
+export const CustomerDirectorySchema = z.object({
+  directory_id: z.string().min(1),
+  tenant_id: z.string().min(1).optional(),
+  project_id: z.string().min(1).optional(),
+  customers: z.array(CustomerRecordSchema),
+});
+
+/**
+ * Raises urgency for tickets from matching customers. Conditions use the
+ * routing operators against customer fields (`plan_tier`, `mrr`, `region`,
+ * `open_incident`, ...); `all` must all pass and one of `any` (when given).
+ * `boost` is the number of urgency levels to add; the largest boost of the
+ * matching rules applies.
+ */
+export const CustomerUrgencyRuleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  all: z.array(RoutingConditionSchema).default([]),
+  any: z.array(RoutingConditionSchema).default([]),
+  boost: z.number().int().min(1).max(3).default(1),
+}).refine(rule => rule.all.length > 0 || rule.any.length > 0, {
+  message: 'Give at least one condition',
+});
+
+export type CustomerRecord = z.infer<typeof CustomerRecordSchema>;
+export type CustomerDirectory = z.infer<typeof CustomerDirectorySchema>;
+export type CustomerUrgencyRule = z.infer<typeof CustomerUrgencyRuleSchema>;
+
+export const CustomerDirectoryArraySchema = z.array(CustomerDirectorySchema);
+
+export function validateCustomerDirectory(data: unknown): CustomerDirectory {
+  return CustomerDirectorySchema.parse(data);
+}
+
+export function validateCustomerDirectories(data: unknown): CustomerDirectory[] {
+  return CustomerDirectoryArraySchema.parse(data);
+}
@@ -6,6 +6,14 @@ export * from './triage-result.js';
 export * from './kb-patch.js';
 export * from './triage-packet.js';
 export * from './log-event.js';
+export * from './labeled-ticket.js';
+export * from './classifier-model.js';
+export * from './sla-policy.js';
+export * from './routing-rule.js';
+export * from './topic-taxonomy.js';
+export * from './info-requirement.js';
+export * from './customer-directory.js';
+export * from './triage-cache.js';
 
 export {
   TenantContextSchema,
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { TriageEntityTypeSchema } from './triage-result.js';
+
+/**
+ * How triage decides a piece of information was supplied: any extracted
+ * entity of the listed types, or any of the (case-insensitive) patterns
+ * matching the customer text.
+ */
+export const InfoDetectionSchema = z.object({
+  entities: z.array(TriageEntityTypeSchema).default([]),
+  patterns: z.array(z.string().min(1)).default([]),
+}).superRefine((detect, ctx) => {
+  if (detect.entities.length === 0 && detect.patterns.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Give at least one entity type or pattern' });
+  }
+  detect.patterns.forEach((pattern, index) => {
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['patterns', index], message: `Invalid pattern: ${pattern}` });
+    }
+  });
+});
+
+/**
+ * A piece of information to ask for on tickets about the listed topics.
+ * Topics match their subtopics (`billing` covers `billing/refunds`); the
+ * `general` topic applies to tickets where no topic was detected.
+ * `question` is shown to the customer; `{{topic}}` is replaced with the ticket topic.
+ */
+export const InfoRequirementSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'Expected a lowercase slug (a-z, 0-9, "-", "_")'),
+  description: z.string().optional(),
+  topics: z.array(z.string().min(1)).min(1),
+  detect: InfoDetectionSchema,
+  question: z.string().min(1),
+});
+
+/**
+ * Required-information definitions for a tenant, or one project of a tenant.
+ * Without `tenant_id` they apply to any tenant.
+ */
+export const InfoRequirementSetSchema = z.object({
+  tenant_id: z.string().min(1).optional(),
+  project_id: z.string().min(1).optional(),
+  requirements: z.array(InfoRequirementSchema).superRefine((requirements, ctx) => {
+    const seen = new Set<string>();
+    requirements.forEach((requirement, index) => {
+      if (seen.has(requirement.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `Duplicate requirement id "${requirement.id}"` });
+      }
+      seen.add(requirement.id);
+    });
+  }),
+});
+
+export type InfoDetection = z.infer<typeof InfoDetectionSchema>;
+export type InfoRequirement = z.infer<typeof InfoRequirementSchema>;
+export type InfoRequirementSet = z.infer<typeof InfoRequirementSetSchema>;
+
+export const InfoRequirementSetArraySchema = z.array(InfoRequirementSetSchema);
+
+export function validateInfoRequirementSet(data: unknown): InfoRequirementSet {
+  return InfoRequirementSetSchema.parse(data);
+}
+
+export function validateInfoRequirementSets(data: unknown): InfoRequirementSet[] {
+  return InfoRequirementSetArraySchema.parse(data);
+}
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { TicketSchema } from './ticket.js';
+import { TriageUrgencySchema } from './triage-result.js';
+
+/**
+ * Ground-truth triage labels attached to a historical ticket.
+ */
+export const TriageLabelsSchema = z.object({
+  urgency: TriageUrgencySchema.optional(),
+  topics: z.array(z.string()).default([]),
+  tags: z.array(z.string()).default([]),
+});
+
+export const LabeledTicketSchema = TicketSchema.extend({
+  labels: TriageLabelsSchema,
+});
+
+export type TriageLabels = z.infer<typeof TriageLabelsSchema>;
+export type LabeledTicket = z.infer<typeof LabeledTicketSchema>;
+
+export const LabeledTicketArraySchema = z.array(LabeledTicketSchema);
+
+export function validateLabeledTicket(data: unknown): LabeledTicket {
+  return LabeledTicketSchema.parse(data);
+}
+
+export function validateLabeledTickets(data: unknown): LabeledTicket[] {
+  return LabeledTicketArraySchema.parse(data);
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+export const RoutingOperatorSchema = z.enum([
+  'equals',
+  'not_equals',
+  'in',
+  'not_in',
+  'contains',
+  'matches',
+  'exists',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+]);
+
+const RoutingScalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+/**
+ * A single test against a ticket or triage result field.
+ *
+ * Fields: `topic`, `tag` (ticket and suggested tags), `urgency`, `priority`,
+ * `status`, `metadata.<path>`, `ticket.<path>`, `result.<path>`; other bare
+ * names resolve against the triage result first, then the ticket.
+ * Array-valued fields match when any element passes.
+ */
+export const RoutingConditionSchema = z.object({
+  field: z.string().min(1),
+  operator: RoutingOperatorSchema.default('equals'),
+  value: z.union([RoutingScalarSchema, z.array(RoutingScalarSchema)]).optional(),
+});
+
+/**
+ * Conditions in `all` must all pass and at least one in `any` must pass (when given).
+ * Matching rules are applied in descending `priority`, then file order.
+ */
+export const RoutingRuleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  priority: z.number().int().default(0),
+  all: z.array(RoutingConditionSchema).default([]),
+  any: z.array(RoutingConditionSchema).default([]),
+  queue: z.string().min(1).optional(),
+  skills: z.array(z.string().min(1)).default([]),
+  /** Skip the remaining rules once this one matches. */
+  stop: z.boolean().default(false),
+});
+
+/**
+ * Routing rules for a tenant, or one project of a tenant.
+ * Without `tenant_id` the rules apply to any tenant (e.g. rules shipped in a profile).
+ */
+export const RoutingConfigSchema = z.object({
+  tenant_id: z.string().min(1).optional(),
+  project_id: z.string().min(1).optional(),
+  default_queue: z.string().min(1).optional(),
+  rules: z.array(RoutingRuleSchema),
+});
+
+export type RoutingOperator = z.infer<typeof RoutingOperatorSchema>;
+export type RoutingCondition = z.infer<typeof RoutingConditionSchema>;
+export type RoutingRule = z.infer<typeof RoutingRuleSchema>;
+export type RoutingConfig = z.infer<typeof RoutingConfigSchema>;
+
+export const RoutingConfigArraySchema = z.array(RoutingConfigSchema);
+
+export function validateRoutingConfig(data: unknown): RoutingConfig {
+  return RoutingConfigSchema.parse(data);
+}
+
+export function validateRoutingConfigs(data: unknown): RoutingConfig[] {
+  return RoutingConfigArraySchema.parse(data);
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { TicketPrioritySchema } from './ticket.js';
+
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, 'Expected HH:MM');
+const CalendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+/**
+ * Working hours during which SLA clocks run. Days use 0 = Sunday … 6 = Saturday.
+ */
+export const BusinessHoursSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1).default([1, 2, 3, 4, 5]),
+  start: TimeOfDaySchema.default('09:00'),
+  end: TimeOfDaySchema.default('17:00'),
+}).refine(hours => hours.start < hours.end, { message: 'start must be before end' });
+
+/**
+ * Response and resolution budgets for one priority, optionally limited to one customer tier.
+ * Budgets are counted in business minutes.
+ */
+export const SlaTargetSchema = z.object({
+  priority: TicketPrioritySchema,
+  tier: z.string().min(1).optional(),
+  first_response_minutes: z.number().positive(),
+  resolution_minutes: z.number().positive(),
+});
+
+/**
+ * Contractual SLA policy for a tenant, or for one project of a tenant.
+ * Without `business_hours` the clocks run around the clock (holidays still pause them).
+ */
+export const SlaPolicySchema = z.object({
+  policy_id: z.string().min(1),
+  tenant_id: z.string().min(1),
+  project_id: z.string().min(1).optional(),
+  timezone: z.string().min(1).default('UTC'),
+  business_hours: BusinessHoursSchema.optional(),
+  holidays: z.array(CalendarDateSchema).default([]),
+  /** Stop the resolution clock while the ticket waits on the customer. */
+  pause_on_pending: z.boolean().default(true),
+  /** Fraction of a budget consumed after which a ticket counts as at risk. */
+  at_risk_threshold: z.number().gt(0).lt(1).default(0.75),
+  /** Tier used when the ticket carries no `customer_tier` metadata. */
+  default_tier: z.string().min(1).default('standard'),
+  targets: z.array(SlaTargetSchema).min(1),
+});
+
+export const SlaBreachRiskSchema = z.enum([
+  'none',
+  'on_track',
+  'at_risk',
+  'breached',
+]);
+
+export type BusinessHours = z.infer<typeof BusinessHoursSchema>;
+export type SlaTarget = z.infer<typeof SlaTargetSchema>;
+export type SlaPolicy = z.infer<typeof SlaPolicySchema>;
+export type SlaBreachRisk = z.infer<typeof SlaBreachRiskSchema>;
+
+export const SlaPolicyArraySchema = z.array(SlaPolicySchema);
+
+export function validateSlaPolicy(data: unknown): SlaPolicy {
+  return SlaPolicySchema.parse(data);
+}
+
+export function validateSlaPolicies(data: unknown): SlaPolicy[] {
+  return SlaPolicyArraySchema.parse(data);
+}
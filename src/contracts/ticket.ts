@@ -15,6 +15,41 @@ export const TicketPrioritySchema = z.enum([
   'urgent',
 ]);
 
+export const TicketMessageAuthorRoleSchema = z.enum([
+  'customer',
+  'agent',
+  'system',
+]);
+
+export const TicketMessageChannelSchema = z.enum([
+  'email',
+  'chat',
+  'web',
+  'phone',
+  'api',
+  'internal',
+]);
+
+export const TicketMessageVisibilitySchema = z.enum([
+  'public',
+  'internal',
+]);
+
+/**
+ * A single message in a ticket conversation thread.
+ * The ticket's own subject/body is the opening message; follow-ups,
+ * agent replies and internal notes are appended here in chronological order.
+ */
+export const TicketMessageSchema = z.object({
+  id: z.string().min(1).optional(),
+  author_role: TicketMessageAuthorRoleSchema,
+  author_name: z.string().optional(),
+  channel: TicketMessageChannelSchema.default('email'),
+  visibility: TicketMessageVisibilitySchema.default('public'),
+  body: z.string(),
+  created_at: z.string().datetime().or(z.date()),
+});
+
 export const TicketSchema = z.object({
   ...TenantContextSchema.shape,
   id: z.string().min(1),
@@ -27,12 +62,17 @@ export const TicketSchema = z.object({
   created_at: z.string().datetime().or(z.date()),
   updated_at: z.string().datetime().or(z.date()).optional(),
   tags: z.array(z.string()).default([]),
+  messages: z.array(TicketMessageSchema).default([]),
   metadata: z.record(z.unknown()).default({}),
 });
 
 export type Ticket = z.infer<typeof TicketSchema>;
 export type TicketStatus = z.infer<typeof TicketStatusSchema>;
 export type TicketPriority = z.infer<typeof TicketPrioritySchema>;
+export type TicketMessage = z.infer<typeof TicketMessageSchema>;
+export type TicketMessageAuthorRole = z.infer<typeof TicketMessageAuthorRoleSchema>;
+export type TicketMessageChannel = z.infer<typeof TicketMessageChannelSchema>;
+export type TicketMessageVisibility = z.infer<typeof TicketMessageVisibilitySchema>;
 
 export const TicketArraySchema = z.array(TicketSchema);
 
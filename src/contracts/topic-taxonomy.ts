@@ -0,0 +1,67 @@
+import { z } from 'zod';
+
+const TopicNodeIdSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'Expected a lowercase slug (a-z, 0-9, "-", "_")');
+
+export interface TopicNode {
+  id: string;
+  label?: string;
+  description?: string;
+  keywords: string[];
+  /** Team or person responsible for tickets in this topic. */
+  owner?: string;
+  children: TopicNode[];
+}
+
+type TopicNodeInput = Omit<TopicNode, 'keywords' | 'children'> & {
+  keywords?: string[];
+  children?: TopicNodeInput[];
+};
+
+function checkSiblingIds(nodes: { id: string }[], ctx: z.RefinementCtx): void {
+  const seen = new Set<string>();
+  nodes.forEach((node, index) => {
+    if (seen.has(node.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `Duplicate topic id "${node.id}"` });
+    }
+    seen.add(node.id);
+  });
+}
+
+/**
+ * One topic in the taxonomy. A ticket matches a node through its own keywords;
+ * the node's path (ids from the root) is the topic category reported by triage.
+ */
+export const TopicNodeSchema: z.ZodType<TopicNode, z.ZodTypeDef, TopicNodeInput> = z.lazy(() =>
+  z.object({
+    id: TopicNodeIdSchema,
+    label: z.string().min(1).optional(),
+    description: z.string().optional(),
+    keywords: z.array(z.string().min(1)).default([]),
+    owner: z.string().min(1).optional(),
+    children: z.array(TopicNodeSchema).default([]).superRefine(checkSiblingIds),
+  })
+);
+
+/**
+ * Versioned topic taxonomy for a tenant, or one project of a tenant.
+ * Without `tenant_id` it applies to any tenant.
+ */
+export const TopicTaxonomySchema = z.object({
+  taxonomy_id: z.string().min(1),
+  version: z.string().min(1),
+  tenant_id: z.string().min(1).optional(),
+  project_id: z.string().min(1).optional(),
+  topics: z.array(TopicNodeSchema).min(1).superRefine(checkSiblingIds),
+});
+
+export type TopicTaxonomy = z.infer<typeof TopicTaxonomySchema>;
+
+export const TopicTaxonomyArraySchema = z.array(TopicTaxonomySchema);
+
+export function validateTopicTaxonomy(data: unknown): TopicTaxonomy {
+  return TopicTaxonomySchema.parse(data);
+}
+
+export function validateTopicTaxonomies(data: unknown): TopicTaxonomy[] {
+  return TopicTaxonomyArraySchema.parse(data);
+}
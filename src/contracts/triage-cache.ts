@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { TriageResultSchema } from './triage-result.js';
+
+export const TRIAGE_CACHE_FORMAT = 'support-autopilot.triage-cache' as const;
+export const TRIAGE_CACHE_FORMAT_VERSION = 1 as const;
+
+/**
+ * Triage result kept for one ticket, as it came out of per-ticket triage
+ * (before batch-wide duplicate annotations).
+ * `content_hash` covers the whole ticket; `context_hash` covers the earlier
+ * tickets it was compared with for repeat contacts.
+ */
+export const TriageCacheEntrySchema = z.object({
+  tenant_id: z.string().min(1),
+  project_id: z.string().min(1),
+  ticket_id: z.string().min(1),
+  updated_at: z.string().datetime().optional(),
+  content_hash: z.string().min(1),
+  context_hash: z.string().min(1),
+  result: TriageResultSchema,
+});
+
+/**
+ * Persisted results of earlier triage runs. `fingerprint` identifies the
+ * classifier version and triage options the results were produced with; a
+ * cache with another fingerprint is not reused.
+ */
+export const TriageCacheSchema = z.object({
+  format: z.literal(TRIAGE_CACHE_FORMAT),
+  format_version: z.literal(TRIAGE_CACHE_FORMAT_VERSION),
+  fingerprint: z.string().min(1),
+  updated_at: z.string().datetime(),
+  entries: z.array(TriageCacheEntrySchema),
+});
+
+export type TriageCacheEntry = z.infer<typeof TriageCacheEntrySchema>;
+export type TriageCache = z.infer<typeof TriageCacheSchema>;
+
+export function validateTriageCache(data: unknown): TriageCache {
+  return TriageCacheSchema.parse(data);
+}
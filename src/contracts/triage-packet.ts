@@ -1,6 +1,11 @@
 import { z } from 'zod';
 import { TenantContextSchema } from './tenant.js';
 import { TriageTopicSchema, TriageUrgencySchema } from './triage-result.js';
+import {
+  TicketMessageAuthorRoleSchema,
+  TicketMessageChannelSchema,
+  TicketMessageVisibilitySchema,
+} from './ticket.js';
 
 /**
  * Error envelope for triage packet operations.
@@ -26,6 +31,31 @@ export const RedactionMetadataSchema = z.object({
 
 export type RedactionMetadata = z.infer<typeof RedactionMetadataSchema>;
 
+/**
+ * Where context joined onto the ticket came from, and which fields it supplied.
+ */
+export const EnrichmentProvenanceSchema = z.object({
+  source: z.enum(['customer_directory']),
+  source_id: z.string().min(1),
+  matched_by: z.string().min(1),
+  fields: z.array(z.string()),
+});
+
+export type EnrichmentProvenance = z.infer<typeof EnrichmentProvenanceSchema>;
+
+/**
+ * Conversation message within triage packet (with optional redaction).
+ */
+export const TriagePacketMessageSchema = z.object({
+  author_role: TicketMessageAuthorRoleSchema,
+  channel: TicketMessageChannelSchema,
+  visibility: TicketMessageVisibilitySchema,
+  body: z.string(),
+  created_at: z.string().datetime(),
+});
+
+export type TriagePacketMessage = z.infer<typeof TriagePacketMessageSchema>;
+
 /**
  * Ticket data within triage packet (with optional redaction).
  */
@@ -33,12 +63,15 @@ export const TriagePacketTicketSchema = z.object({
   id: z.string().min(1),
   subject: z.string().min(1),
   body: z.string(),
+  /** Body without quoted replies, signatures, legal footers or HTML, as classified (set when it differs). */
+  normalized_body: z.string().optional(),
   status: z.enum(['open', 'pending', 'resolved', 'closed']),
   priority: z.enum(['low', 'medium', 'high', 'urgent']),
   customer_email: z.string().optional(),
   customer_name: z.string().optional(),
   created_at: z.string().datetime(),
   tags: z.array(z.string()).default([]),
+  messages: z.array(TriagePacketMessageSchema).default([]),
 });
 
 export type TriagePacketTicket = z.infer<typeof TriagePacketTicketSchema>;
@@ -67,6 +100,7 @@ export const TriagePacketMetadataSchema = z.object({
   redaction_applied: z.boolean().default(false),
   redaction_summary: z.array(RedactionMetadataSchema).default([]),
   total_redactions: z.number().int().nonnegative().default(0),
+  enrichment: z.array(EnrichmentProvenanceSchema).default([]),
 });
 
 export type TriagePacketMetadata = z.infer<typeof TriagePacketMetadataSchema>;
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { TenantContextSchema } from './tenant.js';
+import { TicketPrioritySchema } from './ticket.js';
+import { SlaBreachRiskSchema } from './sla-policy.js';
 
 export const TriageUrgencySchema = z.enum([
   'low',
@@ -8,28 +10,280 @@ export const TriageUrgencySchema = z.enum([
   'critical',
 ]);
 
+/**
+ * What kind of mail a ticket is. Only `genuine` tickets are classified, drafted and sent on as jobs.
+ */
+export const TicketDispositionSchema = z.enum([
+  'genuine',
+  'auto_reply',
+  'bounce',
+  'spam',
+]);
+
 export const TriageTopicSchema = z.object({
   category: z.string(),
   confidence: z.number().min(0).max(1),
   keywords: z.array(z.string()).default([]),
+  /** Owner of the taxonomy node the topic was matched against. */
+  owner: z.string().optional(),
+});
+
+export const TriageExplanationTargetSchema = z.enum([
+  'urgency',
+  'topics',
+  'tags',
+  'missing_info',
+  'requires_human_review',
+  'requires_kb_update',
+  'escalated',
+  'sentiment',
+  'language',
+  'disposition',
+  'duplicate_of',
+  'repeat_contact',
+  'sla',
+  'routing',
+  'next_action',
+]);
+
+/**
+ * One step of the rule trace behind a triage decision.
+ * Keyword hits carry the field and character offset they matched at;
+ * negated hits are kept (with `negated: true`) to show why a keyword did not fire.
+ */
+export const TriageExplanationSchema = z.object({
+  target: TriageExplanationTargetSchema,
+  rule: z.string().min(1),
+  value: z.string(),
+  keyword: z.string().optional(),
+  field: z.string().optional(),
+  offset: z.number().int().nonnegative().optional(),
+  length: z.number().int().nonnegative().optional(),
+  negated: z.boolean().optional(),
+  detail: z.string(),
+});
+
+export const TriageEntityTypeSchema = z.enum([
+  'job_id',
+  'account_id',
+  'org_id',
+  'user_id',
+  'invoice_number',
+  'email',
+  'error_code',
+  'error_message',
+  'http_status',
+  'stack_trace',
+  'version',
+  'url',
+  'os',
+  'browser',
+  'reproduction_steps',
+  'expected_behavior',
+  'actual_behavior',
+]);
+
+/**
+ * A value extracted from the ticket text, with the field and character offset it was found at.
+ * PII in the value is masked (`[EMAIL_REDACTED]`); `offset` and `length` locate the original text.
+ */
+export const TriageEntitySchema = z.object({
+  type: TriageEntityTypeSchema,
+  value: z.string().min(1),
+  field: z.string(),
+  offset: z.number().int().nonnegative(),
+  length: z.number().int().nonnegative(),
+});
+
+export const TriageSentimentSignalTypeSchema = z.enum([
+  'positive_word',
+  'negative_word',
+  'frustration_phrase',
+  'profanity',
+  'repeat_contact',
+  'all_caps',
+  'repeated_punctuation',
+  'unanswered_follow_up',
+]);
+
+export const FrustrationLevelSchema = z.enum(['low', 'medium', 'high']);
+
+/**
+ * Something in the customer text that moved the sentiment or frustration score.
+ */
+export const TriageSentimentSignalSchema = z.object({
+  type: TriageSentimentSignalTypeSchema,
+  value: z.string(),
+  field: z.string().optional(),
+  offset: z.number().int().nonnegative().optional(),
+  weight: z.number(),
+});
+
+/**
+ * Customer emotion: `score` runs from -1 (negative) to 1 (positive),
+ * `frustration` from 0 (calm) to 1.
+ */
+export const TriageSentimentSchema = z.object({
+  score: z.number().min(-1).max(1),
+  frustration: z.number().min(0).max(1),
+  frustration_level: FrustrationLevelSchema,
+  signals: z.array(TriageSentimentSignalSchema).default([]),
 });
 
+/**
+ * Language of the customer text: an ISO 639-1 code, or `und` when there was too little text to tell.
+ */
+export const TriageLanguageSchema = z.object({
+  code: z.enum(['en', 'de', 'fr', 'es', 'ja', 'und']),
+  confidence: z.number().min(0).max(1),
+});
+
+/**
+ * Customer account context joined from a customer directory, with where it came from.
+ */
+export const TriageCustomerSchema = z.object({
+  account_id: z.string().optional(),
+  plan_tier: z.string().optional(),
+  mrr: z.number().nonnegative().optional(),
+  region: z.string().optional(),
+  open_incident: z.boolean().default(false),
+  directory_id: z.string().min(1),
+  matched_by: z.enum(['customer_email', 'account_id']),
+});
+
+export const RemovedSegmentKindSchema = z.enum([
+  'quoted_reply',
+  'signature',
+  'legal_footer',
+]);
+
+/**
+ * A part of a ticket field that normalization removed before classification.
+ * `offset` and `length` point into the field's text after HTML conversion;
+ * `excerpt` is the start of the removed text, with PII masked.
+ */
+export const RemovedSegmentSchema = z.object({
+  field: z.string(),
+  kind: RemovedSegmentKindSchema,
+  offset: z.number().int().nonnegative(),
+  length: z.number().int().nonnegative(),
+  excerpt: z.string(),
+});
+
+/**
+ * How the customer text was cleaned before classification. `body` is the ticket
+ * body the rules saw, with PII masked; the original stays on the ticket. Offsets
+ * in explanations and entities refer to the cleaned text before masking.
+ */
+export const TriageNormalizationSchema = z.object({
+  body: z.string(),
+  /** Fields that were converted from HTML to text. */
+  html_fields: z.array(z.string()).default([]),
+  removed: z.array(RemovedSegmentSchema).default([]),
+});
+
+/**
+ * Customer-facing question for a required piece of information the ticket is missing.
+ */
+export const TriageInformationRequestSchema = z.object({
+  id: z.string().min(1),
+  /** Ticket topic that made the information relevant (`general` when no topic was detected). */
+  topic: z.string(),
+  question: z.string().min(1),
+});
+
+/**
+ * SLA deadlines for a ticket under its tenant's SLA policy, evaluated at `evaluated_at`.
+ * While a resolution clock is paused, `resolution_due` is projected as if it resumed now.
+ */
+export const TriageSlaSchema = z.object({
+  policy_id: z.string().min(1),
+  tier: z.string().min(1),
+  priority: TicketPrioritySchema,
+  first_response_due: z.string().datetime(),
+  resolution_due: z.string().datetime(),
+  first_response_at: z.string().datetime().optional(),
+  resolved_at: z.string().datetime().optional(),
+  paused: z.boolean().default(false),
+  breach_risk: SlaBreachRiskSchema,
+  evaluated_at: z.string().datetime(),
+});
+
+/**
+ * What the queue should do with the ticket next: answer it, chase the customer,
+ * hand it up, keep waiting on the customer, or nothing (resolved or closed).
+ */
+export const TriageNextActionSchema = z.enum([
+  'respond',
+  'follow_up',
+  'escalate',
+  'await_customer',
+  'none',
+]);
+
 export const TriageResultSchema = z.object({
   ...TenantContextSchema.shape,
   ticket_id: z.string().min(1),
+  disposition: TicketDispositionSchema.default('genuine'),
   urgency: TriageUrgencySchema,
   topics: z.array(TriageTopicSchema),
   missing_info: z.array(z.string()).default([]),
+  entities: z.array(TriageEntitySchema).default([]),
+  information_requests: z.array(TriageInformationRequestSchema).default([]),
+  sentiment: TriageSentimentSchema.optional(),
+  language: TriageLanguageSchema.optional(),
+  customer: TriageCustomerSchema.optional(),
+  /** Set when quoted replies, signatures, legal footers or HTML were stripped from the customer text. */
+  normalization: TriageNormalizationSchema.optional(),
+  /** Earlier tickets from the same customer or organization, most recent first (set when history was available). */
+  prior_ticket_ids: z.array(z.string()).optional(),
+  /** An earlier ticket on the same topic was opened within the repeat-contact window. */
+  repeat_contact: z.boolean().optional(),
   suggested_priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
   suggested_tags: z.array(z.string()).default([]),
   requires_kb_update: z.boolean().default(false),
   requires_human_review: z.boolean().default(false),
+  /** Hit a profile escalation keyword while the profile has `auto_escalate` on. */
+  escalated: z.boolean().default(false),
   reasoning: z.string().optional(),
+  explanations: z.array(TriageExplanationSchema).default([]),
+  /** Canonical ticket this one should be merged into (near-duplicate detection). */
+  duplicate_of: z.string().optional(),
+  cluster_id: z.string().optional(),
+  sla: TriageSlaSchema.optional(),
+  /** Hours since the ticket was created, at `processed_at` (set when aging rules were configured). */
+  age_hours: z.number().nonnegative().optional(),
+  /** An aging rule raised the urgency. */
+  escalated_due_to_age: z.boolean().optional(),
+  next_action: TriageNextActionSchema.optional(),
+  assigned_queue: z.string().optional(),
+  required_skills: z.array(z.string()).default([]),
+  matched_rule_ids: z.array(z.string()).default([]),
+  classifier_version: z.string().optional(),
+  /** Topic taxonomy that produced `topics`, when one was configured. */
+  taxonomy_id: z.string().optional(),
+  taxonomy_version: z.string().optional(),
   processed_at: z.string().datetime().or(z.date()),
 });
 
 export type TriageUrgency = z.infer<typeof TriageUrgencySchema>;
+export type TicketDisposition = z.infer<typeof TicketDispositionSchema>;
 export type TriageTopic = z.infer<typeof TriageTopicSchema>;
+export type TriageExplanationTarget = z.infer<typeof TriageExplanationTargetSchema>;
+export type TriageExplanation = z.infer<typeof TriageExplanationSchema>;
+export type TriageEntityType = z.infer<typeof TriageEntityTypeSchema>;
+export type TriageEntity = z.infer<typeof TriageEntitySchema>;
+export type TriageInformationRequest = z.infer<typeof TriageInformationRequestSchema>;
+export type TriageSentimentSignal = z.infer<typeof TriageSentimentSignalSchema>;
+export type FrustrationLevel = z.infer<typeof FrustrationLevelSchema>;
+export type TriageSentiment = z.infer<typeof TriageSentimentSchema>;
+export type TriageLanguage = z.infer<typeof TriageLanguageSchema>;
+export type TriageCustomer = z.infer<typeof TriageCustomerSchema>;
+export type RemovedSegmentKind = z.infer<typeof RemovedSegmentKindSchema>;
+export type RemovedSegment = z.infer<typeof RemovedSegmentSchema>;
+export type TriageNormalization = z.infer<typeof TriageNormalizationSchema>;
+export type TriageSla = z.infer<typeof TriageSlaSchema>;
+export type TriageNextAction = z.infer<typeof TriageNextActionSchema>;
 export type TriageResult = z.infer<typeof TriageResultSchema>;
 
 export function validateTriageResult(data: unknown): TriageResult {
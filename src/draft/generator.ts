@@ -3,6 +3,10 @@ import type { DraftResponse, DraftStatus } from '../contracts/draft-response.js'
 import type { KBChunk } from '../contracts/kb-source.js';
 import type { TriageResult } from '../contracts/triage-result.js';
 import { createCitation } from './citations.js';
+import { extractProvidedInfo } from '../triage/classifier.js';
+import { hasAgentReply } from '../triage/thread.js';
+import type { InfoRequirementSet } from '../contracts/info-requirement.js';
+import type { NormalizeOptions } from '../utils/normalize.js';
 
 export type TonePreset = 'concise' | 'friendly' | 'technical' | 'empathetic' | 'formal';
 
@@ -11,6 +15,12 @@ export interface DraftOptions {
   includeDisclaimer?: boolean;
   maxLength?: number;
   customInstructions?: string;
+  /** Switch to the `empathetic` tone when triage scored the customer's frustration as high (default true). */
+  autoTone?: boolean;
+  /** Required-information definitions used to skip questions the customer has since answered. */
+  infoRequirements?: InfoRequirementSet[];
+  /** Body normalization used by triage, so answers are looked for in the same text (default on). */
+  normalize?: NormalizeOptions | false;
 }
 
 interface DraftTemplate {
@@ -122,10 +132,17 @@ export function draftResponse(
   kbChunks: KBChunk[],
   options: DraftOptions
 ): DraftResponse {
-  const greeting = getGreeting(ticket, options.tone);
-  const template = TONE_TEMPLATES[options.tone];
+  const tone: TonePreset = options.autoTone !== false && triageResult.sentiment?.frustration_level === 'high'
+    ? 'empathetic'
+    : options.tone;
+  const greeting = getGreeting(ticket, tone);
+  const template = TONE_TEMPLATES[tone];
   
   let body = '';
+
+  if (hasAgentReply(ticket)) {
+    body += 'Thanks for following up. ';
+  }
   
   if (triageResult.topics.length > 0) {
     body += `I see you're asking about ${triageResult.topics.map(t => t.category).join(', ')}. `;
@@ -141,8 +158,18 @@ export function draftResponse(
     }
   }
   
-  if (triageResult.missing_info.length > 0) {
-    body += `\nTo help you further, could you provide: ${triageResult.missing_info.join(', ')}?`;
+  // Never re-ask for something the customer has already supplied later in the thread
+  const provided = new Set(extractProvidedInfo(ticket, { infoRequirements: options.infoRequirements, normalize: options.normalize }));
+  const missingInfo = triageResult.missing_info.filter(info => !provided.has(info));
+  // Results produced before information requests existed carry only missing_info
+  const questions = (triageResult.information_requests ?? []).filter(r => missingInfo.includes(r.id));
+  const unphrased = missingInfo.filter(info => !questions.some(r => r.id === info));
+
+  if (questions.length > 0) {
+    body += `\nTo help you further:\n${questions.map(r => `- ${r.question}`).join('\n')}`;
+  }
+  if (unphrased.length > 0) {
+    body += `\n${questions.length > 0 ? 'Also' : 'To help you further'}, could you provide: ${unphrased.join(', ')}?`;
   }
   
   const citations = relevantChunks.map(chunk => createCitation(chunk, 0.8));
@@ -185,7 +212,7 @@ export function draftResponse(
     body: fullBody,
     citations,
     status,
-    tone: options.tone,
+    tone,
     missing_claims: validation.missingClaims,
     warnings: validation.warnings,
     created_at: new Date().toISOString(),
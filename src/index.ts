@@ -60,6 +60,14 @@ export * from './contracts/kb-source.js';
 export * from './contracts/draft-response.js';
 export * from './contracts/kb-patch.js';
 export * from './contracts/log-event.js';
+export * from './contracts/labeled-ticket.js';
+export * from './contracts/classifier-model.js';
+export * from './contracts/sla-policy.js';
+export * from './contracts/routing-rule.js';
+export * from './contracts/topic-taxonomy.js';
+export * from './contracts/info-requirement.js';
+export * from './contracts/customer-directory.js';
+export * from './contracts/triage-cache.js';
 export {
   ErrorEnvelopeSchema,
   type ErrorEnvelope,
@@ -70,6 +78,7 @@ export {
 } from './contracts/triage-packet.js';
 export * from './kb/index.js';
 export * from './triage/index.js';
+export * from './routing/index.js';
 export * from './draft/index.js';
 export * from './kb-proposals/index.js';
 export * from './jobforge/index.js';
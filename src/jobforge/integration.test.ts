@@ -1,6 +1,8 @@
 import { describe, expect, it } from 'vitest';
 import { analyze, renderReport, validateBundle } from './integration.js';
 import { stableHash } from '../utils/deterministic.js';
+import { triageBatch } from '../triage/batch.js';
+import { validateTickets } from '../contracts/ticket.js';
 import type { JobRequestBundle, ReportEnvelope } from '../contracts/compat.js';
 
 function stripHash<T extends { hash: unknown }>(value: T): Omit<T, 'hash'> {
@@ -42,6 +44,37 @@ describe('jobforge integration', () => {
     expect(report.hash.canonical_json_hash).toBe(stableHash(stripHash(report)));
   });
 
+  it('raises a high-severity finding for incident spikes', () => {
+    const tickets = Array.from({ length: 5 }, (_, i) => ({
+      tenant_id: 'tenant_001',
+      project_id: 'proj_jobforge',
+      id: `ticket_00${i}`,
+      subject: 'API down',
+      body: 'All requests fail with a 500 error.',
+      status: 'open',
+      priority: 'high',
+      created_at: `2024-01-01T00:0${i}:00.000Z`,
+      tags: [],
+      metadata: {},
+    }));
+
+    const options = {
+      tenantId: 'tenant_001',
+      projectId: 'proj_jobforge',
+      traceId: 'trace_abc',
+      stableOutput: true,
+    };
+    const report = analyze({ tickets }, options).reportEnvelope as ReportEnvelope;
+    const incident = report.findings.find(f => f.id.startsWith('support.incident.'));
+
+    expect(incident?.severity).toBe('high');
+    expect(incident?.description).toContain('ticket_000');
+    expect(incident?.description).toContain('2024-01-01T00:00:00.000Z');
+
+    const quiet = analyze({ tickets }, { ...options, incidents: false }).reportEnvelope as ReportEnvelope;
+    expect(quiet.findings.some(f => f.id.startsWith('support.incident.'))).toBe(false);
+  });
+
   it('renders markdown report', () => {
     const inputs = {
       tickets: [],
@@ -127,4 +160,135 @@ describe('jobforge integration', () => {
     expect(validation.valid).toBe(false);
     expect(validation.errors?.some(error => error.includes('missing finops'))).toBe(true);
   });
+
+  it('does not create jobs for auto-replies, bounces or spam', () => {
+    const base = {
+      tenant_id: 'tenant_001',
+      project_id: 'proj_jobforge',
+      status: 'open',
+      priority: 'medium',
+      created_at: '2024-01-01T00:00:00.000Z',
+      tags: [],
+      metadata: {},
+    };
+    const inputs = {
+      tickets: [
+        { ...base, id: 'ticket_001', subject: 'Reset password', body: 'I cannot reset my password.' },
+        { ...base, id: 'ticket_002', subject: 'Automatic reply: Reset password', body: 'I am out of the office.' },
+      ],
+    };
+
+    const result = analyze(inputs, {
+      tenantId: 'tenant_001',
+      projectId: 'proj_jobforge',
+      traceId: 'trace_filter',
+      stableOutput: true,
+    });
+
+    const bundle = result.jobRequestBundle as JobRequestBundle;
+    const report = result.reportEnvelope as ReportEnvelope;
+    expect(bundle.jobs).toHaveLength(1);
+    expect(report.findings.map(f => f.id)).toContain('support.inputs.filtered');
+  });
+
+  it('does not report incidents for a burst of auto-replies', () => {
+    const tickets = Array.from({ length: 5 }, (_, i) => ({
+      tenant_id: 'tenant_001',
+      project_id: 'proj_jobforge',
+      id: `ticket_00${i}`,
+      subject: 'Automatic reply: API down',
+      body: 'I am out of the office.\n\n> All requests fail with a 500 error.',
+      status: 'open',
+      priority: 'high',
+      created_at: `2024-01-01T00:0${i}:00.000Z`,
+      tags: [],
+      metadata: {},
+    }));
+
+    const report = analyze({ tickets }, {
+      tenantId: 'tenant_001',
+      projectId: 'proj_jobforge',
+      traceId: 'trace_filter',
+      stableOutput: true,
+    }).reportEnvelope as ReportEnvelope;
+
+    expect(report.findings.some(f => f.id.startsWith('support.incident.'))).toBe(false);
+  });
+
+  it('reports repeat contacts from one customer as a churn finding', () => {
+    const base = {
+      tenant_id: 'tenant_001',
+      project_id: 'proj_jobforge',
+      status: 'open',
+      priority: 'medium',
+      customer_email: 'jane@acme.example',
+      tags: [],
+      metadata: {},
+    };
+    const inputs = {
+      tickets: [
+        { ...base, id: 'ticket_001', subject: 'Invoice', body: 'My invoice total is wrong.', created_at: '2024-01-01T00:00:00.000Z' },
+        { ...base, id: 'ticket_002', subject: 'Invoice again', body: 'The invoice is still wrong.', created_at: '2024-01-03T00:00:00.000Z' },
+        { ...base, id: 'ticket_003', subject: 'Login', body: 'I cannot login.', created_at: '2024-01-04T00:00:00.000Z' },
+      ],
+    };
+    const options = {
+      tenantId: 'tenant_001',
+      projectId: 'proj_jobforge',
+      traceId: 'trace_repeat',
+      stableOutput: true,
+    };
+
+    const report = analyze(inputs, options).reportEnvelope as ReportEnvelope;
+    const repeats = report.findings.filter(f => f.id.startsWith('support.repeat_contact.'));
+
+    expect(repeats).toHaveLength(1);
+    expect(repeats[0].severity).toBe('high');
+    expect(repeats[0].description).toContain('about billing');
+    expect(repeats[0].description).toContain('ticket_001, ticket_002.');
+    expect(repeats[0].description).not.toContain('jane@acme.example');
+
+    const quiet = analyze(inputs, { ...options, repeatContact: false }).reportEnvelope as ReportEnvelope;
+    expect(quiet.findings.some(f => f.id.startsWith('support.repeat_contact.'))).toBe(false);
+  });
+
+  it('reports priority conflicts and marks their triage jobs for correction', () => {
+    const base = {
+      tenant_id: 'tenant_001',
+      project_id: 'proj_jobforge',
+      status: 'open',
+      customer_email: 'jane@acme.example',
+      tags: [],
+      metadata: {},
+    };
+    const tickets = validateTickets([
+      { ...base, id: 'ticket_001', subject: 'Export', body: 'How do I export a report?', priority: 'urgent', created_at: '2024-01-01T00:00:00.000Z' },
+      { ...base, id: 'ticket_002', subject: 'Teammates', body: 'How do I add a teammate?', priority: 'urgent', created_at: '2024-01-02T00:00:00.000Z' },
+      { ...base, id: 'ticket_003', subject: 'Outage', body: 'Production is down.', priority: 'low', created_at: '2024-01-03T00:00:00.000Z' },
+    ]);
+    const inputs = { tickets, triage_results: triageBatch(tickets, { repeatContact: false }).results };
+    const options = {
+      tenantId: 'tenant_001',
+      projectId: 'proj_jobforge',
+      traceId: 'trace_priority',
+      stableOutput: true,
+    };
+
+    const result = analyze(inputs, options);
+    const report = result.reportEnvelope as ReportEnvelope;
+    const summary = report.findings.find(f => f.id === 'support.priority.reconciliation');
+    const customers = report.findings.filter(f => f.id.startsWith('support.priority.customer.'));
+
+    expect(summary?.severity).toBe('high');
+    expect(summary?.description).toContain('Over-prioritized: ticket_001, ticket_002. Under-prioritized: ticket_003.');
+    expect(customers).toHaveLength(1);
+    expect(customers[0].description).not.toContain('jane@acme.example');
+
+    const job = result.jobRequestBundle.jobs.find(j => j.payload.ticket_id === 'ticket_001');
+    expect(job?.metadata.priority_reconciliation).toMatchObject({ kind: 'over_prioritized', customer_priority: 'urgent', assessed_priority: 'medium' });
+    expect(validateBundle(result.jobRequestBundle).valid).toBe(true);
+
+    const quiet = analyze(inputs, { ...options, priorityReconciliation: false });
+    expect(quiet.reportEnvelope.findings.some(f => f.id.startsWith('support.priority.'))).toBe(false);
+  });
 });
@@ -15,6 +15,16 @@ import {
   type Finding,
 } from '../contracts/compat.js';
 import { stableHash, withCanonicalHash } from '../utils/deterministic.js';
+import { detectIncidents, type IncidentCandidate, type IncidentDetectionOptions } from '../triage/incidents.js';
+import { prefilterTicket } from '../triage/prefilter.js';
+import { classifyTopics } from '../triage/classifier.js';
+import { detectRepeatContacts, type RepeatContact, type RepeatContactOptions } from '../triage/history.js';
+import {
+  reconcilePriorities,
+  type PriorityConflict,
+  type PriorityReconciliation,
+  type ReconcileOptions,
+} from '../triage/reconcile.js';
 
 const MODULE_ID = 'support' as const;
 const SCHEMA_VERSION = schema_version;
@@ -39,6 +49,15 @@ export interface AnalyzeOptions {
   traceId: string;
   stableOutput?: boolean;
   now?: Date;
+  /** Incident spike detection over the input tickets; `false` turns it off. */
+  incidents?: IncidentDetectionOptions | false;
+  /** Repeat contacts from the same customer on the same topic; `false` turns detection off. */
+  repeatContact?: RepeatContactOptions | false;
+  /**
+   * Customer-set priorities checked against the supplied triage results; `false` turns it off.
+   * Triage jobs of conflicting tickets carry `priority_reconciliation` metadata.
+   */
+  priorityReconciliation?: ReconcileOptions | false;
 }
 
 export interface AnalyzeResult {
@@ -99,7 +118,8 @@ function ensureTenantScope(
 function buildJobRequest(
   jobType: JobRequest['job_type'],
   payload: Record<string, unknown>,
-  options: AnalyzeOptions
+  options: AnalyzeOptions,
+  metadata: Record<string, unknown> = {}
 ): JobRequest {
   const createdAt = options.stableOutput === true
     ? STABLE_TIMESTAMP
@@ -128,35 +148,135 @@ function buildJobRequest(
     requires_policy_token: ACTION_JOB_TYPES.has(jobType),
     metadata: {
       finops: buildFinOpsMetadata(jobType),
+      ...metadata,
     },
   };
 }
 
-function buildTriageJobs(tickets: Ticket[], options: AnalyzeOptions): JobRequest[] {
-  return tickets.map(ticket => buildJobRequest(
-    'autopilot.support.triage',
-    {
-      ticket_id: ticket.id,
-      subject: ticket.subject,
-      body_preview: ticket.body.slice(0, 500),
-      ticket_priority: ticket.priority,
-      ticket_status: ticket.status,
+/**
+ * Job metadata reviewers use to correct a ticket's priority.
+ */
+export function priorityReconciliationMetadata(conflict: PriorityConflict): Record<string, unknown> {
+  return {
+    priority_reconciliation: {
+      kind: conflict.kind,
+      customer_priority: conflict.customer_priority,
+      assessed_priority: conflict.assessed_priority,
+      gap: conflict.gap,
+      reasons: conflict.reasons,
     },
-    options
-  ));
+  };
+}
+
+function buildTriageJobs(
+  tickets: Ticket[],
+  options: AnalyzeOptions,
+  reconciliation?: PriorityReconciliation
+): JobRequest[] {
+  const conflicts = new Map(reconciliation?.conflicts.map(conflict => [conflict.ticket_id, conflict]));
+  return tickets.map(ticket => {
+    const conflict = conflicts.get(ticket.id);
+    return buildJobRequest(
+      'autopilot.support.triage',
+      {
+        ticket_id: ticket.id,
+        subject: ticket.subject,
+        body_preview: ticket.body.slice(0, 500),
+        ticket_priority: ticket.priority,
+        ticket_status: ticket.status,
+      },
+      options,
+      conflict ? priorityReconciliationMetadata(conflict) : {}
+    );
+  });
+}
+
+function buildIncidentFinding(incident: IncidentCandidate): Finding {
+  return {
+    id: `support.incident.${incident.incident_id}`,
+    severity: 'high',
+    title: `Possible incident: ${incident.ticket_ids.length} related tickets`,
+    description: `${incident.ticket_ids.length} ticket(s) reporting ${incident.signals.slice(0, 3).join(', ')} `
+      + `between ${incident.first_seen} and ${incident.last_seen} `
+      + `(${incident.tickets_per_hour} tickets/hour, growth rate ${incident.growth_rate}). `
+      + `Affected tickets: ${incident.ticket_ids.join(', ')}.`,
+    evidence: [],
+  };
+}
+
+function buildRepeatContactFinding(contact: RepeatContact): Finding {
+  return {
+    id: `support.repeat_contact.${contact.contact_id}`,
+    severity: 'high',
+    title: `Repeat contact: ${contact.ticket_ids.length} tickets from one customer`,
+    description: `One customer opened ${contact.ticket_ids.length} ticket(s) about ${contact.topics.join(', ')} `
+      + `between ${contact.first_seen} and ${contact.last_seen}; repeat contacts are a churn risk. `
+      + `Tickets: ${contact.ticket_ids.join(', ')}.`,
+    evidence: [],
+  };
+}
+
+function buildPriorityFindings(reconciliation: PriorityReconciliation): Finding[] {
+  const { conflicts, over_prioritized: over, under_prioritized: under } = reconciliation;
+  if (conflicts.length === 0) {
+    return [];
+  }
+  const ids = (kind: PriorityConflict['kind']): string =>
+    conflicts.filter(c => c.kind === kind).map(c => c.ticket_id).join(', ') || 'none';
+
+  const findings: Finding[] = [{
+    id: 'support.priority.reconciliation',
+    // A ticket triage rates above what the customer set may be sitting in the wrong queue
+    severity: under > 0 ? 'high' : 'medium',
+    title: `Priority conflicts: ${over} over-prioritized, ${under} under-prioritized`,
+    description: `The customer-set priority disagrees with triage on ${conflicts.length} of ${reconciliation.ticket_count} ticket(s). `
+      + `Over-prioritized: ${ids('over_prioritized')}. Under-prioritized: ${ids('under_prioritized')}. `
+      + 'Their triage jobs carry priority_reconciliation metadata for bulk correction.',
+    evidence: [],
+  }];
+
+  for (const customer of reconciliation.customers) {
+    findings.push({
+      id: `support.priority.customer.${stableHash(customer.customer).slice(0, 12)}`,
+      severity: 'low',
+      title: `Customer over-prioritizes ${customer.over_prioritized} of ${customer.ticket_count} tickets`,
+      description: `${customer.account_id !== undefined ? `Account ${customer.account_id}` : 'One customer'} set a higher priority than triage `
+        + `assessed on ${(customer.over_rate * 100).toFixed(1)}% of their tickets. Tickets: ${customer.ticket_ids.join(', ')}.`,
+      evidence: [],
+    });
+  }
+
+  return findings;
 }
 
-function buildFindings(tickets: Ticket[], triageResults: TriageResult[]): Finding[] {
+function buildFindings(
+  tickets: Ticket[],
+  triageResults: TriageResult[],
+  incidents: IncidentCandidate[],
+  repeatContacts: RepeatContact[],
+  reconciliation: PriorityReconciliation | undefined,
+  jobCount: number
+): Finding[] {
   const findings: Finding[] = [
     {
       id: 'support.jobforge.bundle.created',
       severity: 'info',
       title: 'JobForge bundle prepared',
-      description: `Prepared ${tickets.length} triage job request(s) for JobForge.`,
+      description: `Prepared ${jobCount} triage job request(s) for JobForge.`,
       evidence: [],
     },
   ];
 
+  if (jobCount < tickets.length) {
+    findings.push({
+      id: 'support.inputs.filtered',
+      severity: 'info',
+      title: 'Non-customer mail skipped',
+      description: `${tickets.length - jobCount} ticket(s) were auto-replies, bounces or spam; no job requests were created for them.`,
+      evidence: [],
+    });
+  }
+
   if (triageResults.length > 0) {
     findings.push({
       id: 'support.triage.results.provided',
@@ -167,6 +287,18 @@ function buildFindings(tickets: Ticket[], triageResults: TriageResult[]): Findin
     });
   }
 
+  for (const incident of incidents) {
+    findings.push(buildIncidentFinding(incident));
+  }
+
+  for (const contact of repeatContacts) {
+    findings.push(buildRepeatContactFinding(contact));
+  }
+
+  if (reconciliation) {
+    findings.push(...buildPriorityFindings(reconciliation));
+  }
+
   if (tickets.length === 0) {
     findings.push({
       id: 'support.inputs.empty',
@@ -185,9 +317,13 @@ function buildReportEnvelope(
   projectId: string,
   traceId: string,
   tickets: Ticket[],
-  triageResults: TriageResult[]
+  triageResults: TriageResult[],
+  incidents: IncidentCandidate[],
+  repeatContacts: RepeatContact[],
+  reconciliation: PriorityReconciliation | undefined,
+  jobCount: number
 ): ReportEnvelope {
-  const findings = buildFindings(tickets, triageResults);
+  const findings = buildFindings(tickets, triageResults, incidents, repeatContacts, reconciliation, jobCount);
 
   return ReportEnvelopeSchema.parse(withCanonicalHash({
     schema_version: SCHEMA_VERSION,
@@ -196,7 +332,7 @@ function buildReportEnvelope(
     tenant_id: tenantId,
     project_id: projectId,
     trace_id: traceId,
-    summary: `Support autopilot analyzed ${tickets.length} ticket(s) and prepared ${tickets.length} job request(s).`,
+    summary: `Support autopilot analyzed ${tickets.length} ticket(s) and prepared ${jobCount} job request(s).`,
     findings,
     metadata: {
       ticket_count: tickets.length,
@@ -229,6 +365,26 @@ function buildBundle(
   }));
 }
 
+/**
+ * Topics for repeat-contact detection: from the supplied triage results, classified on the fly otherwise.
+ * Tickets outside `genuine` are not customer contacts.
+ */
+function repeatContactTopics(genuine: Ticket[], triageResults: TriageResult[]): (ticket: Ticket) => string[] | undefined {
+  const byId = new Map(triageResults.map(result => [result.ticket_id, result.topics.map(t => t.category)]));
+  const contacts = new Set(genuine);
+  return ticket => {
+    if (!contacts.has(ticket)) {
+      return undefined;
+    }
+    let topics = byId.get(ticket.id);
+    if (topics === undefined) {
+      topics = classifyTopics(ticket).map(t => t.category);
+      byId.set(ticket.id, topics);
+    }
+    return topics;
+  };
+}
+
 export function analyze(inputs: AnalyzeInputs, options: AnalyzeOptions): AnalyzeResult {
   const parsedInputs = AnalyzeInputSchema.parse(inputs);
   const tenantId = options.tenantId;
@@ -257,10 +413,23 @@ export function analyze(inputs: AnalyzeInputs, options: AnalyzeOptions): Analyze
   ensureTenantScope(runManifests, tenantId, projectId);
   ensureTenantScope(kbSources, tenantId, projectId);
 
-  const jobs = buildTriageJobs(tickets, options);
+  // Auto-replies, bounces and spam never become jobs or incidents
+  const genuine = tickets.filter(t => prefilterTicket(t).disposition === 'genuine');
+  const reconciliation = options.priorityReconciliation === false || triageResults.length === 0
+    ? undefined
+    : reconcilePriorities(genuine, triageResults, options.priorityReconciliation);
+  const jobs = buildTriageJobs(genuine, options, reconciliation);
+  const incidents = options.incidents === false
+    ? []
+    : detectIncidents(genuine, triageResults, options.incidents);
+  const repeatContacts = options.repeatContact === false
+    ? []
+    : detectRepeatContacts(genuine, repeatContactTopics(genuine, triageResults), options.repeatContact);
 
   return {
-    reportEnvelope: buildReportEnvelope(tenantId, projectId, traceId, tickets, triageResults),
+    reportEnvelope: buildReportEnvelope(
+      tenantId, projectId, traceId, tickets, triageResults, incidents, repeatContacts, reconciliation, jobs.length
+    ),
     jobRequestBundle: buildBundle(tenantId, projectId, traceId, jobs),
   };
 }
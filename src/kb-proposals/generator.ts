@@ -1,11 +1,14 @@
 import type { TriageResult } from '../contracts/triage-result.js';
 import type { KBPatchProposal, KBPatchType } from '../contracts/kb-patch.js';
 import type { Ticket } from '../contracts/ticket.js';
+import { rollUpTopic } from '../triage/taxonomy.js';
 
 export interface KBProposalOptions {
   tenantId: string;
   projectId: string;
   relatedTickets?: Ticket[];
+  /** Taxonomy levels kept when grouping by topic (`billing/refunds/partial-refund` at 1 is `billing`); all levels when omitted. */
+  topicDepth?: number;
 }
 
 function generateFaqContent(triageResults: TriageResult[]): string {
@@ -173,7 +176,10 @@ export function batchProposePatches(
   const grouped = new Map<string, TriageResult[]>();
   
   for (const result of triageResults) {
-    const key = result.topics[0]?.category ?? 'general';
+    const category = result.topics[0]?.category;
+    const key = category === undefined
+      ? 'general'
+      : options.topicDepth === undefined ? category : rollUpTopic(category, options.topicDepth);
     if (!grouped.has(key)) {
       grouped.set(key, []);
     }
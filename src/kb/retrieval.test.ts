@@ -219,3 +219,34 @@ describe('retrieveForTicket', () => {
     expect(results.length).toBeGreaterThan(0);
   });
 });
+
+describe('multilingual terms', () => {
+  const sourceWith = (id: string, content: string): KBSource => ({
+    tenant_id: 't1',
+    project_id: 'p1',
+    id,
+    type: 'markdown',
+    title: id,
+    content,
+    chunks: [{ id: `${id}-c1`, content, source_id: id, start_line: 0, end_line: 1, heading_path: [], metadata: {} }],
+    ingested_at: new Date().toISOString(),
+    metadata: {},
+  });
+
+  it('should index accented words with accents folded', () => {
+    const index = buildIndex('t1', 'p1', [sourceWith('es', 'Configuración de la facturación')]);
+
+    expect(index.termIndex.has('facturacion')).toBe(true);
+    expect(search(index, 'facturación')[0].chunk.source_id).toBe('es');
+  });
+
+  it('should index Japanese text as character bigrams', () => {
+    const index = buildIndex('t1', 'p1', [
+      sourceWith('billing', '請求書の再発行について'),
+      sourceWith('login', 'ログインできない場合'),
+    ]);
+
+    expect(index.termIndex.has('請求')).toBe(true);
+    expect(search(index, '請求書が届かない')[0].chunk.source_id).toBe('billing');
+  });
+});
@@ -1,4 +1,6 @@
 import type { KBChunk, KBSource } from '../contracts/kb-source.js';
+import { foldDiacritics, isCjkWord, segmentWords } from '../utils/language.js';
+import { normalizeText } from '../utils/normalize.js';
 
 export interface RetrievalResult {
   chunk: KBChunk;
@@ -30,6 +32,16 @@ const STOP_WORDS = new Set([
   'when', 'that', 'which', 'who', 'whom', 'whose', 'what',
   'this', 'these', 'those', 'i', 'you', 'he', 'she', 'it',
   'we', 'they', 'me', 'him', 'her', 'us', 'them',
+  // German
+  'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'und',
+  'oder', 'aber', 'ist', 'sind', 'war', 'wird', 'werden', 'mit', 'von', 'fur', 'auf', 'aus',
+  'bei', 'nach', 'uber', 'wie', 'wenn', 'dass', 'sie', 'ich', 'wir', 'ihr', 'nicht', 'auch',
+  // French
+  'les', 'des', 'une', 'est', 'sont', 'pour', 'par', 'dans', 'sur', 'avec', 'que', 'qui',
+  'pas', 'vous', 'nous', 'mais', 'comme', 'aux', 'ces', 'son', 'ses', 'leur', 'votre',
+  // Spanish
+  'los', 'las', 'una', 'uno', 'del', 'por', 'para', 'con', 'que', 'como', 'pero', 'son',
+  'esta', 'este', 'estos', 'sus', 'muy', 'mas', 'nos', 'usted',
 ]);
 
 // LRU cache management
@@ -108,9 +120,27 @@ function extractTerms(text: string): string[] {
     return cached;
   }
 
-  const normalized = text.toLowerCase();
-  const words = normalized.match(/\b[a-z]+\b/g) ?? [];
-  const terms = [...new Set(words.filter(w => !STOP_WORDS.has(w) && w.length > 2))];
+  // Unicode words with accents folded, so "facturación" and "facturacion" share a term;
+  // Japanese has no word spaces, so consecutive characters are indexed as bigrams
+  const words: string[] = [];
+  let previousCjk: { value: string; end: number } | undefined;
+  for (const word of segmentWords(text)) {
+    if (!isCjkWord(word.value)) {
+      previousCjk = undefined;
+      // Elisions and contractions ("l'erreur", "don't") split at the apostrophe
+      for (const part of foldDiacritics(word.value).split("'")) {
+        if (/^\p{L}+$/u.test(part) && part.length > 2 && !STOP_WORDS.has(part)) {
+          words.push(part);
+        }
+      }
+      continue;
+    }
+    if (previousCjk?.end === word.start) {
+      words.push(previousCjk.value + word.value);
+    }
+    previousCjk = word;
+  }
+  const terms = [...new Set(words)];
   
   // Cache result
   setCachedTerms(text, terms);
@@ -173,6 +203,7 @@ export function retrieveForTicket(
     minScore?: number;
   }
 ): RetrievalResult[] {
-  const query = `${ticketSubject} ${ticketBody}`.slice(0, 500);
+  // Quoted history and signatures would crowd the customer's question out of the query
+  const query = `${ticketSubject} ${normalizeText(ticketBody).text}`.slice(0, 500);
   return search(index, query, options);
 }
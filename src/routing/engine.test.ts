@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import {
+  explainRouting,
+  parseRoutingConfigs,
+  resolveRoutingField,
+  routeTicket,
+  selectRoutingConfig,
+  validateRoutingRules,
+} from './engine.js';
+import { triageTicket } from '../triage/classifier.js';
+import { validateRoutingConfig, type RoutingConfig } from '../contracts/routing-rule.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'route-1',
+  subject: 'Invoice question',
+  body: 'We were charged twice on our invoice.',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-01-01T00:00:00.000Z',
+  tags: ['enterprise'],
+  messages: [],
+  metadata: { plan: 'enterprise', seats: 250 },
+  ...overrides,
+});
+
+const config: RoutingConfig = validateRoutingConfig({
+  tenant_id: 't1',
+  default_queue: 'general',
+  rules: [
+    {
+      id: 'billing',
+      all: [{ field: 'topic', value: 'billing' }],
+      queue: 'billing',
+      skills: ['billing'],
+    },
+    {
+      id: 'billing-enterprise',
+      priority: 10,
+      all: [
+        { field: 'topic', value: 'billing' },
+        { field: 'tag', value: 'Enterprise' },
+      ],
+      queue: 'billing-tier2',
+      skills: ['finance'],
+    },
+    {
+      id: 'large-account',
+      all: [{ field: 'metadata.seats', operator: 'gte', value: 100 }],
+      skills: ['account-management'],
+    },
+  ],
+});
+
+describe('routing engine', () => {
+  it('should assign the queue of the highest-priority matching rule and merge skills', () => {
+    const ticket = createTestTicket();
+    const decision = routeTicket(ticket, triageTicket(ticket), config);
+
+    expect(decision).toEqual({
+      assigned_queue: 'billing-tier2',
+      required_skills: ['finance', 'billing', 'account-management'],
+      matched_rule_ids: ['billing-enterprise', 'billing', 'large-account'],
+    });
+  });
+
+  it('should fall back to the default queue', () => {
+    const ticket = createTestTicket({ subject: 'Hello', body: 'Just saying hi', tags: [], metadata: {} });
+    const trace = explainRouting(ticket, triageTicket(ticket), config);
+
+    expect(trace.assigned_queue).toBe('general');
+    expect(trace.queue_source).toBe('default');
+    expect(trace.matched_rule_ids).toEqual([]);
+  });
+
+  it('should stop evaluating after a rule with stop', () => {
+    const stopping = validateRoutingConfig({
+      rules: [
+        { id: 'first', all: [{ field: 'priority', value: 'medium' }], queue: 'q1', stop: true },
+        { id: 'second', all: [{ field: 'priority', value: 'medium' }], skills: ['extra'] },
+      ],
+    });
+    const ticket = createTestTicket();
+    const trace = explainRouting(ticket, triageTicket(ticket), stopping);
+
+    expect(trace.matched_rule_ids).toEqual(['first']);
+    expect(trace.rules[1]).toMatchObject({ rule_id: 'second', skipped: true });
+  });
+
+  it('should explain every condition', () => {
+    const ticket = createTestTicket({ tags: [] });
+    const trace = explainRouting(ticket, triageTicket(ticket), config);
+    const enterprise = trace.rules.find(r => r.rule_id === 'billing-enterprise');
+
+    expect(enterprise?.matched).toBe(false);
+    expect(enterprise?.conditions[1]).toMatchObject({ field: 'tag', expected: 'Enterprise', passed: false });
+  });
+
+  it('should support any-of conditions and negative operators', () => {
+    const rules = validateRoutingConfig({
+      rules: [{
+        id: 'non-free',
+        all: [{ field: 'metadata.plan', operator: 'not_in', value: ['free', 'trial'] }],
+        any: [
+          { field: 'subject', operator: 'contains', value: 'refund' },
+          { field: 'body', operator: 'matches', value: 'charged\\s+twice' },
+        ],
+        queue: 'refunds',
+      }],
+    });
+    const ticket = createTestTicket();
+
+    expect(routeTicket(ticket, triageTicket(ticket), rules).assigned_queue).toBe('refunds');
+
+    const free = createTestTicket({ metadata: { plan: 'free' } });
+    expect(routeTicket(free, triageTicket(free), rules).assigned_queue).toBeUndefined();
+  });
+
+  it('should resolve ticket, metadata and result fields', () => {
+    const ticket = createTestTicket();
+    const result = triageTicket(ticket);
+
+    expect(resolveRoutingField('metadata.plan', ticket, result)).toBe('enterprise');
+    expect(resolveRoutingField('urgency', ticket, result)).toBe(result.urgency);
+    expect(resolveRoutingField('ticket.status', ticket, result)).toBe('open');
+    expect(resolveRoutingField('topic', ticket, result)).toContain('billing');
+  });
+
+  it('should pick the most specific config', () => {
+    const tenantWide = { ...config, default_queue: 'tenant' };
+    const project = { ...config, project_id: 'p1', default_queue: 'project' };
+    const global = { rules: [], default_queue: 'global' };
+
+    expect(selectRoutingConfig([global, tenantWide, project], createTestTicket())?.default_queue).toBe('project');
+    expect(selectRoutingConfig([global, tenantWide], createTestTicket())?.default_queue).toBe('tenant');
+    expect(selectRoutingConfig([global], createTestTicket({ tenant_id: 'other' }))?.default_queue).toBe('global');
+  });
+});
+
+describe('routing validation', () => {
+  it('should report rule mistakes', () => {
+    const result = validateRoutingRules({
+      rules: [
+        { id: 'dup', all: [{ field: 'topic', value: 'billing' }], queue: 'a' },
+        { id: 'dup', all: [{ field: 'topc', value: 'billing' }], queue: 'b' },
+        { id: 'empty', queue: 'c' },
+        { id: 'no-target', all: [{ field: 'urgency', operator: 'in', value: 'high' }] },
+        { id: 'regex', all: [{ field: 'body', operator: 'matches', value: '([' }], queue: 'd' },
+      ],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.join('\n')).toContain('duplicate rule id');
+    expect(result.errors.join('\n')).toContain('unknown field "topc"');
+    expect(result.errors.join('\n')).toContain('rule has no conditions');
+    expect(result.errors.join('\n')).toContain('assigns neither a queue nor skills');
+    expect(result.errors.join('\n')).toContain('requires a list');
+    expect(result.errors.join('\n')).toContain('invalid pattern');
+  });
+
+  it('should report schema errors', () => {
+    expect(validateRoutingRules({ rules: [{ queue: 'x' }] }).valid).toBe(false);
+  });
+
+  it('should throw a validation error when parsing invalid rules', () => {
+    expect(() => parseRoutingConfigs({ rules: [{ id: 'x', queue: 'y' }] })).toThrow(/Invalid routing rules/);
+    expect(parseRoutingConfigs([config])).toHaveLength(1);
+  });
+});
+
+describe('routing in triage', () => {
+  it('should add routing fields and explanations to the triage result', () => {
+    const result = triageTicket(createTestTicket(), { routing: [config] });
+
+    expect(result.assigned_queue).toBe('billing-tier2');
+    expect(result.required_skills).toContain('finance');
+    expect(result.matched_rule_ids[0]).toBe('billing-enterprise');
+    expect(result.explanations).toContainEqual(expect.objectContaining({
+      target: 'routing',
+      rule: 'billing-enterprise',
+      value: 'billing-tier2',
+    }));
+  });
+
+  it('should leave results unrouted without a matching config', () => {
+    const result = triageTicket(createTestTicket({ tenant_id: 'other' }), { routing: [config] });
+
+    expect(result.assigned_queue).toBeUndefined();
+    expect(result.matched_rule_ids).toEqual([]);
+  });
+});
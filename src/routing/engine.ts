@@ -0,0 +1,389 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { ZodIssue } from 'zod';
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageResult } from '../contracts/triage-result.js';
+import {
+  RoutingConfigArraySchema,
+  type RoutingCondition,
+  type RoutingConfig,
+  type RoutingRule,
+} from '../contracts/routing-rule.js';
+import { ExitCode, RunnerException } from '../runner/errors.js';
+import { topicAncestors } from '../triage/taxonomy.js';
+
+/**
+ * Declarative queue and skill routing.
+ *
+ * Rules are evaluated against the ticket and its triage result in descending
+ * priority (file order breaks ties). The first matching rule with a `queue`
+ * assigns it; skills from every matching rule are combined. A rule with
+ * `stop: true` ends evaluation. String comparisons ignore case.
+ */
+
+/** Triage result as routing sees it, before the routing fields are filled in. */
+export type RoutableResult = Omit<TriageResult, 'assigned_queue' | 'required_skills' | 'matched_rule_ids'>;
+
+export interface RoutingDecision {
+  assigned_queue?: string;
+  required_skills: string[];
+  matched_rule_ids: string[];
+}
+
+export interface ConditionTrace {
+  field: string;
+  operator: RoutingCondition['operator'];
+  expected?: RoutingCondition['value'];
+  actual: unknown;
+  passed: boolean;
+}
+
+export interface RuleTrace {
+  rule_id: string;
+  priority: number;
+  matched: boolean;
+  /** Not evaluated because an earlier matching rule had `stop: true`. */
+  skipped: boolean;
+  conditions: ConditionTrace[];
+}
+
+export interface RoutingTrace extends RoutingDecision {
+  ticket_id: string;
+  queue_source: 'rule' | 'default' | 'none';
+  rules: RuleTrace[];
+}
+
+export interface RoutingValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+const BARE_FIELDS = new Set([
+  'topic', 'topics', 'tag', 'tags', 'urgency', 'priority', 'status',
+  'subject', 'body', 'customer_email', 'customer_name', 'created_at', 'updated_at',
+  'missing_info', 'suggested_priority', 'suggested_tags',
+  'requires_human_review', 'requires_kb_update', 'classifier_version',
+  'duplicate_of', 'cluster_id',
+]);
+
+const FIELD_PREFIXES = ['metadata.', 'ticket.', 'result.', 'sla.'];
+
+const NUMERIC_OPERATORS = new Set(['gt', 'gte', 'lt', 'lte']);
+const LIST_OPERATORS = new Set(['in', 'not_in']);
+
+const regexCache = new Map<string, RegExp>();
+
+function getRegex(pattern: string): RegExp {
+  let regex = regexCache.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern, 'i');
+    regexCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+function getPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Value of a routing field for a ticket and its triage result.
+ */
+export function resolveRoutingField(field: string, ticket: Ticket, result: RoutableResult): unknown {
+  const [head, ...rest] = field.split('.');
+
+  switch (head) {
+    case 'topic':
+    case 'topics':
+      // Hierarchical topics also match their ancestors ("billing" matches "billing/refunds")
+      return [...new Set(result.topics.flatMap(t => topicAncestors(t.category)))];
+    case 'tag':
+    case 'tags':
+      return [...new Set([...ticket.tags, ...result.suggested_tags])];
+    case 'metadata':
+      return getPath(ticket.metadata, rest);
+    case 'ticket':
+      return getPath(ticket, rest);
+    case 'result':
+      return getPath(result, rest);
+    default:
+      return head in result
+        ? getPath(result, [head, ...rest])
+        : getPath(ticket, [head, ...rest]);
+  }
+}
+
+function sameValue(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    return actual.toLowerCase() === expected.toLowerCase();
+  }
+  return actual === expected;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+function testValue(actual: unknown, condition: RoutingCondition): boolean {
+  const expected = condition.value;
+  const expectedList = Array.isArray(expected) ? expected : [expected];
+
+  switch (condition.operator) {
+    case 'equals':
+      return sameValue(actual, expected);
+    case 'in':
+      return expectedList.some(e => sameValue(actual, e));
+    case 'contains':
+      return typeof actual === 'string' && typeof expected === 'string'
+        && actual.toLowerCase().includes(expected.toLowerCase());
+    case 'matches':
+      return typeof actual === 'string' && typeof expected === 'string' && getRegex(expected).test(actual);
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const left = toNumber(actual);
+      const right = toNumber(expected);
+      if (left === undefined || right === undefined) {
+        return false;
+      }
+      return condition.operator === 'gt' ? left > right
+        : condition.operator === 'gte' ? left >= right
+        : condition.operator === 'lt' ? left < right
+        : left <= right;
+    }
+    default:
+      return false;
+  }
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') {
+    return false;
+  }
+  return !Array.isArray(value) || value.length > 0;
+}
+
+/**
+ * Whether an already-resolved field value passes a condition.
+ */
+export function conditionPasses(condition: RoutingCondition, actual: unknown): boolean {
+  const values = Array.isArray(actual) ? (actual as unknown[]) : [actual];
+
+  switch (condition.operator) {
+    case 'exists':
+      return isPresent(actual);
+    case 'not_equals':
+      return !values.some(v => sameValue(v, condition.value));
+    case 'not_in': {
+      const expectedList = Array.isArray(condition.value) ? condition.value : [condition.value];
+      return !values.some(v => expectedList.some(e => sameValue(v, e)));
+    }
+    default:
+      return values.some(v => testValue(v, condition));
+  }
+}
+
+export function evaluateCondition(
+  condition: RoutingCondition,
+  ticket: Ticket,
+  result: RoutableResult
+): ConditionTrace {
+  const actual = resolveRoutingField(condition.field, ticket, result);
+
+  return {
+    field: condition.field,
+    operator: condition.operator,
+    ...(condition.value !== undefined && { expected: condition.value }),
+    actual,
+    passed: conditionPasses(condition, actual),
+  };
+}
+
+function evaluateRule(rule: RoutingRule, ticket: Ticket, result: RoutableResult): RuleTrace {
+  const all = rule.all.map(c => evaluateCondition(c, ticket, result));
+  const any = rule.any.map(c => evaluateCondition(c, ticket, result));
+  const matched = all.every(c => c.passed) && (any.length === 0 || any.some(c => c.passed));
+
+  return {
+    rule_id: rule.id,
+    priority: rule.priority,
+    matched,
+    skipped: false,
+    conditions: [...all, ...any],
+  };
+}
+
+function orderRules(rules: RoutingRule[]): RoutingRule[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index)
+    .map(({ rule }) => rule);
+}
+
+/**
+ * Evaluate every rule and record why each did or did not match.
+ */
+export function explainRouting(ticket: Ticket, result: RoutableResult, config: RoutingConfig): RoutingTrace {
+  const traces: RuleTrace[] = [];
+  const matchedRuleIds: string[] = [];
+  const skills = new Set<string>();
+  let queue: string | undefined;
+  let stopped = false;
+
+  for (const rule of orderRules(config.rules)) {
+    if (stopped) {
+      traces.push({ rule_id: rule.id, priority: rule.priority, matched: false, skipped: true, conditions: [] });
+      continue;
+    }
+
+    const trace = evaluateRule(rule, ticket, result);
+    traces.push(trace);
+    if (!trace.matched) {
+      continue;
+    }
+
+    matchedRuleIds.push(rule.id);
+    queue ??= rule.queue;
+    for (const skill of rule.skills) {
+      skills.add(skill);
+    }
+    stopped = rule.stop;
+  }
+
+  const assignedQueue = queue ?? config.default_queue;
+
+  return {
+    ticket_id: ticket.id,
+    ...(assignedQueue !== undefined && { assigned_queue: assignedQueue }),
+    required_skills: [...skills],
+    matched_rule_ids: matchedRuleIds,
+    queue_source: queue !== undefined ? 'rule' : assignedQueue !== undefined ? 'default' : 'none',
+    rules: traces,
+  };
+}
+
+export function routeTicket(ticket: Ticket, result: RoutableResult, config: RoutingConfig): RoutingDecision {
+  const { assigned_queue, required_skills, matched_rule_ids } = explainRouting(ticket, result, config);
+  return {
+    ...(assigned_queue !== undefined && { assigned_queue }),
+    required_skills,
+    matched_rule_ids,
+  };
+}
+
+/**
+ * Most specific routing config for the ticket: project, then tenant, then tenant-agnostic.
+ */
+export function selectRoutingConfig(configs: RoutingConfig[], ticket: Ticket): RoutingConfig | undefined {
+  return configs.find(c => c.tenant_id === ticket.tenant_id && c.project_id === ticket.project_id)
+    ?? configs.find(c => c.tenant_id === ticket.tenant_id && c.project_id === undefined)
+    ?? configs.find(c => c.tenant_id === undefined);
+}
+
+function formatIssue(issue: ZodIssue): string {
+  return `${issue.path.join('.') || '(root)'}: ${issue.message}`;
+}
+
+function checkCondition(condition: RoutingCondition, where: string, errors: string[]): void {
+  const { field, operator, value } = condition;
+
+  const known = BARE_FIELDS.has(field)
+    || FIELD_PREFIXES.some(prefix => field.startsWith(prefix) && field.length > prefix.length);
+  if (!known) {
+    errors.push(`${where}: unknown field "${field}"`);
+  }
+
+  if (operator === 'exists') {
+    return;
+  }
+  if (value === undefined) {
+    errors.push(`${where}: operator "${operator}" requires a value`);
+    return;
+  }
+  if (LIST_OPERATORS.has(operator) !== Array.isArray(value)) {
+    errors.push(`${where}: operator "${operator}" ${LIST_OPERATORS.has(operator) ? 'requires a list' : 'does not take a list'}`);
+    return;
+  }
+  if (NUMERIC_OPERATORS.has(operator) && toNumber(value) === undefined) {
+    errors.push(`${where}: operator "${operator}" requires a number`);
+  }
+  if ((operator === 'contains' || operator === 'matches') && typeof value !== 'string') {
+    errors.push(`${where}: operator "${operator}" requires a string`);
+  }
+  if (operator === 'matches' && typeof value === 'string') {
+    try {
+      getRegex(value);
+    } catch {
+      errors.push(`${where}: invalid pattern "${value}"`);
+    }
+  }
+}
+
+/**
+ * Check routing configs for schema errors and rule mistakes that the schema
+ * cannot catch (duplicate IDs, unknown fields, operator/value mismatches).
+ */
+export function validateRoutingRules(data: unknown): RoutingValidationResult {
+  const parsed = RoutingConfigArraySchema.safeParse(Array.isArray(data) ? data : [data]);
+  if (!parsed.success) {
+    return { valid: false, errors: parsed.error.issues.map(formatIssue) };
+  }
+
+  const errors: string[] = [];
+  parsed.data.forEach((config, configIndex) => {
+    const seen = new Set<string>();
+    config.rules.forEach((rule, ruleIndex) => {
+      const where = `[${configIndex}].rules[${ruleIndex}] (${rule.id})`;
+      if (seen.has(rule.id)) {
+        errors.push(`${where}: duplicate rule id`);
+      }
+      seen.add(rule.id);
+
+      if (rule.all.length === 0 && rule.any.length === 0) {
+        errors.push(`${where}: rule has no conditions`);
+      }
+      if (rule.queue === undefined && rule.skills.length === 0) {
+        errors.push(`${where}: rule assigns neither a queue nor skills`);
+      }
+      rule.all.forEach((c, i) => checkCondition(c, `${where}.all[${i}]`, errors));
+      rule.any.forEach((c, i) => checkCondition(c, `${where}.any[${i}]`, errors));
+    });
+  });
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Parse routing configs (one object or an array), throwing on any validation error.
+ */
+export function parseRoutingConfigs(data: unknown): RoutingConfig[] {
+  const validation = validateRoutingRules(data);
+  if (!validation.valid) {
+    throw new RunnerException({
+      code: 'VALIDATION_ERROR',
+      message: `Invalid routing rules: ${validation.errors.join('; ')}`,
+      userMessage: 'Routing rules failed validation. Check the rules file and try again.',
+      context: { errors: validation.errors },
+      exitCode: ExitCode.ValidationError,
+    });
+  }
+  return RoutingConfigArraySchema.parse(Array.isArray(data) ? data : [data]);
+}
+
+export function loadRoutingConfigs(rulesPath: string): RoutingConfig[] {
+  return parseRoutingConfigs(JSON.parse(readFileSync(resolve(rulesPath), 'utf-8')));
+}
@@ -1,7 +1,9 @@
-import { mkdirSync, writeFileSync } from 'fs';
+import { createWriteStream, mkdirSync, writeFileSync } from 'fs';
+import { once } from 'events';
 import { resolve } from 'path';
 import { randomUUID } from 'crypto';
 import { serializeDeterministic } from '../utils/deterministic.js';
+import { writeNdjson } from '../utils/ndjson.js';
 import { redactObject } from './redact.js';
 import { RunnerLogger } from './logger.js';
 import { RunnerException } from './errors.js';
@@ -11,6 +13,7 @@ import { RunnerException } from './errors.js';
  *
  *   ./artifacts/<runId>/logs.jsonl
  *   ./artifacts/<runId>/evidence/*.json
+ *   ./artifacts/<runId>/evidence/*.ndjson   (streamed evidence)
  *   ./artifacts/<runId>/summary.json
  */
 
@@ -31,6 +34,12 @@ export interface RunSummary {
   errors: unknown[];
 }
 
+export interface EvidenceStream {
+  /** Append one redacted record; waits while the file's write buffer is full. */
+  write(data: unknown): Promise<void>;
+  close(): Promise<void>;
+}
+
 export class ArtifactManager {
   public readonly runId: string;
   public readonly runDir: string;
@@ -70,6 +79,25 @@ export class ArtifactManager {
     return filePath;
   }
 
+  /**
+   * Open an NDJSON evidence file written one record at a time, for evidence
+   * too large to hold in memory. Each record is redacted before writing.
+   */
+  openEvidenceStream(name: string): EvidenceStream {
+    const filename = name.endsWith('.ndjson') ? name : `${name}.ndjson`;
+    const file = createWriteStream(resolve(this.evidenceDir, filename));
+    this.evidenceFiles.push(filename);
+
+    return {
+      write: data => writeNdjson(file, redactObject(data)),
+      close: async (): Promise<void> => {
+        file.end();
+        await once(file, 'finish');
+        this.logger.info('artifact.evidence_written', `Evidence written: ${filename}`, { filename });
+      },
+    };
+  }
+
   /**
    * Record an error that occurred during the run.
    */
@@ -1,7 +1,7 @@
 import { z } from 'zod';
 import { ArtifactManager } from './artifacts.js';
 import { toRunnerException, RunnerErrorSchema } from './errors.js';
-import { triageBatch } from '../triage/index.js';
+import { isGenuine, triageBatch } from '../triage/index.js';
 import { draftResponse } from '../draft/index.js';
 import { proposeKBPatch } from '../kb-proposals/index.js';
 import { ingestDirectory, buildIndex, retrieveForTicket } from '../kb/index.js';
@@ -198,8 +198,8 @@ export class SupportAutopilotRunner implements RunnerContract {
       })));
 
       // Draft response for first ticket
-      if (results.length > 0 && kbSources.length > 0) {
-        const firstResult = results[0];
+      const firstResult = results.find(isGenuine);
+      if (firstResult && kbSources.length > 0) {
         const firstTicket = tickets.find(t => t.id === firstResult.ticket_id) ?? tickets[0];
         const index = buildIndex(inputs.tenantId, inputs.projectId, kbSources);
         const kbResults = retrieveForTicket(index, firstTicket.subject, firstTicket.body);
@@ -27,6 +27,8 @@ const DENYLIST_KEYS = new Set([
   'cvv',
   'customer_email',
   'customer_name',
+  'mrr',
+  'arr',
 ]);
 
 const REDACTED = '[REDACTED]';
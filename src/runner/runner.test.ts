@@ -4,6 +4,11 @@ import { redactObject, detectSecretPatterns, redactJsonString } from './redact.j
 import { withRetry } from './retry.js';
 import { ZodError, z } from 'zod';
 import { supportAutopilotRunner, RunnerInputsSchema, RunnerResultSchema } from './contract.js';
+import { ArtifactManager } from './artifacts.js';
+import { triageBatch } from '../triage/batch.js';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // ---------------------------------------------------------------------------
 // Error envelope
@@ -335,3 +340,37 @@ describe('SupportAutopilotRunner', () => {
     expect(result.error).toBeDefined();
   });
 });
+
+describe('ArtifactManager evidence', () => {
+  it('keeps the triage rule trace in triage-results evidence', () => {
+    const baseDir = mkdtempSync(join(tmpdir(), 'support-evidence-'));
+    try {
+      const artifacts = new ArtifactManager({ baseDir, runId: 'trace-run', json: true });
+      const { results, stats } = triageBatch([{
+        tenant_id: 't1',
+        project_id: 'p1',
+        id: 'trace-1',
+        subject: 'Outage',
+        body: 'The dashboard is down',
+        status: 'open',
+        priority: 'medium',
+        created_at: '2024-01-01T00:00:00.000Z',
+        tags: [],
+        messages: [],
+        metadata: {},
+      }]);
+
+      const evidencePath = artifacts.writeEvidence('triage-results', { results, stats });
+      const written = JSON.parse(readFileSync(evidencePath, 'utf-8'));
+
+      expect(written.results[0].explanations).toContainEqual(expect.objectContaining({
+        target: 'urgency',
+        rule: 'critical_keyword',
+        keyword: 'down',
+        field: 'body',
+      }));
+    } finally {
+      rmSync(baseDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { assessAging, suggestNextAction } from './aging.js';
+import { triageBatch } from './batch.js';
+import { triageTicket } from './classifier.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'aging-1',
+  subject: 'Question',
+  body: 'How do I export a report?',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-05-01T12:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+const hoursAfter = (hours: number): Date => new Date(Date.parse('2024-05-01T12:00:00.000Z') + hours * 60 * 60 * 1000);
+
+describe('assessAging', () => {
+  it('should fire the default open rule after 48 hours', () => {
+    expect(assessAging(createTestTicket(), hoursAfter(47.5)).fired).toEqual([]);
+
+    const aging = assessAging(createTestTicket(), hoursAfter(50));
+
+    expect(aging.age_hours).toBe(50);
+    expect(aging.boost).toBe(1);
+    expect(aging.action?.rule_id).toBe('open-48h');
+  });
+
+  it('should measure pending tickets from their last activity', () => {
+    const ticket = createTestTicket({
+      status: 'pending',
+      messages: [{
+        author_role: 'agent',
+        channel: 'email',
+        visibility: 'public',
+        body: 'Could you send the export file?',
+        created_at: '2024-05-03T12:00:00.000Z',
+      }],
+    });
+
+    expect(assessAging(ticket, hoursAfter(24 * 8)).fired).toEqual([]);
+
+    const aging = assessAging(ticket, hoursAfter(24 * 10));
+    expect(aging.fired).toEqual([{ rule_id: 'pending-7d', clock: 'last_activity', hours: 192, after_hours: 168, boost: 0, action: 'follow_up' }]);
+    expect(aging.boost).toBe(0);
+  });
+
+  it('should take the largest boost and the action of the longest threshold', () => {
+    const rules = [
+      { id: 'open-24h', after_hours: 24, boost: 1, action: 'respond' as const },
+      { id: 'open-72h', after_hours: 72, boost: 2, action: 'escalate' as const },
+      { id: 'urgent-only', priorities: ['urgent' as const], after_hours: 1, boost: 3 },
+    ];
+
+    const aging = assessAging(createTestTicket(), hoursAfter(80), { rules });
+
+    expect(aging.fired.map(f => f.rule_id)).toEqual(['open-24h', 'open-72h']);
+    expect(aging.boost).toBe(1);
+    expect(aging.action?.action).toBe('escalate');
+  });
+});
+
+describe('suggestNextAction', () => {
+  it('should fall back on the ticket status', () => {
+    const fresh = assessAging(createTestTicket(), hoursAfter(1));
+
+    expect(suggestNextAction(createTestTicket(), fresh, false)).toBe('respond');
+    expect(suggestNextAction(createTestTicket(), fresh, true)).toBe('escalate');
+    expect(suggestNextAction(createTestTicket({ status: 'pending' }), fresh, false)).toBe('await_customer');
+    expect(suggestNextAction(createTestTicket({ status: 'closed' }), fresh, true)).toBe('none');
+  });
+});
+
+describe('age-based triage', () => {
+  it('should leave results without aging fields unless configured', () => {
+    const result = triageTicket(createTestTicket(), { now: hoursAfter(100) });
+
+    expect(result.age_hours).toBeUndefined();
+    expect(result.next_action).toBeUndefined();
+    expect(result.urgency).toBe('medium');
+  });
+
+  it('should raise stale open tickets one level and explain why', () => {
+    const result = triageTicket(createTestTicket(), { now: hoursAfter(50), aging: {} });
+
+    expect(result.urgency).toBe('high');
+    expect(result.age_hours).toBe(50);
+    expect(result.escalated_due_to_age).toBe(true);
+    expect(result.next_action).toBe('respond');
+    expect(result.explanations.find(e => e.rule === 'ticket_age')?.detail).toContain('open-48h (50h on the created clock, threshold 48h)');
+    expect(result.explanations.find(e => e.target === 'next_action')?.rule).toBe('open-48h');
+  });
+
+  it('should match the computed urgency rather than the ticket priority', () => {
+    const urgent = triageTicket(createTestTicket({ body: 'The API returns an error on upload.' }), { now: hoursAfter(50), aging: {} });
+    const lowPriority = triageTicket(createTestTicket({ priority: 'low' }), { now: hoursAfter(50), aging: {} });
+
+    expect(urgent.urgency).toBe('high');
+    expect(urgent.escalated_due_to_age).toBe(false);
+    expect(lowPriority.urgency).toBe('high');
+    expect(lowPriority.escalated_due_to_age).toBe(true);
+  });
+
+  it('should raise urgency at most one level', () => {
+    const rules = [{ id: 'open-24h', after_hours: 24, boost: 3 }];
+
+    const result = triageTicket(createTestTicket(), { now: hoursAfter(50), aging: { rules } });
+
+    expect(result.urgency).toBe('high');
+    expect(result.explanations.find(e => e.rule === 'ticket_age')?.detail).toContain('medium -> high');
+  });
+
+  it('should not report an age escalation that maxUrgency caps away', () => {
+    const result = triageTicket(createTestTicket(), { now: hoursAfter(50), aging: {}, maxUrgency: 'medium' });
+
+    expect(result.urgency).toBe('medium');
+    expect(result.escalated_due_to_age).toBe(false);
+  });
+
+  it('should suggest a follow-up for tickets pending on the customer for a week', () => {
+    const result = triageTicket(createTestTicket({ status: 'pending' }), { now: hoursAfter(24 * 8), aging: {} });
+
+    expect(result.urgency).toBe('medium');
+    expect(result.escalated_due_to_age).toBe(false);
+    expect(result.next_action).toBe('follow_up');
+  });
+
+  it('should count age escalations in batch stats', () => {
+    const batch = triageBatch([
+      createTestTicket({ id: 'stale' }),
+      createTestTicket({ id: 'fresh', created_at: hoursAfter(40).toISOString() }),
+    ], { now: hoursAfter(50), aging: {} });
+
+    expect(batch.stats.agedEscalations).toBe(1);
+  });
+});
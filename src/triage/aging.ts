@@ -0,0 +1,133 @@
+import type { Ticket, TicketPriority, TicketStatus } from '../contracts/ticket.js';
+import type { TriageNextAction, TriageUrgency } from '../contracts/triage-result.js';
+
+/**
+ * Ticket aging.
+ *
+ * A ticket's age is the time from `created_at` to the triage clock (`now`).
+ * Rules that look at how long a ticket has sat untouched measure from its last
+ * times. Rules match on status, ticket priority and the urgency triage
+ * computed before aging; every rule past its threshold fires, the largest boost
+ * raises urgency (never more than one level), and the firing rule with the
+ * longest threshold that names an action sets the suggested next action.
+ */
+
+export type AgingClock = 'created' | 'last_activity';
+
+export interface AgingRule {
+  id: string;
+  /** Statuses the rule applies to (any when omitted). */
+  statuses?: TicketStatus[];
+  /** Ticket priorities the rule applies to (any when omitted). */
+  priorities?: TicketPriority[];
+  /** Computed urgencies, before aging, the rule applies to (any when omitted). */
+  urgencies?: TriageUrgency[];
+  /** Timestamp the age is measured from (default `created`). */
+  clock?: AgingClock;
+  /** Hours after which the rule fires. */
+  after_hours: number;
+  /** Urgency levels added once the rule fires (default 1, 0 to only suggest an action); capped at `MAX_AGING_BOOST`. */
+  boost?: number;
+  /** Next action suggested once the rule fires. */
+  action?: TriageNextAction;
+}
+
+export interface AgingOptions {
+  /** Replace `DEFAULT_AGING_RULES`. */
+  rules?: AgingRule[];
+}
+
+export interface FiredAgingRule {
+  rule_id: string;
+  clock: AgingClock;
+  /** Hours on the rule's clock, to one decimal. */
+  hours: number;
+  after_hours: number;
+  boost: number;
+  action?: TriageNextAction;
+}
+
+export interface TicketAging {
+  /** Hours since the ticket was created, to one decimal. */
+  age_hours: number;
+  /** Rules past their threshold, in rule order. */
+  fired: FiredAgingRule[];
+  /** Largest boost among the fired rules, at most `MAX_AGING_BOOST`. */
+  boost: number;
+  /** The rule that sets the suggested next action, if any fired with one. */
+  action?: FiredAgingRule;
+}
+
+export const DEFAULT_AGING_BOOST = 1;
+/** Levels aging may add on top of the computed urgency. */
+export const MAX_AGING_BOOST = 1;
+
+export const DEFAULT_AGING_RULES: AgingRule[] = [
+  { id: 'open-48h', statuses: ['open'], urgencies: ['medium'], after_hours: 48, boost: 1, action: 'respond' },
+  { id: 'pending-7d', statuses: ['pending'], clock: 'last_activity', after_hours: 168, boost: 0, action: 'follow_up' },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function hoursSince(from: Date, now: Date): number {
+  return Math.max(0, Math.round((now.getTime() - from.getTime()) / HOUR_MS * 10) / 10);
+}
+
+function lastActivity(ticket: Ticket): Date {
+  const times = [
+    ticket.created_at,
+    ...ticket.updated_at !== undefined ? [ticket.updated_at] : [],
+    ...(ticket.messages ?? []).map(m => m.created_at),
+  ].map(value => new Date(value).getTime());
+  return new Date(Math.max(...times));
+}
+
+/**
+ * Age of a ticket at `now` and the aging rules it has passed. `urgency` is the
+ * urgency triage computed before aging; without it, rules match any urgency.
+ */
+export function assessAging(ticket: Ticket, now: Date, options: AgingOptions = {}, urgency?: TriageUrgency): TicketAging {
+  const created = hoursSince(new Date(ticket.created_at), now);
+  const idle = hoursSince(lastActivity(ticket), now);
+
+  const fired: FiredAgingRule[] = [];
+  for (const rule of options.rules ?? DEFAULT_AGING_RULES) {
+    if (rule.statuses && !rule.statuses.includes(ticket.status)) continue;
+    if (rule.priorities && !rule.priorities.includes(ticket.priority)) continue;
+    if (rule.urgencies && urgency !== undefined && !rule.urgencies.includes(urgency)) continue;
+    const clock = rule.clock ?? 'created';
+    const hours = clock === 'created' ? created : idle;
+    if (hours < rule.after_hours) continue;
+    fired.push({
+      rule_id: rule.id,
+      clock,
+      hours,
+      after_hours: rule.after_hours,
+      boost: rule.boost ?? DEFAULT_AGING_BOOST,
+      ...(rule.action !== undefined && { action: rule.action }),
+    });
+  }
+
+  const action = fired
+    .filter(f => f.action !== undefined)
+    .reduce<FiredAgingRule | undefined>((best, f) => best && best.after_hours >= f.after_hours ? best : f, undefined);
+
+  return {
+    age_hours: created,
+    fired,
+    boost: Math.min(MAX_AGING_BOOST, Math.max(0, ...fired.map(f => f.boost))),
+    ...(action && { action }),
+  };
+}
+
+/**
+ * Next step for the queue: nothing for resolved or closed tickets, otherwise
+ * the aging rule's action, escalation for escalated tickets, waiting while the
+ * ticket is pending on the customer, and a reply for everything else.
+ */
+export function suggestNextAction(ticket: Ticket, aging: TicketAging, escalated: boolean): TriageNextAction {
+  if (ticket.status === 'resolved' || ticket.status === 'closed') return 'none';
+  if (aging.action?.action !== undefined) return aging.action.action;
+  if (escalated) return 'escalate';
+  return ticket.status === 'pending' ? 'await_customer' : 'respond';
+}
@@ -1,18 +1,41 @@
 import type { Ticket } from '../contracts/ticket.js';
 import type { TriageResult } from '../contracts/triage-result.js';
 import { triageTicket, type TriageOptions } from './classifier.js';
+import { detectDuplicates, type DuplicateCluster } from './duplicates.js';
+import { detectIncidents, type IncidentCandidate } from './incidents.js';
+import { nextSlaDeadline } from './sla.js';
+import { isGenuine } from './prefilter.js';
+
+export interface TriageStats {
+  /** Every ticket in the batch; the counts below cover genuine tickets unless noted. */
+  total: number;
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+  needsHumanReview: number;
+  needsKbUpdate: number;
+  /** Tickets flagged by profile auto-escalation. */
+  escalated: number;
+  /** Tickets marked `duplicate_of` another ticket in the batch. */
+  duplicates: number;
+  slaAtRisk: number;
+  slaBreached: number;
+  /** Tickets from a customer who wrote about the same topic shortly before. */
+  repeatContacts: number;
+  /** Tickets whose urgency an aging rule raised. */
+  agedEscalations: number;
+  /** Tickets the prefilter set aside, by disposition. */
+  autoReplies: number;
+  bounces: number;
+  spam: number;
+}
 
 export interface BatchTriageResult {
   results: TriageResult[];
-  stats: {
-    total: number;
-    critical: number;
-    high: number;
-    medium: number;
-    low: number;
-    needsHumanReview: number;
-    needsKbUpdate: number;
-  };
+  duplicateClusters: DuplicateCluster[];
+  incidents: IncidentCandidate[];
+  stats: TriageStats;
 }
 
 // Default chunk size for processing large batches
@@ -25,58 +48,160 @@ function* chunkArray<T>(arr: T[], chunkSize: number): Generator<T[]> {
   }
 }
 
+/**
+ * Mark cluster membership on results (same order as tickets) and return the clusters.
+ */
+function applyDuplicates(
+  tickets: Ticket[],
+  results: TriageResult[],
+  options: TriageOptions['duplicates']
+): DuplicateCluster[] {
+  const { clusters, byTicket } = detectDuplicates(tickets, options !== false ? options : undefined);
+
+  results.forEach((result, index) => {
+    const match = byTicket.get(tickets[index].id);
+    if (!match) {
+      return;
+    }
+    result.cluster_id = match.cluster_id;
+    if (match.canonical_ticket_id !== result.ticket_id) {
+      result.duplicate_of = match.canonical_ticket_id;
+      result.explanations.push({
+        target: 'duplicate_of',
+        rule: 'near_duplicate',
+        value: match.canonical_ticket_id,
+        detail: `Shingle similarity ${match.similarity} places this ticket in cluster ${match.cluster_id}; merge into ${match.canonical_ticket_id}`,
+      });
+    }
+  });
+
+  return clusters;
+}
+
+export function createTriageStats(): TriageStats {
+  return {
+    total: 0,
+    critical: 0,
+    high: 0,
+    medium: 0,
+    low: 0,
+    needsHumanReview: 0,
+    needsKbUpdate: 0,
+    escalated: 0,
+    duplicates: 0,
+    slaAtRisk: 0,
+    slaBreached: 0,
+    repeatContacts: 0,
+    agedEscalations: 0,
+    autoReplies: 0,
+    bounces: 0,
+    spam: 0,
+  };
+}
+
+/**
+ * Count one result into running stats (used by batch and streaming triage).
+ */
+export function addToTriageStats(stats: TriageStats, r: TriageResult): void {
+  stats.total++;
+  if (r.disposition === 'auto_reply') stats.autoReplies++;
+  else if (r.disposition === 'bounce') stats.bounces++;
+  else if (r.disposition === 'spam') stats.spam++;
+  if (!isGenuine(r)) return;
+
+  if (r.urgency === 'critical') stats.critical++;
+  else if (r.urgency === 'high') stats.high++;
+  else if (r.urgency === 'medium') stats.medium++;
+  else stats.low++;
+
+  if (r.requires_human_review) stats.needsHumanReview++;
+  if (r.requires_kb_update) stats.needsKbUpdate++;
+  if (r.escalated) stats.escalated++;
+  if (r.duplicate_of !== undefined) stats.duplicates++;
+  if (r.sla?.breach_risk === 'at_risk') stats.slaAtRisk++;
+  else if (r.sla?.breach_risk === 'breached') stats.slaBreached++;
+  if (r.repeat_contact === true) stats.repeatContacts++;
+  if (r.escalated_due_to_age === true) stats.agedEscalations++;
+}
+
+/**
+ * Options for each ticket of a batch: earlier tickets from the same customer
+ * may be in the batch as well as in the supplied history.
+ */
+export function batchTicketOptions(tickets: Ticket[], options: TriageOptions): TriageOptions {
+  return options.repeatContact === false
+    ? options
+    : { ...options, history: [...options.history ?? [], ...tickets] };
+}
+
+/**
+ * Batch-wide analysis over per-ticket results (same order as tickets):
+ * near-duplicates, incident candidates and stats.
+ */
+export function completeBatch(tickets: Ticket[], results: TriageResult[], options: TriageOptions): BatchTriageResult {
+  // Auto-replies, bounces and spam are alike by nature; keep them out of clustering
+  const genuine = results.flatMap((result, index) => isGenuine(result) ? [index] : []);
+  const genuineTickets = genuine.map(index => tickets[index]);
+  const genuineResults = genuine.map(index => results[index]);
+
+  const duplicateClusters = options.duplicates === false
+    ? []
+    : applyDuplicates(genuineTickets, genuineResults, options.duplicates);
+  const incidents = options.incidents === false
+    ? []
+    : detectIncidents(genuineTickets, genuineResults, { negationWindow: options.negationWindow, ...options.incidents });
+  
+  // Calculate stats in a single pass for efficiency
+  const stats = createTriageStats();
+  for (const r of results) {
+    addToTriageStats(stats, r);
+  }
+
+  return { results, duplicateClusters, incidents, stats };
+}
+
 export function triageBatch(
   tickets: Ticket[],
   options: TriageOptions = {},
   chunkSize: number = DEFAULT_CHUNK_SIZE
 ): BatchTriageResult {
+  const ticketOptions = batchTicketOptions(tickets, options);
+
   // Process in chunks for better performance with large batches
   const results: TriageResult[] = [];
   
   for (const chunk of chunkArray(tickets, chunkSize)) {
-    const chunkResults = chunk.map(ticket => triageTicket(ticket, options));
+    const chunkResults = chunk.map(ticket => triageTicket(ticket, ticketOptions));
     results.push(...chunkResults);
   }
-  
-  // Calculate stats in a single pass for efficiency
-  let critical = 0;
-  let high = 0;
-  let medium = 0;
-  let low = 0;
-  let needsHumanReview = 0;
-  let needsKbUpdate = 0;
-
-  for (const r of results) {
-    if (r.urgency === 'critical') critical++;
-    else if (r.urgency === 'high') high++;
-    else if (r.urgency === 'medium') medium++;
-    else low++;
-    
-    if (r.requires_human_review) needsHumanReview++;
-    if (r.requires_kb_update) needsKbUpdate++;
-  }
-
-  const stats = {
-    total: results.length,
-    critical,
-    high,
-    medium,
-    low,
-    needsHumanReview,
-    needsKbUpdate,
-  };
 
-  return { results, stats };
+  return completeBatch(tickets, results, options);
 }
 
+/**
+ * Tickets that need a human now. SLA breaches come first, then tickets at risk
+ * of breaching (each ordered by their next deadline); the rest keep input order.
+ */
 export function filterTicketsNeedingAttention(
   triageResults: TriageResult[]
 ): TriageResult[] {
-  return triageResults.filter(
-    r => r.urgency === 'critical' || 
-         r.urgency === 'high' || 
-         r.requires_human_review
-  );
+  const slaRank = (r: TriageResult): number =>
+    r.sla?.breach_risk === 'breached' ? 2 : r.sla?.breach_risk === 'at_risk' ? 1 : 0;
+
+  return triageResults
+    .filter(
+      r => r.urgency === 'critical' || 
+           r.urgency === 'high' || 
+           r.requires_human_review ||
+           slaRank(r) > 0
+    )
+    .sort((a, b) => {
+      const byRisk = slaRank(b) - slaRank(a);
+      if (byRisk !== 0 || slaRank(a) === 0 || !a.sla || !b.sla) {
+        return byRisk;
+      }
+      return nextSlaDeadline(a.sla).localeCompare(nextSlaDeadline(b.sla));
+    });
 }
 
 export function groupByUrgency(
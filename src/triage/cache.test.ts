@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadTriageCache, saveTriageCache, triageBatchIncremental, triageFingerprint } from './cache.js';
+import { triageBatch } from './batch.js';
+import { validateSlaPolicy } from '../contracts/sla-policy.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'cache-1',
+  subject: 'Question',
+  body: '',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-05-01T12:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+const tickets = (): Ticket[] => [
+  createTestTicket({ id: 'cache-1', subject: 'Login', body: 'I cannot login after the password reset.', customer_email: 'ana@acme.example' }),
+  createTestTicket({ id: 'cache-2', subject: 'Login again', body: 'Still cannot login after the password reset.', customer_email: 'ana@acme.example', created_at: '2024-05-02T12:00:00.000Z' }),
+  createTestTicket({ id: 'cache-3', subject: 'Invoice', body: 'Please correct the invoice for last month.', customer_email: 'bo@other.example' }),
+  createTestTicket({ id: 'cache-4', subject: 'Invoice', body: 'Please correct the invoice for last month.', customer_email: 'cy@third.example', created_at: '2024-05-01T13:00:00.000Z' }),
+];
+
+const now = new Date('2024-05-03T00:00:00.000Z');
+
+describe('triageBatchIncremental', () => {
+  it('should triage everything without a cache and reuse every result on a re-run', async () => {
+    const first = await triageBatchIncremental(tickets(), { now });
+    expect(first.cacheStats).toEqual({ reused: 0, recomputed: 4, invalidated: false });
+
+    const second = await triageBatchIncremental(tickets(), { now }, first.cache);
+    expect(second.cacheStats).toEqual({ reused: 4, recomputed: 0, invalidated: false });
+    expect(second.results).toEqual(triageBatch(tickets(), { now }).results);
+    expect(second.duplicateClusters).toHaveLength(1);
+  });
+
+  it('should keep duplicate annotations out of the cache', async () => {
+    const first = await triageBatchIncremental(tickets(), { now });
+    const cached = first.cache.entries.find(entry => entry.ticket_id === 'cache-4');
+
+    expect(first.results[3].duplicate_of).toBe('cache-3');
+    expect(cached?.result.duplicate_of).toBeUndefined();
+  });
+
+  it('should recompute new and changed tickets only', async () => {
+    const { cache } = await triageBatchIncremental(tickets(), { now });
+    const changed = tickets();
+    changed[2] = { ...changed[2], body: 'The invoice total is wrong.' };
+    changed.push(createTestTicket({ id: 'cache-5', subject: 'Export', body: 'How do I export a report?' }));
+
+    const rerun = await triageBatchIncremental(changed, { now }, cache);
+
+    expect(rerun.cacheStats).toEqual({ reused: 3, recomputed: 2, invalidated: false });
+    expect(rerun.results).toEqual(triageBatch(changed, { now }).results);
+    expect(rerun.cache.entries).toHaveLength(5);
+  });
+
+  it('should recompute a ticket when only updated_at moved', async () => {
+    const { cache } = await triageBatchIncremental(tickets(), { now });
+    const touched = tickets();
+    touched[3] = { ...touched[3], updated_at: '2024-05-02T09:00:00.000Z' };
+
+    const rerun = await triageBatchIncremental(touched, { now }, cache);
+
+    expect(rerun.cacheStats.recomputed).toBe(1);
+  });
+
+  it('should recompute later tickets of a customer whose earlier ticket changed', async () => {
+    const { cache } = await triageBatchIncremental(tickets(), { now });
+    const changed = tickets();
+    changed[0] = { ...changed[0], subject: 'Invoice address', body: 'How do I change the invoice address?' };
+
+    const rerun = await triageBatchIncremental(changed, { now }, cache);
+
+    expect(rerun.cacheStats).toEqual({ reused: 2, recomputed: 2, invalidated: false });
+    expect(rerun.results[1].repeat_contact).toBe(false);
+  });
+
+  it('should drop the cache when triage options change', async () => {
+    const { cache } = await triageBatchIncremental(tickets(), { now });
+
+    const rerun = await triageBatchIncremental(tickets(), { now, maxUrgency: 'medium' }, cache);
+
+    expect(rerun.cacheStats).toEqual({ reused: 0, recomputed: 4, invalidated: true });
+    expect(rerun.cache.fingerprint).not.toBe(cache.fingerprint);
+  });
+
+  it('should ignore options that only affect batch-wide steps', () => {
+    expect(triageFingerprint({ now, duplicates: false, incidents: false })).toBe(triageFingerprint({}));
+    expect(triageFingerprint({ repeatContact: false })).not.toBe(triageFingerprint({}));
+  });
+
+  it('should recompute results whose SLA clock is still running', async () => {
+    const slaPolicies = [validateSlaPolicy({
+      policy_id: 'standard',
+      tenant_id: 't1',
+      targets: [{ priority: 'medium', first_response_minutes: 240, resolution_minutes: 960 }],
+    })];
+    const batch = [
+      createTestTicket({ id: 'sla-open', subject: 'Invoice', body: 'Please correct the invoice.' }),
+      createTestTicket({ id: 'sla-closed', subject: 'Invoice', body: 'Thanks, the invoice is fine now.', status: 'closed' }),
+    ];
+    const { cache } = await triageBatchIncremental(batch, { now, slaPolicies });
+
+    const later = new Date('2024-05-10T00:00:00.000Z');
+    const rerun = await triageBatchIncremental(batch, { now: later, slaPolicies }, cache);
+
+    expect(rerun.cacheStats).toEqual({ reused: 1, recomputed: 1, invalidated: false });
+    expect(rerun.results[0].sla?.evaluated_at).toBe(later.toISOString());
+  });
+
+  it('should recompute aged results of tickets that are still open', async () => {
+    const batch = [
+      createTestTicket({ id: 'aged-open', subject: 'Invoice', body: 'Please correct the invoice.' }),
+      createTestTicket({ id: 'aged-closed', subject: 'Invoice', body: 'Thanks, the invoice is fine now.', status: 'closed' }),
+    ];
+    const { cache } = await triageBatchIncremental(batch, { now, aging: {} });
+
+    const rerun = await triageBatchIncremental(batch, { now: new Date('2024-05-10T00:00:00.000Z'), aging: {} }, cache);
+
+    expect(rerun.cacheStats).toEqual({ reused: 1, recomputed: 1, invalidated: false });
+    expect(rerun.results[0].age_hours).toBe(204);
+  });
+
+  it('should move reused results to the current clock', async () => {
+    const batch = [
+      createTestTicket({ id: 'aged-closed', subject: 'Invoice', body: 'Thanks, the invoice is fine now.', status: 'closed' }),
+    ];
+    const { cache } = await triageBatchIncremental(batch, { now, aging: {} });
+
+    const later = new Date('2024-05-10T00:00:00.000Z');
+    const rerun = await triageBatchIncremental(batch, { now: later, aging: {} }, cache);
+
+    expect(rerun.cacheStats.reused).toBe(1);
+    expect(rerun.results[0]).toMatchObject({ processed_at: later.toISOString(), age_hours: 204, next_action: 'none' });
+    expect(rerun.results).toEqual(triageBatch(batch, { now: later, aging: {} }).results);
+  });
+
+  it('should re-triage a reused ticket once an aging rule fires', async () => {
+    const rules = [{ id: 'closed-3d', statuses: ['closed' as const], after_hours: 72, boost: 0, action: 'follow_up' as const }];
+    const batch = [
+      createTestTicket({ id: 'aged-closed', subject: 'Invoice', body: 'Thanks, the invoice is fine now.', status: 'closed' }),
+    ];
+    const { cache } = await triageBatchIncremental(batch, { now, aging: { rules } });
+
+    const rerun = await triageBatchIncremental(batch, { now: new Date('2024-05-10T00:00:00.000Z'), aging: { rules } }, cache);
+
+    expect(rerun.cacheStats.recomputed).toBe(1);
+    expect(rerun.results[0].explanations).toContainEqual(expect.objectContaining({ target: 'next_action', rule: 'closed-3d' }));
+  });
+
+  it('should keep entries of tickets that are not in the batch', async () => {
+    const { cache } = await triageBatchIncremental(tickets(), { now });
+
+    const rerun = await triageBatchIncremental(tickets().slice(0, 1), { now }, cache);
+
+    expect(rerun.cacheStats.reused).toBe(1);
+    expect(rerun.cache.entries).toHaveLength(4);
+  });
+});
+
+describe('triage cache files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'triage-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip through a file and reuse the loaded results', async () => {
+    const path = join(dir, 'cache.json');
+    const first = await triageBatchIncremental(tickets(), { now });
+    saveTriageCache(first.cache, path);
+
+    const rerun = await triageBatchIncremental(tickets(), { now }, loadTriageCache(path));
+
+    expect(rerun.cacheStats.reused).toBe(4);
+    expect(rerun.results).toEqual(first.results);
+  });
+});
@@ -0,0 +1,183 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageResult } from '../contracts/triage-result.js';
+import {
+  TRIAGE_CACHE_FORMAT,
+  TRIAGE_CACHE_FORMAT_VERSION,
+  TriageCacheSchema,
+  type TriageCache,
+  type TriageCacheEntry,
+} from '../contracts/triage-cache.js';
+import { stableHash } from '../utils/deterministic.js';
+import { RULES_CLASSIFIER_VERSION, retimeTriageResult, triageTicket, type TriageOptions } from './classifier.js';
+import { batchTicketOptions, completeBatch, type BatchTriageResult } from './batch.js';
+import { findPriorTickets } from './history.js';
+import { triageTicketsParallel, type ParallelTriageOptions } from './parallel.js';
+
+/**
+ * Incremental batch triage.
+ *
+ * Per-ticket results are cached under the ticket's content hash, its
+ * `updated_at` and a context hash over the earlier tickets it is compared
+ * with for repeat contacts; a re-run only triages tickets that are new or
+ * changed, or whose earlier tickets changed. The whole cache is dropped when
+ * its fingerprint (cache format, rules classifier version and triage options)
+ * no longer matches. Results with a running SLA clock, and aged results of
+ * tickets that are not resolved or closed, are always recomputed, since they
+ * move with time; reused results get the current `processed_at` and ticket
+ * age (see `retimeTriageResult`). Near-duplicates, incidents and stats are computed over the
+ * merged batch as in `triageBatch`.
+ */
+
+export interface TriageCacheStats {
+  /** Tickets whose cached result was reused. */
+  reused: number;
+  /** Tickets triaged in this run. */
+  recomputed: number;
+  /** The cache was built with another classifier version or other triage options and was dropped. */
+  invalidated: boolean;
+}
+
+export interface IncrementalTriageResult extends BatchTriageResult {
+  /** The cache to keep for the next run: earlier entries plus this batch. */
+  cache: TriageCache;
+  cacheStats: TriageCacheStats;
+}
+
+/** Options that only affect batch-wide steps or the clock, which are never cached. */
+const UNCACHED_OPTIONS = new Set<string>(['now', 'history', 'duplicates', 'incidents']);
+
+const contentHashes = new WeakMap<Ticket, string>();
+
+function contentHash(ticket: Ticket): string {
+  let hash = contentHashes.get(ticket);
+  if (hash === undefined) {
+    hash = stableHash(ticket);
+    contentHashes.set(ticket, hash);
+  }
+  return hash;
+}
+
+function contextHash(ticket: Ticket, options: TriageOptions): string {
+  const priors = options.repeatContact === false || !options.history ? [] : findPriorTickets(ticket, options.history);
+  return stableHash(priors.map(prior => [prior.id, contentHash(prior)]));
+}
+
+function cacheKey(tenantId: string, projectId: string, ticketId: string): string {
+  return `${tenantId}\u0000${projectId}\u0000${ticketId}`;
+}
+
+function updatedAtOf(ticket: Ticket): string | undefined {
+  return ticket.updated_at !== undefined ? new Date(ticket.updated_at).toISOString() : undefined;
+}
+
+/** Results are plain JSON data. */
+function cloneResult(result: TriageResult): TriageResult {
+  return JSON.parse(JSON.stringify(result)) as TriageResult;
+}
+
+/** The SLA or aging clock is still running, so the result depends on when triage runs. */
+function clockRunning(result: TriageResult): boolean {
+  return (result.sla !== undefined && result.sla.breach_risk !== 'none')
+    || (result.age_hours !== undefined && result.next_action !== 'none');
+}
+
+/**
+ * Identifies the classifier version and triage options results were produced with.
+ */
+export function triageFingerprint(options: TriageOptions): string {
+  const cached = Object.fromEntries(Object.entries(options).filter(([key]) => !UNCACHED_OPTIONS.has(key)));
+  return stableHash([TRIAGE_CACHE_FORMAT_VERSION, RULES_CLASSIFIER_VERSION, options.model?.model_version ?? null, cached]);
+}
+
+export function createTriageCache(options: TriageOptions): TriageCache {
+  return {
+    format: TRIAGE_CACHE_FORMAT,
+    format_version: TRIAGE_CACHE_FORMAT_VERSION,
+    fingerprint: triageFingerprint(options),
+    updated_at: (options.now ?? new Date()).toISOString(),
+    entries: [],
+  };
+}
+
+/**
+ * `triageBatch` that reuses cached results for unchanged tickets. Pass
+ * `parallel` to triage the remaining tickets on worker threads.
+ */
+export async function triageBatchIncremental(
+  tickets: Ticket[],
+  options: TriageOptions = {},
+  cache?: TriageCache,
+  parallel?: ParallelTriageOptions
+): Promise<IncrementalTriageResult> {
+  const batchOptions: TriageOptions = { ...options, now: options.now ?? new Date() };
+  const ticketOptions = batchTicketOptions(tickets, batchOptions);
+  const next = createTriageCache(batchOptions);
+  const invalidated = cache !== undefined && cache.fingerprint !== next.fingerprint;
+
+  const entries = new Map<string, TriageCacheEntry>();
+  if (cache && !invalidated) {
+    for (const entry of cache.entries) {
+      entries.set(cacheKey(entry.tenant_id, entry.project_id, entry.ticket_id), entry);
+    }
+  }
+
+  const results: (TriageResult | undefined)[] = new Array<TriageResult | undefined>(tickets.length);
+  const pending: number[] = [];
+  const keys = tickets.map((ticket, index) => {
+    const key = {
+      tenant_id: ticket.tenant_id,
+      project_id: ticket.project_id,
+      ticket_id: ticket.id,
+      updated_at: updatedAtOf(ticket),
+      content_hash: contentHash(ticket),
+      context_hash: contextHash(ticket, ticketOptions),
+    };
+    const entry = entries.get(cacheKey(ticket.tenant_id, ticket.project_id, ticket.id));
+    // Batch-wide steps annotate results in place; keep the cached copy clean
+    const reused = entry
+      && entry.updated_at === key.updated_at
+      && entry.content_hash === key.content_hash
+      && entry.context_hash === key.context_hash
+      && !clockRunning(entry.result)
+      ? retimeTriageResult(ticket, cloneResult(entry.result), ticketOptions)
+      : undefined;
+    if (reused) {
+      results[index] = reused;
+    } else {
+      pending.push(index);
+    }
+    return key;
+  });
+
+  const pendingTickets = pending.map(index => tickets[index]);
+  const triaged = parallel
+    ? await triageTicketsParallel(pendingTickets, ticketOptions, parallel)
+    : pendingTickets.map(ticket => triageTicket(ticket, ticketOptions));
+  pending.forEach((index, i) => {
+    results[index] = triaged[i];
+    const key = keys[index];
+    entries.set(cacheKey(key.tenant_id, key.project_id, key.ticket_id), {
+      ...key,
+      result: cloneResult(triaged[i]),
+    });
+  });
+
+  const batch = completeBatch(tickets, results as TriageResult[], batchOptions);
+  return {
+    ...batch,
+    cache: { ...next, entries: [...entries.values()] },
+    cacheStats: { reused: tickets.length - pending.length, recomputed: pending.length, invalidated },
+  };
+}
+
+export function saveTriageCache(cache: TriageCache, cachePath: string): void {
+  // Compact: caches grow with the ticket corpus
+  writeFileSync(resolve(cachePath), JSON.stringify(cache) + '\n', 'utf-8');
+}
+
+export function loadTriageCache(cachePath: string): TriageCache {
+  const content = readFileSync(resolve(cachePath), 'utf-8');
+  return TriageCacheSchema.parse(JSON.parse(content));
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { classifyUrgency, classifyTopics, extractMissingInfo, triageTicket } from '../triage/classifier.js';
+import { profileToTriageOptions } from '../triage/config.js';
+import { getDefaultProfile, loadProfile } from '../utils/profiles.js';
 import type { Ticket } from '../contracts/ticket.js';
 
 const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
@@ -153,4 +155,215 @@ describe('triageTicket', () => {
     
     expect(result.requires_human_review).toBe(true);
   });
+
+  it('should classify the customer text without quoted history', () => {
+    const ticket = createTestTicket({
+      subject: 'Question',
+      body: 'How do I add a second admin?\n\nOn Mon, Support wrote:\n> Sorry about the outage, the site was down.',
+    });
+
+    const result = triageTicket(ticket);
+
+    expect(result.urgency).not.toBe('critical');
+    expect(result.normalization?.body).toBe('How do I add a second admin?');
+    expect(result.normalization?.removed[0]).toMatchObject({ field: 'body', kind: 'quoted_reply' });
+    expect(triageTicket(ticket, { normalize: false }).urgency).toBe('critical');
+  });
+
+  it('should mask PII in the cleaned body and removed excerpts', () => {
+    const ticket = createTestTicket({
+      body: 'Please call me on 555-123-4567.\n\nOn Mon, 3 Jun 2024, Support <help@example.com> wrote:\n> Which number?',
+    });
+
+    const { normalization } = triageTicket(ticket);
+
+    expect(normalization?.body).toBe('Please call me on [PHONE_REDACTED].');
+    expect(normalization?.removed[0].excerpt).toBe('On Mon, 3 Jun 2024, Support <[EMAIL_REDACTED]> wrote:');
+  });
+});
+
+describe('triage explanations', () => {
+  it('should trace the keyword that set urgency with field and offset', () => {
+    const ticket = createTestTicket({
+      subject: 'Checkout',
+      body: 'The checkout page is down for everyone.',
+    });
+
+    const result = triageTicket(ticket);
+    const urgency = result.explanations.filter(e => e.target === 'urgency');
+
+    expect(urgency).toContainEqual(expect.objectContaining({
+      rule: 'critical_keyword',
+      value: 'critical',
+      keyword: 'down',
+      field: 'body',
+      offset: ticket.body.indexOf('down'),
+      length: 4,
+    }));
+  });
+
+  it('should record negated keywords as ignored', () => {
+    const ticket = createTestTicket({
+      subject: 'Question',
+      body: 'This is not urgent.',
+    });
+
+    const result = triageTicket(ticket);
+
+    expect(result.urgency).toBe('medium');
+    expect(result.explanations).toContainEqual(expect.objectContaining({
+      target: 'urgency',
+      rule: 'critical_keyword',
+      keyword: 'urgent',
+      negated: true,
+    }));
+    expect(result.explanations).toContainEqual(expect.objectContaining({
+      target: 'urgency',
+      rule: 'default',
+      value: 'medium',
+    }));
+  });
+
+  it('should explain the ticket priority fallback', () => {
+    const result = triageTicket(createTestTicket({ subject: 'Hello', body: 'Quick note', priority: 'urgent' }));
+
+    expect(result.explanations.find(e => e.target === 'urgency' && e.rule === 'ticket_priority'))
+      .toMatchObject({ value: 'high', field: 'priority' });
+  });
+
+  it('should explain human review and KB update flags', () => {
+    const critical = triageTicket(createTestTicket({ subject: 'Outage', body: 'Everything is down' }));
+    const review = critical.explanations.filter(e => e.target === 'requires_human_review');
+
+    expect(review).toEqual([expect.objectContaining({ rule: 'critical_urgency', value: 'true' })]);
+
+    const quiet = triageTicket(createTestTicket({ subject: 'Hi', body: 'Thanks' }));
+    expect(quiet.explanations.find(e => e.target === 'requires_human_review')?.value).toBe('false');
+    expect(quiet.explanations.find(e => e.target === 'requires_kb_update')).toMatchObject({
+      rule: 'default',
+      value: 'false',
+    });
+  });
+
+  it('should trace topic keywords and missing info', () => {
+    const result = triageTicket(createTestTicket({ subject: 'Invoice', body: 'Where is my invoice?' }));
+
+    expect(result.explanations).toContainEqual(expect.objectContaining({
+      target: 'topics',
+      rule: 'topic_keyword',
+      value: 'billing',
+      keyword: 'invoice',
+      field: 'subject',
+      offset: 0,
+    }));
+    expect(result.explanations.filter(e => e.target === 'missing_info').map(e => e.value))
+      .toEqual(result.missing_info);
+  });
+});
+
+describe('profile-driven triage', () => {
+  const jobforge = profileToTriageOptions(loadProfile('profiles/jobforge.json'));
+
+  it('should treat profile escalation keywords as critical', () => {
+    const ticket = createTestTicket({ subject: 'Job stuck in queue', body: 'Our nightly job is stuck.' });
+
+    expect(classifyUrgency(ticket)).toBe('high');
+    expect(classifyUrgency(ticket, jobforge)).toBe('critical');
+    expect(triageTicket(ticket, jobforge).explanations).toContainEqual(expect.objectContaining({
+      target: 'urgency',
+      rule: 'escalation_keyword',
+      keyword: 'job stuck',
+    }));
+  });
+
+  it('should cap urgency at max_urgency', () => {
+    const profile = getDefaultProfile();
+    profile.escalation.max_urgency = 'high';
+    const result = triageTicket(
+      createTestTicket({ body: 'Production is down, this is an outage' }),
+      profileToTriageOptions(profile)
+    );
+
+    expect(result.urgency).toBe('high');
+    expect(result.suggested_priority).toBe('high');
+    expect(result.explanations).toContainEqual(expect.objectContaining({ rule: 'max_urgency', value: 'high' }));
+  });
+
+  it('should escalate tickets when auto_escalate is set', () => {
+    const ticket = createTestTicket({ body: 'We hit a workflow failure overnight' });
+    const result = triageTicket(ticket, jobforge);
+
+    expect(result.escalated).toBe(true);
+    expect(result.requires_human_review).toBe(true);
+    expect(result.explanations).toContainEqual(expect.objectContaining({
+      target: 'escalated',
+      rule: 'auto_escalate',
+      keyword: 'workflow failure',
+    }));
+
+    expect(triageTicket(ticket, { ...jobforge, autoEscalate: false }).escalated).toBe(false);
+    expect(triageTicket(createTestTicket({ body: 'No workflow failure this time' }), jobforge).escalated).toBe(false);
+  });
+
+  it('should add profile features as topic categories', () => {
+    const ticket = createTestTicket({ subject: 'Triggers', body: 'Our workers ignore new triggers' });
+    const topics = classifyTopics(ticket, jobforge).map(t => t.category);
+
+    expect(topics).toContain('worker');
+    expect(topics).toContain('trigger');
+    expect(classifyTopics(ticket).map(t => t.category)).not.toContain('worker');
+  });
+
+  it('should leave triage unchanged with the default profile', () => {
+    const ticket = createTestTicket({ body: 'Urgent: login is broken' });
+    const { processed_at: _a, ...withProfile } = triageTicket(ticket, profileToTriageOptions(getDefaultProfile()));
+    const { processed_at: _b, ...withoutProfile } = triageTicket(ticket);
+
+    expect(withProfile).toEqual(withoutProfile);
+  });
+});
+
+describe('multilingual triage', () => {
+  it('should apply the keyword set of the detected language', () => {
+    const ticket = createTestTicket({
+      subject: 'Rechnung doppelt abgebucht',
+      body: 'Unsere Rechnung wurde zweimal abgebucht und das Konto ist gesperrt. Bitte dringend prüfen.',
+    });
+
+    const result = triageTicket(ticket);
+
+    expect(result.language?.code).toBe('de');
+    expect(result.urgency).toBe('critical');
+    expect(result.topics.map(t => t.category)).toContain('billing');
+    expect(result.explanations).toContainEqual(expect.objectContaining({
+      target: 'language',
+      rule: 'language_detection',
+      value: 'de',
+    }));
+  });
+
+  it('should respect negation in the ticket language', () => {
+    const ticket = createTestTicket({
+      subject: 'Question sur la facture',
+      body: "Ce n'est pas urgent, mais pourriez-vous m'envoyer la facture du mois dernier ?",
+    });
+
+    const result = triageTicket(ticket);
+
+    expect(result.language?.code).toBe('fr');
+    expect(result.urgency).toBe('medium');
+    expect(result.topics.map(t => t.category)).toContain('billing');
+  });
+
+  it('should use configured language and keyword sets', () => {
+    const ticket = createTestTicket({ subject: 'Hallo', body: 'Der Export hängt seit gestern' });
+
+    const result = triageTicket(ticket, {
+      language: 'de',
+      languageKeywords: { de: { critical: ['export hängt'], high: [], topics: {} } },
+    });
+
+    expect(result.language).toEqual({ code: 'de', confidence: 1 });
+    expect(result.urgency).toBe('critical');
+  });
 });
@@ -1,21 +1,138 @@
 import type { Ticket } from '../contracts/ticket.js';
-import type { TriageResult, TriageUrgency, TriageTopic } from '../contracts/triage-result.js';
+import type {
+  TriageResult,
+  TriageUrgency,
+  TriageTopic,
+  TriageExplanation,
+  TriageExplanationTarget,
+  TriageEntity,
+  TriageInformationRequest,
+  TriageSentiment,
+  TriageLanguage,
+  TriageCustomer,
+  TriageNormalization,
+} from '../contracts/triage-result.js';
+import type { ClassifierModel } from '../contracts/classifier-model.js';
+import { getTriageSegments, getLatestCustomerSegment, getCustomerMessages } from './thread.js';
+import { predictTopics, predictUrgency } from './model.js';
+import { findKeywordMatches, type KeywordMatch, type MatchOptions } from './matcher.js';
+import type { LanguageCode } from '../utils/language.js';
+import { detectTicketLanguage, languageKeywordSet, type LanguageKeywordSet } from './multilingual.js';
+import { extractEntities, redactEntities } from './entities.js';
+import { scoreSentiment } from './sentiment.js';
+import { prefilterTicket, type PrefilterOptions, type PrefilterResult } from './prefilter.js';
+import { normalizeTicket, type NormalizeOptions, type NormalizedTicket } from '../utils/normalize.js';
+import { redactPII } from '../utils/pii.js';
+import type { CustomerDirectory, CustomerUrgencyRule } from '../contracts/customer-directory.js';
+import { applyCustomerRules, lookupCustomer } from './customers.js';
+import {
+  DEFAULT_REPEAT_BOOST,
+  DEFAULT_REPEAT_WINDOW_DAYS,
+  buildHistoryIndex,
+  customerHistory,
+  indexedCustomerHistory,
+  type CustomerHistory,
+  type HistoryIndex,
+  type RepeatContactOptions,
+} from './history.js';
+import { assessAging, suggestNextAction, type AgingOptions, type TicketAging } from './aging.js';
+import {
+  DEFAULT_INFO_REQUIREMENTS,
+  checkRequiredInfo,
+  detectProvidedInfo,
+  selectInfoRequirements,
+  toInformationRequest,
+} from './requirements.js';
+import type { InfoRequirement, InfoRequirementSet } from '../contracts/info-requirement.js';
+import type { DuplicateDetectionOptions } from './duplicates.js';
+import type { IncidentDetectionOptions } from './incidents.js';
+import type { SlaPolicy } from '../contracts/sla-policy.js';
+import { computeSla, selectSlaPolicy } from './sla.js';
+import type { RoutingConfig } from '../contracts/routing-rule.js';
+import { explainRouting, selectRoutingConfig } from '../routing/engine.js';
+import type { TopicTaxonomy } from '../contracts/topic-taxonomy.js';
+import {
+  entriesFromCategories,
+  flattenTaxonomy,
+  isWithinTopic,
+  selectTopicTaxonomy,
+  type TaxonomyEntry,
+} from './taxonomy.js';
 
 export interface TriageOptions {
   criticalKeywords?: string[];
   highPriorityKeywords?: string[];
   topicCategories?: Record<string, string[]>;
+  /**
+   * Hierarchical topic taxonomies; the most specific one for the ticket's tenant/project
+   * replaces `topicCategories` and topics are reported as full paths.
+   */
+  taxonomies?: TopicTaxonomy[];
+  /** Categories added on top of `topicCategories`, e.g. product features from a profile. */
+  extraTopicCategories?: Record<string, string[]>;
+  /** Product-specific keywords that make a ticket critical (profile `escalation.keywords`). */
+  escalationKeywords?: string[];
+  /** Highest urgency triage may assign. */
+  maxUrgency?: TriageUrgency;
+  /** Flag tickets that hit an escalation keyword as `escalated` and send them to a human. */
+  autoEscalate?: boolean;
+  /** Trained offline classifier; keyword rules remain the fallback when it is not confident. */
+  model?: ClassifierModel;
+  /** Minimum model probability required before its answer replaces the keyword rules. */
+  modelMinConfidence?: number;
+  /** Tokens before a keyword checked for "not"/"no"/"isn't" style negation. */
+  negationWindow?: number;
+  /** Ticket language; detected from the customer text when omitted. */
+  language?: LanguageCode;
+  /** Keyword sets added to the English keywords for tickets in that language; replace the built-in set per language. */
+  languageKeywords?: Partial<Record<LanguageCode, LanguageKeywordSet>>;
+  /** Auto-reply, bounce and spam detection before classification; `false` turns it off. */
+  prefilter?: PrefilterOptions | false;
+  /** Quoted-reply, signature, legal-footer and HTML stripping before classification; `false` turns it off. */
+  normalize?: NormalizeOptions | false;
+  /** Near-duplicate detection in batch triage; `false` turns it off. */
+  duplicates?: DuplicateDetectionOptions | false;
+  /** Incident spike detection in batch triage; `false` turns it off. */
+  incidents?: IncidentDetectionOptions | false;
+  /** SLA policies; the most specific one for the ticket's tenant/project is applied. */
+  slaPolicies?: SlaPolicy[];
+  /** Routing rules; the most specific config for the ticket's tenant/project is applied. */
+  routing?: RoutingConfig[];
+  /** Required-information definitions; the most specific set for the ticket's tenant/project replaces the defaults. */
+  infoRequirements?: InfoRequirementSet[];
+  /** Customer directories; the most specific one for the ticket's tenant/project is joined on. */
+  customerDirectories?: CustomerDirectory[];
+  /** Urgency boosts for customers matching the rule conditions. */
+  customerRules?: CustomerUrgencyRule[];
+  /**
+   * Ticket corpus searched for earlier tickets from the same customer or organization.
+   * Batch triage adds the batch itself.
+   */
+  history?: Ticket[];
+  /** Compact form of `history` (see `withHistoryIndex`); used instead of it when set. */
+  historyIndex?: HistoryIndex;
+  /** Repeat-contact detection over `history`; `false` turns it off. */
+  repeatContact?: RepeatContactOptions | false;
+  /** Age-based urgency escalation and next-action suggestions; off unless set (`{}` applies `DEFAULT_AGING_RULES`). */
+  aging?: AgingOptions;
+  /** Clock used for SLA evaluation, ticket age and `processed_at`; defaults to the current time. */
+  now?: Date;
 }
 
+/** Version reported when only the built-in keyword rules are in play. */
+export const RULES_CLASSIFIER_VERSION = '1.0.0';
+
+const DEFAULT_MODEL_MIN_CONFIDENCE = 0.5;
+
 const DEFAULT_CRITICAL_KEYWORDS = [
-  'urgent', 'critical', 'down', 'outage', 'broken', 'error',
+  'urgent', 'critical', 'down', 'outage', 'broken',
   'failure', 'crash', 'security', 'breach', 'hack', 'leak',
   'data loss', 'corrupted', 'cannot access', 'emergency',
 ];
 
 const DEFAULT_HIGH_PRIORITY_KEYWORDS = [
   'important', 'high priority', 'asap', 'blocking', 'stuck',
-  'help needed', 'not working', 'bug', 'issue', 'problem',
+  'help needed', 'not working', 'bug', 'issue', 'problem', 'error',
 ];
 
 const DEFAULT_TOPIC_CATEGORIES: Record<string, string[]> = {
@@ -26,167 +143,884 @@ const DEFAULT_TOPIC_CATEGORIES: Record<string, string[]> = {
   'how-to': ['how', 'guide', 'tutorial', 'documentation', 'help', 'setup', 'configure'],
 };
 
-// Cache for pre-normalized keyword arrays to avoid repeated toLowerCase()
-const normalizedCache = new Map<string, string[]>();
+const URGENCY_RANK: Record<TriageUrgency, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+const URGENCY_LEVELS: TriageUrgency[] = ['low', 'medium', 'high', 'critical'];
 
-function getNormalizedKeywords(keywords: string[]): string[] {
-  const cacheKey = keywords.join('|');
-  if (!normalizedCache.has(cacheKey)) {
-    normalizedCache.set(cacheKey, keywords.map(k => k.toLowerCase()));
-  }
-  return normalizedCache.get(cacheKey)!;
+const TAG_KEYWORDS: Record<string, string[]> = {
+  'bug-report': ['bug', 'error', 'crash', 'exception'],
+  'feature-request': ['feature', 'enhancement', 'request', 'suggestion'],
+  'question': ['question', 'how', 'what', 'help'],
+};
+
+interface Decision<T> {
+  value: T;
+  explanations: TriageExplanation[];
 }
 
-export function classifyUrgency(
-  ticket: Ticket,
-  options: TriageOptions = {}
-): TriageUrgency {
-  const text = `${ticket.subject} ${ticket.body}`.toLowerCase();
+function ticketLanguage(ticket: Ticket, options: TriageOptions): TriageLanguage {
+  return options.language !== undefined
+    ? { code: options.language, confidence: 1 }
+    : detectTicketLanguage(ticket);
+}
+
+function matchOptionsFor(ticket: Ticket, options: TriageOptions): MatchOptions {
+  const { code } = ticketLanguage(ticket, options);
+  return { negationWindow: options.negationWindow, language: code === 'und' ? 'en' : code };
+}
+
+function keywordSetFor(ticket: Ticket, options: TriageOptions): LanguageKeywordSet | undefined {
+  return languageKeywordSet(ticketLanguage(ticket, options).code, options.languageKeywords);
+}
+
+function explainMatches(
+  target: TriageExplanationTarget,
+  rule: string,
+  value: string,
+  matches: KeywordMatch[]
+): TriageExplanation[] {
+  return matches.map(m => ({
+    target,
+    rule,
+    value,
+    keyword: m.keyword,
+    field: m.field,
+    offset: m.offset,
+    length: m.length,
+    ...(m.negated && { negated: true }),
+    detail: m.negated
+      ? `"${m.keyword}" in ${m.field} is negated and was ignored`
+      : `"${m.keyword}" matched in ${m.field}`,
+  }));
+}
+
+function detectUrgency(ticket: Ticket, options: TriageOptions): Decision<TriageUrgency> {
+  const explanations: TriageExplanation[] = [];
+
+  if (options.model) {
+    const minConfidence = options.modelMinConfidence ?? DEFAULT_MODEL_MIN_CONFIDENCE;
+    const prediction = predictUrgency(options.model, ticket);
+    if (prediction && prediction.confidence >= minConfidence) {
+      explanations.push({
+        target: 'urgency',
+        rule: 'model',
+        value: prediction.urgency,
+        detail: `Model ${options.model.model_version} predicted ${prediction.urgency} with confidence ${prediction.confidence}`,
+      });
+      return { value: prediction.urgency, explanations };
+    }
+    explanations.push({
+      target: 'urgency',
+      rule: 'model_fallback',
+      value: prediction?.urgency ?? 'none',
+      detail: prediction
+        ? `Model confidence ${prediction.confidence} is below ${minConfidence}; keyword rules applied`
+        : 'Model has no urgency classes; keyword rules applied',
+    });
+  }
+
+  const segments = getTriageSegments(ticket);
+  const matchOptions = matchOptionsFor(ticket, options);
+  const keywordSet = keywordSetFor(ticket, options);
   
-  const criticalKeywords = options.criticalKeywords ?? DEFAULT_CRITICAL_KEYWORDS;
-  const highPriorityKeywords = options.highPriorityKeywords ?? DEFAULT_HIGH_PRIORITY_KEYWORDS;
+  const criticalKeywords = [...options.criticalKeywords ?? DEFAULT_CRITICAL_KEYWORDS, ...keywordSet?.critical ?? []];
+  const highPriorityKeywords = [...options.highPriorityKeywords ?? DEFAULT_HIGH_PRIORITY_KEYWORDS, ...keywordSet?.high ?? []];
 
-  // Use cached normalized keywords for better performance
-  const normalizedCritical = getNormalizedKeywords(criticalKeywords);
-  const normalizedHigh = getNormalizedKeywords(highPriorityKeywords);
+  const criticalMatches = findKeywordMatches(segments, criticalKeywords, matchOptions);
+  explanations.push(...explainMatches('urgency', 'critical_keyword', 'critical', criticalMatches));
+  if (criticalMatches.some(m => !m.negated)) {
+    return { value: 'critical', explanations };
+  }
 
-  if (normalizedCritical.some(kw => text.includes(kw))) {
-    return 'critical';
+  const escalationMatches = findKeywordMatches(segments, options.escalationKeywords ?? [], matchOptions);
+  explanations.push(...explainMatches('urgency', 'escalation_keyword', 'critical', escalationMatches));
+  if (escalationMatches.some(m => !m.negated)) {
+    return { value: 'critical', explanations };
   }
 
-  if (normalizedHigh.some(kw => text.includes(kw))) {
-    return 'high';
+  const highMatches = findKeywordMatches(segments, highPriorityKeywords, matchOptions);
+  explanations.push(...explainMatches('urgency', 'high_priority_keyword', 'high', highMatches));
+  if (highMatches.some(m => !m.negated)) {
+    return { value: 'high', explanations };
   }
 
   if (ticket.priority === 'urgent' || ticket.priority === 'high') {
-    return 'high';
+    explanations.push({
+      target: 'urgency',
+      rule: 'ticket_priority',
+      value: 'high',
+      field: 'priority',
+      detail: `Ticket priority is ${ticket.priority}`,
+    });
+    return { value: 'high', explanations };
   }
 
-  return 'medium';
+  explanations.push({
+    target: 'urgency',
+    rule: 'default',
+    value: 'medium',
+    detail: 'No urgency rule fired',
+  });
+  return { value: 'medium', explanations };
 }
 
-export function classifyTopics(
+function customerFor(ticket: Ticket, options: TriageOptions): TriageCustomer | undefined {
+  return options.customerDirectories ? lookupCustomer(ticket, options.customerDirectories) : undefined;
+}
+
+function boostForCustomer(
+  decision: Decision<TriageUrgency>,
+  customer: TriageCustomer | undefined,
+  rules: CustomerUrgencyRule[]
+): Decision<TriageUrgency> {
+  if (!customer || rules.length === 0) {
+    return decision;
+  }
+  const { boost, matched } = applyCustomerRules(customer, rules);
+  const boosted = URGENCY_LEVELS[Math.min(URGENCY_RANK[decision.value] + boost, URGENCY_LEVELS.length - 1)];
+  if (boosted === decision.value) {
+    return decision;
+  }
+
+  return {
+    value: boosted,
+    explanations: [...decision.explanations, ...matched.map(rule => ({
+      target: 'urgency' as const,
+      rule: 'customer_rule',
+      value: boosted,
+      detail: `Customer rule ${rule.id}${rule.description !== undefined ? ` (${rule.description})` : ''} adds ${rule.boost} level(s): ${decision.value} -> ${boosted}`,
+    }))],
+  };
+}
+
+// Topics of history tickets, computed once per corpus
+const historyTopicCache = new WeakMap<Ticket[], Map<Ticket, string[] | undefined>>();
+
+function historyTicketTopics(ticket: Ticket, corpus: Ticket[], options: TriageOptions): string[] | undefined {
+  let cache = historyTopicCache.get(corpus);
+  if (!cache) {
+    cache = new Map();
+    historyTopicCache.set(corpus, cache);
+  }
+  if (!cache.has(ticket)) {
+    const genuine = options.prefilter === false || prefilterTicket(ticket, options.prefilter).disposition === 'genuine';
+    cache.set(ticket, genuine ? decideTopics(normalized(ticket, options).ticket, options).value.map(t => t.category) : undefined);
+  }
+  return cache.get(ticket);
+}
+
+function historyFor(
+  ticket: Ticket,
+  options: TriageOptions,
+  topics: TriageTopic[] = decideTopics(ticket, options).value
+): CustomerHistory | undefined {
+  if (options.repeatContact === false) {
+    return undefined;
+  }
+  if (options.historyIndex) {
+    return indexedCustomerHistory(ticket, topics.map(t => t.category), options.historyIndex, options.repeatContact);
+  }
+  const corpus = options.history;
+  if (corpus === undefined) {
+    return undefined;
+  }
+  return customerHistory(
+    ticket,
+    topics.map(t => t.category),
+    corpus,
+    prior => historyTicketTopics(prior, corpus, options),
+    options.repeatContact
+  );
+}
+
+/**
+ * Options with `history` swapped for its compact index, for handing to worker
+ * threads: prior ticket IDs, times and topics per customer key instead of every ticket.
+ */
+export function withHistoryIndex(options: TriageOptions): TriageOptions {
+  const { history, ...rest } = options;
+  if (history === undefined) {
+    return options;
+  }
+  return options.repeatContact === false
+    ? rest
+    : { ...rest, historyIndex: buildHistoryIndex(history, prior => historyTicketTopics(prior, history, options)) };
+}
+
+function boostForRepeatContact(
+  decision: Decision<TriageUrgency>,
+  history: CustomerHistory | undefined,
+  options: RepeatContactOptions
+): Decision<TriageUrgency> {
+  const latest = history?.repeats[0];
+  const boost = options.boost ?? DEFAULT_REPEAT_BOOST;
+  const boosted = URGENCY_LEVELS[Math.min(URGENCY_RANK[decision.value] + boost, URGENCY_LEVELS.length - 1)];
+  if (!latest || boosted === decision.value) {
+    return decision;
+  }
+
+  return {
+    value: boosted,
+    explanations: [...decision.explanations, {
+      target: 'urgency',
+      rule: 'repeat_contact',
+      value: boosted,
+      detail: `Repeat contact about ${latest.topic} (ticket ${latest.ticket_id}, ${latest.days} day(s) earlier) adds ${boost} level(s): ${decision.value} -> ${boosted}`,
+    }],
+  };
+}
+
+/**
+ * Aging boosts stop at `maxUrgency`, so a `ticket_age` explanation means the raise survived the cap.
+ */
+function boostForAge(
+  decision: Decision<TriageUrgency>,
+  aging: TicketAging | undefined,
+  maxUrgency: TriageUrgency | undefined
+): Decision<TriageUrgency> {
+  if (!aging || aging.boost === 0) {
+    return decision;
+  }
+  const ceiling = URGENCY_RANK[maxUrgency ?? 'critical'];
+  const boosted = URGENCY_LEVELS[Math.min(URGENCY_RANK[decision.value] + aging.boost, ceiling)];
+  if (URGENCY_RANK[boosted] <= URGENCY_RANK[decision.value]) {
+    return decision;
+  }
+
+  const rules = aging.fired.filter(f => f.boost > 0);
+  return {
+    value: boosted,
+    explanations: [...decision.explanations, {
+      target: 'urgency',
+      rule: 'ticket_age',
+      value: boosted,
+      detail: `${rules.map(f => `${f.rule_id} (${f.hours}h on the ${f.clock.replace('_', ' ')} clock, threshold ${f.after_hours}h)`).join(', ')} adds ${aging.boost} level(s): ${decision.value} -> ${boosted}`,
+    }],
+  };
+}
+
+/**
+ * Urgency from the ticket text, customer rules and repeat contacts: what aging rules match on.
+ */
+function decideUrgencyBeforeAge(
+  ticket: Ticket,
+  options: TriageOptions,
+  customer: TriageCustomer | undefined = customerFor(ticket, options),
+  history: CustomerHistory | undefined = historyFor(ticket, options)
+): Decision<TriageUrgency> {
+  return boostForRepeatContact(
+    boostForCustomer(detectUrgency(ticket, options), customer, options.customerRules ?? []),
+    history,
+    options.repeatContact !== false ? options.repeatContact ?? {} : {}
+  );
+}
+
+function decideUrgency(
+  ticket: Ticket,
+  options: TriageOptions,
+  beforeAge: Decision<TriageUrgency> = decideUrgencyBeforeAge(ticket, options),
+  aging?: TicketAging
+): Decision<TriageUrgency> {
+  const detected = boostForAge(beforeAge, aging, options.maxUrgency);
+  const max = options.maxUrgency;
+  if (max === undefined || URGENCY_RANK[detected.value] <= URGENCY_RANK[max]) {
+    return detected;
+  }
+
+  return {
+    value: max,
+    explanations: [...detected.explanations, {
+      target: 'urgency',
+      rule: 'max_urgency',
+      value: max,
+      detail: `Urgency ${detected.value} capped at ${max}`,
+    }],
+  };
+}
+
+export function classifyUrgency(
   ticket: Ticket,
   options: TriageOptions = {}
-): TriageTopic[] {
-  const text = `${ticket.subject} ${ticket.body}`.toLowerCase();
-  const categories = options.topicCategories ?? DEFAULT_TOPIC_CATEGORIES;
-  
-  const topics: TriageTopic[] = [];
+): TriageUrgency {
+  return decideUrgency(ticket, options).value;
+}
 
-  for (const [category, keywords] of Object.entries(categories)) {
-    // Use cached normalized keywords
-    const normalizedKeywords = getNormalizedKeywords(keywords);
-    const matches: string[] = [];
-    
-    for (let i = 0; i < normalizedKeywords.length; i++) {
-      if (text.includes(normalizedKeywords[i])) {
-        matches.push(keywords[i]); // Use original case for output
+function topicEntries(ticket: Ticket, options: TriageOptions): TaxonomyEntry[] {
+  const taxonomy = options.taxonomies ? selectTopicTaxonomy(options.taxonomies, ticket) : undefined;
+  const base = taxonomy
+    ? flattenTaxonomy(taxonomy)
+    : entriesFromCategories(options.topicCategories ?? DEFAULT_TOPIC_CATEGORIES);
+  const extra = entriesFromCategories(options.extraTopicCategories ?? {})
+    .filter(entry => !base.some(b => b.category === entry.category));
+
+  // Translated keywords join the category of the same name; categories the ticket's topic set lacks are ignored
+  const translated = keywordSetFor(ticket, options)?.topics ?? {};
+  return [...base, ...extra].map(entry => {
+    const keywords = translated[entry.category] ?? [];
+    return keywords.length > 0
+      ? { ...entry, keywords: [...new Set([...entry.keywords, ...keywords])] }
+      : entry;
+  });
+}
+
+function decideTopics(ticket: Ticket, options: TriageOptions): Decision<TriageTopic[]> {
+  if (options.model) {
+    const predicted = predictTopics(
+      options.model,
+      ticket,
+      options.modelMinConfidence ?? DEFAULT_MODEL_MIN_CONFIDENCE
+    );
+    if (predicted.length > 0) {
+      const modelVersion = options.model.model_version;
+      return {
+        value: predicted,
+        explanations: predicted.map(topic => ({
+          target: 'topics',
+          rule: 'model',
+          value: topic.category,
+          detail: `Model ${modelVersion} predicted ${topic.category} with confidence ${topic.confidence}`,
+        })),
+      };
+    }
+  }
+
+  const segments = getTriageSegments(ticket);
+  const entries = topicEntries(ticket, options);
+  const matchOptions = matchOptionsFor(ticket, options);
+
+  // On multi-turn threads, keywords from the latest customer message count double
+  // so the topic tracks where the conversation is now rather than where it started.
+  const latestField = getCustomerMessages(ticket).length > 0
+    ? getLatestCustomerSegment(ticket).field
+    : undefined;
+
+  interface NodeHits {
+    entry: TaxonomyEntry;
+    hits: KeywordMatch[];
+    matched: string[];
+    weight: number;
+  }
+
+  const hitNodes = new Map<string, NodeHits>();
+
+  for (const entry of entries) {
+    const hits = findKeywordMatches(segments, entry.keywords, matchOptions)
+      .filter(m => !m.negated);
+    const matched: string[] = [];
+    let weight = 0;
+
+    for (const keyword of entry.keywords) {
+      const keywordHits = hits.filter(m => m.keyword === keyword);
+      if (keywordHits.length > 0) {
+        matched.push(keyword);
+        weight += keywordHits.some(m => m.field === latestField) ? 2 : 1;
       }
     }
-    
-    if (matches.length > 0) {
-      topics.push({
-        category,
-        confidence: Math.min(matches.length / 2, 1),
-        keywords: matches,
-      });
+
+    if (matched.length > 0) {
+      hitNodes.set(entry.category, { entry, hits, matched, weight });
     }
   }
 
-  topics.sort((a, b) => b.confidence - a.confidence);
-  
-  return topics.slice(0, 3);
-}
+  // Report the deepest matching nodes; evidence for an ancestor counts towards
+  // each matching descendant instead of being reported separately.
+  const leaves = [...hitNodes.values()].filter(node =>
+    ![...hitNodes.keys()].some(other => other !== node.entry.category && isWithinTopic(other, node.entry.category))
+  );
+
+  const candidates = leaves.map(node => {
+    const lineage = [...hitNodes.values()].filter(other => isWithinTopic(node.entry.category, other.entry.category));
+    const weight = lineage.reduce((sum, other) => sum + other.weight, 0);
+    const topic: TriageTopic = {
+      category: node.entry.category,
+      confidence: Math.min(weight / 2, 1),
+      keywords: lineage.flatMap(other => other.matched),
+      ...(node.entry.owner !== undefined && { owner: node.entry.owner }),
+    };
+    return { topic, hits: lineage.flatMap(other => other.hits) };
+  });
 
-export function extractMissingInfo(ticket: Ticket): string[] {
-  const missing: string[] = [];
-  const text = `${ticket.subject} ${ticket.body}`.toLowerCase();
+  candidates.sort((a, b) => b.topic.confidence - a.topic.confidence);
+  const selected = candidates.slice(0, 3);
 
-  const checkPatterns: Record<string, RegExp[]> = {
-    'account_id': [/account\s*id/i, /user\s*id/i, /org\s*id/i],
-    'error_message': [/error[:\s]/i, /exception/i, /stack\s*trace/i],
-    'steps_to_reproduce': [/step/i, /reproduce/i, /how\s*to/i],
-    'environment': [/browser/i, /version/i, /os/i, /platform/i, /environment/i],
-    'expected_behavior': [/expected/i, /should/i, /supposed\s*to/i],
-    'actual_behavior': [/actually/i, /instead/i, /but\s*got/i],
+  return {
+    value: selected.map(c => c.topic),
+    explanations: selected.flatMap(c =>
+      explainMatches('topics', 'topic_keyword', c.topic.category, c.hits)
+    ),
   };
+}
 
-  for (const [info, patterns] of Object.entries(checkPatterns)) {
-    const found = patterns.some(pattern => pattern.test(text));
-    if (!found) {
-      missing.push(info);
-    }
-  }
+export function classifyTopics(
+  ticket: Ticket,
+  options: TriageOptions = {}
+): TriageTopic[] {
+  return decideTopics(normalized(ticket, options).ticket, options).value;
+}
 
-  return missing;
+/**
+ * Information the customer has already supplied anywhere in the thread,
+ * judged by the detection rules of the required-information definitions.
+ * The thread is normalized first, as in triage, so quoted history does not count.
+ */
+export function extractProvidedInfo(ticket: Ticket, options: TriageOptions = {}): string[] {
+  return detectProvidedInfo(normalized(ticket, options).ticket, requirementsFor(ticket, options));
 }
 
-export function suggestTags(
+function requirementsFor(ticket: Ticket, options: TriageOptions): InfoRequirement[] {
+  return (options.infoRequirements ? selectInfoRequirements(options.infoRequirements, ticket) : undefined)
+    ?? DEFAULT_INFO_REQUIREMENTS;
+}
+
+interface MissingInfoDecision extends Decision<string[]> {
+  requests: TriageInformationRequest[];
+}
+
+function decideMissingInfo(
   ticket: Ticket,
-  topics: TriageTopic[]
-): string[] {
+  topics: TriageTopic[],
+  entities: TriageEntity[],
+  options: TriageOptions
+): MissingInfoDecision {
+  const checks = checkRequiredInfo(ticket, topics.map(t => t.category), requirementsFor(ticket, options), entities)
+    .filter(check => !check.provided);
+
+  return {
+    value: checks.map(check => check.requirement.id),
+    requests: checks.map(toInformationRequest),
+    explanations: checks.map(check => ({
+      target: 'missing_info',
+      rule: 'required_info_absent',
+      value: check.requirement.id,
+      detail: `Required for topic ${check.topic}; no ${[...check.requirement.detect.entities, ...check.requirement.detect.patterns.map(p => `/${p}/`)].join(' / ')} found`,
+    })),
+  };
+}
+
+export function extractMissingInfo(received: Ticket, options: TriageOptions = {}): string[] {
+  const { ticket } = normalized(received, options);
+  return decideMissingInfo(ticket, decideTopics(ticket, options).value, extractEntities(ticket), options).value;
+}
+
+function decideTags(ticket: Ticket, topics: TriageTopic[], options: TriageOptions): Decision<string[]> {
   const tags = new Set(ticket.tags);
+  const explanations: TriageExplanation[] = [];
   
   for (const topic of topics) {
     tags.add(topic.category);
+    explanations.push({
+      target: 'tags',
+      rule: 'topic_category',
+      value: topic.category,
+      detail: `Topic ${topic.category} was detected`,
+    });
     
     if (topic.confidence > 0.7) {
       tags.add(`high-confidence-${topic.category}`);
+      explanations.push({
+        target: 'tags',
+        rule: 'topic_confidence',
+        value: `high-confidence-${topic.category}`,
+        detail: `Topic ${topic.category} confidence ${topic.confidence} is above 0.7`,
+      });
     }
   }
 
-  const text = `${ticket.subject} ${ticket.body}`.toLowerCase();
-  
-  if (/bug|error|crash|exception/.test(text)) {
-    tags.add('bug-report');
+  const segments = getTriageSegments(ticket);
+
+  for (const [tag, keywords] of Object.entries(TAG_KEYWORDS)) {
+    const hit = findKeywordMatches(segments, keywords, matchOptionsFor(ticket, options))
+      .find(m => !m.negated);
+    if (hit) {
+      tags.add(tag);
+      explanations.push(...explainMatches('tags', 'tag_keyword', tag, [hit]));
+    }
   }
-  
-  if (/feature|enhancement|request|suggestion/.test(text)) {
-    tags.add('feature-request');
+
+  return { value: [...tags], explanations };
+}
+
+export function suggestTags(
+  ticket: Ticket,
+  topics: TriageTopic[],
+  options: TriageOptions = {}
+): string[] {
+  return decideTags(ticket, topics, options).value;
+}
+
+function decideEscalation(ticket: Ticket, options: TriageOptions): Decision<boolean> {
+  if (options.autoEscalate !== true) {
+    return { value: false, explanations: [] };
   }
-  
-  if (/question|how|what|help/.test(text)) {
-    tags.add('question');
+
+  const hit = findKeywordMatches(getTriageSegments(ticket), options.escalationKeywords ?? [], matchOptionsFor(ticket, options))
+    .find(m => !m.negated);
+  if (!hit) {
+    return { value: false, explanations: [] };
+  }
+
+  return {
+    value: true,
+    explanations: [{
+      target: 'escalated',
+      rule: 'auto_escalate',
+      value: 'true',
+      keyword: hit.keyword,
+      field: hit.field,
+      offset: hit.offset,
+      length: hit.length,
+      detail: `Escalation keyword "${hit.keyword}" matched in ${hit.field}`,
+    }],
+  };
+}
+
+function decideHumanReview(
+  urgency: TriageUrgency,
+  topics: TriageTopic[],
+  escalated: boolean,
+  sentiment: TriageSentiment,
+  prefilter?: PrefilterResult
+): Decision<boolean> {
+  if (escalated) {
+    return {
+      value: true,
+      explanations: [{
+        target: 'requires_human_review',
+        rule: 'auto_escalate',
+        value: 'true',
+        detail: 'Escalated tickets always go to a human',
+      }],
+    };
+  }
+
+  if (urgency === 'critical') {
+    return {
+      value: true,
+      explanations: [{
+        target: 'requires_human_review',
+        rule: 'critical_urgency',
+        value: 'true',
+        detail: 'Critical tickets always go to a human',
+      }],
+    };
+  }
+
+  if (sentiment.frustration_level === 'high') {
+    return {
+      value: true,
+      explanations: [{
+        target: 'requires_human_review',
+        rule: 'high_frustration',
+        value: 'true',
+        detail: `Customer frustration ${sentiment.frustration} is high`,
+      }],
+    };
+  }
+
+  const billing = topics.find(t => isWithinTopic(t.category, 'billing') && t.confidence > 0.8);
+  if (billing) {
+    return {
+      value: true,
+      explanations: [{
+        target: 'requires_human_review',
+        rule: 'billing_confidence',
+        value: 'true',
+        detail: `Billing topic ${billing.category} confidence ${billing.confidence} is above 0.8`,
+      }],
+    };
+  }
+
+  if (prefilter?.review === true) {
+    return {
+      value: true,
+      explanations: [{
+        target: 'requires_human_review',
+        rule: 'borderline_prefilter',
+        value: 'true',
+        detail: 'The prefilter found auto-reply or spam signals too weak to filter the ticket',
+      }],
+    };
+  }
+
+  return {
+    value: false,
+    explanations: [{
+      target: 'requires_human_review',
+      rule: 'default',
+      value: 'false',
+      detail: 'No human review rule fired',
+    }],
+  };
+}
+
+function decideKbUpdate(missingInfo: string[], topics: TriageTopic[]): Decision<boolean> {
+  const confident = topics.find(t => t.confidence > 0.5);
+
+  if (missingInfo.length > 0 && confident) {
+    return {
+      value: true,
+      explanations: [{
+        target: 'requires_kb_update',
+        rule: 'missing_info_with_confident_topic',
+        value: 'true',
+        detail: `Topic ${confident.category} (confidence ${confident.confidence}) is missing ${missingInfo.join(', ')}`,
+      }],
+    };
+  }
+
+  return {
+    value: false,
+    explanations: [{
+      target: 'requires_kb_update',
+      rule: 'default',
+      value: 'false',
+      detail: missingInfo.length === 0 ? 'No information is missing' : 'No topic is above 0.5 confidence',
+    }],
+  };
+}
+
+function repeatContactExplanation(history: CustomerHistory, options: TriageOptions['repeatContact']): TriageExplanation {
+  const windowDays = (options !== false ? options?.windowDays : undefined) ?? DEFAULT_REPEAT_WINDOW_DAYS;
+  if (history.repeats.length > 0) {
+    return {
+      target: 'repeat_contact',
+      rule: 'customer_history',
+      value: 'true',
+      detail: `Same customer wrote within ${windowDays} day(s) about ${history.repeats.map(r => `${r.topic} (ticket ${r.ticket_id}, ${r.days} day(s) earlier)`).join(', ')}`,
+    };
+  }
+  return {
+    target: 'repeat_contact',
+    rule: 'customer_history',
+    value: 'false',
+    detail: history.prior_ticket_ids.length > 0
+      ? `${history.prior_ticket_ids.length} earlier ticket(s), none on the same topic within ${windowDays} day(s)`
+      : 'No earlier tickets from this customer',
+  };
+}
+
+function agingExplanation(ticket: Ticket, aging: TicketAging, escalated: boolean): TriageExplanation {
+  const action = suggestNextAction(ticket, aging, escalated);
+  return {
+    target: 'next_action',
+    rule: aging.action?.rule_id ?? 'ticket_status',
+    value: action,
+    detail: aging.action
+      ? `${ticket.status} for ${aging.action.hours}h on the ${aging.action.clock.replace('_', ' ')} clock (threshold ${aging.action.after_hours}h); ticket age ${aging.age_hours}h`
+      : `${ticket.status} ticket${escalated ? ', escalated' : ''}; age ${aging.age_hours}h, no aging rule with an action fired`,
+  };
+}
+
+/**
+ * Result for mail the prefilter rejected: nothing is classified, drafted or escalated.
+ */
+function filteredResult(ticket: Ticket, prefilter: PrefilterResult, options: TriageOptions): TriageResult {
+  return {
+    tenant_id: ticket.tenant_id,
+    project_id: ticket.project_id,
+    ticket_id: ticket.id,
+    disposition: prefilter.disposition,
+    urgency: 'low',
+    topics: [],
+    missing_info: [],
+    entities: [],
+    information_requests: [],
+    suggested_priority: 'low',
+    suggested_tags: [...new Set([...ticket.tags, prefilter.disposition.replace('_', '-')])],
+    requires_kb_update: false,
+    requires_human_review: false,
+    escalated: false,
+    classifier_version: options.model?.model_version ?? RULES_CLASSIFIER_VERSION,
+    reasoning: `Not triaged: detected as ${prefilter.disposition.replace('_', ' ')}.`,
+    explanations: prefilter.explanations,
+    required_skills: [],
+    matched_rule_ids: [],
+    processed_at: (options.now ?? new Date()).toISOString(),
+  };
+}
+
+function normalized(ticket: Ticket, options: TriageOptions): NormalizedTicket {
+  return options.normalize === false ? { ticket } : normalizeTicket(ticket, options.normalize);
+}
+
+// Results go to evidence as they are, so the customer text they carry is redacted
+function redactNormalization(normalization: TriageNormalization): TriageNormalization {
+  return {
+    ...normalization,
+    body: redactPII(normalization.body).redacted,
+    removed: normalization.removed.map(segment => ({ ...segment, excerpt: redactPII(segment.excerpt).redacted })),
+  };
+}
+
+/**
+ * An earlier result of the same ticket, moved to `options.now`: `processed_at`,
+ * the ticket's age and its next action are recomputed. Undefined when an aging
+ * rule fires (or may fire) at either time, since that can change urgency and the
+ * ticket has to be triaged again.
+ */
+export function retimeTriageResult(received: Ticket, result: TriageResult, options: TriageOptions = {}): TriageResult | undefined {
+  const now = options.now ?? new Date();
+  const retimed: TriageResult = { ...result, processed_at: now.toISOString() };
+  if (!options.aging || result.age_hours === undefined) {
+    return retimed;
   }
 
-  return [...tags];
+  const { ticket } = normalized(received, options);
+  // Rules are checked at any urgency, so a rule that might fire sends the ticket back to triage
+  const aging = assessAging(ticket, now, options.aging);
+  const agedBefore = result.escalated_due_to_age === true
+    || result.explanations.some(e => e.target === 'next_action' && e.rule !== 'ticket_status');
+  if (aging.fired.length > 0 || agedBefore) {
+    return undefined;
+  }
+  return {
+    ...retimed,
+    age_hours: aging.age_hours,
+    next_action: suggestNextAction(ticket, aging, result.escalated),
+    explanations: result.explanations.map(e => e.target === 'next_action' ? agingExplanation(ticket, aging, result.escalated) : e),
+  };
 }
 
 export function triageTicket(
-  ticket: Ticket,
-  options: TriageOptions = {}
+  received: Ticket,
+  triageOptions: TriageOptions = {}
 ): TriageResult {
-  const urgency = classifyUrgency(ticket, options);
-  const topics = classifyTopics(ticket, options);
-  const missingInfo = extractMissingInfo(ticket);
-  const suggestedTags = suggestTags(ticket, topics);
+  // The prefilter needs the raw mail: bounces and auto-replies quote the original
+  const prefilter = triageOptions.prefilter === false ? undefined : prefilterTicket(received, triageOptions.prefilter);
+  if (prefilter && prefilter.disposition !== 'genuine') {
+    return filteredResult(received, prefilter, triageOptions);
+  }
+  const { ticket, normalization } = normalized(received, triageOptions);
+
+  // Detect once; every decision below reuses the result
+  const language = ticketLanguage(ticket, triageOptions);
+  const options: TriageOptions = language.code === 'und' ? triageOptions : { ...triageOptions, language: language.code };
+
+  const customer = customerFor(ticket, options);
+  const topics = decideTopics(ticket, options);
+  const history = historyFor(ticket, triageOptions, topics.value);
+  const now = options.now ?? new Date();
+  const beforeAge = decideUrgencyBeforeAge(ticket, options, customer, history);
+  const aging = options.aging ? assessAging(ticket, now, options.aging, beforeAge.value) : undefined;
+  const urgency = decideUrgency(ticket, options, beforeAge, aging);
+  const entities = extractEntities(ticket);
+  const missingInfo = decideMissingInfo(ticket, topics.value, entities, options);
+  const suggestedTags = decideTags(ticket, topics.value, options);
+  const escalated = decideEscalation(ticket, options);
+  const sentiment = scoreSentiment(ticket, { negationWindow: options.negationWindow });
+  const humanReview = decideHumanReview(urgency.value, topics.value, escalated.value, sentiment, prefilter);
+  const kbUpdate = decideKbUpdate(missingInfo.value, topics.value);
 
   const suggestedPriority: TriageResult['suggested_priority'] = 
-    urgency === 'critical' ? 'urgent' :
-    urgency === 'high' ? 'high' :
-    urgency === 'medium' ? 'medium' : 'low';
+    urgency.value === 'critical' ? 'urgent' :
+    urgency.value === 'high' ? 'high' :
+    urgency.value === 'medium' ? 'medium' : 'low';
 
-  const requiresHumanReview = 
-    urgency === 'critical' || 
-    topics.some(t => t.category === 'billing' && t.confidence > 0.8);
+  const taxonomy = options.taxonomies ? selectTopicTaxonomy(options.taxonomies, ticket) : undefined;
 
-  const requiresKbUpdate = 
-    missingInfo.length > 0 && 
-    topics.some(t => t.confidence > 0.5);
+  const slaPolicy = options.slaPolicies ? selectSlaPolicy(options.slaPolicies, ticket) : undefined;
+  const sla = slaPolicy ? computeSla(ticket, slaPolicy, { now, suggestedPriority }) : undefined;
+  const slaExplanations: TriageExplanation[] = sla ? [{
+    target: 'sla',
+    rule: 'sla_policy',
+    value: sla.breach_risk,
+    detail: `Policy ${sla.policy_id} (${sla.tier}, ${sla.priority}): first response due ${sla.first_response_due}, resolution due ${sla.resolution_due}${sla.paused ? ' (paused while pending)' : ''}`,
+  }] : [];
 
-  return {
+  const result: TriageResult = {
     tenant_id: ticket.tenant_id,
     project_id: ticket.project_id,
     ticket_id: ticket.id,
-    urgency,
-    topics,
-    missing_info: missingInfo,
+    disposition: 'genuine',
+    urgency: urgency.value,
+    topics: topics.value,
+    missing_info: missingInfo.value,
+    entities: redactEntities(entities),
+    information_requests: missingInfo.requests,
+    sentiment,
+    language,
+    ...(customer && { customer }),
+    ...(normalization && { normalization: redactNormalization(normalization) }),
+    ...(history && { prior_ticket_ids: history.prior_ticket_ids, repeat_contact: history.repeats.length > 0 }),
     suggested_priority: suggestedPriority,
-    suggested_tags: suggestedTags,
-    requires_kb_update: requiresKbUpdate,
-    requires_human_review: requiresHumanReview,
-    reasoning: `Classified as ${urgency} urgency based on keywords. Topics: ${topics.map(t => t.category).join(', ') || 'none detected'}. Missing: ${missingInfo.join(', ') || 'none'}.`,
-    processed_at: new Date().toISOString(),
+    suggested_tags: suggestedTags.value,
+    requires_kb_update: kbUpdate.value,
+    requires_human_review: humanReview.value,
+    escalated: escalated.value,
+    classifier_version: options.model?.model_version ?? RULES_CLASSIFIER_VERSION,
+    ...(taxonomy && { taxonomy_id: taxonomy.taxonomy_id, taxonomy_version: taxonomy.version }),
+    reasoning: `Classified as ${urgency.value} urgency based on ${options.model ? `model ${options.model.model_version} with keyword fallback` : 'keywords'}. Topics: ${topics.value.map(t => t.category).join(', ') || 'none detected'}. Missing: ${missingInfo.value.join(', ') || 'none'}.`,
+    explanations: [
+      ...prefilter?.explanations ?? [],
+      ...urgency.explanations,
+      ...topics.explanations,
+      ...suggestedTags.explanations,
+      ...missingInfo.explanations,
+      ...escalated.explanations,
+      ...history ? [repeatContactExplanation(history, triageOptions.repeatContact)] : [],
+      {
+        target: 'sentiment',
+        rule: 'sentiment_lexicon',
+        value: sentiment.frustration_level,
+        detail: `Sentiment ${sentiment.score}, frustration ${sentiment.frustration} from ${sentiment.signals.length > 0 ? sentiment.signals.map(s => `${s.type}:${s.value}`).join(', ') : 'no signals'}`,
+      },
+      {
+        target: 'language',
+        rule: triageOptions.language !== undefined ? 'language_option' : 'language_detection',
+        value: language.code,
+        detail: triageOptions.language !== undefined
+          ? `Language set to ${language.code} by configuration`
+          : language.code === 'und'
+            ? 'Too little text to detect the language; English rules applied'
+            : `Detected ${language.code} with confidence ${language.confidence}`,
+      },
+      ...humanReview.explanations,
+      ...kbUpdate.explanations,
+      ...slaExplanations,
+      ...aging ? [agingExplanation(ticket, aging, escalated.value)] : [],
+    ],
+    ...(sla && { sla }),
+    ...(aging && {
+      age_hours: aging.age_hours,
+      escalated_due_to_age: urgency.explanations.some(e => e.rule === 'ticket_age'),
+      next_action: suggestNextAction(ticket, aging, escalated.value),
+    }),
+    required_skills: [],
+    matched_rule_ids: [],
+    processed_at: now.toISOString(),
   };
+
+  const routingConfig = options.routing ? selectRoutingConfig(options.routing, ticket) : undefined;
+  if (routingConfig) {
+    applyRouting(ticket, result, routingConfig);
+  }
+
+  return result;
+}
+
+function applyRouting(ticket: Ticket, result: TriageResult, config: RoutingConfig): void {
+  const trace = explainRouting(ticket, result, config);
+
+  if (trace.assigned_queue !== undefined) {
+    result.assigned_queue = trace.assigned_queue;
+  }
+  result.required_skills = trace.required_skills;
+  result.matched_rule_ids = trace.matched_rule_ids;
+
+  for (const ruleId of trace.matched_rule_ids) {
+    const rule = config.rules.find(r => r.id === ruleId);
+    result.explanations.push({
+      target: 'routing',
+      rule: ruleId,
+      value: rule?.queue ?? rule?.skills.join(', ') ?? '',
+      detail: rule?.description ?? `Routing rule ${ruleId} matched`,
+    });
+  }
+  if (trace.queue_source === 'default') {
+    result.explanations.push({
+      target: 'routing',
+      rule: 'default_queue',
+      value: trace.assigned_queue ?? '',
+      detail: 'No matching rule assigned a queue',
+    });
+  }
 }
@@ -0,0 +1,158 @@
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { z } from 'zod';
+import { SlaPolicySchema } from '../contracts/sla-policy.js';
+import { RoutingConfigSchema } from '../contracts/routing-rule.js';
+import { TopicTaxonomySchema } from '../contracts/topic-taxonomy.js';
+import { InfoRequirementSetSchema } from '../contracts/info-requirement.js';
+import { CustomerDirectorySchema, CustomerUrgencyRuleSchema } from '../contracts/customer-directory.js';
+import { TicketPrioritySchema, TicketStatusSchema } from '../contracts/ticket.js';
+import { TriageNextActionSchema, TriageUrgencySchema } from '../contracts/triage-result.js';
+import { parseRoutingConfigs } from '../routing/engine.js';
+import type { Profile } from '../utils/profiles.js';
+import { SUPPORTED_LANGUAGES } from '../utils/language.js';
+import type { TriageOptions } from './classifier.js';
+import { loadClassifierModel } from './model.js';
+
+/**
+ * File representation of `TriageOptions`.
+ * A config file may hold these keys at the top level or under a `triage` key,
+ * so the same file can also carry pipeline settings such as `ticketsPath`.
+ */
+const LanguageCodeSchema = z.enum(SUPPORTED_LANGUAGES);
+
+const LanguageKeywordSetSchema = z.object({
+  critical: z.array(z.string().min(1)).default([]),
+  high: z.array(z.string().min(1)).default([]),
+  topics: z.record(z.array(z.string().min(1))).default({}),
+});
+
+export const TriageConfigSchema = z.object({
+  criticalKeywords: z.array(z.string().min(1)).optional(),
+  highPriorityKeywords: z.array(z.string().min(1)).optional(),
+  topicCategories: z.record(z.array(z.string().min(1))).optional(),
+  extraTopicCategories: z.record(z.array(z.string().min(1))).optional(),
+  escalationKeywords: z.array(z.string().min(1)).optional(),
+  maxUrgency: TriageUrgencySchema.optional(),
+  autoEscalate: z.boolean().optional(),
+  negationWindow: z.number().int().nonnegative().optional(),
+  language: LanguageCodeSchema.optional(),
+  languageKeywords: z.object({
+    en: LanguageKeywordSetSchema.optional(),
+    de: LanguageKeywordSetSchema.optional(),
+    fr: LanguageKeywordSetSchema.optional(),
+    es: LanguageKeywordSetSchema.optional(),
+    ja: LanguageKeywordSetSchema.optional(),
+  }).optional(),
+  modelMinConfidence: z.number().min(0).max(1).optional(),
+  prefilter: z.union([
+    z.literal(false),
+    z.object({
+      spamThreshold: z.number().int().positive().optional(),
+      spamKeywords: z.array(z.string().min(1)).optional(),
+    }),
+  ]).optional(),
+  normalize: z.union([
+    z.literal(false),
+    z.object({
+      html: z.boolean().optional(),
+      quotedReplies: z.boolean().optional(),
+      signatures: z.boolean().optional(),
+      legalFooters: z.boolean().optional(),
+      footerPhrases: z.array(z.string().min(1)).optional(),
+    }),
+  ]).optional(),
+  duplicates: z.union([
+    z.literal(false),
+    z.object({
+      threshold: z.number().min(0).max(1).optional(),
+      shingleSize: z.number().int().positive().optional(),
+      numHashes: z.number().int().positive().optional(),
+      bands: z.number().int().positive().optional(),
+    }),
+  ]).optional(),
+  incidents: z.union([
+    z.literal(false),
+    z.object({
+      windowMinutes: z.number().positive().optional(),
+      minTickets: z.number().int().min(2).optional(),
+      keywords: z.array(z.string().min(1)).optional(),
+    }),
+  ]).optional(),
+  repeatContact: z.union([
+    z.literal(false),
+    z.object({
+      windowDays: z.number().positive().optional(),
+      boost: z.number().int().min(0).max(3).optional(),
+    }),
+  ]).optional(),
+  aging: z.object({
+    rules: z.array(z.object({
+      id: z.string().min(1),
+      statuses: z.array(TicketStatusSchema).optional(),
+      priorities: z.array(TicketPrioritySchema).optional(),
+      urgencies: z.array(TriageUrgencySchema).optional(),
+      clock: z.enum(['created', 'last_activity']).optional(),
+      after_hours: z.number().nonnegative(),
+      boost: z.number().int().min(0).max(3).optional(),
+      action: TriageNextActionSchema.optional(),
+    })).optional(),
+  }).optional(),
+  slaPolicies: z.array(SlaPolicySchema).optional(),
+  routing: z.union([RoutingConfigSchema, z.array(RoutingConfigSchema)]).optional(),
+  taxonomies: z.array(TopicTaxonomySchema).optional(),
+  infoRequirements: z.array(InfoRequirementSetSchema).optional(),
+  customerDirectories: z.array(CustomerDirectorySchema).optional(),
+  customerRules: z.array(CustomerUrgencyRuleSchema).optional(),
+  /** Path to a trained classifier model, relative to the config file. */
+  model: z.string().min(1).optional(),
+});
+
+export type TriageConfig = z.infer<typeof TriageConfigSchema>;
+
+function selectTriageSection(data: unknown): unknown {
+  if (typeof data === 'object' && data !== null && 'triage' in data) {
+    return (data as { triage: unknown }).triage;
+  }
+  return data;
+}
+
+/**
+ * Convert a parsed config into triage options.
+ * Relative paths inside the config resolve against `baseDir`.
+ */
+export function triageConfigToOptions(config: TriageConfig, baseDir: string = process.cwd()): TriageOptions {
+  const { model, routing, ...rest } = config;
+  return {
+    ...rest,
+    ...(model !== undefined && { model: loadClassifierModel(resolve(baseDir, model)) }),
+    ...(routing !== undefined && { routing: parseRoutingConfigs(routing) }),
+  };
+}
+
+/**
+ * Triage options implied by a profile: escalation keywords, urgency cap and
+ * auto-escalation from `escalation`, and one topic category per product
+ * feature in `terminology.features` (the feature name is its keyword).
+ */
+export function profileToTriageOptions(profile: Profile): TriageOptions {
+  const features = Object.keys(profile.terminology.features);
+  return {
+    escalationKeywords: profile.escalation.keywords,
+    maxUrgency: profile.escalation.max_urgency,
+    autoEscalate: profile.escalation.auto_escalate,
+    ...(features.length > 0 && {
+      extraTopicCategories: Object.fromEntries(features.map(feature => [feature, [feature]])),
+    }),
+  };
+}
+
+export function parseTriageConfig(data: unknown): TriageConfig {
+  return TriageConfigSchema.parse(selectTriageSection(data));
+}
+
+export function loadTriageConfig(configPath: string): TriageOptions {
+  const fullPath = resolve(configPath);
+  const data: unknown = JSON.parse(readFileSync(fullPath, 'utf-8'));
+  return triageConfigToOptions(parseTriageConfig(data), dirname(fullPath));
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { applyCustomerRules, loadCustomerDirectories, lookupCustomer } from './customers.js';
+import { triageTicket } from './classifier.js';
+import { createTriagePacket } from './triage-packet.js';
+import { explainRouting } from '../routing/engine.js';
+import { redactObject } from '../runner/redact.js';
+import { validateCustomerDirectory, type CustomerDirectory, type CustomerUrgencyRule } from '../contracts/customer-directory.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'test-1',
+  subject: 'Question about reports',
+  body: 'How do I schedule a weekly report?',
+  status: 'open',
+  priority: 'medium',
+  customer_email: 'Jane@Acme.example',
+  created_at: '2024-03-01T10:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+const directory: CustomerDirectory = validateCustomerDirectory({
+  directory_id: 'crm',
+  tenant_id: 't1',
+  customers: [
+    { customer_email: 'jane@acme.example', account_id: 'ACC-100', plan_tier: 'enterprise', mrr: 9000, region: 'eu' },
+    { account_id: 'ACC-200', plan_tier: 'pro', mrr: 300, open_incident: true },
+  ],
+});
+
+const rules: CustomerUrgencyRule[] = [
+  { id: 'enterprise', all: [{ field: 'plan_tier', operator: 'equals', value: 'Enterprise' }], any: [], boost: 1 },
+  { id: 'incident', all: [{ field: 'open_incident', operator: 'equals', value: true }], any: [], boost: 2 },
+];
+
+describe('lookupCustomer', () => {
+  it('should join on email, ignoring case', () => {
+    expect(lookupCustomer(createTestTicket(), [directory])).toEqual({
+      account_id: 'ACC-100',
+      plan_tier: 'enterprise',
+      mrr: 9000,
+      region: 'eu',
+      open_incident: false,
+      directory_id: 'crm',
+      matched_by: 'customer_email',
+    });
+  });
+
+  it('should fall back to an account ID from metadata or the ticket text', () => {
+    const fromMetadata = createTestTicket({ customer_email: undefined, metadata: { account_id: 'ACC-200' } });
+    const fromText = createTestTicket({ customer_email: 'other@example.com', body: 'Our account id is ACC-200.' });
+
+    expect(lookupCustomer(fromMetadata, [directory])?.matched_by).toBe('account_id');
+    expect(lookupCustomer(fromText, [directory])?.account_id).toBe('ACC-200');
+  });
+
+  it('should only use directories in scope for the ticket tenant', () => {
+    expect(lookupCustomer(createTestTicket({ tenant_id: 't2' }), [directory])).toBeUndefined();
+  });
+});
+
+describe('applyCustomerRules', () => {
+  it('should apply the largest boost of the matching rules', () => {
+    const customer = { open_incident: true, plan_tier: 'enterprise', directory_id: 'crm', matched_by: 'account_id' as const };
+
+    const outcome = applyCustomerRules(customer, rules);
+
+    expect(outcome.boost).toBe(2);
+    expect(outcome.matched.map(r => r.id)).toEqual(['enterprise', 'incident']);
+  });
+});
+
+describe('triage with customer context', () => {
+  it('should boost urgency and record the customer on the result', () => {
+    const result = triageTicket(createTestTicket(), { customerDirectories: [directory], customerRules: rules });
+
+    expect(result.urgency).toBe('high');
+    expect(result.customer?.plan_tier).toBe('enterprise');
+    expect(result.explanations).toContainEqual(expect.objectContaining({
+      target: 'urgency',
+      rule: 'customer_rule',
+      value: 'high',
+    }));
+  });
+
+  it('should keep the urgency cap above customer boosts', () => {
+    const result = triageTicket(createTestTicket(), { customerDirectories: [directory], customerRules: rules, maxUrgency: 'medium' });
+
+    expect(result.urgency).toBe('medium');
+  });
+
+  it('should let routing rules use customer fields', () => {
+    const result = triageTicket(createTestTicket(), { customerDirectories: [directory] });
+
+    const trace = explainRouting(createTestTicket(), result, {
+      rules: [{ id: 'big', priority: 0, all: [{ field: 'customer.mrr', operator: 'gte', value: 5000 }], any: [], queue: 'key-accounts', skills: [], stop: false }],
+    });
+
+    expect(trace.assigned_queue).toBe('key-accounts');
+  });
+
+  it('should record provenance in the triage packet and redact MRR in evidence', () => {
+    const ticket = createTestTicket();
+    const result = triageTicket(ticket, { customerDirectories: [directory] });
+
+    const packet = createTriagePacket(ticket, result);
+
+    expect(packet.metadata.enrichment).toEqual([{
+      source: 'customer_directory',
+      source_id: 'crm',
+      matched_by: 'customer_email',
+      fields: ['account_id', 'plan_tier', 'mrr', 'region', 'open_incident'],
+    }]);
+    expect((redactObject(result) as { customer: { mrr: unknown } }).customer.mrr).toBe('[REDACTED]');
+  });
+});
+
+describe('loadCustomerDirectories', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir !== undefined) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should read a CSV directory scoped to the given tenant', () => {
+    dir = mkdtempSync(join(tmpdir(), 'customers-'));
+    const path = join(dir, 'accounts.csv');
+    writeFileSync(path, [
+      'customer_email,account_id,plan_tier,mrr,region,open_incident',
+      'jane@acme.example,ACC-100,enterprise,"12,500",eu,yes',
+      ',ACC-300,free,0,,',
+    ].join('\n'));
+
+    const [loaded] = loadCustomerDirectories(path, { tenant_id: 't1' });
+
+    expect(loaded.directory_id).toBe('accounts');
+    expect(loaded.tenant_id).toBe('t1');
+    expect(loaded.customers[0]).toMatchObject({ mrr: 12500, open_incident: true });
+    expect(loaded.customers[1]).toEqual({ account_id: 'ACC-300', plan_tier: 'free', mrr: 0, open_incident: false });
+  });
+});
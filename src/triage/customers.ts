@@ -0,0 +1,151 @@
+import { readFileSync } from 'fs';
+import { basename, extname, resolve } from 'path';
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageCustomer } from '../contracts/triage-result.js';
+import {
+  validateCustomerDirectories,
+  type CustomerDirectory,
+  type CustomerRecord,
+  type CustomerUrgencyRule,
+} from '../contracts/customer-directory.js';
+import { conditionPasses } from '../routing/engine.js';
+import { parseCsv } from '../utils/csv.js';
+import { extractEntities } from './entities.js';
+
+/**
+ * Customer context from a tenant-supplied account directory.
+ *
+ * A ticket is joined on its `customer_email`; failing that, on an account ID
+ * from `metadata.account_id` or one the customer quoted in the text. The
+ * joined context is reported on the triage result together with the directory
+ * and key it came from, and customer urgency rules can raise urgency from it.
+ */
+
+interface DirectoryIndex {
+  byEmail: Map<string, CustomerRecord>;
+  byAccount: Map<string, CustomerRecord>;
+}
+
+export interface CustomerRuleOutcome {
+  boost: number;
+  matched: CustomerUrgencyRule[];
+}
+
+const indexCache = new WeakMap<CustomerDirectory, DirectoryIndex>();
+
+function indexDirectory(directory: CustomerDirectory): DirectoryIndex {
+  let index = indexCache.get(directory);
+  if (!index) {
+    index = { byEmail: new Map(), byAccount: new Map() };
+    for (const record of directory.customers) {
+      if (record.customer_email !== undefined) {
+        index.byEmail.set(record.customer_email.toLowerCase(), record);
+      }
+      if (record.account_id !== undefined) {
+        index.byAccount.set(record.account_id.toLowerCase(), record);
+      }
+    }
+    indexCache.set(directory, index);
+  }
+  return index;
+}
+
+/**
+ * Most specific directory for the ticket: project-level, then tenant-wide, then tenant-agnostic.
+ */
+export function selectCustomerDirectory(
+  directories: CustomerDirectory[],
+  ticket: Ticket
+): CustomerDirectory | undefined {
+  return directories.find(d => d.tenant_id === ticket.tenant_id && d.project_id === ticket.project_id)
+    ?? directories.find(d => d.tenant_id === ticket.tenant_id && d.project_id === undefined)
+    ?? directories.find(d => d.tenant_id === undefined);
+}
+
+function ticketAccountIds(ticket: Ticket): string[] {
+  const fromMetadata = typeof ticket.metadata.account_id === 'string' ? [ticket.metadata.account_id] : [];
+  const fromText = extractEntities(ticket).filter(e => e.type === 'account_id').map(e => e.value);
+  return [...fromMetadata, ...fromText];
+}
+
+/**
+ * Customer context for a ticket, or undefined when the directory has no matching account.
+ */
+export function lookupCustomer(ticket: Ticket, directories: CustomerDirectory[]): TriageCustomer | undefined {
+  const directory = selectCustomerDirectory(directories, ticket);
+  if (!directory) {
+    return undefined;
+  }
+  const index = indexDirectory(directory);
+
+  let record = ticket.customer_email !== undefined ? index.byEmail.get(ticket.customer_email.toLowerCase()) : undefined;
+  let matchedBy: TriageCustomer['matched_by'] = 'customer_email';
+  if (!record) {
+    record = ticketAccountIds(ticket).map(id => index.byAccount.get(id.toLowerCase())).find(r => r !== undefined);
+    matchedBy = 'account_id';
+  }
+  if (!record) {
+    return undefined;
+  }
+
+  return {
+    ...(record.account_id !== undefined && { account_id: record.account_id }),
+    ...(record.plan_tier !== undefined && { plan_tier: record.plan_tier }),
+    ...(record.mrr !== undefined && { mrr: record.mrr }),
+    ...(record.region !== undefined && { region: record.region }),
+    open_incident: record.open_incident,
+    directory_id: directory.directory_id,
+    matched_by: matchedBy,
+  };
+}
+
+/**
+ * Customer urgency rules that match, and the urgency levels they add (the largest boost wins).
+ */
+export function applyCustomerRules(customer: TriageCustomer, rules: CustomerUrgencyRule[]): CustomerRuleOutcome {
+  const fields = customer as Record<string, unknown>;
+  const matched = rules.filter(rule =>
+    rule.all.every(c => conditionPasses(c, fields[c.field]))
+    && (rule.any.length === 0 || rule.any.some(c => conditionPasses(c, fields[c.field])))
+  );
+  return { boost: Math.max(0, ...matched.map(rule => rule.boost)), matched };
+}
+
+function parseBoolean(value: string | undefined): boolean {
+  return value !== undefined && /^(?:true|yes|y|1)$/i.test(value);
+}
+
+/**
+ * Directory from CSV rows. Columns are the record fields (`customer_email`,
+ * `account_id`, `customer_name`, `plan_tier`, `mrr`, `region`, `open_incident`).
+ */
+function directoryFromCsv(text: string, directoryId: string, scope: Pick<CustomerDirectory, 'tenant_id' | 'project_id'>): unknown {
+  return {
+    directory_id: directoryId,
+    ...scope,
+    customers: parseCsv(text).map(row => ({
+      ...row,
+      ...(row.mrr !== undefined && { mrr: Number(row.mrr.replace(/[,_\s]/g, '')) }),
+      open_incident: parseBoolean(row.open_incident),
+    })),
+  };
+}
+
+/**
+ * Load customer directories from JSON (one directory or an array) or CSV.
+ * A CSV file holds a single directory named after the file, scoped by `scope`.
+ */
+export function loadCustomerDirectories(
+  directoryPath: string,
+  scope: Pick<CustomerDirectory, 'tenant_id' | 'project_id'> = {}
+): CustomerDirectory[] {
+  const path = resolve(directoryPath);
+  const text = readFileSync(path, 'utf-8');
+
+  if (extname(path).toLowerCase() === '.csv') {
+    return validateCustomerDirectories([directoryFromCsv(text, basename(path, extname(path)), scope)]);
+  }
+
+  const data: unknown = JSON.parse(text);
+  return validateCustomerDirectories(Array.isArray(data) ? data : [data]);
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { diffTriageConfigs, diffTriageResults, renderTriageDiffMarkdown } from './drift.js';
+import { triageTicket } from './classifier.js';
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageResult } from '../contracts/triage-result.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'drift-1',
+  subject: 'Question',
+  body: '',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-05-01T12:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+const now = new Date('2024-05-02T00:00:00.000Z');
+
+const tickets = [
+  createTestTicket({ id: 'drift-1', subject: 'Outage', body: 'The site is down with a critical error.' }),
+  createTestTicket({ id: 'drift-2', subject: 'Invoice', body: 'Please correct the invoice.' }),
+  createTestTicket({ id: 'drift-3', subject: 'Crash', body: 'The app is broken and keeps crashing, this is urgent.' }),
+];
+
+const result = (overrides: Partial<TriageResult>): TriageResult => ({
+  ...triageTicket(createTestTicket(), { now }),
+  ...overrides,
+});
+
+describe('diffTriageResults', () => {
+  it('should report no changes for identical results', () => {
+    const results = tickets.map(ticket => triageTicket(ticket, { now }));
+
+    const diff = diffTriageResults(results, results);
+
+    expect(diff.ticket_count).toBe(3);
+    expect(diff.changed_count).toBe(0);
+    expect(diff.changes).toEqual([]);
+  });
+
+  it('should list per-ticket changes in urgency, topics, tags and flags', () => {
+    const baseline = [result({
+      ticket_id: 'a',
+      urgency: 'medium',
+      topics: [{ category: 'billing', confidence: 0.5, keywords: [] }],
+      suggested_tags: ['billing'],
+      requires_human_review: false,
+    })];
+    const candidate = [result({
+      ticket_id: 'a',
+      urgency: 'critical',
+      topics: [{ category: 'account', confidence: 0.5, keywords: [] }],
+      suggested_tags: ['billing', 'vip'],
+      requires_human_review: true,
+    })];
+
+    const diff = diffTriageResults(baseline, candidate);
+
+    expect(diff.changes).toHaveLength(1);
+    expect(diff.changes[0].fields).toEqual(['urgency', 'topics', 'tags', 'requires_human_review']);
+    expect(diff.urgency_transitions.medium.critical).toBe(1);
+    expect(diff.topics).toEqual([
+      { label: 'account', added: 1, removed: 0 },
+      { label: 'billing', added: 0, removed: 1 },
+    ]);
+    expect(diff.tags).toEqual([{ label: 'vip', added: 1, removed: 0 }]);
+    expect(diff.flags.find(f => f.flag === 'requires_human_review')).toEqual({ flag: 'requires_human_review', gained: 1, lost: 0 });
+  });
+
+  it('should ignore topic order and report tickets missing on either side', () => {
+    const topics = [
+      { category: 'billing', confidence: 0.5, keywords: [] },
+      { category: 'account', confidence: 0.4, keywords: [] },
+    ];
+    const diff = diffTriageResults(
+      [result({ ticket_id: 'a', topics }), result({ ticket_id: 'b' })],
+      [result({ ticket_id: 'a', topics: [...topics].reverse() }), result({ ticket_id: 'c' })]
+    );
+
+    expect(diff.ticket_count).toBe(1);
+    expect(diff.changed_count).toBe(0);
+    expect(diff.only_in_baseline).toEqual(['b']);
+    expect(diff.only_in_candidate).toEqual(['c']);
+  });
+
+  it('should match results per tenant and project', () => {
+    const diff = diffTriageResults(
+      [result({ ticket_id: 'a', tenant_id: 't1' })],
+      [result({ ticket_id: 'a', tenant_id: 't2' })]
+    );
+
+    expect(diff.ticket_count).toBe(0);
+  });
+});
+
+describe('diffTriageConfigs', () => {
+  it('should triage with both configurations and aggregate urgency transitions', () => {
+    const diff = diffTriageConfigs(tickets, { now }, { now, maxUrgency: 'medium' });
+
+    expect(diff.urgency_transitions.critical.medium).toBe(2);
+    expect(diff.field_counts.urgency).toBe(2);
+    expect(diff.classifier_versions).toEqual({ baseline: ['1.0.0'], candidate: ['1.0.0'] });
+  });
+});
+
+describe('renderTriageDiffMarkdown', () => {
+  it('should summarize transitions and list changed tickets', () => {
+    const diff = diffTriageConfigs(tickets, { now }, { now, maxUrgency: 'medium' });
+
+    const markdown = renderTriageDiffMarkdown(diff);
+
+    expect(markdown).toContain('# Triage Drift: Baseline vs Candidate');
+    expect(markdown).toContain('- 2 ticket(s) critical → medium');
+    expect(markdown).toContain('| critical | 0 | 2 | 0 | 0 |');
+    expect(markdown).toContain('- drift-1: urgency critical → medium');
+  });
+
+  it('should cap the list of changed tickets', () => {
+    const diff = diffTriageConfigs(tickets, { now }, { now, maxUrgency: 'medium' });
+
+    const markdown = renderTriageDiffMarkdown(diff, { maxTickets: 1 });
+
+    expect(markdown).toContain('- … and 1 more');
+    expect(markdown).not.toContain('- drift-3:');
+  });
+});
@@ -0,0 +1,329 @@
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageResult, TriageUrgency } from '../contracts/triage-result.js';
+import type { TriageOptions } from './classifier.js';
+import { triageBatch } from './batch.js';
+
+/**
+ * Drift between two sets of triage results for the same tickets, e.g. before
+ * and after a keyword change or a classifier upgrade: what changed per ticket,
+ * and how often each urgency, topic, tag and flag moved across the batch.
+ */
+
+export type TriageDiffField =
+  | 'disposition'
+  | 'urgency'
+  | 'topics'
+  | 'tags'
+  | 'requires_human_review'
+  | 'requires_kb_update'
+  | 'escalated';
+
+export type TriageFlag = 'requires_human_review' | 'requires_kb_update' | 'escalated';
+
+/** The compared fields of one result. */
+export interface TriageSnapshot {
+  disposition: TriageResult['disposition'];
+  urgency: TriageUrgency;
+  topics: string[];
+  tags: string[];
+  requires_human_review: boolean;
+  requires_kb_update: boolean;
+  escalated: boolean;
+}
+
+export interface TriageChange {
+  ticket_id: string;
+  fields: TriageDiffField[];
+  baseline: TriageSnapshot;
+  candidate: TriageSnapshot;
+}
+
+export interface LabelDrift {
+  label: string;
+  /** Tickets that have the label in the candidate results only. */
+  added: number;
+  /** Tickets that have the label in the baseline results only. */
+  removed: number;
+}
+
+export interface FlagDrift {
+  flag: TriageFlag;
+  /** Tickets where the flag went from false to true. */
+  gained: number;
+  /** Tickets where the flag went from true to false. */
+  lost: number;
+}
+
+export interface TriageDiff {
+  /** Tickets present in both sets. */
+  ticket_count: number;
+  changed_count: number;
+  /** Classifier versions seen on each side. */
+  classifier_versions: { baseline: string[]; candidate: string[] };
+  only_in_baseline: string[];
+  only_in_candidate: string[];
+  /** Tickets per changed field. */
+  field_counts: Record<TriageDiffField, number>;
+  /** urgency_transitions[baseline][candidate] = count */
+  urgency_transitions: Record<TriageUrgency, Record<TriageUrgency, number>>;
+  flags: FlagDrift[];
+  /** Topics and tags that moved, most changed first. */
+  topics: LabelDrift[];
+  tags: LabelDrift[];
+  changes: TriageChange[];
+}
+
+export interface DriftMarkdownOptions {
+  /** Changed tickets listed individually (default 50). */
+  maxTickets?: number;
+}
+
+const URGENCY_LABELS: readonly TriageUrgency[] = ['low', 'medium', 'high', 'critical'];
+const DIFF_FIELDS: readonly TriageDiffField[] = [
+  'disposition', 'urgency', 'topics', 'tags', 'requires_human_review', 'requires_kb_update', 'escalated',
+];
+const FLAGS: readonly TriageFlag[] = ['requires_human_review', 'requires_kb_update', 'escalated'];
+const DEFAULT_MAX_TICKETS = 50;
+
+function resultKey(result: TriageResult): string {
+  return `${result.tenant_id}\u0000${result.project_id}\u0000${result.ticket_id}`;
+}
+
+function snapshot(result: TriageResult): TriageSnapshot {
+  return {
+    disposition: result.disposition,
+    urgency: result.urgency,
+    topics: [...new Set(result.topics.map(t => t.category))].sort(),
+    tags: [...new Set(result.suggested_tags)].sort(),
+    requires_human_review: result.requires_human_review,
+    requires_kb_update: result.requires_kb_update,
+    escalated: result.escalated,
+  };
+}
+
+function sameList(left: string[], right: string[]): boolean {
+  return left.length === right.length && left.every((value, i) => value === right[i]);
+}
+
+function changedFields(baseline: TriageSnapshot, candidate: TriageSnapshot): TriageDiffField[] {
+  return DIFF_FIELDS.filter(field => {
+    const a = baseline[field];
+    const b = candidate[field];
+    return Array.isArray(a) && Array.isArray(b) ? !sameList(a, b) : a !== b;
+  });
+}
+
+function countLabels(drift: Map<string, LabelDrift>, baseline: string[], candidate: string[]): void {
+  const before = new Set(baseline);
+  const after = new Set(candidate);
+  const entry = (label: string): LabelDrift => {
+    let existing = drift.get(label);
+    if (!existing) {
+      existing = { label, added: 0, removed: 0 };
+      drift.set(label, existing);
+    }
+    return existing;
+  };
+  for (const label of after) {
+    if (!before.has(label)) {
+      entry(label).added++;
+    }
+  }
+  for (const label of before) {
+    if (!after.has(label)) {
+      entry(label).removed++;
+    }
+  }
+}
+
+function sortedDrift(drift: Map<string, LabelDrift>): LabelDrift[] {
+  return [...drift.values()].sort((a, b) =>
+    (b.added + b.removed) - (a.added + a.removed) || a.label.localeCompare(b.label)
+  );
+}
+
+/**
+ * Compare two sets of results for the same tickets. Results are matched on
+ * tenant, project and ticket ID; changes are listed in baseline order.
+ */
+export function diffTriageResults(baseline: TriageResult[], candidate: TriageResult[]): TriageDiff {
+  const candidateByKey = new Map(candidate.map(result => [resultKey(result), result]));
+  const baselineKeys = new Set(baseline.map(resultKey));
+
+  const urgencyTransitions = Object.fromEntries(
+    URGENCY_LABELS.map(from => [from, Object.fromEntries(URGENCY_LABELS.map(to => [to, 0]))])
+  ) as Record<TriageUrgency, Record<TriageUrgency, number>>;
+  const fieldCounts = Object.fromEntries(DIFF_FIELDS.map(field => [field, 0])) as Record<TriageDiffField, number>;
+  const flags = FLAGS.map(flag => ({ flag, gained: 0, lost: 0 }));
+  const topics = new Map<string, LabelDrift>();
+  const tags = new Map<string, LabelDrift>();
+  const changes: TriageChange[] = [];
+  let compared = 0;
+
+  for (const result of baseline) {
+    const other = candidateByKey.get(resultKey(result));
+    if (!other) {
+      continue;
+    }
+    compared++;
+
+    const before = snapshot(result);
+    const after = snapshot(other);
+    urgencyTransitions[before.urgency][after.urgency]++;
+    for (const drift of flags) {
+      if (!before[drift.flag] && after[drift.flag]) {
+        drift.gained++;
+      } else if (before[drift.flag] && !after[drift.flag]) {
+        drift.lost++;
+      }
+    }
+    countLabels(topics, before.topics, after.topics);
+    countLabels(tags, before.tags, after.tags);
+
+    const fields = changedFields(before, after);
+    for (const field of fields) {
+      fieldCounts[field]++;
+    }
+    if (fields.length > 0) {
+      changes.push({ ticket_id: result.ticket_id, fields, baseline: before, candidate: after });
+    }
+  }
+
+  const versions = (results: TriageResult[]): string[] =>
+    [...new Set(results.flatMap(r => r.classifier_version !== undefined ? [r.classifier_version] : []))].sort();
+
+  return {
+    ticket_count: compared,
+    changed_count: changes.length,
+    classifier_versions: { baseline: versions(baseline), candidate: versions(candidate) },
+    only_in_baseline: baseline.filter(r => !candidateByKey.has(resultKey(r))).map(r => r.ticket_id),
+    only_in_candidate: candidate.filter(r => !baselineKeys.has(resultKey(r))).map(r => r.ticket_id),
+    field_counts: fieldCounts,
+    urgency_transitions: urgencyTransitions,
+    flags,
+    topics: sortedDrift(topics),
+    tags: sortedDrift(tags),
+    changes,
+  };
+}
+
+/**
+ * Triage the same tickets with two configurations and compare the results.
+ * Both runs share one clock so SLA-driven fields do not drift on their own.
+ */
+export function diffTriageConfigs(
+  tickets: Ticket[],
+  baselineOptions: TriageOptions,
+  candidateOptions: TriageOptions
+): TriageDiff {
+  const now = baselineOptions.now ?? candidateOptions.now ?? new Date();
+  const baseline = triageBatch(tickets, { ...baselineOptions, now }).results;
+  const candidate = triageBatch(tickets, { ...candidateOptions, now }).results;
+  return diffTriageResults(baseline, candidate);
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function renderLabelTable(heading: string, drift: LabelDrift[]): string[] {
+  if (drift.length === 0) {
+    return ['_No changes._'];
+  }
+  return [
+    `| ${heading} | Added | Removed |`,
+    '| --- | --- | --- |',
+    ...drift.map(d => `| ${d.label} | ${d.added} | ${d.removed} |`),
+  ];
+}
+
+function describeChange(change: TriageChange): string {
+  const { baseline, candidate } = change;
+  const parts = change.fields.map(field => {
+    switch (field) {
+      case 'topics':
+      case 'tags': {
+        const added = candidate[field].filter(label => !baseline[field].includes(label)).map(label => `+${label}`);
+        const removed = baseline[field].filter(label => !candidate[field].includes(label)).map(label => `-${label}`);
+        return `${field} ${[...added, ...removed].join(' ')}`;
+      }
+      default:
+        return `${field} ${String(baseline[field])} → ${String(candidate[field])}`;
+    }
+  });
+  return `- ${change.ticket_id}: ${parts.join('; ')}`;
+}
+
+/**
+ * Render a drift report as Markdown for change review.
+ */
+export function renderTriageDiffMarkdown(diff: TriageDiff, options: DriftMarkdownOptions = {}): string {
+  const maxTickets = options.maxTickets ?? DEFAULT_MAX_TICKETS;
+  const share = diff.ticket_count > 0 ? diff.changed_count / diff.ticket_count : 0;
+  const versions = (list: string[]): string => list.length > 0 ? list.join(', ') : 'unknown';
+
+  const transitions = URGENCY_LABELS
+    .flatMap(from => URGENCY_LABELS.map(to => ({ from, to, count: diff.urgency_transitions[from][to] })))
+    .filter(t => t.from !== t.to && t.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  const lines = [
+    '# Triage Drift: Baseline vs Candidate',
+    '',
+    `Tickets compared: ${diff.ticket_count}; changed: ${diff.changed_count} (${formatPercent(share)})`,
+    '',
+    `Classifier: ${versions(diff.classifier_versions.baseline)} → ${versions(diff.classifier_versions.candidate)}`,
+  ];
+  if (diff.only_in_baseline.length > 0 || diff.only_in_candidate.length > 0) {
+    lines.push('', `Not compared: ${diff.only_in_baseline.length} only in baseline, ${diff.only_in_candidate.length} only in candidate`);
+  }
+
+  lines.push(
+    '',
+    '| Field | Tickets changed |',
+    '| --- | --- |',
+    ...DIFF_FIELDS.map(field => `| ${field} | ${diff.field_counts[field]} |`),
+    '',
+    '## Urgency',
+    '',
+    ...(transitions.length > 0
+      ? transitions.map(t => `- ${t.count} ticket(s) ${t.from} → ${t.to}`)
+      : ['_No changes._']),
+    '',
+    'Transition matrix (rows = baseline, columns = candidate):',
+    '',
+    `| baseline \\ candidate | ${URGENCY_LABELS.join(' | ')} |`,
+    `| --- | ${URGENCY_LABELS.map(() => '---').join(' | ')} |`,
+    ...URGENCY_LABELS.map(from =>
+      `| ${from} | ${URGENCY_LABELS.map(to => diff.urgency_transitions[from][to]).join(' | ')} |`
+    ),
+    '',
+    '## Flags',
+    '',
+    '| Flag | Gained | Lost |',
+    '| --- | --- | --- |',
+    ...diff.flags.map(f => `| ${f.flag} | ${f.gained} | ${f.lost} |`),
+    '',
+    '## Topics',
+    '',
+    ...renderLabelTable('Topic', diff.topics),
+    '',
+    '## Tags',
+    '',
+    ...renderLabelTable('Tag', diff.tags),
+    '',
+    '## Changed tickets',
+    '',
+  );
+
+  if (diff.changes.length === 0) {
+    lines.push('_None._');
+  } else {
+    lines.push(...diff.changes.slice(0, maxTickets).map(describeChange));
+    if (diff.changes.length > maxTickets) {
+      lines.push(`- … and ${diff.changes.length - maxTickets} more`);
+    }
+  }
+
+  return lines.join('\n');
+}
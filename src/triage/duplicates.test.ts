@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { detectDuplicates, jaccardSimilarity, minHashSignature, shingleTicket } from './duplicates.js';
+import { triageBatch } from './batch.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'dup-1',
+  subject: 'Question',
+  body: '',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-03-01T10:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+const exportBody = 'When I click export on the reports page the CSV download never starts and the spinner keeps going forever.';
+
+describe('shingling and MinHash', () => {
+  it('should produce word shingles and deterministic signatures', () => {
+    const shingles = shingleTicket(createTestTicket({ subject: 'Export broken', body: 'CSV export fails' }));
+
+    expect(shingles.has('export broken')).toBe(true);
+    expect(shingles.has('csv export')).toBe(true);
+    expect(minHashSignature(shingles, 16)).toEqual(minHashSignature(shingles, 16));
+  });
+
+  it('should compute Jaccard similarity', () => {
+    expect(jaccardSimilarity(new Set(['a', 'b']), new Set(['b', 'c']))).toBeCloseTo(1 / 3);
+    expect(jaccardSimilarity(new Set(), new Set())).toBe(0);
+  });
+});
+
+describe('detectDuplicates', () => {
+  it('should cluster near-duplicates with the earliest ticket as canonical', () => {
+    const tickets = [
+      createTestTicket({ id: 'b', subject: 'Export not working', body: exportBody, created_at: '2024-03-01T11:00:00.000Z' }),
+      createTestTicket({ id: 'a', subject: 'Export not working', body: exportBody, created_at: '2024-03-01T09:00:00.000Z' }),
+      createTestTicket({ id: 'c', subject: 'Export still not working', body: `${exportBody} Please help.`, created_at: '2024-03-01T12:00:00.000Z' }),
+      createTestTicket({ id: 'd', subject: 'Invoice address', body: 'Please change the billing address on our invoices.' }),
+    ];
+
+    const { clusters, byTicket } = detectDuplicates(tickets);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].canonical_ticket_id).toBe('a');
+    expect(clusters[0].ticket_ids).toEqual(['a', 'b', 'c']);
+    expect(clusters[0].cluster_id).toMatch(/^dup_[0-9a-f]{12}$/);
+    expect(byTicket.has('d')).toBe(false);
+  });
+
+  it('should not cluster tickets across tenants', () => {
+    const tickets = [
+      createTestTicket({ id: 'x1', body: exportBody }),
+      createTestTicket({ id: 'x2', body: exportBody, tenant_id: 't2' }),
+    ];
+
+    expect(detectDuplicates(tickets).clusters).toEqual([]);
+  });
+
+  it('should respect the similarity threshold', () => {
+    const tickets = [
+      createTestTicket({ id: 'y1', body: exportBody }),
+      createTestTicket({ id: 'y2', body: `${exportBody} We also see the same thing on the dashboard page since Monday.` }),
+    ];
+
+    expect(detectDuplicates(tickets, { threshold: 0.95 }).clusters).toEqual([]);
+    expect(detectDuplicates(tickets, { threshold: 0.5 }).clusters).toHaveLength(1);
+  });
+});
+
+describe('triageBatch duplicates', () => {
+  it('should mark duplicate_of and cluster_id and count duplicates', () => {
+    const tickets = [
+      createTestTicket({ id: 'first', body: exportBody, created_at: '2024-03-01T09:00:00.000Z' }),
+      createTestTicket({ id: 'second', body: exportBody, created_at: '2024-03-01T10:00:00.000Z' }),
+      createTestTicket({ id: 'other', body: 'How do I rotate my API key?' }),
+    ];
+
+    const { results, stats, duplicateClusters } = triageBatch(tickets);
+    const [first, second, other] = results;
+
+    expect(stats.duplicates).toBe(1);
+    expect(duplicateClusters).toHaveLength(1);
+    expect(first.duplicate_of).toBeUndefined();
+    expect(first.cluster_id).toBe(duplicateClusters[0].cluster_id);
+    expect(second.duplicate_of).toBe('first');
+    expect(second.cluster_id).toBe(first.cluster_id);
+    expect(second.explanations).toContainEqual(expect.objectContaining({ target: 'duplicate_of', value: 'first' }));
+    expect(other.cluster_id).toBeUndefined();
+  });
+
+  it('should skip detection when disabled', () => {
+    const tickets = [
+      createTestTicket({ id: 'first', body: exportBody }),
+      createTestTicket({ id: 'second', body: exportBody }),
+    ];
+
+    const { results, stats } = triageBatch(tickets, { duplicates: false });
+
+    expect(stats.duplicates).toBe(0);
+    expect(results.every(r => r.cluster_id === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,259 @@
+import type { Ticket } from '../contracts/ticket.js';
+import { stableHash } from '../utils/deterministic.js';
+import { tokenize } from './matcher.js';
+
+/**
+ * Near-duplicate detection for batch triage.
+ *
+ * Subject and body are reduced to word shingles, MinHash signatures are
+ * bucketed with locality-sensitive hashing to find candidate pairs, and
+ * candidates are confirmed with the exact Jaccard similarity of their shingle
+ * sets. Confirmed pairs are merged into clusters; the earliest ticket in a
+ * cluster is the canonical one the others should be merged into.
+ */
+
+export interface DuplicateDetectionOptions {
+  /** Minimum Jaccard similarity of shingle sets for two tickets to be duplicates. */
+  threshold?: number;
+  /** Words per shingle. */
+  shingleSize?: number;
+  /** MinHash signature length; must be divisible by `bands`. */
+  numHashes?: number;
+  /** LSH bands; more bands find lower-similarity candidates at extra cost. */
+  bands?: number;
+}
+
+export interface DuplicateCluster {
+  cluster_id: string;
+  canonical_ticket_id: string;
+  /** Members ordered by creation time, canonical first. */
+  ticket_ids: string[];
+  /** Lowest confirmed pairwise similarity that joined the cluster. */
+  similarity: number;
+}
+
+export interface DuplicateMatch {
+  cluster_id: string;
+  canonical_ticket_id: string;
+  /** Similarity to the ticket that linked this one into the cluster. */
+  similarity: number;
+}
+
+export interface DuplicateDetectionResult {
+  clusters: DuplicateCluster[];
+  /** Cluster membership keyed by ticket ID (canonical tickets included). */
+  byTicket: Map<string, DuplicateMatch>;
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.6;
+const DEFAULT_SHINGLE_SIZE = 2;
+const DEFAULT_NUM_HASHES = 128;
+const DEFAULT_BANDS = 32;
+
+function fnv1a(text: string, seed = 0x811c9dc5): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function mix(value: number, seed: number): number {
+  let h = (value ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+const seedCache = new Map<number, number[]>();
+
+function hashSeeds(count: number): number[] {
+  let seeds = seedCache.get(count);
+  if (!seeds) {
+    seeds = Array.from({ length: count }, (_, i) => fnv1a(`minhash-${i}`));
+    seedCache.set(count, seeds);
+  }
+  return seeds;
+}
+
+/**
+ * Word shingles over subject and body. Texts shorter than one shingle
+ * produce a single shingle of all their words.
+ */
+export function shingleTicket(ticket: Ticket, shingleSize: number = DEFAULT_SHINGLE_SIZE): Set<string> {
+  const words = tokenize(`${ticket.subject}\n${ticket.body}`).map(t => t.value);
+  const shingles = new Set<string>();
+
+  if (words.length === 0) {
+    return shingles;
+  }
+  if (words.length < shingleSize) {
+    shingles.add(words.join(' '));
+    return shingles;
+  }
+
+  for (let i = 0; i + shingleSize <= words.length; i++) {
+    shingles.add(words.slice(i, i + shingleSize).join(' '));
+  }
+  return shingles;
+}
+
+export function minHashSignature(shingles: Set<string>, numHashes: number = DEFAULT_NUM_HASHES): number[] {
+  const seeds = hashSeeds(numHashes);
+  const signature = new Array<number>(numHashes).fill(0xffffffff);
+
+  for (const shingle of shingles) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < numHashes; i++) {
+      const h = mix(base, seeds[i]);
+      if (h < signature[i]) {
+        signature[i] = h;
+      }
+    }
+  }
+
+  return signature;
+}
+
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 0;
+  }
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let intersection = 0;
+  for (const value of smaller) {
+    if (larger.has(value)) {
+      intersection++;
+    }
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+function compareByCreation(a: Ticket, b: Ticket): number {
+  const delta = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  return delta !== 0 ? delta : a.id.localeCompare(b.id);
+}
+
+/**
+ * Group near-duplicate tickets into clusters.
+ * Tickets only cluster with tickets of the same tenant and project.
+ */
+export function detectDuplicates(
+  tickets: Ticket[],
+  options: DuplicateDetectionOptions = {}
+): DuplicateDetectionResult {
+  const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+  const numHashes = options.numHashes ?? DEFAULT_NUM_HASHES;
+  const bands = options.bands ?? DEFAULT_BANDS;
+  if (numHashes % bands !== 0) {
+    throw new Error(`numHashes (${numHashes}) must be divisible by bands (${bands})`);
+  }
+  const rows = numHashes / bands;
+
+  const shingles = tickets.map(t => shingleTicket(t, options.shingleSize));
+
+  // LSH: tickets sharing any band bucket become candidate pairs
+  const buckets = new Map<string, number[]>();
+  tickets.forEach((ticket, index) => {
+    if (shingles[index].size === 0) {
+      return;
+    }
+    const signature = minHashSignature(shingles[index], numHashes);
+    for (let band = 0; band < bands; band++) {
+      const key = `${ticket.tenant_id}\u0000${ticket.project_id}\u0000${band}:${signature.slice(band * rows, (band + 1) * rows).join(',')}`;
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(index);
+      } else {
+        buckets.set(key, [index]);
+      }
+    }
+  });
+
+  const parent = tickets.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const checked = new Set<string>();
+  const linkSimilarity = new Map<number, number>();
+  const edgeMinimum = new Map<number, number>();
+
+  for (const bucket of buckets.values()) {
+    for (let x = 0; x < bucket.length; x++) {
+      for (let y = x + 1; y < bucket.length; y++) {
+        const i = bucket[x];
+        const j = bucket[y];
+        const pairKey = `${i}:${j}`;
+        if (checked.has(pairKey)) {
+          continue;
+        }
+        checked.add(pairKey);
+
+        const similarity = jaccardSimilarity(shingles[i], shingles[j]);
+        if (similarity < threshold) {
+          continue;
+        }
+
+        const rounded = Math.round(similarity * 1000) / 1000;
+        linkSimilarity.set(i, Math.max(linkSimilarity.get(i) ?? 0, rounded));
+        linkSimilarity.set(j, Math.max(linkSimilarity.get(j) ?? 0, rounded));
+
+        const rootI = find(i);
+        const rootJ = find(j);
+        const minimum = Math.min(edgeMinimum.get(rootI) ?? 1, edgeMinimum.get(rootJ) ?? 1, rounded);
+        if (rootI !== rootJ) {
+          parent[rootJ] = rootI;
+        }
+        edgeMinimum.set(rootI, minimum);
+      }
+    }
+  }
+
+  const members = new Map<number, Ticket[]>();
+  tickets.forEach((ticket, index) => {
+    if (!linkSimilarity.has(index)) {
+      return;
+    }
+    const root = find(index);
+    const group = members.get(root);
+    if (group) {
+      group.push(ticket);
+    } else {
+      members.set(root, [ticket]);
+    }
+  });
+
+  const clusters: DuplicateCluster[] = [];
+  const byTicket = new Map<string, DuplicateMatch>();
+  const indexById = new Map(tickets.map((t, i) => [t.id, i]));
+
+  for (const [root, group] of members) {
+    group.sort(compareByCreation);
+    const ticketIds = group.map(t => t.id);
+    const cluster: DuplicateCluster = {
+      cluster_id: `dup_${stableHash(ticketIds).slice(0, 12)}`,
+      canonical_ticket_id: ticketIds[0],
+      ticket_ids: ticketIds,
+      similarity: edgeMinimum.get(root) ?? threshold,
+    };
+    clusters.push(cluster);
+
+    for (const id of ticketIds) {
+      byTicket.set(id, {
+        cluster_id: cluster.cluster_id,
+        canonical_ticket_id: cluster.canonical_ticket_id,
+        similarity: linkSimilarity.get(indexById.get(id) ?? -1) ?? cluster.similarity,
+      });
+    }
+  }
+
+  clusters.sort((a, b) => a.canonical_ticket_id.localeCompare(b.canonical_ticket_id));
+
+  return { clusters, byTicket };
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { extractEntities, extractEntitiesFromSegments } from './entities.js';
+import { extractMissingInfo, triageTicket } from './classifier.js';
+import type { TriageEntity } from '../contracts/triage-result.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'ent-1',
+  subject: 'Test subject',
+  body: 'Test body',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-01-01T00:00:00.000Z',
+  tags: [],
+  metadata: {},
+  ...overrides,
+});
+
+const extract = (text: string): TriageEntity[] => extractEntitiesFromSegments([{ field: 'body', text }]);
+const valuesOf = (entities: TriageEntity[], type: TriageEntity['type']): string[] =>
+  entities.filter(e => e.type === type).map(e => e.value);
+
+describe('extractEntities', () => {
+  it('should extract identifiers', () => {
+    const entities = extract('Job ID: job_987654321 failed. My account ID is ACC-12345, org id: org_8f3k2, user id 4411.');
+
+    expect(valuesOf(entities, 'job_id')).toEqual(['job_987654321']);
+    expect(valuesOf(entities, 'account_id')).toEqual(['ACC-12345']);
+    expect(valuesOf(entities, 'org_id')).toEqual(['org_8f3k2']);
+    expect(valuesOf(entities, 'user_id')).toEqual(['4411']);
+  });
+
+  it('should not treat words after an id cue as identifiers', () => {
+    expect(valuesOf(extract('What is my account id? Please send it.'), 'account_id')).toEqual([]);
+  });
+
+  it('should extract error details', () => {
+    const entities = extract('Getting 401 errors and ECONNREFUSED. TypeError: Cannot read properties of undefined');
+
+    expect(valuesOf(entities, 'http_status')).toEqual(['401']);
+    expect(valuesOf(entities, 'error_code')).toEqual(['ECONNREFUSED', 'TypeError']);
+    expect(valuesOf(entities, 'error_message')).toEqual(['Cannot read properties of undefined']);
+  });
+
+  it('should extract environment details and URLs', () => {
+    const entities = extract('Calls to https://api.example.com/v1/jobs fail since v2.4.1 on Ubuntu 22.04 with Firefox 120.');
+
+    expect(valuesOf(entities, 'url')).toEqual(['https://api.example.com/v1/jobs']);
+    expect(valuesOf(entities, 'version')).toEqual(['v2.4.1']);
+    expect(valuesOf(entities, 'os')).toEqual(['Ubuntu 22.04']);
+    expect(valuesOf(entities, 'browser')).toEqual(['Firefox 120']);
+  });
+
+  it('should ignore numbers that are not versions or status codes', () => {
+    expect(extract('We paid 200 dollars for 1.5 seats from 10.0.0.1')).toEqual([]);
+  });
+
+  it('should extract stack traces as one entity', () => {
+    const text = 'It crashes:\nTypeError: x is undefined\n    at run (/app/index.js:10:5)\n    at main (/app/index.js:20:3)\nThanks';
+    const [trace] = extract(text).filter(e => e.type === 'stack_trace');
+
+    expect(trace.value).toBe('at run (/app/index.js:10:5)\n    at main (/app/index.js:20:3)');
+    expect(text.slice(trace.offset, trace.offset + trace.length)).toBe(trace.value);
+  });
+
+  it('should record field and offset for every entity', () => {
+    const ticket = createTestTicket({ subject: 'Job job_12345 stuck', body: 'Error: queue timeout' });
+
+    for (const entity of extractEntities(ticket)) {
+      const text = entity.field === 'subject' ? ticket.subject : ticket.body;
+      expect(text.slice(entity.offset, entity.offset + entity.length)).toBe(entity.value);
+    }
+  });
+});
+
+describe('entities in triage', () => {
+  it('should add entities to triage results', () => {
+    const result = triageTicket(createTestTicket({
+      body: 'Job ID: job_987654321 returns HTTP 500 on my invoice INV-20240',
+    }));
+
+    expect(valuesOf(result.entities, 'job_id')).toEqual(['job_987654321']);
+    expect(valuesOf(result.entities, 'http_status')).toEqual(['500']);
+    expect(valuesOf(result.entities, 'invoice_number')).toEqual(['INV-20240']);
+  });
+
+  it('should mask PII in entity values on results', () => {
+    const ticket = createTestTicket({ body: 'Please move the seat from ana@acme.example to user id 4411.' });
+    const result = triageTicket(ticket);
+
+    expect(valuesOf(result.entities, 'email')).toEqual(['[EMAIL_REDACTED]']);
+    expect(valuesOf(result.entities, 'user_id')).toEqual(['4411']);
+    expect(JSON.stringify(result)).not.toContain('ana@acme.example');
+  });
+
+  it('should not count keyword hints without a value', () => {
+    const missing = extractMissingInfo(createTestTicket({
+      subject: 'API error',
+      body: 'The error happens with the latest version, please check.',
+    }));
+
+    expect(missing).toEqual(expect.arrayContaining(['version', 'error_message']));
+  });
+});
@@ -0,0 +1,159 @@
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageEntity, TriageEntityType } from '../contracts/triage-result.js';
+import { getTriageSegments, type TextSegment } from './thread.js';
+import { redactPII } from '../utils/pii.js';
+
+/**
+ * Structured entity extraction.
+ *
+ * Pulls identifiers, error details and environment facts out of the customer
+ * text with anchored patterns. Each entity keeps the field and character
+ * offset it was found at; repeated values of the same type are reported once.
+ */
+
+interface EntityPattern {
+  type: TriageEntityType;
+  pattern: RegExp;
+  /** Capture group holding the value; the whole match when omitted. */
+  group?: number;
+}
+
+// Identifier values must contain a digit so "account id please" is not an ID
+const ID_VALUE = '([A-Za-z0-9][A-Za-z0-9_-]*\\d[A-Za-z0-9_-]*)';
+const ID_CUE = '[\\s_-]*(?:id|number|no\\.?|#)\\s*(?:is\\s+|[:=#]\\s*)?';
+
+const HTTP_STATUS_NAMES = [
+  'bad request', 'unauthorized', 'forbidden', 'not found', 'method not allowed', 'conflict',
+  'too many requests', 'internal server error', 'bad gateway', 'service unavailable', 'gateway timeout',
+].join('|');
+
+const ENTITY_PATTERNS: EntityPattern[] = [
+  { type: 'job_id', pattern: /\bjob[_-][A-Za-z0-9]{4,}\b/g },
+  { type: 'job_id', pattern: new RegExp(`\\bjob${ID_CUE}${ID_VALUE}`, 'gi'), group: 1 },
+  { type: 'account_id', pattern: new RegExp(`\\b(?:account|acct)${ID_CUE}${ID_VALUE}`, 'gi'), group: 1 },
+  { type: 'account_id', pattern: /\bACC-\d+\b/g },
+  { type: 'org_id', pattern: new RegExp(`\\b(?:org|organi[sz]ation|workspace)${ID_CUE}${ID_VALUE}`, 'gi'), group: 1 },
+  { type: 'org_id', pattern: /\borg_[A-Za-z0-9]{3,}\b/g },
+  { type: 'invoice_number', pattern: /\bINV[-_]?\d{3,}\b/gi },
+  { type: 'invoice_number', pattern: new RegExp(`\\binvoice${ID_CUE}${ID_VALUE}`, 'gi'), group: 1 },
+  { type: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { type: 'user_id', pattern: new RegExp(`\\buser${ID_CUE}${ID_VALUE}`, 'gi'), group: 1 },
+  { type: 'error_code', pattern: /\bERR_[A-Z0-9_]+\b/g },
+  { type: 'error_code', pattern: /\bE(?:CONNREFUSED|CONNRESET|TIMEDOUT|NOTFOUND|ACCES|PERM|PIPE|ADDRINUSE|HOSTUNREACH|NETUNREACH)\b/g },
+  { type: 'error_code', pattern: /\b[A-Z][A-Za-z]+(?:Exception|Error)\b/g },
+  { type: 'error_code', pattern: /\berror\s+code\s*[:=#]?\s*([A-Za-z0-9_-]*\d[A-Za-z0-9_-]*)/gi, group: 1 },
+  { type: 'http_status', pattern: /\b(?:HTTP(?:\/\d(?:\.\d)?)?|status(?:\s+code)?|error|got(?:\s+an?)?|returns?(?:\s+an?)?|returning|receiv(?:e|ed|ing)(?:\s+an?)?)\s*:?\s*([1-5]\d\d)\b/gi, group: 1 },
+  { type: 'http_status', pattern: new RegExp(`\\b([1-5]\\d\\d)\\s+(?:errors?|responses?|status|${HTTP_STATUS_NAMES})\\b`, 'gi'), group: 1 },
+  { type: 'error_message', pattern: /\b[a-z]*(?:error|exception)\s*:\s*([^\n.!?]{3,160})/gi, group: 1 },
+  { type: 'version', pattern: /\bversion\s*:?\s*(v?\d+(?:\.\d+){0,2}(?:[-+][\w.]+)?)(?![\w.]*\.\d)/gi, group: 1 },
+  { type: 'version', pattern: /\bv\d+\.\d+(?:\.\d+)?(?:[-+][\w.]+)?\b/g },
+  { type: 'version', pattern: /(?<![\w.])\d+\.\d+\.\d+(?:-[\w.]+)?(?![\w.]*\.\d)\b/g },
+  { type: 'url', pattern: /\bhttps?:\/\/[^\s<>"'`]+[^\s<>"'`.,;:!?)\]]/g },
+  {
+    type: 'os',
+    pattern: /\b(?:Windows(?:\s+(?:1[01]|[78]|XP|Server\s+\d{4}))?|macOS(?:\s+\d+(?:\.\d+)*)?|Mac OS X(?:\s+\d+(?:[._]\d+)*)?|Ubuntu(?:\s+\d+(?:\.\d+)*)?|Debian(?:\s+\d+)?|CentOS(?:\s+\d+)?|Fedora(?:\s+\d+)?|RHEL(?:\s*\d+)?|Alpine(?:\s+\d+(?:\.\d+)*)?|Linux|Android(?:\s+\d+(?:\.\d+)*)?|iOS(?:\s+\d+(?:\.\d+)*)?)\b/g,
+  },
+  {
+    type: 'browser',
+    pattern: /\b(?:Chrome|Chromium|Firefox|Safari|Edge|Opera|Brave|Internet Explorer|IE\s?\d+)(?:\s*\/?\s*v?\d+(?:\.\d+)*)?\b/g,
+  },
+  { type: 'reproduction_steps', pattern: /\b(?:steps(?:\s+to\s+reproduce)?|to\s+reproduce|repro(?:duction)?)\s*:\s*([^\n]{3,240})/gi, group: 1 },
+  { type: 'reproduction_steps', pattern: /(?:^|\s)1[.)]\s+\S[^\n]*?\s2[.)]\s+\S[^\n]*/g },
+  { type: 'expected_behavior', pattern: /\b(?:expected(?:\s+behaviou?r)?|should(?:\s+have)?|supposed\s+to)\b\s*:?\s*([^\n.!?]{3,200})/gi, group: 1 },
+  { type: 'actual_behavior', pattern: /\b(?:actual(?:ly)?(?:\s+behaviou?r)?|instead|but\s+(?:got|get|getting|received|it))\b\s*[:,]?\s*([^\n.!?]{3,200})/gi, group: 1 },
+];
+
+const STACK_FRAME = /^\s*(?:at\s+\S.*(?:\(.*:\d+(?::\d+)?\)|:\d+:\d+)|File\s+".+",\s+line\s+\d+.*|Traceback \(most recent call last\):)\s*$/;
+const MAX_STACK_TRACE_LENGTH = 2000;
+
+function extractStackTraces(segment: TextSegment): TriageEntity[] {
+  const entities: TriageEntity[] = [];
+  const lines = segment.text.split('\n');
+  let offset = 0;
+  let start: number | undefined;
+  let end = 0;
+  let frames = 0;
+
+  const flush = (): void => {
+    if (start !== undefined && frames >= 2) {
+      const raw = segment.text.slice(start, end);
+      const value = raw.trim();
+      entities.push({
+        type: 'stack_trace',
+        value: value.slice(0, MAX_STACK_TRACE_LENGTH),
+        field: segment.field,
+        offset: start + raw.indexOf(value),
+        length: value.length,
+      });
+    }
+    start = undefined;
+    frames = 0;
+  };
+
+  for (const line of lines) {
+    if (STACK_FRAME.test(line)) {
+      start ??= offset;
+      end = offset + line.length;
+      frames++;
+    } else if (start !== undefined && /^\s+\S/.test(line)) {
+      // Source excerpt lines inside Python tracebacks
+      end = offset + line.length;
+    } else {
+      flush();
+    }
+    offset += line.length + 1;
+  }
+  flush();
+
+  return entities;
+}
+
+/**
+ * Entities found in a set of text segments, in order of appearance per type.
+ */
+export function extractEntitiesFromSegments(segments: TextSegment[]): TriageEntity[] {
+  const entities: TriageEntity[] = [];
+  const seen = new Set<string>();
+
+  const add = (entity: TriageEntity): void => {
+    const key = `${entity.type}\u0000${entity.value.toLowerCase()}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      entities.push(entity);
+    }
+  };
+
+  for (const segment of segments) {
+    for (const { type, pattern, group } of ENTITY_PATTERNS) {
+      for (const match of segment.text.matchAll(pattern)) {
+        const raw = group !== undefined ? match[group] : match[0];
+        if (raw === undefined) {
+          continue;
+        }
+        const value = raw.trim();
+        const start = (match.index ?? 0) + match[0].indexOf(raw) + raw.indexOf(value);
+        if (value !== '') {
+          add({ type, value, field: segment.field, offset: start, length: value.length });
+        }
+      }
+    }
+    extractStackTraces(segment).forEach(add);
+  }
+
+  return entities;
+}
+
+/**
+ * Entities in the customer-authored part of the ticket thread.
+ */
+export function extractEntities(ticket: Ticket): TriageEntity[] {
+  return extractEntitiesFromSegments(getTriageSegments(ticket));
+}
+
+/**
+ * Entities with PII (emails, phone numbers, card numbers, ...) masked in their
+ * values, for results that are written out. Offsets still locate the original text.
+ */
+export function redactEntities(entities: TriageEntity[]): TriageEntity[] {
+  return entities.map(entity => ({ ...entity, value: redactPII(entity.value).redacted }));
+}
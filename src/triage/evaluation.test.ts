@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateTriage, compareTriageConfigs, renderEvaluationMarkdown } from './evaluation.js';
+import { parseTriageConfig } from './config.js';
+import type { LabeledTicket } from '../contracts/labeled-ticket.js';
+
+const createLabeledTicket = (overrides: Partial<LabeledTicket> = {}): LabeledTicket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'eval-1',
+  subject: 'Question',
+  body: '',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-01-01T00:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  labels: { topics: [], tags: [] },
+  ...overrides,
+});
+
+const labeled: LabeledTicket[] = [
+  createLabeledTicket({
+    id: 'e1',
+    subject: 'Production is down',
+    body: 'Our production site is down and customers cannot log in.',
+    labels: { urgency: 'critical', topics: ['login'], tags: [] },
+  }),
+  createLabeledTicket({
+    id: 'e2',
+    subject: 'Invoice question',
+    body: 'I was charged twice on my invoice this month.',
+    labels: { urgency: 'medium', topics: ['billing'], tags: [] },
+  }),
+  createLabeledTicket({
+    id: 'e3',
+    subject: 'Export feature',
+    body: 'Is there a way to export reports to CSV? Just curious.',
+    labels: { urgency: 'low', topics: ['how-to'], tags: ['question'] },
+  }),
+];
+
+describe('evaluateTriage', () => {
+  it('should compute per-class metrics and a confusion matrix', () => {
+    const evaluation = evaluateTriage(labeled);
+
+    expect(evaluation.ticket_count).toBe(3);
+    expect(evaluation.urgency.evaluated).toBe(3);
+    const matrixTotal = Object.values(evaluation.urgency.confusion_matrix)
+      .flatMap(row => Object.values(row))
+      .reduce((a, b) => a + b, 0);
+    expect(matrixTotal).toBe(3);
+    expect(evaluation.urgency.confusion_matrix.critical.critical).toBe(1);
+
+    const billing = evaluation.topics.classes.find(c => c.label === 'billing');
+    expect(billing).toMatchObject({ true_positives: 1, false_negatives: 0, recall: 1 });
+  });
+
+  it('should list misclassified tickets with expected and predicted values', () => {
+    const evaluation = evaluateTriage([
+      createLabeledTicket({
+        id: 'wrong',
+        subject: 'Hello',
+        body: 'Just saying hi.',
+        labels: { urgency: 'critical', topics: ['billing'], tags: [] },
+      }),
+    ]);
+
+    expect(evaluation.misclassified).toHaveLength(1);
+    expect(evaluation.misclassified[0].ticket_id).toBe('wrong');
+    expect(evaluation.misclassified[0].fields).toEqual(['urgency', 'topics']);
+    expect(evaluation.urgency.accuracy).toBe(0);
+  });
+
+  it('should skip urgency scoring for tickets without an urgency label', () => {
+    const evaluation = evaluateTriage([createLabeledTicket({ labels: { topics: [], tags: [] } })]);
+
+    expect(evaluation.urgency.evaluated).toBe(0);
+    expect(evaluation.urgency.accuracy).toBe(0);
+  });
+});
+
+describe('compareTriageConfigs', () => {
+  it('should pass when the candidate does not regress', () => {
+    const comparison = compareTriageConfigs(labeled, {}, {});
+
+    expect(comparison.passed).toBe(true);
+    expect(comparison.deltas.every(d => d.delta === 0)).toBe(true);
+  });
+
+  it('should fail when the candidate regresses beyond the threshold', () => {
+    const candidate = { criticalKeywords: ['never-matches'] };
+    const comparison = compareTriageConfigs(labeled, {}, candidate);
+
+    expect(comparison.passed).toBe(false);
+    expect(comparison.deltas.find(d => d.metric === 'urgency.accuracy')?.regressed).toBe(true);
+    expect(compareTriageConfigs(labeled, {}, candidate, { maxRegression: 1 }).passed).toBe(true);
+  });
+});
+
+describe('renderEvaluationMarkdown', () => {
+  it('should render single evaluations and comparisons', () => {
+    const evaluation = evaluateTriage(labeled);
+    expect(renderEvaluationMarkdown(evaluation)).toContain('# Triage Evaluation');
+    expect(renderEvaluationMarkdown(evaluation)).toContain('Confusion matrix');
+
+    const comparison = compareTriageConfigs(labeled, {}, {});
+    expect(renderEvaluationMarkdown(comparison)).toContain('Result: PASS');
+  });
+});
+
+describe('parseTriageConfig', () => {
+  it('should accept options at the top level or under a triage key', () => {
+    expect(parseTriageConfig({ negationWindow: 5 })).toEqual({ negationWindow: 5 });
+    expect(parseTriageConfig({ ticketsPath: 'x.json', triage: { criticalKeywords: ['outage'] } }))
+      .toEqual({ criticalKeywords: ['outage'] });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parseTriageConfig({ modelMinConfidence: 2 })).toThrow();
+  });
+});
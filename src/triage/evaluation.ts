@@ -0,0 +1,395 @@
+import type { LabeledTicket } from '../contracts/labeled-ticket.js';
+import type { TriageResult, TriageUrgency } from '../contracts/triage-result.js';
+import type { TriageOptions } from './classifier.js';
+import { triageBatch } from './batch.js';
+
+export interface ClassMetrics {
+  label: string;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+  true_positives: number;
+  false_positives: number;
+  false_negatives: number;
+}
+
+export interface LabelSetMetrics {
+  macro_f1: number;
+  micro_f1: number;
+  classes: ClassMetrics[];
+}
+
+export interface UrgencyMetrics {
+  evaluated: number;
+  accuracy: number;
+  macro_f1: number;
+  classes: ClassMetrics[];
+  /** confusion_matrix[expected][predicted] = count */
+  confusion_matrix: Record<TriageUrgency, Record<TriageUrgency, number>>;
+}
+
+export interface MisclassifiedTicket {
+  ticket_id: string;
+  fields: Array<'urgency' | 'topics' | 'tags'>;
+  expected: { urgency?: TriageUrgency; topics: string[]; tags: string[] };
+  predicted: { urgency: TriageUrgency; topics: string[]; tags: string[] };
+}
+
+export interface TriageEvaluation {
+  ticket_count: number;
+  urgency: UrgencyMetrics;
+  topics: LabelSetMetrics;
+  tags: LabelSetMetrics;
+  misclassified: MisclassifiedTicket[];
+}
+
+export interface MetricDelta {
+  metric: string;
+  baseline: number;
+  candidate: number;
+  delta: number;
+  regressed: boolean;
+}
+
+export interface TriageComparison {
+  max_regression: number;
+  passed: boolean;
+  deltas: MetricDelta[];
+  baseline: TriageEvaluation;
+  candidate: TriageEvaluation;
+}
+
+export interface CompareOptions {
+  /** Largest allowed drop in any headline metric before the comparison fails. */
+  maxRegression?: number;
+}
+
+const URGENCY_LABELS: readonly TriageUrgency[] = ['low', 'medium', 'high', 'critical'];
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function f1Score(precision: number, recall: number): number {
+  return precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+}
+
+function buildClassMetrics(label: string, tp: number, fp: number, fn: number): ClassMetrics {
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  return {
+    label,
+    precision: round(precision),
+    recall: round(recall),
+    f1: round(f1Score(precision, recall)),
+    support: tp + fn,
+    true_positives: tp,
+    false_positives: fp,
+    false_negatives: fn,
+  };
+}
+
+/**
+ * Per-label metrics for multi-label outputs (topics, tags).
+ */
+function evaluateLabelSets(pairs: Array<{ expected: string[]; predicted: string[] }>): LabelSetMetrics {
+  const counts = new Map<string, { tp: number; fp: number; fn: number }>();
+  const bump = (label: string, key: 'tp' | 'fp' | 'fn'): void => {
+    const entry = counts.get(label) ?? { tp: 0, fp: 0, fn: 0 };
+    entry[key]++;
+    counts.set(label, entry);
+  };
+
+  for (const { expected, predicted } of pairs) {
+    const expectedSet = new Set(expected);
+    const predictedSet = new Set(predicted);
+    for (const label of predictedSet) {
+      bump(label, expectedSet.has(label) ? 'tp' : 'fp');
+    }
+    for (const label of expectedSet) {
+      if (!predictedSet.has(label)) {
+        bump(label, 'fn');
+      }
+    }
+  }
+
+  const classes = [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, c]) => buildClassMetrics(label, c.tp, c.fp, c.fn));
+
+  const totals = classes.reduce(
+    (acc, c) => ({
+      tp: acc.tp + c.true_positives,
+      fp: acc.fp + c.false_positives,
+      fn: acc.fn + c.false_negatives,
+    }),
+    { tp: 0, fp: 0, fn: 0 }
+  );
+  const microPrecision = ratio(totals.tp, totals.tp + totals.fp);
+  const microRecall = ratio(totals.tp, totals.tp + totals.fn);
+
+  return {
+    macro_f1: round(ratio(classes.reduce((sum, c) => sum + c.f1, 0), classes.length)),
+    micro_f1: round(f1Score(microPrecision, microRecall)),
+    classes,
+  };
+}
+
+function evaluateUrgency(pairs: Array<{ expected: TriageUrgency; predicted: TriageUrgency }>): UrgencyMetrics {
+  const matrix = Object.fromEntries(
+    URGENCY_LABELS.map(expected => [
+      expected,
+      Object.fromEntries(URGENCY_LABELS.map(predicted => [predicted, 0])),
+    ])
+  ) as Record<TriageUrgency, Record<TriageUrgency, number>>;
+
+  for (const { expected, predicted } of pairs) {
+    matrix[expected][predicted]++;
+  }
+
+  const classes = URGENCY_LABELS.map(label => {
+    const tp = matrix[label][label];
+    const fp = URGENCY_LABELS.reduce((sum, other) => sum + (other === label ? 0 : matrix[other][label]), 0);
+    const fn = URGENCY_LABELS.reduce((sum, other) => sum + (other === label ? 0 : matrix[label][other]), 0);
+    return buildClassMetrics(label, tp, fp, fn);
+  });
+
+  // Only classes that were expected or predicted take part in the macro average
+  const active = classes.filter(c => c.support > 0 || c.false_positives > 0);
+  const correct = pairs.filter(p => p.expected === p.predicted).length;
+
+  return {
+    evaluated: pairs.length,
+    accuracy: round(ratio(correct, pairs.length)),
+    macro_f1: round(ratio(active.reduce((sum, c) => sum + c.f1, 0), active.length)),
+    classes,
+    confusion_matrix: matrix,
+  };
+}
+
+function sameSet(left: string[], right: string[]): boolean {
+  const a = new Set(left);
+  const b = new Set(right);
+  return a.size === b.size && [...a].every(v => b.has(v));
+}
+
+/**
+ * Run triage over labeled tickets and score it against the labels.
+ *
+ * Tags are only scored against the tag vocabulary that appears in the labels,
+ * because suggested tags also echo ticket tags and topic names.
+ */
+export function evaluateTriage(
+  labeled: LabeledTicket[],
+  options: TriageOptions = {}
+): TriageEvaluation {
+  const { results } = triageBatch(labeled, options);
+  const resultsById = new Map<string, TriageResult>(results.map(r => [r.ticket_id, r]));
+  const tagVocabulary = new Set(labeled.flatMap(t => t.labels.tags));
+
+  const urgencyPairs: Array<{ expected: TriageUrgency; predicted: TriageUrgency }> = [];
+  const topicPairs: Array<{ expected: string[]; predicted: string[] }> = [];
+  const tagPairs: Array<{ expected: string[]; predicted: string[] }> = [];
+  const misclassified: MisclassifiedTicket[] = [];
+
+  for (const ticket of labeled) {
+    const result = resultsById.get(ticket.id);
+    if (!result) {
+      continue;
+    }
+
+    const predictedTopics = result.topics.map(t => t.category);
+    const predictedTags = result.suggested_tags.filter(tag => tagVocabulary.has(tag));
+    const fields: MisclassifiedTicket['fields'] = [];
+
+    if (ticket.labels.urgency !== undefined) {
+      urgencyPairs.push({ expected: ticket.labels.urgency, predicted: result.urgency });
+      if (ticket.labels.urgency !== result.urgency) {
+        fields.push('urgency');
+      }
+    }
+
+    topicPairs.push({ expected: ticket.labels.topics, predicted: predictedTopics });
+    if (!sameSet(ticket.labels.topics, predictedTopics)) {
+      fields.push('topics');
+    }
+
+    tagPairs.push({ expected: ticket.labels.tags, predicted: predictedTags });
+    if (!sameSet(ticket.labels.tags, predictedTags)) {
+      fields.push('tags');
+    }
+
+    if (fields.length > 0) {
+      misclassified.push({
+        ticket_id: ticket.id,
+        fields,
+        expected: {
+          urgency: ticket.labels.urgency,
+          topics: ticket.labels.topics,
+          tags: ticket.labels.tags,
+        },
+        predicted: {
+          urgency: result.urgency,
+          topics: predictedTopics,
+          tags: predictedTags,
+        },
+      });
+    }
+  }
+
+  return {
+    ticket_count: labeled.length,
+    urgency: evaluateUrgency(urgencyPairs),
+    topics: evaluateLabelSets(topicPairs),
+    tags: evaluateLabelSets(tagPairs),
+    misclassified,
+  };
+}
+
+function headlineMetrics(evaluation: TriageEvaluation): Record<string, number> {
+  return {
+    'urgency.accuracy': evaluation.urgency.accuracy,
+    'urgency.macro_f1': evaluation.urgency.macro_f1,
+    'topics.macro_f1': evaluation.topics.macro_f1,
+    'topics.micro_f1': evaluation.topics.micro_f1,
+    'tags.macro_f1': evaluation.tags.macro_f1,
+    'tags.micro_f1': evaluation.tags.micro_f1,
+  };
+}
+
+/**
+ * Evaluate two triage configurations on the same labeled set.
+ * The comparison fails when any headline metric drops by more than `maxRegression`.
+ */
+export function compareTriageConfigs(
+  labeled: LabeledTicket[],
+  baselineOptions: TriageOptions,
+  candidateOptions: TriageOptions,
+  options: CompareOptions = {}
+): TriageComparison {
+  const maxRegression = options.maxRegression ?? 0;
+  const baseline = evaluateTriage(labeled, baselineOptions);
+  const candidate = evaluateTriage(labeled, candidateOptions);
+
+  const baselineMetrics = headlineMetrics(baseline);
+  const candidateMetrics = headlineMetrics(candidate);
+
+  const deltas = Object.keys(baselineMetrics).map(metric => {
+    const delta = round(candidateMetrics[metric] - baselineMetrics[metric]);
+    return {
+      metric,
+      baseline: baselineMetrics[metric],
+      candidate: candidateMetrics[metric],
+      delta,
+      regressed: delta < -maxRegression,
+    };
+  });
+
+  return {
+    max_regression: maxRegression,
+    passed: deltas.every(d => !d.regressed),
+    deltas,
+    baseline,
+    candidate,
+  };
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function renderClassTable(classes: ClassMetrics[]): string[] {
+  if (classes.length === 0) {
+    return ['_No labels to evaluate._'];
+  }
+  return [
+    '| Class | Precision | Recall | F1 | Support |',
+    '| --- | --- | --- | --- | --- |',
+    ...classes.map(c =>
+      `| ${c.label} | ${formatPercent(c.precision)} | ${formatPercent(c.recall)} | ${formatPercent(c.f1)} | ${c.support} |`
+    ),
+  ];
+}
+
+function renderEvaluationSections(evaluation: TriageEvaluation, headingLevel: string): string[] {
+  const lines = [
+    `${headingLevel} Urgency`,
+    '',
+    `Accuracy: ${formatPercent(evaluation.urgency.accuracy)} over ${evaluation.urgency.evaluated} ticket(s); macro F1: ${formatPercent(evaluation.urgency.macro_f1)}`,
+    '',
+    ...renderClassTable(evaluation.urgency.classes),
+    '',
+    'Confusion matrix (rows = expected, columns = predicted):',
+    '',
+    `| expected \\ predicted | ${URGENCY_LABELS.join(' | ')} |`,
+    `| --- | ${URGENCY_LABELS.map(() => '---').join(' | ')} |`,
+    ...URGENCY_LABELS.map(expected =>
+      `| ${expected} | ${URGENCY_LABELS.map(predicted => evaluation.urgency.confusion_matrix[expected][predicted]).join(' | ')} |`
+    ),
+    '',
+    `${headingLevel} Topics`,
+    '',
+    `Macro F1: ${formatPercent(evaluation.topics.macro_f1)}; micro F1: ${formatPercent(evaluation.topics.micro_f1)}`,
+    '',
+    ...renderClassTable(evaluation.topics.classes),
+    '',
+    `${headingLevel} Tags`,
+    '',
+    `Macro F1: ${formatPercent(evaluation.tags.macro_f1)}; micro F1: ${formatPercent(evaluation.tags.micro_f1)}`,
+    '',
+    ...renderClassTable(evaluation.tags.classes),
+    '',
+    `${headingLevel} Misclassified tickets`,
+    '',
+  ];
+
+  if (evaluation.misclassified.length === 0) {
+    lines.push('_None._');
+  } else {
+    for (const m of evaluation.misclassified) {
+      lines.push(`- ${m.ticket_id} (${m.fields.join(', ')})`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Render an evaluation, or a baseline/candidate comparison, as Markdown.
+ */
+export function renderEvaluationMarkdown(report: TriageEvaluation | TriageComparison): string {
+  if (!('deltas' in report)) {
+    return [
+      '# Triage Evaluation',
+      '',
+      `Tickets: ${report.ticket_count}`,
+      '',
+      ...renderEvaluationSections(report, '##'),
+    ].join('\n');
+  }
+
+  return [
+    '# Triage Evaluation: Baseline vs Candidate',
+    '',
+    `Result: ${report.passed ? 'PASS' : 'FAIL'} (max allowed regression ${formatPercent(report.max_regression)})`,
+    '',
+    '| Metric | Baseline | Candidate | Delta |',
+    '| --- | --- | --- | --- |',
+    ...report.deltas.map(d =>
+      `| ${d.metric} | ${formatPercent(d.baseline)} | ${formatPercent(d.candidate)} | ${d.delta >= 0 ? '+' : ''}${formatPercent(d.delta)}${d.regressed ? ' ⚠' : ''} |`
+    ),
+    '',
+    '## Baseline',
+    '',
+    ...renderEvaluationSections(report.baseline, '###'),
+    '',
+    '## Candidate',
+    '',
+    ...renderEvaluationSections(report.candidate, '###'),
+  ].join('\n');
+}
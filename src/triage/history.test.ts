@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { buildHistoryIndex, customerHistory, detectRepeatContacts, findPriorTickets, indexedCustomerHistory } from './history.js';
+import { triageTicket, withHistoryIndex } from './classifier.js';
+import { triageBatch } from './batch.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'hist-1',
+  subject: 'Question',
+  body: '',
+  status: 'open',
+  priority: 'medium',
+  customer_email: 'jane@acme.example',
+  created_at: '2024-05-10T12:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+const day = (n: number): string => new Date(Date.UTC(2024, 4, n, 12)).toISOString();
+
+const invoiceTicket = (id: string, created: number, overrides: Partial<Ticket> = {}): Ticket => createTestTicket({
+  id,
+  subject: 'Invoice question',
+  body: 'Please correct the invoice for last month.',
+  created_at: day(created),
+  ...overrides,
+});
+
+const topicsOf = (ticket: Ticket): string[] => /invoice/i.test(ticket.body) ? ['billing'] : [];
+
+describe('findPriorTickets', () => {
+  it('should link earlier tickets by email, organization ID and company domain', () => {
+    const current = invoiceTicket('now', 10, { metadata: { org_id: 'ORG-7' } });
+    const corpus = [
+      invoiceTicket('same-email', 8),
+      invoiceTicket('same-domain', 7, { customer_email: 'bob@acme.example' }),
+      invoiceTicket('same-org', 6, { customer_email: 'it@gmail.com', metadata: { org_id: 'org-7' } }),
+      invoiceTicket('free-mail', 5, { customer_email: 'someone@gmail.com' }),
+      invoiceTicket('later', 11),
+      invoiceTicket('other-tenant', 4, { tenant_id: 't2' }),
+      current,
+    ];
+
+    expect(findPriorTickets(current, corpus).map(t => t.id)).toEqual(['same-email', 'same-domain', 'same-org']);
+  });
+});
+
+describe('customerHistory', () => {
+  it('should flag earlier tickets on the same topic within the window', () => {
+    const current = invoiceTicket('now', 10);
+    const corpus = [
+      invoiceTicket('old-billing', 1),
+      createTestTicket({ id: 'recent-login', subject: 'Login', body: 'I cannot log in.', created_at: day(9) }),
+      invoiceTicket('recent-billing', 7),
+      current,
+    ];
+
+    const history = customerHistory(current, ['billing/refunds'], corpus, topicsOf);
+
+    expect(history.prior_ticket_ids).toEqual(['recent-login', 'recent-billing', 'old-billing']);
+    expect(history.repeats).toEqual([{ ticket_id: 'recent-billing', topic: 'billing', days: 3 }]);
+    expect(customerHistory(current, ['billing'], corpus, topicsOf, { windowDays: 2 }).repeats).toEqual([]);
+  });
+
+  it('should skip tickets that are not customer contacts', () => {
+    const current = invoiceTicket('now', 10);
+    const corpus = [invoiceTicket('auto-reply', 9), current];
+
+    const history = customerHistory(current, ['billing'], corpus, ticket => ticket.id === 'auto-reply' ? undefined : topicsOf(ticket));
+
+    expect(history).toEqual({ prior_ticket_ids: [], repeats: [] });
+  });
+});
+
+describe('buildHistoryIndex', () => {
+  it('should give the same history as the corpus it was built from', () => {
+    const current = invoiceTicket('now', 10);
+    const corpus = [
+      invoiceTicket('old-billing', 1),
+      invoiceTicket('auto-reply', 8),
+      createTestTicket({ id: 'recent-login', subject: 'Login', body: 'I cannot log in.', created_at: day(9) }),
+      invoiceTicket('recent-billing', 7, { customer_email: 'bob@acme.example' }),
+      current,
+    ];
+    const contactTopics = (ticket: Ticket): string[] | undefined => ticket.id === 'auto-reply' ? undefined : topicsOf(ticket);
+
+    const index = buildHistoryIndex(corpus, contactTopics);
+
+    expect(indexedCustomerHistory(current, ['billing'], index)).toEqual(customerHistory(current, ['billing'], corpus, contactTopics));
+    expect(JSON.stringify(index)).not.toContain('Please correct the invoice');
+  });
+
+  it('should replace the history in triage options without changing the result', () => {
+    const current = invoiceTicket('now', 10);
+    const options = { history: [invoiceTicket('earlier', 8), current], now: new Date(day(11)) };
+
+    const compact = withHistoryIndex(options);
+
+    expect(compact.history).toBeUndefined();
+    expect(triageTicket(current, compact)).toEqual(triageTicket(current, options));
+    expect(triageTicket(current, compact).repeat_contact).toBe(true);
+  });
+});
+
+describe('detectRepeatContacts', () => {
+  it('should group a chain of repeat contacts from one customer', () => {
+    const tickets = [
+      invoiceTicket('first', 1),
+      invoiceTicket('second', 4),
+      invoiceTicket('third', 9),
+      invoiceTicket('unrelated', 5, { customer_email: 'max@other.example' }),
+    ];
+
+    const contacts = detectRepeatContacts(tickets, topicsOf);
+
+    expect(contacts).toHaveLength(1);
+    expect(contacts[0]).toMatchObject({
+      ticket_ids: ['first', 'second', 'third'],
+      topics: ['billing'],
+      first_seen: day(1),
+      last_seen: day(9),
+    });
+  });
+});
+
+describe('triage with customer history', () => {
+  it('should attach prior tickets and raise urgency for a repeat contact', () => {
+    const current = invoiceTicket('now', 10);
+    const history = [invoiceTicket('before', 8), current];
+
+    const result = triageTicket(current, { history });
+
+    expect(result.prior_ticket_ids).toEqual(['before']);
+    expect(result.repeat_contact).toBe(true);
+    expect(result.urgency).toBe('high');
+    expect(result.explanations).toContainEqual(expect.objectContaining({ target: 'urgency', rule: 'repeat_contact', value: 'high' }));
+    expect(result.explanations).toContainEqual(expect.objectContaining({ target: 'repeat_contact', value: 'true' }));
+  });
+
+  it('should only flag the contact when the boost is 0', () => {
+    const current = invoiceTicket('now', 10);
+
+    const result = triageTicket(current, { history: [invoiceTicket('before', 8)], repeatContact: { boost: 0 } });
+
+    expect(result.repeat_contact).toBe(true);
+    expect(result.urgency).toBe('medium');
+  });
+
+  it('should leave the fields out without history', () => {
+    const result = triageTicket(invoiceTicket('now', 10));
+
+    expect(result.prior_ticket_ids).toBeUndefined();
+    expect(result.repeat_contact).toBeUndefined();
+  });
+
+  it('should find repeat contacts within a batch and in supplied history', () => {
+    const batch = triageBatch(
+      [invoiceTicket('a', 9), invoiceTicket('b', 10)],
+      { history: [invoiceTicket('archived', 8)] }
+    );
+
+    expect(batch.results.map(r => r.prior_ticket_ids)).toEqual([['archived'], ['a', 'archived']]);
+    expect(batch.stats.repeatContacts).toBe(2);
+    expect(triageBatch([invoiceTicket('a', 9), invoiceTicket('b', 10)], { repeatContact: false }).stats.repeatContacts).toBe(0);
+  });
+});
@@ -0,0 +1,343 @@
+import type { Ticket } from '../contracts/ticket.js';
+import { stableHash } from '../utils/deterministic.js';
+import { rollUpTopic } from './taxonomy.js';
+
+/**
+ * Customer history across a ticket corpus.
+ *
+ * Tickets belong to the same customer when they share the customer email, an
+ * organization or account ID from metadata (`organization_id`, `org_id`,
+ * `account_id`), or a company email domain (free-mail domains never link
+ * customers). Only earlier tickets of the same tenant count, and only the most
+ * recent ones per email, organization and domain, so busy company domains do
+ * not make the lookup grow with the corpus. A ticket is a repeat contact when
+ * one of them was opened within the window on the same top-level topic;
+ * tickets without a topic share the `general` topic.
+ */
+
+export interface RepeatContactOptions {
+  /** Days within which an earlier ticket on the same topic makes a repeat contact (default 7). */
+  windowDays?: number;
+  /** Urgency levels a repeat contact adds (default 1, 0 to only flag it). */
+  boost?: number;
+}
+
+/**
+ * Top-level topics of a corpus ticket, or undefined when it is not a customer
+ * contact (auto-replies, bounces, spam) and should be ignored.
+ */
+export type TicketTopics = (ticket: Ticket) => string[] | undefined;
+
+export interface PriorContact {
+  ticket_id: string;
+  /** Shared top-level topic. */
+  topic: string;
+  /** Days between the earlier ticket and this one, to one decimal. */
+  days: number;
+}
+
+export interface CustomerHistory {
+  /** Earlier tickets from the same customer or organization, most recent first (at most `MAX_PRIOR_TICKETS`). */
+  prior_ticket_ids: string[];
+  /** Earlier tickets on a shared topic within the window, most recent first. */
+  repeats: PriorContact[];
+}
+
+export interface RepeatContact {
+  contact_id: string;
+  tenant_id: string;
+  project_id: string;
+  /** Linked tickets, oldest first. */
+  ticket_ids: string[];
+  topics: string[];
+  first_seen: string;
+  last_seen: string;
+}
+
+export const DEFAULT_REPEAT_WINDOW_DAYS = 7;
+export const DEFAULT_REPEAT_BOOST = 1;
+/** Earlier tickets looked at per linking key, and listed in `prior_ticket_ids`. */
+export const MAX_PRIOR_TICKETS = 20;
+
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.uk', 'hotmail.com', 'outlook.com',
+  'live.com', 'msn.com', 'icloud.com', 'me.com', 'aol.com', 'proton.me', 'protonmail.com',
+  'gmx.de', 'gmx.net', 'web.de', 'mail.ru', 'yandex.ru', 'qq.com', '163.com',
+]);
+
+const ORGANIZATION_FIELDS = ['organization_id', 'org_id', 'account_id'];
+
+const DAY_MS = 86_400_000;
+
+/** A corpus ticket as customer history needs it. */
+export interface HistoryEntry {
+  ticket_id: string;
+  /** When the ticket was opened, in epoch milliseconds. */
+  time: number;
+  /** Topic categories, or absent when the ticket is not a customer contact. */
+  topics?: string[];
+}
+
+/**
+ * Customer history of a corpus without the tickets themselves: entries per
+ * linking key, oldest first. Plain data, so worker threads can be sent this
+ * instead of the whole corpus.
+ */
+export type HistoryIndex = Record<string, HistoryEntry[]>;
+
+interface IndexedTicket {
+  ticket: Ticket;
+  ticket_id: string;
+  time: number;
+}
+
+const indexCache = new WeakMap<Ticket[], Map<string, IndexedTicket[]>>();
+
+/**
+ * Keys that link a ticket to its customer: email, organization/account IDs and company domain.
+ */
+function contactKeys(ticket: Ticket): string[] {
+  const keys: string[] = [];
+  const email = ticket.customer_email?.toLowerCase();
+  if (email !== undefined) {
+    keys.push(`email:${email}`);
+    const domain = email.slice(email.lastIndexOf('@') + 1);
+    if (domain !== '' && !FREE_MAIL_DOMAINS.has(domain)) {
+      keys.push(`domain:${domain}`);
+    }
+  }
+  for (const field of ORGANIZATION_FIELDS) {
+    const value = ticket.metadata[field];
+    if (typeof value === 'string' && value.trim() !== '') {
+      keys.push(`org:${value.trim().toLowerCase()}`);
+    }
+  }
+  return keys.map(key => `${ticket.tenant_id}\u0000${key}`);
+}
+
+function timeOf(ticket: Ticket): number {
+  return new Date(ticket.created_at).getTime();
+}
+
+function indexCorpus(corpus: Ticket[]): Map<string, IndexedTicket[]> {
+  let index = indexCache.get(corpus);
+  if (!index) {
+    index = new Map();
+    for (const ticket of corpus) {
+      const entry = { ticket, ticket_id: ticket.id, time: timeOf(ticket) };
+      for (const key of contactKeys(ticket)) {
+        const group = index.get(key);
+        if (group) {
+          group.push(entry);
+        } else {
+          index.set(key, [entry]);
+        }
+      }
+    }
+    for (const group of index.values()) {
+      group.sort((a, b) => a.time - b.time || a.ticket_id.localeCompare(b.ticket_id));
+    }
+    indexCache.set(corpus, index);
+  }
+  return index;
+}
+
+/** Position of the first entry in the group opened at or after `time`. */
+function firstAtOrAfter(group: Array<{ time: number }>, time: number): number {
+  let low = 0;
+  let high = group.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (group[mid].time < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Entries opened before the ticket in any of its groups, most recent first:
+ * up to `MAX_PRIOR_TICKETS` per email, organization and domain.
+ */
+function priorEntries<T extends { ticket_id: string; time: number }>(
+  ticket: Ticket,
+  groupOf: (key: string) => T[] | undefined
+): T[] {
+  const time = timeOf(ticket);
+  const prior = new Map<string, T>();
+
+  for (const key of contactKeys(ticket)) {
+    const group = groupOf(key);
+    if (!group) {
+      continue;
+    }
+    let taken = 0;
+    for (let i = firstAtOrAfter(group, time) - 1; i >= 0 && taken < MAX_PRIOR_TICKETS; i--) {
+      const candidate = group[i];
+      if (candidate.ticket_id !== ticket.id) {
+        prior.set(candidate.ticket_id, candidate);
+        taken++;
+      }
+    }
+  }
+
+  return [...prior.values()].sort((a, b) => b.time - a.time || a.ticket_id.localeCompare(b.ticket_id));
+}
+
+/**
+ * Earlier tickets from the same customer or organization, most recent first:
+ * up to `MAX_PRIOR_TICKETS` per email, organization and domain.
+ */
+export function findPriorTickets(ticket: Ticket, corpus: Ticket[]): Ticket[] {
+  const index = indexCorpus(corpus);
+  return priorEntries(ticket, key => index.get(key)).map(entry => entry.ticket);
+}
+
+/**
+ * Compact history index of a corpus, with each ticket's topics resolved up front.
+ */
+export function buildHistoryIndex(corpus: Ticket[], topicsOf: TicketTopics): HistoryIndex {
+  const index: HistoryIndex = {};
+  const entries = new Map<Ticket, HistoryEntry>();
+  for (const [key, group] of indexCorpus(corpus)) {
+    index[key] = group.map(({ ticket, ticket_id, time }) => {
+      let entry = entries.get(ticket);
+      if (!entry) {
+        const topics = topicsOf(ticket);
+        entry = topics === undefined ? { ticket_id, time } : { ticket_id, time, topics };
+        entries.set(ticket, entry);
+      }
+      return entry;
+    });
+  }
+  return index;
+}
+
+/**
+ * Top-level topics used to compare tickets; `general` when none were detected.
+ */
+export function historyTopics(categories: string[]): string[] {
+  return categories.length > 0 ? [...new Set(categories.map(category => rollUpTopic(category, 1)))] : ['general'];
+}
+
+function historyOf<T extends { ticket_id: string; time: number }>(
+  ticket: Ticket,
+  topics: string[],
+  prior: T[],
+  topicsOf: (entry: T) => string[] | undefined,
+  options: RepeatContactOptions
+): CustomerHistory {
+  const windowMs = (options.windowDays ?? DEFAULT_REPEAT_WINDOW_DAYS) * DAY_MS;
+  const time = timeOf(ticket);
+  const own = new Set(historyTopics(topics));
+
+  const priorTicketIds: string[] = [];
+  const repeats: PriorContact[] = [];
+  for (const entry of prior) {
+    const priorTopics = topicsOf(entry);
+    if (priorTopics === undefined) {
+      continue;
+    }
+    priorTicketIds.push(entry.ticket_id);
+
+    const elapsed = time - entry.time;
+    const topic = elapsed <= windowMs ? historyTopics(priorTopics).find(t => own.has(t)) : undefined;
+    if (topic !== undefined) {
+      repeats.push({ ticket_id: entry.ticket_id, topic, days: Math.round(elapsed / DAY_MS * 10) / 10 });
+    }
+  }
+
+  return { prior_ticket_ids: priorTicketIds.slice(0, MAX_PRIOR_TICKETS), repeats };
+}
+
+/**
+ * Earlier contacts of the ticket's customer and which of them make this ticket a repeat contact.
+ * `topics` are the ticket's own topic categories.
+ */
+export function customerHistory(
+  ticket: Ticket,
+  topics: string[],
+  corpus: Ticket[],
+  topicsOf: TicketTopics,
+  options: RepeatContactOptions = {}
+): CustomerHistory {
+  const index = indexCorpus(corpus);
+  return historyOf(ticket, topics, priorEntries(ticket, key => index.get(key)), entry => topicsOf(entry.ticket), options);
+}
+
+/**
+ * `customerHistory` looked up in a compact index from `buildHistoryIndex`.
+ */
+export function indexedCustomerHistory(
+  ticket: Ticket,
+  topics: string[],
+  index: HistoryIndex,
+  options: RepeatContactOptions = {}
+): CustomerHistory {
+  return historyOf(ticket, topics, priorEntries(ticket, key => index[key]), entry => entry.topics, options);
+}
+
+/**
+ * Group repeat contacts across a corpus: each group links a customer's tickets
+ * on the same topic that followed each other within the window.
+ */
+export function detectRepeatContacts(
+  tickets: Ticket[],
+  topicsOf: TicketTopics,
+  options: RepeatContactOptions = {}
+): RepeatContact[] {
+  const byId = new Map(tickets.map(ticket => [ticket.id, ticket]));
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(id, root);
+    return root;
+  };
+
+  const topicsById = new Map<string, Set<string>>();
+  for (const ticket of tickets) {
+    const topics = topicsOf(ticket);
+    if (topics === undefined) {
+      continue;
+    }
+    const { repeats } = customerHistory(ticket, topics, tickets, topicsOf, options);
+    for (const repeat of repeats) {
+      for (const id of [ticket.id, repeat.ticket_id]) {
+        if (!parent.has(id)) {
+          parent.set(id, id);
+          topicsById.set(id, new Set());
+        }
+        topicsById.get(id)!.add(repeat.topic);
+      }
+      parent.set(find(ticket.id), find(repeat.ticket_id));
+    }
+  }
+
+  const groups = new Map<string, Ticket[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    groups.set(root, [...groups.get(root) ?? [], byId.get(id)!]);
+  }
+
+  return [...groups.values()]
+    .map(members => {
+      members.sort((a, b) => timeOf(a) - timeOf(b) || a.id.localeCompare(b.id));
+      const first = members[0];
+      const last = members[members.length - 1];
+      return {
+        contact_id: `rep_${stableHash([first.tenant_id, first.project_id, first.id]).slice(0, 12)}`,
+        tenant_id: first.tenant_id,
+        project_id: first.project_id,
+        ticket_ids: members.map(m => m.id),
+        topics: [...new Set(members.flatMap(m => [...topicsById.get(m.id)!]))].sort(),
+        first_seen: new Date(timeOf(first)).toISOString(),
+        last_seen: new Date(timeOf(last)).toISOString(),
+      };
+    })
+    .sort((a, b) => a.first_seen.localeCompare(b.first_seen) || a.contact_id.localeCompare(b.contact_id));
+}
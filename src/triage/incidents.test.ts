@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { detectIncidents } from './incidents.js';
+import { triageBatch } from './batch.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'inc-1',
+  subject: 'Question',
+  body: '',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-05-01T12:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+const at = (minute: number): string => new Date(Date.UTC(2024, 4, 1, 12, minute)).toISOString();
+
+const outageTickets = (count: number, startMinute = 0, stepMinutes = 2): Ticket[] =>
+  Array.from({ length: count }, (_, i) => createTestTicket({
+    id: `out-${startMinute}-${i}`,
+    subject: i % 2 === 0 ? 'Site is down' : 'Getting 502 errors',
+    body: i % 2 === 0 ? 'The dashboard is down, every page returns 502.' : 'Every request returns a 502 error.',
+    created_at: at(startMinute + i * stepMinutes),
+  }));
+
+describe('detectIncidents', () => {
+  it('should raise a candidate for a burst of outage tickets', () => {
+    const tickets = [
+      ...outageTickets(6),
+      createTestTicket({ id: 'calm', subject: 'Invoice', body: 'Please resend my invoice', created_at: at(3) }),
+    ];
+
+    const incidents = detectIncidents(tickets);
+
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0].ticket_ids).toHaveLength(6);
+    expect(incidents[0].ticket_ids).not.toContain('calm');
+    expect(incidents[0].first_seen).toBe(at(0));
+    expect(incidents[0].last_seen).toBe(at(10));
+    expect(incidents[0].signals).toEqual(expect.arrayContaining(['502', 'http_status:502']));
+    expect(incidents[0].incident_id).toMatch(/^inc_[0-9a-f]{12}$/);
+  });
+
+  it('should report arrival rate and growth', () => {
+    const accelerating = [
+      createTestTicket({ id: 'g0', body: 'Service is down', created_at: at(0) }),
+      ...Array.from({ length: 5 }, (_, i) => createTestTicket({
+        id: `g${i + 1}`,
+        body: 'Service is down for us too',
+        created_at: at(50 + i),
+      })),
+    ];
+
+    const [incident] = detectIncidents(accelerating, [], { windowMinutes: 60 });
+
+    expect(incident.growth_rate).toBe(5);
+    // 54-minute span is shorter than the 60-minute window, so the rate is per window
+    expect(incident.tickets_per_hour).toBe(6);
+  });
+
+  it('should split bursts separated by more than the window', () => {
+    const tickets = [...outageTickets(5, 0), ...outageTickets(5, 120)];
+
+    expect(detectIncidents(tickets)).toHaveLength(2);
+  });
+
+  it('should ignore small clusters and negated signals', () => {
+    expect(detectIncidents(outageTickets(4))).toEqual([]);
+
+    const calm = Array.from({ length: 6 }, (_, i) => createTestTicket({
+      id: `calm-${i}`,
+      body: 'The site is not down, just a question about exports',
+      created_at: at(i),
+    }));
+    expect(detectIncidents(calm)).toEqual([]);
+  });
+});
+
+describe('incident signals', () => {
+  it('should not tie together unrelated tickets that only say error', () => {
+    const tickets = ['export', 'invoice download', 'password reset', 'webhook test', 'CSV import'].map((feature, i) =>
+      createTestTicket({ id: `err-${i}`, body: `The ${feature} shows an error.`, created_at: at(i) }));
+
+    expect(detectIncidents(tickets)).toEqual([]);
+  });
+
+  it('should not cluster outage reports that share only a topic', () => {
+    const tickets = Array.from({ length: 6 }, (_, i) => createTestTicket({
+      id: `topic-${i}`,
+      body: i % 2 === 0 ? 'The API is down.' : 'Our API calls keep hitting a timeout.',
+      created_at: at(i),
+    }));
+    const results = triageBatch(tickets, { incidents: false }).results;
+
+    expect(results.every(r => r.topics.some(t => t.category === 'technical'))).toBe(true);
+    expect(detectIncidents(tickets, results)).toEqual([]);
+  });
+
+  it('should cluster reports that share an endpoint', () => {
+    const tickets = Array.from({ length: 5 }, (_, i) => createTestTicket({
+      id: `ep-${i}`,
+      body: i % 2 === 0
+        ? `Calls to https://api.example.com/v1/orders?page=${i} are timing out.`
+        : 'https://api.example.com/v1/orders/ is unavailable for us.',
+      created_at: at(i),
+    }));
+
+    const [incident] = detectIncidents(tickets);
+
+    expect(incident.ticket_ids).toHaveLength(5);
+    expect(incident.signals).toContain('endpoint:api.example.com/v1/orders');
+  });
+});
+
+describe('triageBatch incidents', () => {
+  it('should expose incident candidates and allow opting out', () => {
+    const tickets = outageTickets(5);
+
+    expect(triageBatch(tickets).incidents).toHaveLength(1);
+    expect(triageBatch(tickets, { incidents: false }).incidents).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+import { URL } from 'url';
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageResult } from '../contracts/triage-result.js';
+import { stableHash } from '../utils/deterministic.js';
+import { getTriageSegments } from './thread.js';
+import { matchedKeywords } from './matcher.js';
+import { extractEntities } from './entities.js';
+
+/**
+ * Incident spike detection.
+ *
+ * Tickets that mention an outage signal ("down", "500", "timeout", ...) are
+ * walked in `created_at` order per tenant/project. A ticket joins the open
+ * cluster when it arrives within the time window of the cluster's latest
+ * ticket and shares a specific signal with it: an outage keyword, error code,
+ * HTTP status or endpoint. Generic words like "error" and triage topics are
+ * too common to tie tickets together; topics only describe a cluster.
+ * Clusters that reach `minTickets` become incident candidates.
+ */
+
+export interface IncidentDetectionOptions {
+  /** Largest gap between consecutive tickets of one incident. */
+  windowMinutes?: number;
+  /** Tickets required before a cluster is reported. */
+  minTickets?: number;
+  /** Keywords that make a ticket look like an outage report. */
+  keywords?: string[];
+  negationWindow?: number;
+}
+
+export interface IncidentCandidate {
+  incident_id: string;
+  tenant_id: string;
+  project_id: string;
+  ticket_ids: string[];
+  first_seen: string;
+  last_seen: string;
+  /** Arrival rate over the incident span, in tickets per hour. */
+  tickets_per_hour: number;
+  /**
+   * Tickets in the second half of the span divided by tickets in the first half;
+   * above 1 means reports are still accelerating.
+   */
+  growth_rate: number;
+  /** Signals (keywords, `error_code:`, `http_status:`, `endpoint:`) and topics across the cluster, most frequent first. */
+  signals: string[];
+}
+
+export const DEFAULT_INCIDENT_KEYWORDS = [
+  'down', 'outage', 'unavailable', 'offline', 'not loading', 'cannot access',
+  '500', '502', '503', '504', 'internal server error', 'bad gateway',
+  'timeout', 'timed out', 'degraded',
+];
+
+const SIGNAL_ENTITY_TYPES = new Set(['error_code', 'http_status', 'url']);
+
+const DEFAULT_WINDOW_MINUTES = 30;
+const DEFAULT_MIN_TICKETS = 5;
+
+interface SignalTicket {
+  ticket: Ticket;
+  time: number;
+  /** Specific signals that tie tickets into one incident. */
+  signals: Set<string>;
+  topics: string[];
+}
+
+interface OpenCluster {
+  members: SignalTicket[];
+  signals: Set<string>;
+  lastTime: number;
+}
+
+// An endpoint is the URL's host and path; query strings differ per request
+function endpointOf(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.host}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return undefined;
+  }
+}
+
+function entitySignals(ticket: Ticket): string[] {
+  return extractEntities(ticket)
+    .filter(entity => SIGNAL_ENTITY_TYPES.has(entity.type))
+    .flatMap(entity => {
+      if (entity.type !== 'url') {
+        return [`${entity.type}:${entity.value}`];
+      }
+      const endpoint = endpointOf(entity.value);
+      return endpoint !== undefined ? [`endpoint:${endpoint}`] : [];
+    });
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function toCandidate(cluster: OpenCluster, windowMinutes: number): IncidentCandidate {
+  const members = cluster.members;
+  const first = members[0];
+  const last = members[members.length - 1];
+  const spanMs = last.time - first.time;
+
+  // A burst that lands in a single instant still spans at least one window
+  const rateHours = Math.max(spanMs, windowMinutes * 60_000) / 3_600_000;
+  const midpoint = first.time + spanMs / 2;
+  const earlier = members.filter(m => m.time <= midpoint).length;
+  const later = members.length - earlier;
+
+  const signalCounts = new Map<string, number>();
+  for (const member of members) {
+    for (const signal of [...member.signals, ...member.topics]) {
+      signalCounts.set(signal, (signalCounts.get(signal) ?? 0) + 1);
+    }
+  }
+  const signals = [...signalCounts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .map(([signal]) => signal);
+
+  return {
+    incident_id: `inc_${stableHash([first.ticket.tenant_id, first.ticket.project_id, first.ticket.id]).slice(0, 12)}`,
+    tenant_id: first.ticket.tenant_id,
+    project_id: first.ticket.project_id,
+    ticket_ids: members.map(m => m.ticket.id),
+    first_seen: new Date(first.time).toISOString(),
+    last_seen: new Date(last.time).toISOString(),
+    tickets_per_hour: roundTo(members.length / rateHours, 2),
+    growth_rate: spanMs === 0 ? 1 : roundTo(later / Math.max(earlier, 1), 2),
+    signals,
+  };
+}
+
+function sharesSignal(cluster: OpenCluster, signals: Set<string>): boolean {
+  for (const signal of signals) {
+    if (cluster.signals.has(signal)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Find bursts of outage-like tickets.
+ * Triage results, when given, add their topic categories to the reported signals.
+ */
+export function detectIncidents(
+  tickets: Ticket[],
+  triageResults: TriageResult[] = [],
+  options: IncidentDetectionOptions = {}
+): IncidentCandidate[] {
+  const windowMs = (options.windowMinutes ?? DEFAULT_WINDOW_MINUTES) * 60_000;
+  const minTickets = options.minTickets ?? DEFAULT_MIN_TICKETS;
+  const keywords = options.keywords ?? DEFAULT_INCIDENT_KEYWORDS;
+  const topicsById = new Map(triageResults.map(r => [r.ticket_id, r.topics.map(t => `topic:${t.category}`)]));
+
+  const byScope = new Map<string, SignalTicket[]>();
+  for (const ticket of tickets) {
+    const hits = matchedKeywords(getTriageSegments(ticket), keywords, { negationWindow: options.negationWindow });
+    const time = new Date(ticket.created_at).getTime();
+    if (hits.length === 0 || Number.isNaN(time)) {
+      continue;
+    }
+
+    const scope = `${ticket.tenant_id}\u0000${ticket.project_id}`;
+    const entry: SignalTicket = {
+      ticket,
+      time,
+      signals: new Set([...hits, ...entitySignals(ticket)]),
+      topics: topicsById.get(ticket.id) ?? [],
+    };
+    const group = byScope.get(scope);
+    if (group) {
+      group.push(entry);
+    } else {
+      byScope.set(scope, [entry]);
+    }
+  }
+
+  const candidates: IncidentCandidate[] = [];
+
+  for (const group of byScope.values()) {
+    group.sort((a, b) => a.time - b.time || a.ticket.id.localeCompare(b.ticket.id));
+    let open: OpenCluster[] = [];
+
+    for (const entry of group) {
+      // Close clusters that have gone quiet for longer than the window
+      const stillOpen: OpenCluster[] = [];
+      for (const cluster of open) {
+        if (entry.time - cluster.lastTime > windowMs) {
+          if (cluster.members.length >= minTickets) {
+            candidates.push(toCandidate(cluster, windowMs / 60_000));
+          }
+        } else {
+          stillOpen.push(cluster);
+        }
+      }
+      open = stillOpen;
+
+      const target = open.find(cluster => sharesSignal(cluster, entry.signals));
+      if (target) {
+        target.members.push(entry);
+        target.lastTime = entry.time;
+        for (const signal of entry.signals) {
+          target.signals.add(signal);
+        }
+      } else {
+        open.push({ members: [entry], signals: new Set(entry.signals), lastTime: entry.time });
+      }
+    }
+
+    for (const cluster of open) {
+      if (cluster.members.length >= minTickets) {
+        candidates.push(toCandidate(cluster, windowMs / 60_000));
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => a.first_seen.localeCompare(b.first_seen) || a.incident_id.localeCompare(b.incident_id));
+}
@@ -1,2 +1,24 @@
 export * from './classifier.js';
 export * from './batch.js';
+export * from './thread.js';
+export * from './model.js';
+export * from './matcher.js';
+export * from './config.js';
+export * from './evaluation.js';
+export * from './duplicates.js';
+export * from './incidents.js';
+export * from './sla.js';
+export * from './taxonomy.js';
+export * from './entities.js';
+export * from './requirements.js';
+export * from './sentiment.js';
+export * from './multilingual.js';
+export * from './prefilter.js';
+export * from './customers.js';
+export * from './history.js';
+export * from './aging.js';
+export * from './stream.js';
+export * from './parallel.js';
+export * from './cache.js';
+export * from './drift.js';
+export * from './reconcile.js';
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { stem, tokenize, findKeywordMatches, hasKeywordMatch, matchedKeywords } from './matcher.js';
+import { classifyUrgency, classifyTopics, suggestTags } from './classifier.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const segment = (text: string, field = 'body'): Array<{ field: string; text: string }> => [{ field, text }];
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'match-1',
+  subject: 'Question',
+  body: '',
+  status: 'open',
+  priority: 'medium',
+  created_at: new Date().toISOString(),
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+describe('stem', () => {
+  it('should reduce inflections to a shared stem', () => {
+    expect(stem('errors')).toBe(stem('error'));
+    expect(stem('crashed')).toBe(stem('crash'));
+    expect(stem('crashes')).toBe(stem('crash'));
+    expect(stem('charged')).toBe(stem('charge'));
+    expect(stem('urgently')).toBe(stem('urgent'));
+    expect(stem('stopped')).toBe('stop');
+  });
+
+  it('should leave short and unrelated words alone', () => {
+    expect(stem('api')).toBe('api');
+    expect(stem('access')).toBe('access');
+    expect(stem('status')).toBe('status');
+  });
+});
+
+describe('tokenize', () => {
+  it('should record offsets and clause boundaries', () => {
+    const tokens = tokenize("It isn't broken. Down now");
+
+    expect(tokens.map(t => t.value)).toEqual(['it', "isn't", 'broken', 'down', 'now']);
+    expect(tokens[2].start).toBe(9);
+    expect(tokens[3].clause).toBe(tokens[2].clause + 1);
+  });
+});
+
+describe('findKeywordMatches', () => {
+  it('should respect word boundaries', () => {
+    expect(hasKeywordMatch(segment('A terror movie'), ['error'])).toBe(false);
+    expect(hasKeywordMatch(segment('Update my address'), ['dress'])).toBe(false);
+    expect(hasKeywordMatch(segment('Seeing errors again'), ['error'])).toBe(true);
+  });
+
+  it('should match multi-word phrases on consecutive tokens', () => {
+    expect(hasKeywordMatch(segment('We had data loss overnight'), ['data loss'])).toBe(true);
+    expect(hasKeywordMatch(segment('The data has no loss'), ['data loss'])).toBe(false);
+  });
+
+  it('should mark keywords inside a negation window as negated', () => {
+    const matches = findKeywordMatches(segment('This is not urgent and there are no errors anymore'), ['urgent', 'error']);
+
+    expect(matches).toHaveLength(2);
+    expect(matches.every(m => m.negated)).toBe(true);
+  });
+
+  it('should handle contracted negations', () => {
+    expect(hasKeywordMatch(segment("This isn't broken"), ['broken'])).toBe(false);
+    expect(hasKeywordMatch(segment('This isn’t broken'), ['broken'])).toBe(false);
+    expect(hasKeywordMatch(segment("We can't see any crash"), ['crash'])).toBe(false);
+    expect(hasKeywordMatch(segment('It cannot be a security issue'), ['security'])).toBe(false);
+    expect(hasKeywordMatch(segment("Couldn't find an outage"), ['outage'])).toBe(false);
+  });
+
+  it('should stop negation at clause boundaries', () => {
+    expect(hasKeywordMatch(segment('Not sure why, but the site is down'), ['down'])).toBe(true);
+  });
+
+  it('should honour a custom negation window', () => {
+    const text = segment('No idea whatsoever why it is broken');
+
+    expect(hasKeywordMatch(text, ['broken'])).toBe(true);
+    expect(hasKeywordMatch(text, ['broken'], { negationWindow: 10 })).toBe(false);
+  });
+
+  it('should report field and offset of each match', () => {
+    const matches = findKeywordMatches(segment('Payment failed', 'subject'), ['fail']);
+
+    expect(matches[0]).toMatchObject({ keyword: 'fail', field: 'subject', offset: 8, negated: false });
+  });
+
+  it('should list matched keywords in input order', () => {
+    expect(matchedKeywords(segment('refund the invoice'), ['invoice', 'payment', 'refund'])).toEqual(['invoice', 'refund']);
+  });
+});
+
+describe('triage with word-level matching', () => {
+  it('should not treat negated keywords as urgent', () => {
+    const ticket = createTestTicket({
+      subject: 'Not urgent',
+      body: 'There are no errors anymore, just a quick question.',
+    });
+
+    expect(classifyUrgency(ticket)).toBe('medium');
+  });
+
+  it('should rate a plain error as high, not critical', () => {
+    expect(classifyUrgency(createTestTicket({ subject: 'API', body: 'The API returns an error on upload.' }))).toBe('high');
+  });
+
+  it('should not match keywords embedded in other words', () => {
+    const ticket = createTestTicket({
+      subject: 'Shipping address',
+      body: 'Please show me where to change the address on file.',
+    });
+
+    expect(classifyTopics(ticket, { topicCategories: { 'how-to': ['how'], fashion: ['dress'] } })).toEqual([]);
+  });
+
+  it('should use the matcher for suggested tags', () => {
+    const ticket = createTestTicket({ body: 'There was no crash, I just have a question' });
+
+    const tags = suggestTags(ticket, []);
+
+    expect(tags).toContain('question');
+    expect(tags).not.toContain('bug-report');
+  });
+});
+
+describe('multilingual matching', () => {
+  it('should match accented and inflected keywords in the ticket language', () => {
+    const segments = [{ field: 'body', text: 'Las facturas del mes pasado tienen errores' }];
+
+    expect(matchedKeywords(segments, ['factura', 'error'], { language: 'es' })).toEqual(['factura', 'error']);
+    expect(matchedKeywords([{ field: 'body', text: 'Facturacion' }], ['facturación'], { language: 'es' }))
+      .toEqual(['facturación']);
+  });
+
+  it('should match Japanese keywords as character sequences', () => {
+    const segments = [{ field: 'body', text: 'サーバー障害が発生しています' }];
+
+    expect(matchedKeywords(segments, ['障害', '請求'], { language: 'ja' })).toEqual(['障害']);
+  });
+
+  it('should honour German, French and Spanish negation', () => {
+    expect(hasKeywordMatch([{ field: 'body', text: 'Es ist nicht dringend' }], ['dringend'], { language: 'de' })).toBe(false);
+    expect(hasKeywordMatch([{ field: 'body', text: "Ce n'est pas urgent" }], ['urgent'], { language: 'fr' })).toBe(false);
+    expect(hasKeywordMatch([{ field: 'body', text: 'Sin errores hoy' }], ['error'], { language: 'es' })).toBe(false);
+  });
+});
@@ -0,0 +1,319 @@
+import type { TextSegment } from './thread.js';
+import { foldDiacritics, segmentWords, type LanguageCode } from '../utils/language.js';
+
+/**
+ * Word-level keyword matching for triage.
+ *
+ * Text and keywords are tokenized and stemmed the same way, so "errors" matches
+ * "error" but "terror" does not, multi-word keywords match consecutive tokens,
+ * and a keyword preceded by a negation ("not urgent", "no errors") within the
+ * same clause is reported as negated instead of as a hit. Stemming follows the
+ * ticket language; accents are folded so "facturacion" matches "facturación".
+ * Japanese has no word spaces, so each character is a token and keywords
+ * match as character sequences.
+ */
+
+export interface Token {
+  value: string;
+  stem: string;
+  start: number;
+  end: number;
+  clause: number;
+}
+
+export interface KeywordMatch {
+  keyword: string;
+  field: string;
+  offset: number;
+  length: number;
+  negated: boolean;
+}
+
+export interface MatchOptions {
+  /** Number of tokens before a keyword that are checked for a negation cue. */
+  negationWindow?: number;
+  /** Language whose stemming rules apply to both text and keywords; English when omitted. */
+  language?: LanguageCode;
+}
+
+interface CompiledKeyword {
+  keyword: string;
+  stems: string[];
+}
+
+export const DEFAULT_NEGATION_WINDOW = 3;
+
+const NEGATION_CUES = new Set([
+  'no', 'not', 'never', 'without', 'none', 'nothing', 'nor', 'neither',
+  "isn't", 'isnt', "aren't", 'arent', "wasn't", 'wasnt', "weren't", 'werent',
+  "don't", 'dont', "doesn't", 'doesnt', "didn't", 'didnt',
+  "haven't", 'havent', "hasn't", 'hasnt', "hadn't", 'hadnt',
+  "won't", 'wont', "wouldn't", 'wouldnt', "shouldn't", 'shouldnt',
+  'cannot', "can't", 'cant', "couldn't", 'couldnt', "ain't", 'aint',
+  // German, French, Spanish
+  'nicht', 'kein', 'keine', 'keinen', 'keinem', 'keiner', 'nie', 'niemals', 'ohne',
+  'ne', 'pas', 'jamais', 'sans', 'aucun', 'aucune',
+  'nunca', 'sin', 'ningún', 'ninguna', 'tampoco',
+]);
+
+// French elided "ne" ("n'est pas urgent")
+const ELIDED_NEGATION = /^n'/;
+
+// Punctuation that ends the scope of a negation cue
+const CLAUSE_BREAK = /[.!?;:,\n。、！？]/;
+
+// Elided articles and pronouns in French ("l'erreur", "d'accès")
+const FRENCH_ELISION = /^(?:c|d|j|l|m|n|qu|s|t)'/;
+
+// Cache for tokenized segment text to avoid re-tokenizing per keyword list
+const tokenCache = new Map<string, Token[]>();
+const MAX_CACHE_SIZE = 1000;
+
+const keywordCache = new Map<string, CompiledKeyword>();
+
+/**
+ * Light suffix-stripping stemmer (Porter-style) for the given language, English by default.
+ * Only needs to be consistent between keywords and ticket text.
+ */
+export function stem(word: string, language: LanguageCode = 'en'): string {
+  const folded = foldDiacritics(word.toLowerCase());
+  switch (language) {
+    case 'de':
+      return stemGerman(folded);
+    case 'fr':
+      return stemFrench(folded);
+    case 'es':
+      return stemSpanish(folded);
+    case 'ja':
+      return folded;
+    case 'en':
+      return stemEnglish(folded);
+  }
+}
+
+function stemEnglish(word: string): string {
+  let w = word.replace(/'s$/, '');
+  if (w.length <= 3) {
+    return w;
+  }
+
+  let strippedVerbSuffix = false;
+  if (w.endsWith('ies') && w.length > 4) {
+    w = w.slice(0, -3) + 'y';
+  } else if (w.endsWith('sses')) {
+    w = w.slice(0, -2);
+  } else if (/(?:ch|sh|x|z)es$/.test(w)) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('ing') && w.length > 5) {
+    w = w.slice(0, -3);
+    strippedVerbSuffix = true;
+  } else if (w.endsWith('ed') && w.length > 4) {
+    w = w.slice(0, -2);
+    strippedVerbSuffix = true;
+  } else if (w.endsWith('ly') && w.length > 5 && !w.endsWith('ply')) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('s') && !/(?:ss|us|is)$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  // "stopped" -> "stopp" -> "stop", but keep "called" and "passed"
+  if (strippedVerbSuffix && w.length > 3 && /([^aeiouslz])\1$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  // "charge"/"charged" and "configure"/"configuring" share a stem
+  if (w.length > 4 && w.endsWith('e')) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
+
+function stemGerman(word: string): string {
+  // "rechnungen" -> "rechnung", "fehlern" -> "fehl", "fehler" -> "fehl"
+  const suffix = ['ern', 'en', 'er', 'es', 'em', 'e', 's', 'n'].find(s => word.endsWith(s) && word.length - s.length >= 4);
+  return suffix !== undefined ? word.slice(0, -suffix.length) : word;
+}
+
+function stemFrench(word: string): string {
+  // "factures" -> "factur", "payées"/"payé" -> "pay"
+  let w = word.replace(FRENCH_ELISION, '');
+  if (w.length > 4 && /[sx]$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+  for (let i = 0; i < 2 && w.length > 3 && w.endsWith('e'); i++) {
+    w = w.slice(0, -1);
+  }
+  return w;
+}
+
+function stemSpanish(word: string): string {
+  // "facturas" -> "factur", "errores" -> "error", "caída" -> "caid"
+  let w = word;
+  if (w.length > 4 && /[^aeiou]es$/.test(w)) {
+    w = w.slice(0, -2);
+  } else if (w.length > 3 && w.endsWith('s')) {
+    w = w.slice(0, -1);
+  }
+  if (w.length > 3 && /[aeo]$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+  return w;
+}
+
+function getCachedTokens(text: string): Token[] | undefined {
+  const cached = tokenCache.get(text);
+  if (cached) {
+    // Move to end (most recently used)
+    tokenCache.delete(text);
+    tokenCache.set(text, cached);
+  }
+  return cached;
+}
+
+function setCachedTokens(text: string, tokens: Token[]): void {
+  if (tokenCache.size >= MAX_CACHE_SIZE) {
+    const firstKey = tokenCache.keys().next().value;
+    if (firstKey !== undefined && typeof firstKey === 'string') {
+      tokenCache.delete(firstKey);
+    }
+  }
+  tokenCache.set(text, tokens);
+}
+
+/**
+ * Split text into word tokens with offsets and clause numbers.
+ */
+export function tokenize(text: string, language: LanguageCode = 'en'): Token[] {
+  const cacheKey = `${language}\u0000${text}`;
+  const cached = getCachedTokens(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const tokens: Token[] = [];
+  let clause = 0;
+  let lastEnd = 0;
+
+  for (const word of segmentWords(text)) {
+    if (CLAUSE_BREAK.test(text.slice(lastEnd, word.start))) {
+      clause++;
+    }
+    tokens.push({
+      value: word.value,
+      stem: stem(word.value, language),
+      start: word.start,
+      end: word.end,
+      clause,
+    });
+    lastEnd = word.end;
+  }
+
+  setCachedTokens(cacheKey, tokens);
+  return tokens;
+}
+
+function compileKeyword(keyword: string, language: LanguageCode): CompiledKeyword {
+  const cacheKey = `${language}\u0000${keyword}`;
+  let compiled = keywordCache.get(cacheKey);
+  if (!compiled) {
+    compiled = { keyword, stems: tokenize(keyword, language).map(t => t.stem) };
+    keywordCache.set(cacheKey, compiled);
+  }
+  return compiled;
+}
+
+function isNegated(tokens: Token[], index: number, window: number): boolean {
+  const clause = tokens[index].clause;
+  for (let i = index - 1; i >= 0 && i >= index - window; i--) {
+    if (tokens[i].clause !== clause) {
+      return false;
+    }
+    if (NEGATION_CUES.has(tokens[i].value) || ELIDED_NEGATION.test(tokens[i].value)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Find every occurrence of the given keywords in the segments.
+ * Negated occurrences are returned with `negated: true` so callers can
+ * explain why a keyword was ignored.
+ */
+export function findKeywordMatches(
+  segments: TextSegment[],
+  keywords: string[],
+  options: MatchOptions = {}
+): KeywordMatch[] {
+  const window = options.negationWindow ?? DEFAULT_NEGATION_WINDOW;
+  const language = options.language ?? 'en';
+  const compiled = keywords.map(k => compileKeyword(k, language)).filter(k => k.stems.length > 0);
+  const matches: KeywordMatch[] = [];
+
+  for (const segment of segments) {
+    const tokens = tokenize(segment.text, language);
+
+    for (let i = 0; i < tokens.length; i++) {
+      for (const { keyword, stems } of compiled) {
+        if (i + stems.length > tokens.length) {
+          continue;
+        }
+        let matched = true;
+        for (let j = 0; j < stems.length; j++) {
+          if (tokens[i + j].stem !== stems[j]) {
+            matched = false;
+            break;
+          }
+        }
+        if (!matched) {
+          continue;
+        }
+
+        const last = tokens[i + stems.length - 1];
+        matches.push({
+          keyword,
+          field: segment.field,
+          offset: tokens[i].start,
+          length: last.end - tokens[i].start,
+          negated: isNegated(tokens, i, window),
+        });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Keywords (in input order) with at least one non-negated occurrence.
+ */
+export function matchedKeywords(
+  segments: TextSegment[],
+  keywords: string[],
+  options: MatchOptions = {}
+): string[] {
+  const hits = new Set(
+    findKeywordMatches(segments, keywords, options)
+      .filter(m => !m.negated)
+      .map(m => m.keyword)
+  );
+  return keywords.filter(k => hits.has(k));
+}
+
+/**
+ * Whether any keyword occurs without being negated.
+ */
+export function hasKeywordMatch(
+  segments: TextSegment[],
+  keywords: string[],
+  options: MatchOptions = {}
+): boolean {
+  return findKeywordMatches(segments, keywords, options).some(m => !m.negated);
+}
+
+// Clear caches for testing
+export function clearMatcherCache(): void {
+  tokenCache.clear();
+  keywordCache.clear();
+}
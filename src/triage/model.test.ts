@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import {
+  extractModelTokens,
+  trainClassifier,
+  predictUrgency,
+  predictTopics,
+  saveClassifierModel,
+  loadClassifierModel,
+} from './model.js';
+import { triageTicket, RULES_CLASSIFIER_VERSION } from './classifier.js';
+import { createTriagePacket } from './triage-packet.js';
+import { validateLabeledTickets } from '../contracts/labeled-ticket.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const labeled = validateLabeledTickets(
+  JSON.parse(readFileSync(resolve('examples/tickets/labeled-tickets.json'), 'utf-8'))
+);
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'model-1',
+  subject: 'Test subject',
+  body: 'Test body',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-02-20T10:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+const trainedAt = new Date('2024-03-01T00:00:00.000Z');
+
+describe('extractModelTokens', () => {
+  it('should keep accented words and fold their diacritics', () => {
+    expect(extractModelTokens('La facturación está rota')).toEqual(['la', 'facturacion', 'esta', 'rota']);
+    expect(extractModelTokens('Rückerstattung für die Rechnung')).toEqual(['ruckerstattung', 'fur', 'die', 'rechnung']);
+  });
+
+  it('should turn Japanese text into characters and character pairs', () => {
+    expect(extractModelTokens('請求書')).toEqual(['請', '求', '請求', '書', '求書']);
+  });
+});
+
+describe('trainClassifier', () => {
+  it('should produce a versioned model with urgency and topic heads', () => {
+    const model = trainClassifier(labeled, { trainedAt });
+
+    expect(model.format_version).toBe(1);
+    expect(model.model_version).toMatch(/^nb-[0-9a-f]{12}$/);
+    expect(model.training_examples).toBe(labeled.length);
+    expect(model.urgency?.classes).toEqual(['low', 'medium', 'high', 'critical']);
+    expect(Object.keys(model.topics)).toContain('billing');
+  });
+
+  it('should be deterministic for the same training data', () => {
+    const first = trainClassifier(labeled, { trainedAt });
+    const second = trainClassifier(labeled, { trainedAt });
+
+    expect(second).toEqual(first);
+  });
+
+  it('should honour an explicit model version', () => {
+    const model = trainClassifier(labeled, { trainedAt, modelVersion: 'support-2024.03' });
+
+    expect(model.model_version).toBe('support-2024.03');
+  });
+});
+
+describe('model prediction', () => {
+  const model = trainClassifier(labeled, { trainedAt });
+
+  it('should predict topics learned from history', () => {
+    const ticket = createTestTicket({
+      subject: 'Charged twice on my invoice',
+      body: 'Please refund the duplicate subscription payment.',
+    });
+
+    const topics = predictTopics(model, ticket);
+
+    expect(topics[0].category).toBe('billing');
+    expect(topics[0].confidence).toBeGreaterThan(0.5);
+  });
+
+  it('should predict urgency learned from history', () => {
+    const prediction = predictUrgency(model, createTestTicket({
+      subject: 'API down',
+      body: 'Every request returns 500 errors and production is broken.',
+    }));
+
+    expect(prediction?.urgency).toBe('critical');
+  });
+
+  it('should return no prediction when nothing overlaps the vocabulary', () => {
+    const ticket = createTestTicket({ subject: 'zzz', body: 'qqq' });
+
+    expect(predictUrgency(model, ticket)).toBeNull();
+    expect(predictTopics(model, ticket)).toEqual([]);
+  });
+});
+
+describe('triage with a model', () => {
+  const model = trainClassifier(labeled, { trainedAt, modelVersion: 'nb-test' });
+
+  it('should record the model version on results and packets', () => {
+    const ticket = createTestTicket({ subject: 'Invoice refund', body: 'Refund my payment please' });
+
+    const result = triageTicket(ticket, { model });
+    const packet = createTriagePacket(ticket, result);
+
+    expect(result.classifier_version).toBe('nb-test');
+    expect(packet.metadata.classifier_version).toBe('nb-test');
+  });
+
+  it('should fall back to keyword rules when the model has no answer', () => {
+    const ticket = createTestTicket({ subject: 'Emergency', body: 'Everything is on fire' });
+
+    const result = triageTicket(ticket, { model });
+
+    expect(result.urgency).toBe('critical');
+  });
+
+  it('should report the rules version without a model', () => {
+    expect(triageTicket(createTestTicket()).classifier_version).toBe(RULES_CLASSIFIER_VERSION);
+  });
+});
+
+describe('model persistence', () => {
+  it('should round-trip through a model file', () => {
+    const model = trainClassifier(labeled, { trainedAt });
+    const modelPath = join(mkdtempSync(join(tmpdir(), 'support-model-')), 'model.json');
+
+    saveClassifierModel(model, modelPath);
+
+    expect(loadClassifierModel(modelPath)).toEqual(model);
+  });
+
+  it('should reject a model whose urgency head predicts an unknown urgency', () => {
+    const model = trainClassifier(labeled, { trainedAt });
+    const modelPath = join(mkdtempSync(join(tmpdir(), 'support-model-')), 'model.json');
+    const edited = { ...model, urgency: { ...model.urgency, classes: ['low', 'sev1'] } };
+
+    writeFileSync(modelPath, JSON.stringify(edited), 'utf-8');
+
+    expect(() => loadClassifierModel(modelPath)).toThrow();
+  });
+});
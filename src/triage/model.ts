@@ -0,0 +1,284 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import type { LabeledTicket } from '../contracts/labeled-ticket.js';
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageTopic, TriageUrgency } from '../contracts/triage-result.js';
+import {
+  ClassifierModelSchema,
+  CLASSIFIER_MODEL_FORMAT,
+  CLASSIFIER_MODEL_FORMAT_VERSION,
+  type ClassifierModel,
+  type NaiveBayesHead,
+} from '../contracts/classifier-model.js';
+import { serializeDeterministic, stableHash } from '../utils/deterministic.js';
+import { getThreadText } from './thread.js';
+import { foldDiacritics, isCjkWord, segmentWords, type WordToken } from '../utils/language.js';
+
+export interface TrainClassifierOptions {
+  modelVersion?: string;
+  alpha?: number;
+  minTokenCount?: number;
+  trainedAt?: Date;
+}
+
+export interface UrgencyPrediction {
+  urgency: TriageUrgency;
+  confidence: number;
+}
+
+const POSITIVE = 'positive';
+const NEGATIVE = 'negative';
+const URGENCY_LEVELS: readonly TriageUrgency[] = ['low', 'medium', 'high', 'critical'];
+
+const MODEL_STOP_WORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'our', 'are', 'was', 'this', 'that',
+  'with', 'have', 'has', 'from', 'but', 'not', 'can', 'any', 'all', 'its',
+  'it', 'is', 'to', 'of', 'in', 'on', 'at', 'be', 'we', 'my', 'me', 'an', 'a',
+]);
+
+/**
+ * Token features used by the model. Kept deliberately simple so
+ * training and prediction see exactly the same view of a ticket.
+ * Words are split like the keyword matcher splits them, with diacritics
+ * folded; Japanese text, which has no spaces, adds each character and each
+ * pair of adjacent characters.
+ */
+export function extractModelTokens(text: string): string[] {
+  const tokens: string[] = [];
+  let previous: WordToken | undefined;
+  for (const word of segmentWords(text)) {
+    if (isCjkWord(word.value)) {
+      tokens.push(word.value);
+      if (previous && isCjkWord(previous.value) && previous.end === word.start) {
+        tokens.push(previous.value + word.value);
+      }
+    } else {
+      const folded = foldDiacritics(word.value);
+      if (folded.length > 1 && !MODEL_STOP_WORDS.has(folded)) {
+        tokens.push(folded);
+      }
+    }
+    previous = word;
+  }
+  return tokens;
+}
+
+function emptyHead<L extends string>(classes: L[]): NaiveBayesHead & { classes: L[] } {
+  return {
+    classes,
+    doc_counts: Object.fromEntries(classes.map(c => [c, 0])),
+    token_counts: Object.fromEntries(classes.map(c => [c, {}])),
+    token_totals: Object.fromEntries(classes.map(c => [c, 0])),
+  };
+}
+
+function addDocument(head: NaiveBayesHead, label: string, tokens: string[]): void {
+  head.doc_counts[label] += 1;
+  const counts = head.token_counts[label];
+  for (const token of tokens) {
+    counts[token] = (counts[token] ?? 0) + 1;
+    head.token_totals[label] += 1;
+  }
+}
+
+function pruneHead(head: NaiveBayesHead, vocabulary: Set<string>): void {
+  for (const label of head.classes) {
+    const counts = head.token_counts[label];
+    let total = 0;
+    for (const token of Object.keys(counts)) {
+      if (!vocabulary.has(token)) {
+        delete counts[token];
+      } else {
+        total += counts[token];
+      }
+    }
+    head.token_totals[label] = total;
+  }
+}
+
+/**
+ * Posterior class probabilities for a token list, or null when
+ * none of the tokens are in the model vocabulary (no evidence).
+ */
+function scoreHead<L extends string>(
+  head: NaiveBayesHead & { classes: L[] },
+  tokens: string[],
+  vocabulary: Set<string>,
+  alpha: number
+): Map<L, number> | null {
+  const known = tokens.filter(t => vocabulary.has(t));
+  if (known.length === 0) {
+    return null;
+  }
+
+  const totalDocs = head.classes.reduce((sum, c) => sum + head.doc_counts[c], 0);
+  const logScores = new Map<L, number>();
+
+  for (const label of head.classes) {
+    const docs = head.doc_counts[label];
+    if (docs === 0) {
+      continue;
+    }
+    const denominator = head.token_totals[label] + alpha * vocabulary.size;
+    let score = Math.log(docs / totalDocs);
+    for (const token of known) {
+      score += Math.log(((head.token_counts[label][token] ?? 0) + alpha) / denominator);
+    }
+    logScores.set(label, score);
+  }
+
+  // Softmax in log space for numerical stability
+  const max = Math.max(...logScores.values());
+  let sum = 0;
+  for (const score of logScores.values()) {
+    sum += Math.exp(score - max);
+  }
+
+  const probabilities = new Map<L, number>();
+  for (const [label, score] of logScores) {
+    probabilities.set(label, Math.exp(score - max) / sum);
+  }
+  return probabilities;
+}
+
+/**
+ * Train a multinomial naive Bayes classifier from labeled historical tickets.
+ * Fully offline and deterministic for a given input order.
+ */
+export function trainClassifier(
+  examples: LabeledTicket[],
+  options: TrainClassifierOptions = {}
+): ClassifierModel {
+  const alpha = options.alpha ?? 1;
+  const minTokenCount = options.minTokenCount ?? 1;
+
+  const tokenized = examples.map(example => ({
+    example,
+    tokens: extractModelTokens(getThreadText(example)),
+  }));
+
+  const tokenFrequency = new Map<string, number>();
+  for (const { tokens } of tokenized) {
+    for (const token of tokens) {
+      tokenFrequency.set(token, (tokenFrequency.get(token) ?? 0) + 1);
+    }
+  }
+  const vocabulary = [...tokenFrequency.entries()]
+    .filter(([, count]) => count >= minTokenCount)
+    .map(([token]) => token)
+    .sort();
+  const vocabularySet = new Set(vocabulary);
+
+  const urgencyClasses = URGENCY_LEVELS.filter(level =>
+    examples.some(e => e.labels.urgency === level)
+  );
+  const urgency = urgencyClasses.length > 0 ? emptyHead([...urgencyClasses]) : undefined;
+
+  const topicNames = [...new Set(examples.flatMap(e => e.labels.topics))].sort();
+  const topics: Record<string, NaiveBayesHead> = {};
+  for (const topic of topicNames) {
+    topics[topic] = emptyHead([POSITIVE, NEGATIVE]);
+  }
+
+  for (const { example, tokens } of tokenized) {
+    if (urgency && example.labels.urgency !== undefined) {
+      addDocument(urgency, example.labels.urgency, tokens);
+    }
+    const labeledTopics = new Set(example.labels.topics);
+    for (const topic of topicNames) {
+      addDocument(topics[topic], labeledTopics.has(topic) ? POSITIVE : NEGATIVE, tokens);
+    }
+  }
+
+  if (urgency) {
+    pruneHead(urgency, vocabularySet);
+  }
+  for (const head of Object.values(topics)) {
+    pruneHead(head, vocabularySet);
+  }
+
+  const parameters = { alpha, vocabulary, urgency, topics };
+
+  return ClassifierModelSchema.parse({
+    format: CLASSIFIER_MODEL_FORMAT,
+    format_version: CLASSIFIER_MODEL_FORMAT_VERSION,
+    model_version: options.modelVersion ?? `nb-${stableHash(parameters).slice(0, 12)}`,
+    trained_at: (options.trainedAt ?? new Date()).toISOString(),
+    training_examples: examples.length,
+    ...parameters,
+  });
+}
+
+// Vocabulary sets are rebuilt lazily per model instance
+const vocabularyCache = new WeakMap<ClassifierModel, Set<string>>();
+
+function getVocabulary(model: ClassifierModel): Set<string> {
+  let vocabulary = vocabularyCache.get(model);
+  if (!vocabulary) {
+    vocabulary = new Set(model.vocabulary);
+    vocabularyCache.set(model, vocabulary);
+  }
+  return vocabulary;
+}
+
+/**
+ * Predict urgency with the model. Returns null when the model has no
+ * urgency head or nothing in the ticket overlaps its vocabulary.
+ */
+export function predictUrgency(model: ClassifierModel, ticket: Ticket): UrgencyPrediction | null {
+  if (!model.urgency) {
+    return null;
+  }
+
+  const tokens = extractModelTokens(getThreadText(ticket));
+  const probabilities = scoreHead(model.urgency, tokens, getVocabulary(model), model.alpha);
+  if (!probabilities) {
+    return null;
+  }
+
+  let best: UrgencyPrediction | null = null;
+  for (const [label, probability] of probabilities) {
+    if (best === null || probability > best.confidence) {
+      best = { urgency: label, confidence: probability };
+    }
+  }
+  return best;
+}
+
+/**
+ * Predict topics with the model's one-vs-rest heads.
+ * Only topics whose positive probability reaches `minConfidence` are returned.
+ */
+export function predictTopics(
+  model: ClassifierModel,
+  ticket: Ticket,
+  minConfidence: number = 0.5
+): TriageTopic[] {
+  const tokens = extractModelTokens(getThreadText(ticket));
+  const vocabulary = getVocabulary(model);
+  const topics: TriageTopic[] = [];
+
+  for (const [category, head] of Object.entries(model.topics)) {
+    const probabilities = scoreHead(head, tokens, vocabulary, model.alpha);
+    const confidence = probabilities?.get(POSITIVE) ?? 0;
+    if (confidence >= minConfidence) {
+      // Report the ticket tokens that most favour the topic as its keywords
+      const keywords = [...new Set(tokens)]
+        .filter(t => (head.token_counts[POSITIVE][t] ?? 0) > (head.token_counts[NEGATIVE][t] ?? 0))
+        .slice(0, 5);
+      topics.push({ category, confidence: Math.round(confidence * 1000) / 1000, keywords });
+    }
+  }
+
+  topics.sort((a, b) => b.confidence - a.confidence || a.category.localeCompare(b.category));
+  return topics.slice(0, 3);
+}
+
+export function saveClassifierModel(model: ClassifierModel, modelPath: string): void {
+  writeFileSync(resolve(modelPath), serializeDeterministic(model) + '\n', 'utf-8');
+}
+
+export function loadClassifierModel(modelPath: string): ClassifierModel {
+  const content = readFileSync(resolve(modelPath), 'utf-8');
+  return ClassifierModelSchema.parse(JSON.parse(content));
+}
@@ -0,0 +1,111 @@
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageLanguage } from '../contracts/triage-result.js';
+import { detectLanguage, type LanguageCode } from '../utils/language.js';
+import { getThreadText } from './thread.js';
+
+/**
+ * Per-language keyword sets.
+ *
+ * The English keyword lists stay in force for every ticket (product names and
+ * error strings are usually English whatever the customer writes); the set for
+ * the detected language is added on top. Topic keywords are merged into the
+ * category of the same name, so translated keywords raise the same topics.
+ */
+
+export interface LanguageKeywordSet {
+  critical: string[];
+  high: string[];
+  topics: Record<string, string[]>;
+}
+
+export const DEFAULT_LANGUAGE_KEYWORDS: Partial<Record<LanguageCode, LanguageKeywordSet>> = {
+  de: {
+    critical: [
+      'dringend', 'kritisch', 'ausgefallen', 'ausfall', 'störung', 'kaputt', 'absturz',
+      'abgestürzt', 'sicherheit', 'sicherheitslücke', 'gehackt', 'datenverlust', 'beschädigt',
+      'kein zugriff', 'notfall',
+    ],
+    high: [
+      'wichtig', 'hohe priorität', 'schnellstmöglich', 'blockiert', 'hängt fest', 'funktioniert nicht',
+      'bug', 'problem', 'fehler',
+    ],
+    topics: {
+      'billing': ['zahlung', 'rechnung', 'abrechnung', 'abbuchung', 'abgebucht', 'rückerstattung', 'abonnement', 'tarif', 'preis'],
+      'technical': ['api', 'sdk', 'integration', 'code', 'fehler', 'absturz', 'bereitstellung'],
+      'account': ['anmeldung', 'anmelden', 'login', 'passwort', 'konto', 'zugang', 'zugriff', 'registrierung'],
+      'feature-request': ['funktion', 'wunsch', 'vorschlag', 'verbesserung', 'erweiterung'],
+      'how-to': ['wie', 'anleitung', 'dokumentation', 'hilfe', 'einrichten', 'konfigurieren'],
+    },
+  },
+  fr: {
+    critical: [
+      'urgent', 'critique', 'en panne', 'panne', 'cassé', 'échec', 'plantage', 'planté',
+      'sécurité', 'faille', 'piraté', 'fuite', 'perte de données', 'corrompu', 'impossible d\'accéder',
+    ],
+    high: [
+      'important', 'haute priorité', 'au plus vite', 'bloquant', 'bloqué', 'ne fonctionne pas',
+      'bug', 'problème', 'erreur',
+    ],
+    topics: {
+      'billing': ['paiement', 'facture', 'facturation', 'prélèvement', 'débité', 'remboursement', 'abonnement', 'tarif', 'prix'],
+      'technical': ['api', 'sdk', 'intégration', 'code', 'erreur', 'bug', 'plantage', 'déploiement'],
+      'account': ['connexion', 'connecter', 'mot de passe', 'compte', 'accès', 'authentification', 'inscription'],
+      'feature-request': ['fonctionnalité', 'demande', 'suggestion', 'amélioration'],
+      'how-to': ['comment', 'guide', 'tutoriel', 'documentation', 'aide', 'configurer', 'paramétrer'],
+    },
+  },
+  es: {
+    critical: [
+      'urgente', 'crítico', 'caído', 'caída', 'interrupción', 'roto', 'fallo', 'bloqueo',
+      'seguridad', 'brecha', 'hackeado', 'filtración', 'pérdida de datos', 'corrupto', 'no puedo acceder',
+      'emergencia',
+    ],
+    high: [
+      'importante', 'alta prioridad', 'lo antes posible', 'bloqueante', 'bloqueado', 'no funciona',
+      'bug', 'problema', 'error',
+    ],
+    topics: {
+      'billing': ['pago', 'factura', 'facturación', 'cobro', 'cobrado', 'reembolso', 'suscripción', 'plan', 'precio'],
+      'technical': ['api', 'sdk', 'integración', 'código', 'error', 'fallo', 'despliegue'],
+      'account': ['iniciar sesión', 'contraseña', 'cuenta', 'acceso', 'autenticación', 'registro'],
+      'feature-request': ['funcionalidad', 'solicitud', 'sugerencia', 'mejora'],
+      'how-to': ['cómo', 'guía', 'tutorial', 'documentación', 'ayuda', 'configurar'],
+    },
+  },
+  ja: {
+    critical: [
+      '緊急', '至急', '障害', 'ダウン', '停止', 'クラッシュ', 'セキュリティ', '不正アクセス',
+      '漏洩', 'データ消失', '破損', 'アクセスできない',
+    ],
+    high: ['重要', '優先', 'できるだけ早く', 'ブロック', '動かない', '不具合', 'バグ', '問題', 'エラー'],
+    topics: {
+      'billing': ['支払い', '請求', '請求書', '返金', 'サブスクリプション', 'プラン', '料金'],
+      'technical': ['api', 'sdk', '連携', 'コード', 'エラー', 'バグ', 'デプロイ'],
+      'account': ['ログイン', 'パスワード', 'アカウント', 'アクセス', '認証', '登録'],
+      'feature-request': ['機能', '要望', '提案', '改善'],
+      'how-to': ['方法', '使い方', 'ガイド', 'ドキュメント', '設定'],
+    },
+  },
+};
+
+/**
+ * Language of the customer-authored part of the ticket.
+ */
+export function detectTicketLanguage(ticket: Ticket): TriageLanguage {
+  const { language, confidence } = detectLanguage(getThreadText(ticket));
+  return { code: language, confidence };
+}
+
+/**
+ * Keyword set for a language: the configured one when given, otherwise the built-in default.
+ * English and undetermined text have no extra set.
+ */
+export function languageKeywordSet(
+  language: TriageLanguage['code'],
+  overrides: Partial<Record<LanguageCode, LanguageKeywordSet>> = {}
+): LanguageKeywordSet | undefined {
+  if (language === 'und') {
+    return undefined;
+  }
+  return overrides[language] ?? DEFAULT_LANGUAGE_KEYWORDS[language];
+}
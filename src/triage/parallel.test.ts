@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { triageBatchParallel } from './parallel.js';
+import { triageBatch } from './batch.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'par-1',
+  subject: 'Question',
+  body: '',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-05-01T12:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+const BODIES = [
+  { subject: 'Site is down', body: 'The dashboard is down and shows a 500 error.' },
+  { subject: 'Invoice', body: 'Please correct the invoice for last month.' },
+  { subject: 'Login', body: 'I cannot login after the password reset.' },
+  { subject: 'Automatic reply: Question', body: 'I am out of the office until Monday.' },
+  { subject: 'Export', body: 'How do I export a report to CSV?' },
+];
+
+const corpus = (count: number): Ticket[] => Array.from({ length: count }, (_, i) => createTestTicket({
+  id: `par-${i}`,
+  ...BODIES[i % BODIES.length],
+  customer_email: `customer-${i % 7}@example.com`,
+  created_at: new Date(Date.UTC(2024, 4, 1, 12, i * 3)).toISOString(),
+}));
+
+describe('triageBatchParallel', () => {
+  it('should produce the same output as triageBatch, in input order', async () => {
+    const tickets = corpus(40);
+    const options = { now: new Date('2024-05-03T00:00:00.000Z') };
+
+    const parallel = await triageBatchParallel(tickets, options, { workers: 2, chunkSize: 7 });
+
+    expect(parallel).toEqual(triageBatch(tickets, options));
+    expect(parallel.results.map(r => r.ticket_id)).toEqual(tickets.map(t => t.id));
+    expect(parallel.stats.repeatContacts).toBeGreaterThan(0);
+  }, 60_000);
+
+  it('should fix one clock for the batch when now is omitted', async () => {
+    const { results } = await triageBatchParallel(corpus(6), {}, { workers: 2, chunkSize: 2 });
+
+    expect(new Set(results.map(r => r.processed_at)).size).toBe(1);
+  }, 60_000);
+
+  it('should not start workers for an empty batch', async () => {
+    const result = await triageBatchParallel([], {}, { workers: 2 });
+
+    expect(result.results).toEqual([]);
+    expect(result.stats.total).toBe(0);
+  });
+});
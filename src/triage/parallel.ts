@@ -0,0 +1,158 @@
+import { existsSync } from 'fs';
+import { availableParallelism } from 'os';
+import { URL, fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageResult } from '../contracts/triage-result.js';
+import { withHistoryIndex, type TriageOptions } from './classifier.js';
+import { batchTicketOptions, completeBatch, type BatchTriageResult } from './batch.js';
+
+/**
+ * Batch triage on a pool of worker threads.
+ *
+ * Each worker gets the triage options once and then triages chunks of tickets
+ * as it frees up. A batch adds itself to the customer history, so workers get
+ * a compact index of it (see `withHistoryIndex`) instead of a copy of every
+ * ticket. Results are put back in input order and the batch-wide steps
+ * (near-duplicates, incidents, stats) run on the calling thread, exactly as in
+ * `triageBatch`. The clock is fixed for the whole batch so `processed_at` and
+ * SLA evaluation do not depend on which worker handled a ticket; with the same
+ * `now`, the output is identical to `triageBatch`.
+ */
+
+export interface ParallelTriageOptions {
+  /** Worker threads to start (default: available CPUs minus one, at least 1). */
+  workers?: number;
+  /** Tickets sent to a worker at a time (default 500). */
+  chunkSize?: number;
+}
+
+/** Messages from the pool to a worker. */
+export interface TriageWorkerRequest {
+  chunk: number;
+  tickets: Ticket[];
+}
+
+/** Messages from a worker back to the pool. */
+export type TriageWorkerResponse =
+  | { chunk: number; results: TriageResult[] }
+  | { chunk: number; error: string };
+
+const DEFAULT_PARALLEL_CHUNK_SIZE = 500;
+
+export function defaultWorkerCount(): number {
+  return Math.max(1, availableParallelism() - 1);
+}
+
+/**
+ * Start a triage worker. The built package ships the worker as `triage/worker.js`
+ * next to the bundle; from source (tests, tsx) the TypeScript entry is loaded through tsx.
+ */
+function startWorker(options: TriageOptions): Worker {
+  const built = new URL('./triage/worker.js', import.meta.url);
+  if (existsSync(fileURLToPath(built))) {
+    return new Worker(built, { workerData: options });
+  }
+
+  const source = new URL('./worker.ts', import.meta.url).href;
+  return new Worker(
+    `import('tsx/esm/api').then(tsx => { tsx.register(); return import(${JSON.stringify(source)}); });`,
+    { eval: true, workerData: options }
+  );
+}
+
+function runPool(chunks: Ticket[][], options: TriageOptions, workerCount: number): Promise<TriageResult[][]> {
+  const results: TriageResult[][] = new Array<TriageResult[]>(chunks.length);
+  const workers: Worker[] = [];
+  let next = 0;
+  let done = 0;
+
+  return new Promise<TriageResult[][]>((resolvePool, rejectPool) => {
+    let settled = false;
+    const finish = (error?: Error): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      void Promise.all(workers.map(worker => worker.terminate())).then(() => {
+        if (error) {
+          rejectPool(error);
+        } else {
+          resolvePool(results);
+        }
+      });
+    };
+
+    const dispatch = (worker: Worker): void => {
+      if (next < chunks.length) {
+        const request: TriageWorkerRequest = { chunk: next, tickets: chunks[next] };
+        next++;
+        worker.postMessage(request);
+      }
+    };
+
+    for (let i = 0; i < Math.min(workerCount, chunks.length); i++) {
+      const worker = startWorker(options);
+      workers.push(worker);
+
+      worker.on('message', (response: TriageWorkerResponse) => {
+        if ('error' in response) {
+          finish(new Error(`Triage worker failed on chunk ${response.chunk}: ${response.error}`));
+          return;
+        }
+        results[response.chunk] = response.results;
+        done++;
+        if (done === chunks.length) {
+          finish();
+        } else {
+          dispatch(worker);
+        }
+      });
+      worker.on('error', error => finish(error));
+      worker.on('exit', code => {
+        if (code !== 0) {
+          finish(new Error(`Triage worker exited with code ${code}`));
+        }
+      });
+
+      dispatch(worker);
+    }
+  });
+}
+
+/**
+ * Per-ticket triage of `tickets` on worker threads, in input order. `ticketOptions`
+ * are used as they are; see `batchTicketOptions` for the ones a batch needs.
+ */
+export async function triageTicketsParallel(
+  tickets: Ticket[],
+  ticketOptions: TriageOptions,
+  parallel: ParallelTriageOptions = {}
+): Promise<TriageResult[]> {
+  const chunkSize = parallel.chunkSize ?? DEFAULT_PARALLEL_CHUNK_SIZE;
+
+  const chunks: Ticket[][] = [];
+  for (let i = 0; i < tickets.length; i += chunkSize) {
+    chunks.push(tickets.slice(i, i + chunkSize));
+  }
+
+  if (chunks.length === 0) {
+    return [];
+  }
+  const chunkResults = await runPool(chunks, withHistoryIndex(ticketOptions), parallel.workers ?? defaultWorkerCount());
+  return chunkResults.flat();
+}
+
+/**
+ * `triageBatch` on worker threads. Resolves to the same result as `triageBatch`
+ * given the same `now`; when `now` is omitted the current time is fixed at the start.
+ */
+export async function triageBatchParallel(
+  tickets: Ticket[],
+  options: TriageOptions = {},
+  parallel: ParallelTriageOptions = {}
+): Promise<BatchTriageResult> {
+  const batchOptions: TriageOptions = { ...options, now: options.now ?? new Date() };
+  const results = await triageTicketsParallel(tickets, batchTicketOptions(tickets, batchOptions), parallel);
+  return completeBatch(tickets, results, batchOptions);
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { prefilterTicket } from './prefilter.js';
+import { triageTicket } from './classifier.js';
+import { triageBatch } from './batch.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'test-1',
+  subject: 'Cannot export reports',
+  body: 'The export button fails with an error since this morning.',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-03-01T10:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+describe('prefilterTicket', () => {
+  it('should pass genuine tickets', () => {
+    expect(prefilterTicket(createTestTicket()).disposition).toBe('genuine');
+  });
+
+  it('should detect bounces from headers, sender and subject', () => {
+    expect(prefilterTicket(createTestTicket({
+      metadata: { headers: { 'X-Failed-Recipients': 'gone@example.com' } },
+    })).disposition).toBe('bounce');
+    expect(prefilterTicket(createTestTicket({ customer_email: 'MAILER-DAEMON@mail.example.com' })).disposition).toBe('bounce');
+
+    const result = prefilterTicket(createTestTicket({ subject: 'Undeliverable: Re: Your ticket #123' }));
+    expect(result.disposition).toBe('bounce');
+    expect(result.explanations[0]).toMatchObject({ target: 'disposition', rule: 'bounce_subject', field: 'subject' });
+  });
+
+  it('should detect auto-replies from headers, subject and body', () => {
+    expect(prefilterTicket(createTestTicket({
+      metadata: { headers: { 'Auto-Submitted': 'auto-replied' } },
+    })).disposition).toBe('auto_reply');
+    expect(prefilterTicket(createTestTicket({
+      metadata: { headers: { 'Auto-Submitted': 'no' } },
+    })).disposition).toBe('genuine');
+    expect(prefilterTicket(createTestTicket({ subject: 'Automatic reply: Cannot export reports' })).disposition)
+      .toBe('auto_reply');
+    expect(prefilterTicket(createTestTicket({
+      subject: 'Re: Cannot export reports',
+      body: "Thanks for your email. I'm currently out of the office until Monday.",
+      metadata: { headers: { 'X-Autoreply': 'yes' } },
+    })).disposition).toBe('auto_reply');
+  });
+
+  it('should keep tickets with out-of-office wording only in the body for review', () => {
+    const result = prefilterTicket(createTestTicket({
+      subject: 'Duplicate charge',
+      body: "I'm on vacation from Friday, please refund the duplicate charge on INV-2231 before then.",
+    }));
+
+    expect(result.disposition).toBe('genuine');
+    expect(result.review).toBe(true);
+    expect(result.explanations[0]).toMatchObject({ rule: 'auto_reply_body', value: 'genuine', field: 'body' });
+  });
+
+  it('should need more than one spam signal', () => {
+    const oneSignal = prefilterTicket(createTestTicket({ body: 'Export fails, click here for a screenshot.' }));
+    expect(oneSignal.disposition).toBe('genuine');
+
+    const payment = prefilterTicket(createTestTicket({
+      subject: 'Payment for INV-4410',
+      body: 'We paid by wire transfer yesterday, click here for the receipt. We do not accept bitcoin.',
+    }));
+    expect(payment).toMatchObject({ disposition: 'genuine' });
+    expect(payment.review).toBeUndefined();
+
+    const spam = prefilterTicket(createTestTicket({
+      subject: 'Boost your ranking',
+      body: 'We offer SEO services and quality backlinks. Click here for a limited time offer!',
+    }));
+    expect(spam.disposition).toBe('spam');
+    expect(spam.explanations.map(e => e.keyword)).toEqual(
+      expect.arrayContaining(['seo services', 'backlinks', 'limited time offer'])
+    );
+  });
+
+  it('should treat newsletters and upstream spam flags as spam', () => {
+    expect(prefilterTicket(createTestTicket({
+      metadata: { headers: { Precedence: 'bulk', 'List-Unsubscribe': '<mailto:unsub@news.example.com>' } },
+    })).disposition).toBe('spam');
+    expect(prefilterTicket(createTestTicket({
+      metadata: { headers: { 'X-Spam-Flag': 'YES' } },
+    })).disposition).toBe('spam');
+  });
+
+  it('should honour a custom threshold and keyword list', () => {
+    const ticket = createTestTicket({ body: 'Special offer on widgets' });
+
+    expect(prefilterTicket(ticket, { spamKeywords: ['special offer', 'widgets'], spamThreshold: 1 }).disposition).toBe('spam');
+  });
+
+  it('should send phrases that only just reach the threshold to review', () => {
+    const result = prefilterTicket(createTestTicket({ body: 'Is the casino integration risk free to enable?' }));
+
+    expect(result).toMatchObject({ disposition: 'genuine', review: true });
+    expect(result.explanations[0]).toMatchObject({ rule: 'spam_borderline', value: 'genuine' });
+  });
+});
+
+describe('triage with prefilter', () => {
+  const autoReply = createTestTicket({
+    id: 'ooo',
+    subject: 'Out of Office: URGENT production outage',
+    body: 'I am out of the office until Monday with limited access to email.',
+  });
+
+  it('should not classify filtered tickets', () => {
+    const result = triageTicket(autoReply);
+
+    expect(result.disposition).toBe('auto_reply');
+    expect(result.urgency).toBe('low');
+    expect(result.topics).toEqual([]);
+    expect(result.requires_human_review).toBe(false);
+    expect(result.suggested_tags).toContain('auto-reply');
+  });
+
+  it('should triage borderline tickets and require human review', () => {
+    const result = triageTicket(createTestTicket({
+      subject: 'Export question',
+      body: "I'm on holiday next week, can a colleague export the reports?",
+    }));
+
+    expect(result.disposition).toBe('genuine');
+    expect(result.requires_human_review).toBe(true);
+    expect(result.explanations).toEqual(expect.arrayContaining([
+      expect.objectContaining({ target: 'requires_human_review', rule: 'borderline_prefilter' }),
+      expect.objectContaining({ target: 'disposition', rule: 'auto_reply_body' }),
+    ]));
+  });
+
+  it('should classify everything when the prefilter is off', () => {
+    const result = triageTicket(autoReply, { prefilter: false });
+
+    expect(result.disposition).toBe('genuine');
+    expect(result.urgency).toBe('critical');
+  });
+
+  it('should count filtered tickets in batch stats and keep them out of urgency counts', () => {
+    const { stats, duplicateClusters } = triageBatch([
+      createTestTicket({ id: 'real' }),
+      autoReply,
+      createTestTicket({ id: 'bounce-1', subject: 'Undeliverable: Re: ticket', body: 'Mailbox unavailable' }),
+      createTestTicket({ id: 'bounce-2', subject: 'Undeliverable: Re: ticket', body: 'Mailbox unavailable' }),
+    ]);
+
+    expect(stats).toMatchObject({ total: 4, autoReplies: 1, bounces: 2, spam: 0, critical: 0, high: 1, low: 0 });
+    expect(duplicateClusters).toEqual([]);
+  });
+});
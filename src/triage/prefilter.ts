@@ -0,0 +1,225 @@
+import type { Ticket } from '../contracts/ticket.js';
+import type { TicketDisposition, TriageExplanation, TriageResult } from '../contracts/triage-result.js';
+import { findKeywordMatches } from './matcher.js';
+
+/**
+ * Pre-triage filter for mail that is not a customer request.
+ *
+ * Bounces and auto-replies are recognised from mail headers (kept under
+ * `metadata.headers` by the importers), sender addresses and subject
+ * phrasing. Spam and bulk mail are scored: each signal adds to a score and the
+ * ticket is spam once the score reaches the threshold, so a single "act now"
+ * in a genuine ticket does not drop it. Only the opening message is checked;
+ * an out-of-office reply later in a thread does not change what the ticket is.
+ *
+ * Customers write "I'm on vacation from Friday" and mention spam phrases in
+ * real requests, so text alone never drops a ticket on a close call: out-of-office
+ * wording in the body without a header or subject to back it, and spam phrases
+ * that only just reach the threshold, keep the ticket genuine and send it to
+ * human review.
+ */
+
+export interface PrefilterOptions {
+  /** Spam score at which a ticket is treated as spam (default 2). */
+  spamThreshold?: number;
+  /** Phrases that count towards the spam score; replace the built-in list. */
+  spamKeywords?: string[];
+}
+
+export interface PrefilterResult {
+  disposition: TicketDisposition;
+  explanations: TriageExplanation[];
+  /** Filter signals fired but were not conclusive: the ticket is triaged and sent to human review. */
+  review?: boolean;
+}
+
+export const DEFAULT_SPAM_KEYWORDS = [
+  'viagra', 'casino', 'lottery', 'jackpot', 'you have won', 'claim your prize', 'winner',
+  'limited time offer', 'act now', '100% free', 'risk free', 'earn money',
+  'work from home', 'crypto investment', 'inheritance',
+  'seo services', 'guest post', 'backlinks', 'rank your website', 'buy followers',
+];
+
+const DEFAULT_SPAM_THRESHOLD = 2;
+// URLs in the opening message above which link density counts as a spam signal
+const MAX_LINKS = 5;
+
+const BOUNCE_SENDER = /^(?:mailer-daemon|postmaster|mail-daemon)@/i;
+const BOUNCE_SUBJECT = /^(?:undeliverable|undelivered mail|delivery status notification|mail delivery (?:failed|failure|subsystem)|returned mail|failure notice|delivery failure|message not delivered)\b/i;
+const BOUNCE_BODY = /\b(?:could not be delivered to|delivery to the following recipients? failed|recipient address rejected|user unknown|mailbox (?:unavailable|not found|full)|5\.[1-7]\.\d+ )/i;
+
+const AUTO_REPLY_SUBJECT = /^(?:auto(?:matic)?[\s-]?reply|auto(?:matic)? response|out of (?:the )?office|ooo\b|abwesenheitsnotiz|r[ée]ponse automatique|respuesta autom[áa]tica|自動返信)/i;
+const AUTO_REPLY_BODY = /\b(?:i am|i'm|i will be) (?:currently )?(?:out of (?:the )?office|away from (?:the office|my desk)|on (?:annual |parental )?leave|on vacation|on holiday)\b|\bwith limited access to (?:e-?mail|my inbox)\b|\bthis is an automated (?:reply|response|message)\b/i;
+
+const URL_PATTERN = /\bhttps?:\/\/\S+/gi;
+
+function explanation(rule: string, disposition: TicketDisposition, detail: string, field?: string): TriageExplanation {
+  return { target: 'disposition', rule, value: disposition, ...(field !== undefined && { field }), detail };
+}
+
+/**
+ * Mail headers from `metadata.headers`, keyed by lower-case name.
+ */
+function mailHeaders(ticket: Ticket): Map<string, string> {
+  const headers = new Map<string, string>();
+  const raw = ticket.metadata.headers;
+  if (typeof raw === 'object' && raw !== null) {
+    for (const [name, value] of Object.entries(raw)) {
+      if (typeof value === 'string') {
+        headers.set(name.toLowerCase(), value.trim());
+      }
+    }
+  }
+  return headers;
+}
+
+function senderAddress(ticket: Ticket, headers: Map<string, string>): string | undefined {
+  const from = headers.get('from');
+  return from?.match(/<([^>]+)>/)?.[1] ?? from ?? ticket.customer_email;
+}
+
+function detectBounce(ticket: Ticket, headers: Map<string, string>): TriageExplanation | undefined {
+  if (headers.has('x-failed-recipients')) {
+    return explanation('bounce_header', 'bounce', 'X-Failed-Recipients header is present', 'metadata.headers');
+  }
+  const contentType = headers.get('content-type') ?? '';
+  if (/multipart\/report/i.test(contentType) && /delivery-status/i.test(contentType)) {
+    return explanation('bounce_header', 'bounce', 'Content-Type is a delivery status report', 'metadata.headers');
+  }
+  const sender = senderAddress(ticket, headers);
+  if (sender !== undefined && BOUNCE_SENDER.test(sender)) {
+    return explanation('bounce_sender', 'bounce', `Sent by ${sender}`, 'customer_email');
+  }
+  if (BOUNCE_SUBJECT.test(ticket.subject)) {
+    return explanation('bounce_subject', 'bounce', `Subject "${ticket.subject}" is a delivery failure notice`, 'subject');
+  }
+  if (headers.get('return-path') === '<>' && BOUNCE_BODY.test(ticket.body)) {
+    return explanation('bounce_body', 'bounce', 'Null return path and delivery failure wording in the body', 'body');
+  }
+  return undefined;
+}
+
+function detectAutoReply(ticket: Ticket, headers: Map<string, string>): TriageExplanation | undefined {
+  const autoSubmitted = headers.get('auto-submitted');
+  if (autoSubmitted !== undefined && autoSubmitted.toLowerCase() !== 'no') {
+    return explanation('auto_reply_header', 'auto_reply', `Auto-Submitted: ${autoSubmitted}`, 'metadata.headers');
+  }
+  for (const name of ['x-autoreply', 'x-autorespond', 'x-autoresponder']) {
+    if (headers.has(name)) {
+      return explanation('auto_reply_header', 'auto_reply', `${name} header is present`, 'metadata.headers');
+    }
+  }
+  if (headers.get('precedence')?.toLowerCase() === 'auto_reply') {
+    return explanation('auto_reply_header', 'auto_reply', 'Precedence: auto_reply', 'metadata.headers');
+  }
+  if (AUTO_REPLY_SUBJECT.test(ticket.subject)) {
+    return explanation('auto_reply_subject', 'auto_reply', `Subject "${ticket.subject}" is an automatic reply`, 'subject');
+  }
+  return undefined;
+}
+
+function scoreSpam(ticket: Ticket, headers: Map<string, string>, options: PrefilterOptions): TriageExplanation[] {
+  const signals: TriageExplanation[] = [];
+
+  const precedence = headers.get('precedence')?.toLowerCase();
+  if (precedence === 'bulk' || precedence === 'list' || precedence === 'junk') {
+    signals.push(explanation('bulk_mail', 'spam', `Precedence: ${precedence}`, 'metadata.headers'));
+  }
+  if (headers.has('list-unsubscribe')) {
+    signals.push(explanation('bulk_mail', 'spam', 'List-Unsubscribe header marks a newsletter or mailing', 'metadata.headers'));
+  }
+
+  const opening = [{ field: 'subject', text: ticket.subject }, { field: 'body', text: ticket.body }];
+  const hits = findKeywordMatches(opening, options.spamKeywords ?? DEFAULT_SPAM_KEYWORDS).filter(m => !m.negated);
+  const seen = new Set<string>();
+  for (const hit of hits) {
+    if (!seen.has(hit.keyword)) {
+      seen.add(hit.keyword);
+      signals.push({
+        ...explanation('spam_keyword', 'spam', `"${hit.keyword}" matched in ${hit.field}`, hit.field),
+        keyword: hit.keyword,
+        offset: hit.offset,
+        length: hit.length,
+      });
+    }
+  }
+
+  const links = ticket.body.match(URL_PATTERN)?.length ?? 0;
+  if (links > MAX_LINKS) {
+    signals.push(explanation('link_density', 'spam', `${links} links in the body`, 'body'));
+  }
+
+  return signals;
+}
+
+/**
+ * Decide whether a ticket is a genuine customer request, an auto-reply, a bounce or spam.
+ * Bounces are checked first, then auto-replies, then an upstream spam flag, then the spam score.
+ */
+export function prefilterTicket(ticket: Ticket, options: PrefilterOptions = {}): PrefilterResult {
+  const headers = mailHeaders(ticket);
+
+  const bounce = detectBounce(ticket, headers);
+  if (bounce) {
+    return { disposition: 'bounce', explanations: [bounce] };
+  }
+
+  const autoReply = detectAutoReply(ticket, headers);
+  if (autoReply) {
+    return { disposition: 'auto_reply', explanations: [autoReply] };
+  }
+
+  // An upstream spam filter's verdict is enough on its own
+  const spamFlag = headers.get('x-spam-flag') ?? headers.get('x-spam-status');
+  if (spamFlag !== undefined && /^yes\b/i.test(spamFlag)) {
+    return {
+      disposition: 'spam',
+      explanations: [explanation('spam_header', 'spam', 'Upstream filter flagged the message as spam', 'metadata.headers')],
+    };
+  }
+
+  const threshold = options.spamThreshold ?? DEFAULT_SPAM_THRESHOLD;
+  const spam = scoreSpam(ticket, headers, options);
+  // Phrases alone that only just reach the threshold are a close call
+  const phrasesOnly = spam.every(signal => signal.rule === 'spam_keyword');
+  if (spam.length > threshold || (spam.length === threshold && !phrasesOnly)) {
+    return { disposition: 'spam', explanations: spam };
+  }
+
+  const borderline: TriageExplanation[] = [];
+  const awayWording = ticket.body.match(AUTO_REPLY_BODY);
+  if (awayWording) {
+    borderline.push(explanation(
+      'auto_reply_body',
+      'genuine',
+      `Body says "${awayWording[0]}", but no header or subject marks an automatic reply`,
+      'body'
+    ));
+  }
+  if (spam.length === threshold) {
+    borderline.push(explanation(
+      'spam_borderline',
+      'genuine',
+      `Spam phrases ${spam.map(signal => `"${signal.keyword}"`).join(', ')} reach the threshold of ${threshold} with no other signal`
+    ));
+  }
+  if (borderline.length > 0) {
+    return { disposition: 'genuine', explanations: borderline, review: true };
+  }
+
+  return {
+    disposition: 'genuine',
+    explanations: [explanation(
+      'default',
+      'genuine',
+      spam.length > 0 ? `${spam.length} spam signal(s), below the threshold of ${threshold}` : 'No auto-reply, bounce or spam signals'
+    )],
+  };
+}
+
+/**
+ * Whether a triage result belongs to a real customer request (drafts and jobs are only produced for these).
+ */
+export function isGenuine(result: TriageResult): boolean {
+  return (result.disposition ?? 'genuine') === 'genuine';
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { assessedPriority, reconcilePriorities, renderPriorityReconciliationMarkdown } from './reconcile.js';
+import { triageBatch } from './batch.js';
+import { triageTicket } from './classifier.js';
+import { stableHash } from '../utils/deterministic.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'prio-1',
+  subject: 'Question',
+  body: 'How do I export a report to CSV?',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-05-01T12:00:00.000Z',
+  customer_email: 'ana@acme.example',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+const now = new Date('2024-05-02T00:00:00.000Z');
+const customerKey = (email: string): string => `customer-${stableHash(email).slice(0, 12)}`;
+
+const reconcile = (tickets: Ticket[], options = {}): ReturnType<typeof reconcilePriorities> =>
+  reconcilePriorities(tickets, triageBatch(tickets, { now, duplicates: false }).results, options);
+
+describe('assessedPriority', () => {
+  it('should not count the customer priority as evidence', () => {
+    const howTo = triageTicket(createTestTicket({ priority: 'urgent' }), { now });
+
+    expect(howTo.suggested_priority).toBe('high');
+    expect(assessedPriority(howTo)).toBe('medium');
+  });
+
+  it('should keep priorities backed by keywords', () => {
+    const outage = triageTicket(createTestTicket({ priority: 'urgent', body: 'The site is down for everyone.' }), { now });
+
+    expect(assessedPriority(outage)).toBe('urgent');
+  });
+});
+
+describe('reconcilePriorities', () => {
+  it('should flag an urgent how-to question as over-prioritized with reasons', () => {
+    const reconciliation = reconcile([createTestTicket({ priority: 'urgent' })]);
+
+    expect(reconciliation.over_prioritized).toBe(1);
+    expect(reconciliation.conflicts[0]).toMatchObject({
+      ticket_id: 'prio-1',
+      kind: 'over_prioritized',
+      customer_priority: 'urgent',
+      assessed_priority: 'medium',
+      gap: 2,
+    });
+    expect(reconciliation.conflicts[0].reasons).toContain('No urgency keyword matched; urgency only came from the customer priority');
+  });
+
+  it('should flag a low-priority outage as under-prioritized', () => {
+    const reconciliation = reconcile([createTestTicket({ priority: 'low', body: 'Production is down with a critical error.' })]);
+
+    expect(reconciliation.under_prioritized).toBe(1);
+    expect(reconciliation.conflicts[0].assessed_priority).toBe('urgent');
+    expect(reconciliation.conflicts[0].reasons).toContain('"down" matched in body');
+  });
+
+  it('should not raise a low priority without an urgency signal', () => {
+    expect(reconcile([createTestTicket({ priority: 'low' })]).conflicts).toEqual([]);
+  });
+
+  it('should honor the minimum gap', () => {
+    const tickets = [createTestTicket({ priority: 'high' })];
+
+    expect(reconcile(tickets).conflicts).toHaveLength(1);
+    expect(reconcile(tickets, { minGap: 2 }).conflicts).toHaveLength(0);
+  });
+
+  it('should aggregate over-prioritization rates per customer', () => {
+    const tickets = [
+      createTestTicket({ id: 'a1', priority: 'urgent' }),
+      createTestTicket({ id: 'a2', priority: 'urgent', subject: 'Billing', body: 'Where can I download my invoice?' }),
+      createTestTicket({ id: 'a3', priority: 'medium', subject: 'Users', body: 'How do I add a teammate?' }),
+      createTestTicket({ id: 'a4', priority: 'urgent', subject: 'Outage', body: 'The site is down.' }),
+      createTestTicket({ id: 'b1', priority: 'urgent', customer_email: 'bo@other.example' }),
+    ];
+
+    const reconciliation = reconcile(tickets);
+
+    expect(reconciliation.customers).toEqual([{
+      customer: customerKey('ana@acme.example'),
+      ticket_count: 4,
+      over_prioritized: 2,
+      under_prioritized: 0,
+      over_rate: 0.5,
+      ticket_ids: ['a1', 'a2'],
+    }]);
+    expect(reconcile(tickets, { minCustomerTickets: 1 }).customers.map(c => c.customer))
+      .toEqual([customerKey('bo@other.example'), customerKey('ana@acme.example')]);
+  });
+});
+
+describe('renderPriorityReconciliationMarkdown', () => {
+  it('should render the report section', () => {
+    const reconciliation = reconcile([
+      createTestTicket({ id: 'over', priority: 'urgent' }),
+      createTestTicket({ id: 'under', priority: 'low', body: 'Production is down.' }),
+    ]);
+
+    const markdown = renderPriorityReconciliationMarkdown(reconciliation);
+
+    expect(markdown).toContain('## Priority reconciliation');
+    expect(markdown).toContain('over-prioritized: 1 (50.0%)');
+    expect(markdown).toContain('- over: urgent → medium (No urgency keyword matched');
+    expect(markdown).toContain('- under: low → urgent');
+  });
+
+  it('should not put customer emails in the report', () => {
+    const reconciliation = reconcile([1, 2, 3].map(n => createTestTicket({ id: `t${n}`, priority: 'urgent' })));
+
+    expect(reconciliation.customers).toHaveLength(1);
+    expect(JSON.stringify(reconciliation)).not.toContain('ana@acme.example');
+    expect(renderPriorityReconciliationMarkdown(reconciliation)).toContain(`| ${customerKey('ana@acme.example')} | 3 | 3 | 100.0% |`);
+  });
+});
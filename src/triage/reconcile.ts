@@ -0,0 +1,286 @@
+import type { Ticket, TicketPriority } from '../contracts/ticket.js';
+import type { TriageResult, TriageUrgency } from '../contracts/triage-result.js';
+import { isGenuine } from './prefilter.js';
+import { stableHash } from '../utils/deterministic.js';
+
+/**
+ * Reconciliation of customer-set priorities with triage.
+ *
+ * The priority a ticket's content supports is its suggested priority, except
+ * where urgency rests on the rules' fallback to the ticket's own priority
+ * ("urgent" on a how-to question): that fallback adds one level on top of the
+ * default, so it is taken off again. A ticket is over-prioritized when the
+ * customer set a higher priority than that, and under-prioritized when triage
+ * found urgency signals (keywords, model, boosts) that put it higher. Rates
+ * per customer show who routinely over-prioritizes; customers are keyed by the
+ * directory account ID, or a hash of the customer email so reports carry no addresses.
+ */
+
+export type PriorityConflictKind = 'over_prioritized' | 'under_prioritized';
+
+export interface PriorityConflict {
+  ticket_id: string;
+  /** Customer key: the directory account ID, or a hash of the customer email. */
+  customer?: string;
+  kind: PriorityConflictKind;
+  customer_priority: TicketPriority;
+  /** Priority the ticket content supports. */
+  assessed_priority: TicketPriority;
+  /** Priority levels between the two. */
+  gap: number;
+  reasons: string[];
+}
+
+export interface CustomerPriorityRate {
+  /** The directory account ID, or a hash of the customer email. */
+  customer: string;
+  /** Account ID from the customer directory, when the customer was matched. */
+  account_id?: string;
+  ticket_count: number;
+  over_prioritized: number;
+  under_prioritized: number;
+  /** Share of the customer's tickets that were over-prioritized, to three decimals. */
+  over_rate: number;
+  /** The over-prioritized tickets. */
+  ticket_ids: string[];
+}
+
+export interface PriorityReconciliation {
+  /** Genuine tickets with a triage result. */
+  ticket_count: number;
+  over_prioritized: number;
+  under_prioritized: number;
+  /** Largest gap first. */
+  conflicts: PriorityConflict[];
+  /** Customers with enough tickets and at least one over-prioritized, highest rate first. */
+  customers: CustomerPriorityRate[];
+}
+
+export interface ReconcileOptions {
+  /** Priority levels apart before a ticket is flagged (default 1). */
+  minGap?: number;
+  /** Tickets a customer needs before their rate is reported (default 3). */
+  minCustomerTickets?: number;
+}
+
+export interface ReconciliationMarkdownOptions {
+  /** Tickets listed individually per kind (default 50). */
+  maxTickets?: number;
+}
+
+export const DEFAULT_MIN_PRIORITY_GAP = 1;
+export const DEFAULT_MIN_CUSTOMER_TICKETS = 3;
+const DEFAULT_MAX_TICKETS = 50;
+const MAX_REASONS = 5;
+
+const PRIORITY_LEVELS: readonly TicketPriority[] = ['low', 'medium', 'high', 'urgent'];
+const PRIORITY_RANK: Record<TicketPriority, number> = { low: 0, medium: 1, high: 2, urgent: 3 };
+const URGENCY_PRIORITY: Record<TriageUrgency, TicketPriority> = {
+  low: 'low',
+  medium: 'medium',
+  high: 'high',
+  critical: 'urgent',
+};
+// Urgency steps that say nothing about the ticket content
+const NON_SIGNAL_RULES = new Set(['default', 'ticket_priority', 'max_urgency']);
+
+function ticketKey(tenantId: string, projectId: string, ticketId: string): string {
+  return `${tenantId}\u0000${projectId}\u0000${ticketId}`;
+}
+
+function leansOnTicketPriority(result: TriageResult): boolean {
+  return result.explanations.some(e => e.target === 'urgency' && e.rule === 'ticket_priority');
+}
+
+/**
+ * Priority the ticket content supports, without the customer's own priority.
+ */
+export function assessedPriority(result: TriageResult): TicketPriority {
+  const suggested = URGENCY_PRIORITY[result.urgency];
+  if (!leansOnTicketPriority(result)) {
+    return suggested;
+  }
+  return PRIORITY_LEVELS[Math.max(PRIORITY_RANK.medium, PRIORITY_RANK[suggested] - 1)];
+}
+
+function urgencySignals(result: TriageResult): string[] {
+  const details = result.explanations
+    .filter(e => e.target === 'urgency' && e.negated !== true && !NON_SIGNAL_RULES.has(e.rule))
+    .map(e => e.detail ?? `${e.rule}: ${e.value}`);
+  return [...new Set(details)];
+}
+
+function customerOf(ticket: Ticket, result: TriageResult): { key?: string; account_id?: string } {
+  const accountId = result.customer?.account_id;
+  if (accountId !== undefined) {
+    return { key: accountId, account_id: accountId };
+  }
+  return ticket.customer_email !== undefined
+    ? { key: `customer-${stableHash(ticket.customer_email.toLowerCase()).slice(0, 12)}` }
+    : {};
+}
+
+function conflictReasons(kind: PriorityConflictKind, ticket: Ticket, result: TriageResult, assessed: TicketPriority): string[] {
+  const signals = urgencySignals(result);
+  const reasons = [`Customer set ${ticket.priority}, triage assessed ${assessed}`];
+
+  if (kind === 'over_prioritized') {
+    if (leansOnTicketPriority(result) && signals.length === 0) {
+      reasons.push('No urgency keyword matched; urgency only came from the customer priority');
+    } else if (signals.length === 0) {
+      reasons.push('No urgency signal in the ticket text');
+    } else {
+      reasons.push(...signals);
+    }
+    if (result.sentiment?.frustration_level === 'low') {
+      reasons.push('Low frustration in the customer text');
+    }
+  } else {
+    reasons.push(...signals);
+    if (result.sla?.breach_risk === 'at_risk' || result.sla?.breach_risk === 'breached') {
+      reasons.push(`SLA ${result.sla.breach_risk.replace('_', ' ')}`);
+    }
+  }
+
+  return reasons.slice(0, MAX_REASONS);
+}
+
+/**
+ * Compare customer-set priorities with triage. Results are matched to tickets
+ * on tenant, project and ticket ID; non-genuine results are skipped.
+ */
+export function reconcilePriorities(
+  tickets: Ticket[],
+  results: TriageResult[],
+  options: ReconcileOptions = {}
+): PriorityReconciliation {
+  const minGap = options.minGap ?? DEFAULT_MIN_PRIORITY_GAP;
+  const minCustomerTickets = options.minCustomerTickets ?? DEFAULT_MIN_CUSTOMER_TICKETS;
+  const ticketsByKey = new Map(tickets.map(ticket => [ticketKey(ticket.tenant_id, ticket.project_id, ticket.id), ticket]));
+
+  const conflicts: PriorityConflict[] = [];
+  const customers = new Map<string, CustomerPriorityRate>();
+  let compared = 0;
+
+  for (const result of results) {
+    const ticket = ticketsByKey.get(ticketKey(result.tenant_id, result.project_id, result.ticket_id));
+    if (!ticket || !isGenuine(result)) {
+      continue;
+    }
+    compared++;
+
+    const customer = customerOf(ticket, result);
+    let rate: CustomerPriorityRate | undefined;
+    if (customer.key !== undefined) {
+      rate = customers.get(customer.key);
+      if (!rate) {
+        rate = {
+          customer: customer.key,
+          ...(customer.account_id !== undefined && { account_id: customer.account_id }),
+          ticket_count: 0,
+          over_prioritized: 0,
+          under_prioritized: 0,
+          over_rate: 0,
+          ticket_ids: [],
+        };
+        customers.set(customer.key, rate);
+      }
+      rate.ticket_count++;
+    }
+
+    const assessed = assessedPriority(result);
+    const gap = PRIORITY_RANK[ticket.priority] - PRIORITY_RANK[assessed];
+    if (Math.abs(gap) < minGap) {
+      continue;
+    }
+    const kind: PriorityConflictKind = gap > 0 ? 'over_prioritized' : 'under_prioritized';
+    // Without a signal the assessment is only the default, which is no reason to raise a priority
+    if (kind === 'under_prioritized' && urgencySignals(result).length === 0) {
+      continue;
+    }
+
+    conflicts.push({
+      ticket_id: ticket.id,
+      ...(customer.key !== undefined && { customer: customer.key }),
+      kind,
+      customer_priority: ticket.priority,
+      assessed_priority: assessed,
+      gap: Math.abs(gap),
+      reasons: conflictReasons(kind, ticket, result, assessed),
+    });
+    if (rate && kind === 'over_prioritized') {
+      rate.over_prioritized++;
+      rate.ticket_ids.push(ticket.id);
+    } else if (rate) {
+      rate.under_prioritized++;
+    }
+  }
+
+  const rates = [...customers.values()]
+    .filter(rate => rate.ticket_count >= minCustomerTickets && rate.over_prioritized > 0)
+    .map(rate => ({ ...rate, over_rate: Math.round(rate.over_prioritized / rate.ticket_count * 1000) / 1000 }))
+    .sort((a, b) => b.over_rate - a.over_rate || b.over_prioritized - a.over_prioritized || a.customer.localeCompare(b.customer));
+
+  return {
+    ticket_count: compared,
+    over_prioritized: conflicts.filter(c => c.kind === 'over_prioritized').length,
+    under_prioritized: conflicts.filter(c => c.kind === 'under_prioritized').length,
+    conflicts: conflicts.sort((a, b) => b.gap - a.gap),
+    customers: rates,
+  };
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function renderConflicts(conflicts: PriorityConflict[], maxTickets: number): string[] {
+  if (conflicts.length === 0) {
+    return ['_None._'];
+  }
+  const lines = conflicts.slice(0, maxTickets).map(c =>
+    `- ${c.ticket_id}: ${c.customer_priority} → ${c.assessed_priority} (${c.reasons.slice(1).join('; ') || c.reasons[0]})`
+  );
+  if (conflicts.length > maxTickets) {
+    lines.push(`- … and ${conflicts.length - maxTickets} more`);
+  }
+  return lines;
+}
+
+/**
+ * Render a reconciliation as a Markdown report section.
+ */
+export function renderPriorityReconciliationMarkdown(
+  reconciliation: PriorityReconciliation,
+  options: ReconciliationMarkdownOptions = {}
+): string {
+  const maxTickets = options.maxTickets ?? DEFAULT_MAX_TICKETS;
+  const share = (count: number): string =>
+    formatPercent(reconciliation.ticket_count > 0 ? count / reconciliation.ticket_count : 0);
+
+  const lines = [
+    '## Priority reconciliation',
+    '',
+    `Tickets compared: ${reconciliation.ticket_count}; over-prioritized: ${reconciliation.over_prioritized} (${share(reconciliation.over_prioritized)}); under-prioritized: ${reconciliation.under_prioritized} (${share(reconciliation.under_prioritized)})`,
+    '',
+    '### Customers who over-prioritize',
+    '',
+    ...(reconciliation.customers.length > 0
+      ? [
+        '| Customer | Tickets | Over-prioritized | Rate |',
+        '| --- | --- | --- | --- |',
+        ...reconciliation.customers.map(c => `| ${c.customer} | ${c.ticket_count} | ${c.over_prioritized} | ${formatPercent(c.over_rate)} |`),
+      ]
+      : ['_None._']),
+    '',
+    '### Over-prioritized tickets',
+    '',
+    ...renderConflicts(reconciliation.conflicts.filter(c => c.kind === 'over_prioritized'), maxTickets),
+    '',
+    '### Under-prioritized tickets',
+    '',
+    ...renderConflicts(reconciliation.conflicts.filter(c => c.kind === 'under_prioritized'), maxTickets),
+  ];
+
+  return lines.join('\n');
+}
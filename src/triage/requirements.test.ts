@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_INFO_REQUIREMENTS,
+  checkRequiredInfo,
+  detectProvidedInfo,
+  loadInfoRequirements,
+  selectInfoRequirements,
+} from './requirements.js';
+import { extractMissingInfo, triageTicket } from './classifier.js';
+import { draftResponse } from '../draft/generator.js';
+import { validateInfoRequirementSet, type InfoRequirementSet } from '../contracts/info-requirement.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'req-1',
+  subject: 'Test subject',
+  body: 'Test body',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-01-01T00:00:00.000Z',
+  tags: [],
+  metadata: {},
+  ...overrides,
+});
+
+const customSet: InfoRequirementSet = validateInfoRequirementSet({
+  tenant_id: 't1',
+  requirements: [
+    {
+      id: 'order_number',
+      topics: ['billing'],
+      detect: { patterns: ['\\bORD-\\d+\\b'] },
+      question: 'Which order is this {{topic}} question about?',
+    },
+  ],
+});
+
+describe('required information by topic', () => {
+  it('should only ask billing questions for billing tickets', () => {
+    const missing = extractMissingInfo(createTestTicket({
+      subject: 'Invoice question',
+      body: 'Why was I charged twice this month?',
+    }));
+
+    expect(missing).toEqual(['invoice_number', 'account_email']);
+  });
+
+  it('should not ask for the account email the ticket was sent from', () => {
+    const missing = extractMissingInfo(createTestTicket({
+      subject: 'Invoice question',
+      body: 'Why was I charged twice this month?',
+      customer_email: 'ana@acme.example',
+    }));
+
+    expect(missing).toEqual(['invoice_number']);
+  });
+
+  it('should agree with triage on tickets with quoted history', () => {
+    const ticket = createTestTicket({
+      subject: 'Invoice question',
+      body: 'Why was I charged twice?\n\nOn Mon, 3 Jun 2024 at 10:02, Support wrote:\n> Invoice INV-1234 was sent on Friday.',
+    });
+
+    expect(extractMissingInfo(ticket)).toEqual(['invoice_number', 'account_email']);
+    expect(extractMissingInfo(ticket)).toEqual(triageTicket(ticket).missing_info);
+  });
+
+  it('should ask technical tickets for version, error and repro steps', () => {
+    const result = triageTicket(createTestTicket({
+      subject: 'SDK crash',
+      body: 'The SDK crashes on startup. Error: segmentation fault',
+    }));
+
+    expect(result.missing_info).toEqual(['version', 'steps_to_reproduce']);
+    expect(result.information_requests).toEqual([
+      { id: 'version', topic: 'technical', question: 'Which version of the product or SDK are you using?' },
+      { id: 'steps_to_reproduce', topic: 'technical', question: 'What steps lead to the problem, so we can reproduce it?' },
+    ]);
+  });
+
+  it('should fall back to general requirements when no topic is detected', () => {
+    const checks = checkRequiredInfo(createTestTicket({ body: 'It is not working' }), []);
+
+    expect(checks.map(c => [c.requirement.id, c.topic])).toEqual([
+      ['error_message', 'general'],
+      ['steps_to_reproduce', 'general'],
+    ]);
+  });
+
+  it('should apply requirements to subtopics', () => {
+    const checks = checkRequiredInfo(createTestTicket(), ['billing/refunds']);
+    expect(checks.map(c => c.requirement.id)).toEqual(['invoice_number', 'account_email']);
+  });
+
+  it('should detect provided information by entity or pattern', () => {
+    const ticket = createTestTicket({ body: 'Invoice INV-1234 for billing@acme.io, order ORD-77' });
+
+    expect(detectProvidedInfo(ticket)).toEqual(['invoice_number', 'account_email']);
+    expect(detectProvidedInfo(ticket, customSet.requirements)).toEqual(['order_number']);
+  });
+
+  it('should use tenant requirement sets and question templates', () => {
+    const options = { infoRequirements: [customSet] };
+    const result = triageTicket(createTestTicket({ subject: 'Refund', body: 'I need a refund for my payment' }), options);
+
+    expect(result.information_requests).toEqual([
+      { id: 'order_number', topic: 'billing', question: 'Which order is this billing question about?' },
+    ]);
+    expect(selectInfoRequirements([customSet], createTestTicket({ tenant_id: 'other' }))).toBeUndefined();
+    expect(triageTicket(createTestTicket({ tenant_id: 'other', body: 'refund please' }), options).missing_info)
+      .toEqual(['invoice_number', 'account_email']);
+  });
+
+  it('should reject invalid definitions', () => {
+    expect(() => validateInfoRequirementSet({
+      requirements: [{ id: 'x', topics: ['billing'], detect: {}, question: 'Q?' }],
+    })).toThrow(/at least one entity type or pattern/);
+    expect(() => validateInfoRequirementSet({
+      requirements: [{ id: 'x', topics: ['billing'], detect: { patterns: ['('] }, question: 'Q?' }],
+    })).toThrow(/Invalid pattern/);
+  });
+
+  it('should load the example requirement file', () => {
+    const [set] = loadInfoRequirements('examples/requirements/info-requirements.json');
+    expect(set.requirements.length).toBeGreaterThan(0);
+    expect(DEFAULT_INFO_REQUIREMENTS.map(r => r.id)).toContain('invoice_number');
+  });
+});
+
+describe('drafting information requests', () => {
+  it('should ask for missing information with the configured wording', () => {
+    const ticket = createTestTicket({ subject: 'Invoice question', body: 'Why was I charged twice?' });
+    const draft = draftResponse(ticket, triageTicket(ticket), [], { tone: 'friendly' });
+
+    expect(draft.body).toContain('- Could you share the invoice number this is about?');
+    expect(draft.body).toContain('- Which email address is the account registered under?');
+    expect(draft.body).not.toContain('stack trace');
+    expect(draft.body).not.toContain('could you provide');
+  });
+
+  it('should not treat quoted history as information the customer supplied', () => {
+    const ticket = createTestTicket({
+      subject: 'Invoice question',
+      body: 'Why was I charged twice?\n\nOn Mon, 3 Jun 2024 at 10:02, Support wrote:\n> Invoice INV-1234 was sent on Friday.',
+    });
+    const draft = draftResponse(ticket, triageTicket(ticket), [], { tone: 'friendly' });
+
+    expect(draft.body).toContain('- Could you share the invoice number this is about?');
+  });
+});
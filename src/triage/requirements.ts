@@ -0,0 +1,151 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageEntity, TriageInformationRequest } from '../contracts/triage-result.js';
+import {
+  validateInfoRequirementSets,
+  type InfoRequirement,
+  type InfoRequirementSet,
+} from '../contracts/info-requirement.js';
+import { extractEntities } from './entities.js';
+import { getThreadText } from './thread.js';
+import { isWithinTopic } from './taxonomy.js';
+
+/**
+ * Topic-specific required information.
+ *
+ * Each requirement names the topics it applies to, how to tell it was supplied
+ * and the question to ask when it was not. Only requirements for the ticket's
+ * topics are checked, so a billing question is never asked for a stack trace.
+ */
+
+/** Topic used for tickets where no topic was detected. */
+export const GENERAL_TOPIC = 'general';
+
+export const DEFAULT_INFO_REQUIREMENTS: InfoRequirement[] = [
+  {
+    id: 'invoice_number',
+    topics: ['billing'],
+    detect: { entities: ['invoice_number'], patterns: [] },
+    question: 'Could you share the invoice number this is about?',
+  },
+  {
+    id: 'account_email',
+    topics: ['billing'],
+    detect: { entities: ['email'], patterns: [] },
+    question: 'Which email address is the account registered under?',
+  },
+  {
+    id: 'account_id',
+    topics: ['account'],
+    detect: { entities: ['account_id', 'org_id', 'user_id'], patterns: [] },
+    question: 'Could you share your account ID?',
+  },
+  {
+    id: 'version',
+    topics: ['technical'],
+    detect: { entities: ['version'], patterns: [] },
+    question: 'Which version of the product or SDK are you using?',
+  },
+  {
+    id: 'error_message',
+    topics: ['technical', GENERAL_TOPIC],
+    detect: { entities: ['error_message', 'error_code', 'http_status', 'stack_trace'], patterns: [] },
+    question: 'Could you paste the exact error message or status code you see?',
+  },
+  {
+    id: 'steps_to_reproduce',
+    topics: ['technical', GENERAL_TOPIC],
+    detect: { entities: ['reproduction_steps'], patterns: [] },
+    question: 'What steps lead to the problem, so we can reproduce it?',
+  },
+];
+
+export interface RequiredInfoCheck {
+  requirement: InfoRequirement;
+  /** Ticket topic the requirement applies through. */
+  topic: string;
+  provided: boolean;
+}
+
+/**
+ * Most specific requirement set for the ticket: project-level, then tenant-wide, then tenant-agnostic.
+ */
+export function selectInfoRequirements(
+  sets: InfoRequirementSet[],
+  ticket: Ticket
+): InfoRequirement[] | undefined {
+  const set = sets.find(s => s.tenant_id === ticket.tenant_id && s.project_id === ticket.project_id)
+    ?? sets.find(s => s.tenant_id === ticket.tenant_id && s.project_id === undefined)
+    ?? sets.find(s => s.tenant_id === undefined);
+  return set?.requirements;
+}
+
+// The address the ticket came from answers any request for an email
+function providedEntityTypes(ticket: Ticket, entities: TriageEntity[]): Set<string> {
+  const types = new Set<string>(entities.map(e => e.type));
+  if (ticket.customer_email !== undefined) {
+    types.add('email');
+  }
+  return types;
+}
+
+function isProvided(requirement: InfoRequirement, entityTypes: Set<string>, text: string): boolean {
+  return requirement.detect.entities.some(type => entityTypes.has(type))
+    || requirement.detect.patterns.some(pattern => new RegExp(pattern, 'i').test(text));
+}
+
+/**
+ * Ids of the requirements the customer has supplied anywhere in the thread, whatever the topic.
+ */
+export function detectProvidedInfo(
+  ticket: Ticket,
+  requirements: InfoRequirement[] = DEFAULT_INFO_REQUIREMENTS,
+  entities: TriageEntity[] = extractEntities(ticket)
+): string[] {
+  const entityTypes = providedEntityTypes(ticket, entities);
+  const text = getThreadText(ticket);
+  return requirements.filter(r => isProvided(r, entityTypes, text)).map(r => r.id);
+}
+
+/**
+ * Requirements that apply to the given topics (or to `general` when there are none),
+ * each checked against the ticket. A requirement is listed once, under the first topic it applies to.
+ */
+export function checkRequiredInfo(
+  ticket: Ticket,
+  topics: string[],
+  requirements: InfoRequirement[] = DEFAULT_INFO_REQUIREMENTS,
+  entities: TriageEntity[] = extractEntities(ticket)
+): RequiredInfoCheck[] {
+  const ticketTopics = topics.length > 0 ? topics : [GENERAL_TOPIC];
+  const entityTypes = providedEntityTypes(ticket, entities);
+  const text = getThreadText(ticket);
+  const checks: RequiredInfoCheck[] = [];
+
+  for (const requirement of requirements) {
+    const topic = ticketTopics.find(t => requirement.topics.some(r => isWithinTopic(t, r)));
+    if (topic !== undefined) {
+      checks.push({ requirement, topic, provided: isProvided(requirement, entityTypes, text) });
+    }
+  }
+
+  return checks;
+}
+
+export function renderInfoQuestion(requirement: InfoRequirement, topic: string): string {
+  return requirement.question.replace(/\{\{\s*topic\s*\}\}/g, topic);
+}
+
+export function toInformationRequest(check: RequiredInfoCheck): TriageInformationRequest {
+  return {
+    id: check.requirement.id,
+    topic: check.topic,
+    question: renderInfoQuestion(check.requirement, check.topic),
+  };
+}
+
+export function loadInfoRequirements(requirementsPath: string): InfoRequirementSet[] {
+  const data: unknown = JSON.parse(readFileSync(resolve(requirementsPath), 'utf-8'));
+  return validateInfoRequirementSets(Array.isArray(data) ? data : [data]);
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { frustrationLevel, scoreSentiment } from './sentiment.js';
+import { triageTicket } from './classifier.js';
+import { draftResponse } from '../draft/generator.js';
+import type { Ticket, TicketMessage } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'mood-1',
+  subject: 'Question',
+  body: 'How do I export my data?',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-01-01T00:00:00.000Z',
+  tags: [],
+  metadata: {},
+  ...overrides,
+});
+
+const createMessage = (overrides: Partial<TicketMessage> = {}): TicketMessage => ({
+  author_role: 'customer',
+  channel: 'email',
+  visibility: 'public',
+  body: 'Any news?',
+  created_at: '2024-01-02T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('scoreSentiment', () => {
+  it('should score a calm question as neutral', () => {
+    const sentiment = scoreSentiment(createTestTicket());
+
+    expect(sentiment).toEqual({ score: 0, frustration: 0, frustration_level: 'low', signals: [] });
+  });
+
+  it('should rate repeat contact and frustration phrases as high frustration', () => {
+    const sentiment = scoreSentiment(createTestTicket({
+      body: 'Third time asking, this is ridiculous.',
+    }));
+
+    expect(sentiment.frustration_level).toBe('high');
+    expect(sentiment.score).toBeLessThan(-0.5);
+    expect(sentiment.signals.map(s => [s.type, s.value])).toEqual([
+      ['frustration_phrase', 'ridiculous'],
+      ['repeat_contact', 'third time'],
+    ]);
+  });
+
+  it('should count shouting, repeated punctuation and profanity', () => {
+    const sentiment = scoreSentiment(createTestTicket({
+      subject: 'WHY IS THIS BROKEN',
+      body: 'The API keeps failing!!! wtf???',
+    }));
+    const types = sentiment.signals.map(s => s.type);
+
+    expect(types.filter(t => t === 'all_caps')).toHaveLength(3);
+    expect(types.filter(t => t === 'repeated_punctuation')).toHaveLength(2);
+    expect(types).toContain('profanity');
+    expect(sentiment.signals.some(s => s.value === 'API')).toBe(false);
+    expect(sentiment.frustration_level).toBe('high');
+  });
+
+  it('should respect negation', () => {
+    expect(scoreSentiment(createTestTicket({ body: 'I am not frustrated, just curious.' })).frustration).toBe(0);
+
+    const unhappy = scoreSentiment(createTestTicket({ body: 'I am not happy with the export.' }));
+    expect(unhappy.signals).toEqual([expect.objectContaining({ type: 'negative_word', value: 'not happy' })]);
+  });
+
+  it('should score gratitude as positive', () => {
+    const sentiment = scoreSentiment(createTestTicket({ body: 'Thanks, the guide was really helpful!' }));
+
+    expect(sentiment.score).toBeGreaterThan(0);
+    expect(sentiment.frustration).toBe(0);
+  });
+
+  it('should not read polite requests or error names as mood', () => {
+    expect(scoreSentiment(createTestTicket({ body: 'Please help me set up SSO.' })).signals).toEqual([]);
+    expect(scoreSentiment(createTestTicket({ body: 'The upload returns 400 Bad Request, then a bad gateway.' })).signals).toEqual([]);
+    expect(scoreSentiment(createTestTicket({ body: 'The export quality is bad.' })).signals)
+      .toEqual([expect.objectContaining({ type: 'negative_word', value: 'bad' })]);
+  });
+
+  it('should count customer follow-ups left unanswered', () => {
+    const ticket = createTestTicket({
+      messages: [
+        createMessage({ created_at: '2024-01-02T00:00:00.000Z' }),
+        createMessage({ author_role: 'agent', body: 'Looking into it.', created_at: '2024-01-03T00:00:00.000Z' }),
+        createMessage({ created_at: '2024-01-04T00:00:00.000Z' }),
+        createMessage({ created_at: '2024-01-05T00:00:00.000Z' }),
+      ],
+    });
+
+    expect(scoreSentiment(ticket).signals.filter(s => s.type === 'unanswered_follow_up').map(s => s.value))
+      .toEqual(['2024-01-04T00:00:00.000Z', '2024-01-05T00:00:00.000Z']);
+  });
+
+  it('should map frustration to levels', () => {
+    expect(frustrationLevel(0.1)).toBe('low');
+    expect(frustrationLevel(0.4)).toBe('medium');
+    expect(frustrationLevel(0.7)).toBe('high');
+  });
+});
+
+describe('sentiment in triage and drafting', () => {
+  const angry = createTestTicket({ body: 'Third time asking, this is ridiculous. Still waiting for an export.' });
+
+  it('should send highly frustrated customers to a human', () => {
+    const result = triageTicket(angry);
+
+    expect(result.sentiment?.frustration_level).toBe('high');
+    expect(result.requires_human_review).toBe(true);
+    expect(result.explanations).toContainEqual(expect.objectContaining({
+      target: 'requires_human_review',
+      rule: 'high_frustration',
+    }));
+    expect(triageTicket(createTestTicket()).requires_human_review).toBe(false);
+  });
+
+  it('should switch drafts to the empathetic tone', () => {
+    const draft = draftResponse(angry, triageTicket(angry), [], { tone: 'technical' });
+    expect(draft.tone).toBe('empathetic');
+    expect(draft.body).toContain('I understand how frustrating this must be.');
+
+    expect(draftResponse(angry, triageTicket(angry), [], { tone: 'technical', autoTone: false }).tone).toBe('technical');
+    expect(draftResponse(createTestTicket(), triageTicket(createTestTicket()), [], { tone: 'technical' }).tone).toBe('technical');
+  });
+});
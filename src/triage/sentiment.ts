@@ -0,0 +1,199 @@
+import type { Ticket, TicketMessage } from '../contracts/ticket.js';
+import type { FrustrationLevel, TriageSentiment, TriageSentimentSignal } from '../contracts/triage-result.js';
+import { getTriageSegments, type TextSegment } from './thread.js';
+import { findKeywordMatches, type KeywordMatch } from './matcher.js';
+
+/**
+ * Offline sentiment and frustration scoring.
+ *
+ * Lexicon phrases are matched with the triage keyword matcher, so they are
+ * stemmed and negation-aware ("not happy" counts against the customer's mood,
+ * "not frustrated" counts for nothing). Shouting (all-caps words), repeated
+ * "!!"/"??" and customer messages left unanswered add to frustration.
+ */
+
+export interface SentimentOptions {
+  negationWindow?: number;
+}
+
+type SignalType = TriageSentimentSignal['type'];
+
+export const FRUSTRATION_LEXICON = [
+  'ridiculous', 'unacceptable', 'fed up', 'frustrated', 'frustrating', 'furious', 'angry',
+  'outrageous', 'sick of', 'tired of', 'waste of time', 'worst', 'useless', 'terrible',
+  'horrible', 'awful', 'pathetic', 'incompetent', 'cancel my subscription', 'cancel my account',
+  'lost patience', 'losing patience', 'not acceptable',
+];
+
+export const NEGATIVE_LEXICON = [
+  'disappointed', 'disappointing', 'unhappy', 'annoyed', 'annoying', 'upset', 'confused',
+  'confusing', 'hate', 'bad', 'poor', 'slow', 'worried', 'concerned',
+];
+
+export const POSITIVE_LEXICON = [
+  'thanks', 'thank you', 'appreciate', 'great', 'awesome', 'love', 'happy', 'excellent',
+  'helpful', 'perfect', 'glad', 'amazing',
+];
+
+export const PROFANITY_LEXICON = [
+  'damn', 'crap', 'wtf', 'shit', 'bullshit', 'fuck', 'fucking', 'sucks', 'pissed',
+];
+
+export const REPEAT_CONTACT_LEXICON = [
+  'second time', 'third time', 'fourth time', 'fifth time', 'yet again', 'again and again',
+  'still waiting', 'still not', 'still no', 'still broken', 'no response', 'no reply',
+  'nobody responded', 'nobody replied', 'no one responded', 'no one replied', 'asked before',
+  'already asked', 'already told', 'already explained', 'multiple times', 'several times',
+  'how many times', 'keep asking', 'for days', 'for weeks', 'any update',
+];
+
+const SIGNAL_WEIGHTS: Record<SignalType, number> = {
+  positive_word: 0.5,
+  negative_word: 0.4,
+  frustration_phrase: 1,
+  profanity: 1,
+  repeat_contact: 1,
+  all_caps: 0.3,
+  repeated_punctuation: 0.4,
+  unanswered_follow_up: 0.5,
+};
+
+// Per-type cap on how many shouting / punctuation / follow-up signals are counted
+const MAX_STYLE_SIGNALS = 3;
+
+// Uppercase words that are names rather than shouting
+const ACRONYMS = new Set([
+  'API', 'APIS', 'SDK', 'SDKS', 'HTTP', 'HTTPS', 'JSON', 'YAML', 'HTML', 'UUID', 'OAUTH', 'SAML',
+  'CORS', 'AWS', 'GCP', 'SSO', 'SSL', 'TLS', 'DNS', 'CSV', 'PDF', 'URL', 'CLI', 'CPU', 'RAM',
+  'UTC', 'GMT', 'SLA', 'FAQ', 'IAM', 'VPN', 'SMTP', 'REST', 'CSS', 'XML', 'SQL',
+]);
+
+// "bad request", "bad gateway" and "bad credentials" name errors, not the customer's mood
+const ERROR_NAME_AFTER_BAD = /^\s+(?:request|gateway|credentials?)\b/i;
+
+const SHOUTED_WORD = /\b[A-Z]{3,}\b/g;
+const REPEATED_PUNCTUATION = /[!?]{2,}/g;
+
+/** Frustration at or above which a ticket is high frustration. */
+export const HIGH_FRUSTRATION_THRESHOLD = 0.7;
+const MEDIUM_FRUSTRATION_THRESHOLD = 0.4;
+// Total signal weight that maps to roughly 0.5 frustration
+const FRUSTRATION_SCALE = 1.5;
+
+function roundTo(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function isErrorName(segments: TextSegment[], match: KeywordMatch): boolean {
+  if (match.keyword !== 'bad') {
+    return false;
+  }
+  const text = segments.find(s => s.field === match.field)?.text ?? '';
+  return ERROR_NAME_AFTER_BAD.test(text.slice(match.offset + match.length));
+}
+
+function lexiconSignals(
+  segments: TextSegment[],
+  lexicon: string[],
+  type: SignalType,
+  options: SentimentOptions
+): TriageSentimentSignal[] {
+  return findKeywordMatches(segments, lexicon, { negationWindow: options.negationWindow })
+    .filter(m => !m.negated && !isErrorName(segments, m))
+    .map(m => ({ type, value: m.keyword, field: m.field, offset: m.offset, weight: SIGNAL_WEIGHTS[type] }));
+}
+
+function styleSignals(segments: TextSegment[], pattern: RegExp, type: SignalType): TriageSentimentSignal[] {
+  const signals: TriageSentimentSignal[] = [];
+  for (const segment of segments) {
+    for (const match of segment.text.matchAll(pattern)) {
+      if (type === 'all_caps' && ACRONYMS.has(match[0])) {
+        continue;
+      }
+      signals.push({ type, value: match[0], field: segment.field, offset: match.index, weight: SIGNAL_WEIGHTS[type] });
+    }
+  }
+  return signals.slice(0, MAX_STYLE_SIGNALS);
+}
+
+/**
+ * Public customer messages sent after the latest public agent reply.
+ */
+function unansweredFollowUps(ticket: Ticket): TicketMessage[] {
+  const ordered = (ticket.messages ?? [])
+    .filter(m => m.visibility === 'public')
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const pending: TicketMessage[] = [];
+  for (const message of ordered) {
+    if (message.author_role === 'agent') {
+      pending.length = 0;
+    } else if (message.author_role === 'customer') {
+      pending.push(message);
+    }
+  }
+  return pending;
+}
+
+export function frustrationLevel(frustration: number): FrustrationLevel {
+  if (frustration >= HIGH_FRUSTRATION_THRESHOLD) {
+    return 'high';
+  }
+  return frustration >= MEDIUM_FRUSTRATION_THRESHOLD ? 'medium' : 'low';
+}
+
+/**
+ * Sentiment and frustration of the customer-authored part of the ticket.
+ */
+export function scoreSentiment(ticket: Ticket, options: SentimentOptions = {}): TriageSentiment {
+  const segments = getTriageSegments(ticket);
+
+  // A positive word under negation ("not happy") counts as a negative one
+  const negatedPositive = findKeywordMatches(segments, POSITIVE_LEXICON, { negationWindow: options.negationWindow })
+    .filter(m => m.negated)
+    .map(m => ({
+      type: 'negative_word' as const,
+      value: `not ${m.keyword}`,
+      field: m.field,
+      offset: m.offset,
+      weight: SIGNAL_WEIGHTS.negative_word,
+    }));
+
+  const followUps = unansweredFollowUps(ticket).slice(0, MAX_STYLE_SIGNALS);
+
+  const signals: TriageSentimentSignal[] = [
+    ...lexiconSignals(segments, FRUSTRATION_LEXICON, 'frustration_phrase', options),
+    ...lexiconSignals(segments, PROFANITY_LEXICON, 'profanity', options),
+    ...lexiconSignals(segments, REPEAT_CONTACT_LEXICON, 'repeat_contact', options),
+    ...lexiconSignals(segments, NEGATIVE_LEXICON, 'negative_word', options),
+    ...negatedPositive,
+    ...lexiconSignals(segments, POSITIVE_LEXICON, 'positive_word', options),
+    ...styleSignals(segments, SHOUTED_WORD, 'all_caps'),
+    ...styleSignals(segments, REPEATED_PUNCTUATION, 'repeated_punctuation'),
+    ...followUps.map(message => ({
+      type: 'unanswered_follow_up' as const,
+      value: message.created_at instanceof Date ? message.created_at.toISOString() : message.created_at,
+      weight: SIGNAL_WEIGHTS.unanswered_follow_up,
+    })),
+  ];
+
+  let positive = 0;
+  let negative = 0;
+  for (const signal of signals) {
+    if (signal.type === 'positive_word') {
+      positive += signal.weight;
+    } else {
+      negative += signal.weight;
+    }
+  }
+
+  const frustration = roundTo(1 - Math.exp(-negative / FRUSTRATION_SCALE), 2);
+
+  return {
+    score: roundTo((positive - negative) / (positive + negative + 1), 2),
+    frustration,
+    frustration_level: frustrationLevel(frustration),
+    signals,
+  };
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { addBusinessMinutes, businessMinutesBetween, computeSla, selectSlaPolicy } from './sla.js';
+import { triageBatch, filterTicketsNeedingAttention } from './batch.js';
+import { validateSlaPolicy, type SlaPolicy } from '../contracts/sla-policy.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'sla-1',
+  subject: 'Question about exports',
+  body: 'Can I export reports?',
+  status: 'open',
+  priority: 'medium',
+  // Monday 09:00 UTC
+  created_at: '2024-05-06T09:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+const policy: SlaPolicy = validateSlaPolicy({
+  policy_id: 'standard',
+  tenant_id: 't1',
+  business_hours: { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' },
+  holidays: ['2024-05-13'],
+  targets: [
+    { priority: 'urgent', first_response_minutes: 30, resolution_minutes: 240 },
+    { priority: 'high', first_response_minutes: 60, resolution_minutes: 480 },
+    { priority: 'medium', first_response_minutes: 240, resolution_minutes: 960 },
+    { priority: 'medium', tier: 'enterprise', first_response_minutes: 60, resolution_minutes: 480 },
+    { priority: 'low', first_response_minutes: 480, resolution_minutes: 2400 },
+  ],
+});
+
+const at = (iso: string): Date => new Date(iso);
+
+describe('business calendar', () => {
+  it('should skip nights and weekends', () => {
+    // Friday 16:00 + 2h -> Monday 10:00
+    expect(addBusinessMinutes(at('2024-05-03T16:00:00Z'), 120, policy).toISOString())
+      .toBe('2024-05-06T10:00:00.000Z');
+    expect(businessMinutesBetween(at('2024-05-03T16:00:00Z'), at('2024-05-06T10:00:00Z'), policy)).toBe(120);
+  });
+
+  it('should skip holidays', () => {
+    // Friday 16:00 + 2h with Monday 13 May a holiday -> Tuesday 10:00
+    expect(addBusinessMinutes(at('2024-05-10T16:00:00Z'), 120, policy).toISOString())
+      .toBe('2024-05-14T10:00:00.000Z');
+  });
+
+  it('should use the policy timezone', () => {
+    const newYork = { ...policy, timezone: 'America/New_York' };
+
+    // 12:00 UTC is 08:00 EDT, so the clock starts at 09:00 EDT (13:00 UTC)
+    expect(addBusinessMinutes(at('2024-05-06T12:00:00Z'), 60, newYork).toISOString())
+      .toBe('2024-05-06T14:00:00.000Z');
+  });
+
+  it('should run around the clock without business hours', () => {
+    const always = { ...policy, business_hours: undefined, holidays: [] };
+
+    expect(addBusinessMinutes(at('2024-05-04T23:00:00Z'), 120, always).toISOString())
+      .toBe('2024-05-05T01:00:00.000Z');
+  });
+});
+
+describe('computeSla', () => {
+  it('should compute deadlines and flag tickets close to breaching', () => {
+    const sla = computeSla(createTestTicket(), policy, { now: at('2024-05-06T12:30:00Z') });
+
+    expect(sla).toMatchObject({
+      policy_id: 'standard',
+      tier: 'standard',
+      priority: 'medium',
+      first_response_due: '2024-05-06T13:00:00.000Z',
+      // 960 business minutes = two 8-hour days
+      resolution_due: '2024-05-07T17:00:00.000Z',
+      breach_risk: 'at_risk',
+      paused: false,
+    });
+  });
+
+  it('should stop the first-response clock at the first public agent reply', () => {
+    const ticket = createTestTicket({
+      messages: [
+        { author_role: 'agent', channel: 'email', visibility: 'internal', body: 'note', created_at: '2024-05-06T09:10:00.000Z' },
+        { author_role: 'agent', channel: 'email', visibility: 'public', body: 'Hi!', created_at: '2024-05-06T09:30:00.000Z' },
+      ],
+    });
+
+    const sla = computeSla(ticket, policy, { now: at('2024-05-06T12:30:00Z') });
+
+    expect(sla?.first_response_at).toBe('2024-05-06T09:30:00.000Z');
+    expect(sla?.breach_risk).toBe('on_track');
+  });
+
+  it('should report breaches', () => {
+    const sla = computeSla(createTestTicket(), policy, { now: at('2024-05-08T09:00:00Z') });
+
+    expect(sla?.breach_risk).toBe('breached');
+  });
+
+  it('should pause the resolution clock while pending', () => {
+    const ticket = createTestTicket({
+      status: 'pending',
+      updated_at: '2024-05-06T10:00:00.000Z',
+      messages: [{ author_role: 'agent', channel: 'email', visibility: 'public', body: 'Which plan?', created_at: '2024-05-06T10:00:00.000Z' }],
+    });
+
+    const sla = computeSla(ticket, policy, { now: at('2024-05-08T09:00:00Z') });
+
+    expect(sla?.paused).toBe(true);
+    expect(sla?.breach_risk).toBe('on_track');
+    // 60 of 960 minutes used; 900 remain from Wednesday 09:00
+    expect(sla?.resolution_due).toBe('2024-05-09T16:00:00.000Z');
+  });
+
+  it('should not pause when the policy disables it', () => {
+    const ticket = createTestTicket({ status: 'pending', updated_at: '2024-05-06T10:00:00.000Z' });
+
+    const sla = computeSla(ticket, { ...policy, pause_on_pending: false }, { now: at('2024-05-08T09:00:00Z') });
+
+    expect(sla?.paused).toBe(false);
+    expect(sla?.breach_risk).toBe('breached');
+  });
+
+  it('should have no active risk once resolved', () => {
+    const ticket = createTestTicket({ status: 'resolved', updated_at: '2024-05-06T11:00:00.000Z' });
+
+    const sla = computeSla(ticket, policy, { now: at('2024-05-20T09:00:00Z') });
+
+    expect(sla?.breach_risk).toBe('none');
+    expect(sla?.resolved_at).toBe('2024-05-06T11:00:00.000Z');
+  });
+
+  it('should use customer tier targets and the higher of ticket and suggested priority', () => {
+    const enterprise = createTestTicket({ metadata: { customer_tier: 'enterprise' } });
+    expect(computeSla(enterprise, policy, { now: at('2024-05-06T09:00:00Z') })?.first_response_due)
+      .toBe('2024-05-06T10:00:00.000Z');
+
+    const raised = computeSla(createTestTicket({ priority: 'low' }), policy, {
+      now: at('2024-05-06T09:00:00Z'),
+      suggestedPriority: 'urgent',
+    });
+    expect(raised?.priority).toBe('urgent');
+  });
+});
+
+describe('selectSlaPolicy', () => {
+  it('should prefer a project-specific policy over a tenant-wide one', () => {
+    const projectPolicy = { ...policy, policy_id: 'project', project_id: 'p1' };
+
+    expect(selectSlaPolicy([policy, projectPolicy], createTestTicket())?.policy_id).toBe('project');
+    expect(selectSlaPolicy([policy], createTestTicket({ tenant_id: 'other' }))).toBeUndefined();
+  });
+});
+
+describe('SLA in batch triage', () => {
+  it('should count and prioritize breach-risk tickets', () => {
+    const tickets = [
+      createTestTicket({ id: 'critical', subject: 'Outage', body: 'Everything is down', created_at: '2024-05-08T08:00:00.000Z' }),
+      createTestTicket({ id: 'at-risk', created_at: '2024-05-08T09:00:00.000Z' }),
+      createTestTicket({ id: 'breached', created_at: '2024-05-06T09:00:00.000Z' }),
+      createTestTicket({ id: 'fresh', created_at: '2024-05-08T11:30:00.000Z' }),
+    ];
+
+    const { results, stats } = triageBatch(tickets, {
+      slaPolicies: [policy],
+      now: at('2024-05-08T12:30:00Z'),
+      duplicates: false,
+    });
+
+    expect(stats.slaBreached).toBe(2);
+    expect(stats.slaAtRisk).toBe(1);
+    expect(results[0].processed_at).toBe('2024-05-08T12:30:00.000Z');
+    expect(results[1].explanations).toContainEqual(expect.objectContaining({ target: 'sla', value: 'at_risk' }));
+    // Both breaches come first, earliest missed deadline first
+    expect(filterTicketsNeedingAttention(results).map(r => r.ticket_id)).toEqual(['breached', 'critical', 'at-risk']);
+  });
+});
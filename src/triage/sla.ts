@@ -0,0 +1,304 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { Ticket, TicketPriority } from '../contracts/ticket.js';
+import type { TriageSla } from '../contracts/triage-result.js';
+import {
+  validateSlaPolicies,
+  type SlaBreachRisk,
+  type SlaPolicy,
+  type SlaTarget,
+} from '../contracts/sla-policy.js';
+
+/**
+ * SLA deadlines and breach risk.
+ *
+ * Budgets are counted in business minutes of the policy calendar (business
+ * hours in the policy timezone, minus holidays). The first-response clock stops
+ * at the first public agent reply; the resolution clock stops when the ticket is
+ * resolved or closed and, with `pause_on_pending`, is paused while the ticket is
+ * pending. A pending ticket is assumed to have entered that state at `updated_at`.
+ */
+
+export interface SlaOptions {
+  /** Evaluation time; defaults to the current time. */
+  now?: Date;
+  /** Triage-suggested priority; the higher of this and the ticket priority is used. */
+  suggestedPriority?: TicketPriority;
+}
+
+interface Calendar {
+  timezone: string;
+  days: Set<number>;
+  startMinute: number;
+  endMinute: number;
+  holidays: Set<string>;
+}
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const PRIORITY_RANK: Record<TicketPriority, number> = { low: 0, medium: 1, high: 2, urgent: 3 };
+const RISK_RANK: Record<SlaBreachRisk, number> = { none: 0, on_track: 1, at_risk: 2, breached: 3 };
+
+const MINUTE_MS = 60_000;
+// Upper bound on calendar days walked for one computation (about ten years)
+const MAX_CALENDAR_DAYS = 3660;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/** Milliseconds the timezone is ahead of UTC at the given instant. */
+function timezoneOffset(timestamp: number, timezone: string): number {
+  if (timezone === 'UTC') {
+    return 0;
+  }
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(new Date(timestamp))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - (timestamp - (timestamp % 1000));
+}
+
+function localDateOf(timestamp: number, timezone: string): LocalDate {
+  const shifted = new Date(timestamp + timezoneOffset(timestamp, timezone));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth(), day: shifted.getUTCDate() };
+}
+
+function nextDay(date: LocalDate): LocalDate {
+  const next = new Date(Date.UTC(date.year, date.month, date.day + 1));
+  return { year: next.getUTCFullYear(), month: next.getUTCMonth(), day: next.getUTCDate() };
+}
+
+/** UTC timestamp of a wall-clock minute on a local date. */
+function localToUtc(date: LocalDate, minuteOfDay: number, timezone: string): number {
+  const wallClock = Date.UTC(date.year, date.month, date.day, 0, minuteOfDay);
+  const guess = wallClock - timezoneOffset(wallClock, timezone);
+  // Re-check once so dates on the far side of a DST switch use their own offset
+  return wallClock - timezoneOffset(guess, timezone);
+}
+
+function dateKey(date: LocalDate): string {
+  return `${date.year}-${String(date.month + 1).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+function businessWindow(date: LocalDate, calendar: Calendar): [number, number] | null {
+  const weekday = new Date(Date.UTC(date.year, date.month, date.day)).getUTCDay();
+  if (!calendar.days.has(weekday) || calendar.holidays.has(dateKey(date))) {
+    return null;
+  }
+  return [
+    localToUtc(date, calendar.startMinute, calendar.timezone),
+    localToUtc(date, calendar.endMinute, calendar.timezone),
+  ];
+}
+
+function parseMinuteOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function buildCalendar(policy: SlaPolicy): Calendar {
+  const hours = policy.business_hours;
+  return {
+    timezone: policy.timezone,
+    days: new Set(hours?.days ?? [0, 1, 2, 3, 4, 5, 6]),
+    startMinute: hours ? parseMinuteOfDay(hours.start) : 0,
+    endMinute: hours ? parseMinuteOfDay(hours.end) : 24 * 60,
+    holidays: new Set(policy.holidays),
+  };
+}
+
+/**
+ * The instant at which `minutes` business minutes have passed since `start`.
+ */
+export function addBusinessMinutes(start: Date, minutes: number, policy: SlaPolicy): Date {
+  const calendar = buildCalendar(policy);
+  const startMs = start.getTime();
+  let remaining = minutes * MINUTE_MS;
+  let date = localDateOf(startMs, calendar.timezone);
+
+  for (let i = 0; i < MAX_CALENDAR_DAYS; i++) {
+    const window = businessWindow(date, calendar);
+    if (window) {
+      const from = Math.max(window[0], startMs);
+      if (from < window[1]) {
+        const available = window[1] - from;
+        if (remaining <= available) {
+          return new Date(from + remaining);
+        }
+        remaining -= available;
+      }
+    }
+    date = nextDay(date);
+  }
+
+  throw new Error(`SLA policy ${policy.policy_id} has no business time within ${MAX_CALENDAR_DAYS} days`);
+}
+
+/**
+ * Business minutes between two instants (0 when `end` is not after `start`).
+ */
+export function businessMinutesBetween(start: Date, end: Date, policy: SlaPolicy): number {
+  const calendar = buildCalendar(policy);
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+  if (endMs <= startMs) {
+    return 0;
+  }
+
+  let total = 0;
+  let date = localDateOf(startMs, calendar.timezone);
+
+  for (let i = 0; i < MAX_CALENDAR_DAYS; i++) {
+    if (localToUtc(date, 0, calendar.timezone) >= endMs) {
+      break;
+    }
+    const window = businessWindow(date, calendar);
+    if (window) {
+      const from = Math.max(window[0], startMs);
+      const to = Math.min(window[1], endMs);
+      if (to > from) {
+        total += to - from;
+      }
+    }
+    date = nextDay(date);
+  }
+
+  return total / MINUTE_MS;
+}
+
+/**
+ * Most specific policy for the ticket: project-level before tenant-wide.
+ */
+export function selectSlaPolicy(policies: SlaPolicy[], ticket: Ticket): SlaPolicy | undefined {
+  return policies.find(p => p.tenant_id === ticket.tenant_id && p.project_id === ticket.project_id)
+    ?? policies.find(p => p.tenant_id === ticket.tenant_id && p.project_id === undefined);
+}
+
+function getCustomerTier(ticket: Ticket, policy: SlaPolicy): string {
+  const tier = ticket.metadata.customer_tier;
+  return typeof tier === 'string' && tier !== '' ? tier : policy.default_tier;
+}
+
+function selectTarget(policy: SlaPolicy, priority: TicketPriority, tier: string): SlaTarget | undefined {
+  return policy.targets.find(t => t.priority === priority && t.tier === tier)
+    ?? policy.targets.find(t => t.priority === priority && t.tier === undefined);
+}
+
+function toDate(value: string | Date): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function firstAgentReply(ticket: Ticket): Date | undefined {
+  const replies = (ticket.messages ?? [])
+    .filter(m => m.author_role === 'agent' && m.visibility === 'public')
+    .map(m => toDate(m.created_at).getTime())
+    .sort((a, b) => a - b);
+  return replies.length > 0 ? new Date(replies[0]) : undefined;
+}
+
+function riskFor(elapsed: number, budget: number, threshold: number): SlaBreachRisk {
+  if (elapsed >= budget) {
+    return 'breached';
+  }
+  return elapsed >= budget * threshold ? 'at_risk' : 'on_track';
+}
+
+function worst(...risks: SlaBreachRisk[]): SlaBreachRisk {
+  return risks.reduce((a, b) => (RISK_RANK[b] > RISK_RANK[a] ? b : a), 'none');
+}
+
+/**
+ * Deadlines and breach risk for a ticket, or undefined when the policy has
+ * no target for its priority and tier.
+ */
+export function computeSla(ticket: Ticket, policy: SlaPolicy, options: SlaOptions = {}): TriageSla | undefined {
+  const now = options.now ?? new Date();
+  const priority = options.suggestedPriority !== undefined
+    && PRIORITY_RANK[options.suggestedPriority] > PRIORITY_RANK[ticket.priority]
+    ? options.suggestedPriority
+    : ticket.priority;
+  const tier = getCustomerTier(ticket, policy);
+  const target = selectTarget(policy, priority, tier);
+  if (!target) {
+    return undefined;
+  }
+
+  const createdAt = toDate(ticket.created_at);
+  const updatedAt = ticket.updated_at !== undefined ? toDate(ticket.updated_at) : createdAt;
+  const closed = ticket.status === 'resolved' || ticket.status === 'closed';
+  const paused = ticket.status === 'pending' && policy.pause_on_pending;
+
+  // First response: stops at the first public agent reply
+  const firstResponseDue = addBusinessMinutes(createdAt, target.first_response_minutes, policy);
+  const firstResponseAt = firstAgentReply(ticket);
+  const firstResponseRisk: SlaBreachRisk = closed || firstResponseAt
+    ? 'none'
+    : riskFor(businessMinutesBetween(createdAt, now, policy), target.first_response_minutes, policy.at_risk_threshold);
+
+  // Resolution: stops when closed, paused while pending
+  let resolutionDue: Date;
+  let resolutionRisk: SlaBreachRisk;
+  if (closed) {
+    resolutionDue = addBusinessMinutes(createdAt, target.resolution_minutes, policy);
+    resolutionRisk = 'none';
+  } else if (paused) {
+    const elapsed = businessMinutesBetween(createdAt, updatedAt, policy);
+    const remaining = Math.max(target.resolution_minutes - elapsed, 0);
+    resolutionDue = addBusinessMinutes(now, remaining, policy);
+    resolutionRisk = remaining === 0 ? 'breached' : 'on_track';
+  } else {
+    resolutionDue = addBusinessMinutes(createdAt, target.resolution_minutes, policy);
+    resolutionRisk = riskFor(businessMinutesBetween(createdAt, now, policy), target.resolution_minutes, policy.at_risk_threshold);
+  }
+
+  return {
+    policy_id: policy.policy_id,
+    tier,
+    priority,
+    first_response_due: firstResponseDue.toISOString(),
+    resolution_due: resolutionDue.toISOString(),
+    ...(firstResponseAt && { first_response_at: firstResponseAt.toISOString() }),
+    ...(closed && { resolved_at: updatedAt.toISOString() }),
+    paused,
+    breach_risk: worst(firstResponseRisk, resolutionRisk),
+    evaluated_at: now.toISOString(),
+  };
+}
+
+/**
+ * Deadline that matters next: first response while unanswered, otherwise resolution.
+ */
+export function nextSlaDeadline(sla: TriageSla): string {
+  return sla.first_response_at === undefined && sla.resolved_at === undefined
+    ? sla.first_response_due
+    : sla.resolution_due;
+}
+
+export function loadSlaPolicies(policyPath: string): SlaPolicy[] {
+  const data: unknown = JSON.parse(readFileSync(resolve(policyPath), 'utf-8'));
+  return validateSlaPolicies(Array.isArray(data) ? data : [data]);
+}
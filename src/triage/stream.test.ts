@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { triageStream, type TriageReject } from './stream.js';
+import { triageBatch } from './batch.js';
+import { readLines } from '../utils/ndjson.js';
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageResult } from '../contracts/triage-result.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'stream-1',
+  subject: 'Question',
+  body: 'How do I export a report?',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-05-01T12:00:00.000Z',
+  tags: [],
+  messages: [],
+  metadata: {},
+  ...overrides,
+});
+
+const now = new Date('2024-05-02T00:00:00.000Z');
+
+async function collect(stream: AsyncIterable<TriageResult>): Promise<TriageResult[]> {
+  const results: TriageResult[] = [];
+  for await (const result of stream) {
+    results.push(result);
+  }
+  return results;
+}
+
+describe('triageStream', () => {
+  it('should triage NDJSON lines and count stats as it goes', async () => {
+    const tickets = [
+      createTestTicket({ id: 'a', subject: 'Site is down', body: 'Production is down for everyone.' }),
+      createTestTicket({ id: 'b' }),
+      createTestTicket({ id: 'c', subject: 'Automatic reply: Question', body: 'I am out of the office.' }),
+    ];
+    const ndjson = tickets.map(t => JSON.stringify(t)).join('\n') + '\n';
+    const input = Readable.from([ndjson.slice(0, 50), ndjson.slice(50)]);
+
+    const stream = triageStream(readLines(input), { now, repeatContact: false });
+    const results = await collect(stream);
+
+    expect(results.map(r => r.ticket_id)).toEqual(['a', 'b', 'c']);
+    const batch = triageBatch(tickets, { now, repeatContact: false, duplicates: false, incidents: false });
+    expect(results).toEqual(batch.results);
+    expect(stream.stats).toEqual(batch.stats);
+    expect(stream.rejected).toBe(0);
+  });
+
+  it('should send invalid lines to onReject with their line numbers and keep going', async () => {
+    const rejects: TriageReject[] = [];
+    const lines = [
+      JSON.stringify(createTestTicket({ id: 'ok-1' })),
+      '',
+      '{"id": "broken"',
+      JSON.stringify({ ...createTestTicket({ id: 'no-subject' }), subject: undefined }),
+      JSON.stringify(createTestTicket({ id: 'other-tenant', tenant_id: 't2' })),
+      JSON.stringify(createTestTicket({ id: 'ok-2' })),
+    ];
+
+    const stream = triageStream(lines, { now, tenantId: 't1', projectId: 'p1', onReject: reject => { rejects.push(reject); } });
+    const results = await collect(stream);
+
+    expect(results.map(r => r.ticket_id)).toEqual(['ok-1', 'ok-2']);
+    expect(rejects.map(r => r.line)).toEqual([3, 4, 5]);
+    expect(rejects[0].error).toMatch(/^Invalid JSON/);
+    expect(rejects[1].error).toContain('subject');
+    expect(rejects[2].error).toBe('Tenant/project mismatch in ticket other-tenant');
+    expect(rejects[2].input).toBe(lines[4]);
+    expect(stream.stats.total).toBe(2);
+    expect(stream.rejected).toBe(3);
+  });
+
+  it('should accept ticket objects and only pull as many as the consumer reads', async () => {
+    let pulled = 0;
+    function* source(): Generator<Ticket> {
+      for (let i = 0; i < 1000; i++) {
+        pulled++;
+        yield createTestTicket({ id: `t-${i}` });
+      }
+    }
+
+    for await (const result of triageStream(source(), { now })) {
+      if (result.ticket_id === 't-2') {
+        break;
+      }
+    }
+
+    expect(pulled).toBe(3);
+  });
+});
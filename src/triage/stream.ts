@@ -0,0 +1,111 @@
+import { TicketSchema, type Ticket } from '../contracts/ticket.js';
+import type { TriageResult } from '../contracts/triage-result.js';
+import { triageTicket, type TriageOptions } from './classifier.js';
+import { addToTriageStats, createTriageStats, type TriageStats } from './batch.js';
+
+/**
+ * Streaming triage for exports too large to load at once.
+ *
+ * Tickets are validated and triaged one at a time as the consumer pulls
+ * results, and stats are counted as results are produced, so memory does not
+ * grow with the input. Cross-ticket analysis that needs the whole batch
+ * (near-duplicates, incident spikes, repeat contacts within the input) is left
+ * to `triageBatch`; repeat contacts are still found against `history`.
+ */
+
+export interface TriageReject {
+  /** 1-based position of the record in the source (the NDJSON line number). */
+  line: number;
+  error: string;
+  /** The raw line, or the JSON of a rejected object. */
+  input: string;
+}
+
+export interface TriageStreamOptions extends TriageOptions {
+  /** Reject tickets of any other tenant. */
+  tenantId?: string;
+  /** Reject tickets of any other project. */
+  projectId?: string;
+  /** Receives records that are not valid tickets; awaited, so a slow reject sink slows the stream. */
+  onReject?: (reject: TriageReject) => void | Promise<void>;
+}
+
+export interface TriageStream extends AsyncIterable<TriageResult> {
+  /** Stats so far; final once iteration has finished. */
+  readonly stats: TriageStats;
+  /** Records rejected so far. */
+  readonly rejected: number;
+}
+
+type Validation = { ok: true; ticket: Ticket } | { ok: false; error: string };
+
+function validateRecord(record: unknown, options: TriageStreamOptions): Validation {
+  let data = record;
+  if (typeof record === 'string') {
+    try {
+      data = JSON.parse(record);
+    } catch (error) {
+      return { ok: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  const parsed = TicketSchema.safeParse(data);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      error: parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; '),
+    };
+  }
+
+  const ticket = parsed.data;
+  if ((options.tenantId !== undefined && ticket.tenant_id !== options.tenantId)
+    || (options.projectId !== undefined && ticket.project_id !== options.projectId)) {
+    return { ok: false, error: `Tenant/project mismatch in ticket ${ticket.id}` };
+  }
+  return { ok: true, ticket };
+}
+
+/**
+ * Triage tickets from an iterable of NDJSON lines or ticket objects.
+ * Blank lines are skipped; records that fail to parse or validate go to `onReject`.
+ */
+export function triageStream(
+  source: AsyncIterable<unknown> | Iterable<unknown>,
+  options: TriageStreamOptions = {}
+): TriageStream {
+  const stats = createTriageStats();
+  let rejected = 0;
+
+  async function* run(): AsyncGenerator<TriageResult> {
+    let line = 0;
+    for await (const record of source) {
+      line++;
+      if (typeof record === 'string' && record.trim() === '') {
+        continue;
+      }
+
+      const validation = validateRecord(record, options);
+      if (!validation.ok) {
+        rejected++;
+        await options.onReject?.({
+          line,
+          error: validation.error,
+          input: typeof record === 'string' ? record : JSON.stringify(record) ?? String(record),
+        });
+        continue;
+      }
+
+      const result = triageTicket(validation.ticket, options);
+      addToTriageStats(stats, result);
+      yield result;
+    }
+  }
+
+  return {
+    stats,
+    get rejected(): number {
+      return rejected;
+    },
+    [Symbol.asyncIterator]: run,
+  };
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  flattenTaxonomy,
+  groupByTopic,
+  loadTopicTaxonomies,
+  rollUpTopic,
+  selectTopicTaxonomy,
+  topicAncestors,
+} from './taxonomy.js';
+import { classifyTopics, triageTicket } from './classifier.js';
+import { triageBatch } from './batch.js';
+import { batchProposePatches } from '../kb-proposals/generator.js';
+import { routeTicket } from '../routing/engine.js';
+import { validateRoutingConfig } from '../contracts/routing-rule.js';
+import { validateTopicTaxonomy, type TopicTaxonomy } from '../contracts/topic-taxonomy.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+const createTestTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 'tenant_001',
+  project_id: 'p1',
+  id: 'tax-1',
+  subject: 'Test subject',
+  body: 'Test body',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-01-01T00:00:00.000Z',
+  tags: [],
+  metadata: {},
+  ...overrides,
+});
+
+const [taxonomy] = loadTopicTaxonomies('examples/taxonomy/topic-taxonomy.json');
+
+describe('topic taxonomy contract', () => {
+  it('should reject duplicate sibling ids and invalid slugs', () => {
+    expect(() => validateTopicTaxonomy({
+      taxonomy_id: 'x',
+      version: '1',
+      topics: [{ id: 'billing' }, { id: 'billing' }],
+    })).toThrow(/Duplicate topic id/);
+    expect(() => validateTopicTaxonomy({
+      taxonomy_id: 'x',
+      version: '1',
+      topics: [{ id: 'billing', children: [{ id: 'Refunds/Partial' }] }],
+    })).toThrow(/lowercase slug/);
+  });
+
+  it('should allow the same id under different parents', () => {
+    const parsed = validateTopicTaxonomy({
+      taxonomy_id: 'x',
+      version: '1',
+      topics: [{ id: 'a', children: [{ id: 'other' }] }, { id: 'b', children: [{ id: 'other' }] }],
+    });
+    expect(flattenTaxonomy(parsed).map(e => e.category)).toEqual(['a', 'a/other', 'b', 'b/other']);
+  });
+});
+
+describe('taxonomy helpers', () => {
+  it('should flatten nodes into paths and inherit owners', () => {
+    const entries = flattenTaxonomy(taxonomy);
+    const partial = entries.find(e => e.category === 'billing/refunds/partial-refund');
+
+    expect(partial?.path).toEqual(['billing', 'refunds', 'partial-refund']);
+    expect(partial?.owner).toBe('billing-team');
+    expect(entries.find(e => e.category === 'technical/jobs')?.owner).toBe('platform-team');
+  });
+
+  it('should roll up and expand topic paths', () => {
+    expect(rollUpTopic('billing/refunds/partial-refund', 1)).toBe('billing');
+    expect(rollUpTopic('billing/refunds/partial-refund', 2)).toBe('billing/refunds');
+    expect(rollUpTopic('billing', 3)).toBe('billing');
+    expect(topicAncestors('billing/refunds/partial-refund'))
+      .toEqual(['billing', 'billing/refunds', 'billing/refunds/partial-refund']);
+  });
+
+  it('should select the most specific taxonomy', () => {
+    const global: TopicTaxonomy = { ...taxonomy, taxonomy_id: 'global', tenant_id: undefined };
+    const project: TopicTaxonomy = { ...taxonomy, taxonomy_id: 'project', project_id: 'p1' };
+
+    expect(selectTopicTaxonomy([global, taxonomy, project], createTestTicket())?.taxonomy_id).toBe('project');
+    expect(selectTopicTaxonomy([global, taxonomy], createTestTicket())?.taxonomy_id).toBe('support-topics');
+    expect(selectTopicTaxonomy([global, taxonomy], createTestTicket({ tenant_id: 'other' }))?.taxonomy_id).toBe('global');
+  });
+});
+
+describe('hierarchical classification', () => {
+  it('should return the deepest matching path with ancestor evidence', () => {
+    const ticket = createTestTicket({
+      subject: 'Partial refund request',
+      body: 'We removed unused seats and would like a refund on the invoice.',
+    });
+    const [topic] = classifyTopics(ticket, { taxonomies: [taxonomy] });
+
+    expect(topic.category).toBe('billing/refunds/partial-refund');
+    expect(topic.keywords).toEqual(expect.arrayContaining(['invoice', 'refund', 'partial refund', 'unused seats']));
+    expect(topic.owner).toBe('billing-team');
+    expect(topic.confidence).toBe(1);
+  });
+
+  it('should report a parent when no child matches', () => {
+    const ticket = createTestTicket({ subject: 'Invoice copy', body: 'Please resend the invoice.' });
+    expect(classifyTopics(ticket, { taxonomies: [taxonomy] }).map(t => t.category)).toEqual(['billing']);
+  });
+
+  it('should record the taxonomy version on results', () => {
+    const result = triageTicket(createTestTicket({ body: 'Our webhook callback fails' }), { taxonomies: [taxonomy] });
+
+    expect(result.topics[0].category).toBe('technical/webhooks');
+    expect(result.taxonomy_id).toBe('support-topics');
+    expect(result.taxonomy_version).toBe('2024.06.1');
+    expect(triageTicket(createTestTicket()).taxonomy_version).toBeUndefined();
+  });
+
+  it('should send confident billing subtopics to human review', () => {
+    const ticket = createTestTicket({
+      subject: 'Partial refund request',
+      body: 'We removed unused seats and would like a refund on the invoice.',
+    });
+    const result = triageTicket(ticket, { taxonomies: [taxonomy] });
+
+    expect(result.topics[0].category).toBe('billing/refunds/partial-refund');
+    expect(result.requires_human_review).toBe(true);
+    expect(result.explanations.find(e => e.target === 'requires_human_review')?.rule).toBe('billing_confidence');
+  });
+
+  it('should let routing rules match ancestor topics', () => {
+    const ticket = createTestTicket({ body: 'We need a refund' });
+    const result = triageTicket(ticket, { taxonomies: [taxonomy] });
+    const config = validateRoutingConfig({
+      rules: [{ id: 'billing', all: [{ field: 'topic', value: 'billing' }], queue: 'billing' }],
+    });
+
+    expect(result.topics[0].category).toBe('billing/refunds');
+    expect(routeTicket(ticket, result, config).assigned_queue).toBe('billing');
+  });
+});
+
+describe('topic roll-ups', () => {
+  const tickets = [
+    createTestTicket({ id: 'a', body: 'Please refund the partial refund for unused seats' }),
+    createTestTicket({ id: 'b', body: 'I want a refund' }),
+    createTestTicket({ id: 'c', body: 'Can we upgrade our plan?' }),
+    createTestTicket({ id: 'd', body: 'Login with SSO fails' }),
+  ];
+  const { results } = triageBatch(tickets, { taxonomies: [taxonomy], duplicates: false });
+
+  it('should group results at any depth', () => {
+    expect(Object.keys(groupByTopic(results))).toEqual([
+      'billing/refunds/partial-refund', 'billing/refunds', 'billing/plans', 'account',
+    ]);
+    expect(Object.fromEntries(Object.entries(groupByTopic(results, 1)).map(([k, v]) => [k, v.map(r => r.ticket_id)])))
+      .toEqual({ billing: ['a', 'b', 'c'], account: ['d'] });
+  });
+
+  it('should group KB proposals by rolled-up topic', () => {
+    const options = { tenantId: 'tenant_001', projectId: 'p1' };
+
+    expect(batchProposePatches(results, options)).toHaveLength(4);
+    expect(batchProposePatches(results, { ...options, topicDepth: 1 })).toHaveLength(2);
+    expect(batchProposePatches(results, { ...options, topicDepth: 2 })).toHaveLength(3);
+  });
+});
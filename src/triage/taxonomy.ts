@@ -0,0 +1,118 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { Ticket } from '../contracts/ticket.js';
+import type { TriageResult } from '../contracts/triage-result.js';
+import {
+  validateTopicTaxonomies,
+  type TopicNode,
+  type TopicTaxonomy,
+} from '../contracts/topic-taxonomy.js';
+
+/**
+ * Hierarchical topic taxonomy.
+ *
+ * A topic category is the path of node ids from the root, joined with "/"
+ * (e.g. `billing/refunds/partial-refund`). Flat keyword maps are treated as a
+ * taxonomy with a single level, so their categories are unchanged.
+ */
+
+export const TOPIC_PATH_SEPARATOR = '/';
+
+export interface TaxonomyEntry {
+  category: string;
+  path: string[];
+  keywords: string[];
+  description?: string;
+  owner?: string;
+}
+
+export function topicPath(category: string): string[] {
+  return category.split(TOPIC_PATH_SEPARATOR);
+}
+
+/**
+ * Category cut to at most `depth` levels (`billing/refunds/partial-refund` at depth 1 is `billing`).
+ */
+export function rollUpTopic(category: string, depth: number): string {
+  return topicPath(category).slice(0, Math.max(depth, 1)).join(TOPIC_PATH_SEPARATOR);
+}
+
+/** The category and all of its ancestors, root first. */
+export function topicAncestors(category: string): string[] {
+  const path = topicPath(category);
+  return path.map((_, index) => path.slice(0, index + 1).join(TOPIC_PATH_SEPARATOR));
+}
+
+/** True when `category` is `ancestor` or lies below it. */
+export function isWithinTopic(category: string, ancestor: string): boolean {
+  return category === ancestor || category.startsWith(ancestor + TOPIC_PATH_SEPARATOR);
+}
+
+/**
+ * Every node of the taxonomy, parents before children.
+ */
+export function flattenTaxonomy(taxonomy: TopicTaxonomy): TaxonomyEntry[] {
+  const entries: TaxonomyEntry[] = [];
+
+  const visit = (node: TopicNode, parent: string[], owner: string | undefined): void => {
+    const path = [...parent, node.id];
+    const nodeOwner = node.owner ?? owner;
+    entries.push({
+      category: path.join(TOPIC_PATH_SEPARATOR),
+      path,
+      keywords: node.keywords,
+      ...(node.description !== undefined && { description: node.description }),
+      ...(nodeOwner !== undefined && { owner: nodeOwner }),
+    });
+    for (const child of node.children) {
+      visit(child, path, nodeOwner);
+    }
+  };
+
+  for (const node of taxonomy.topics) {
+    visit(node, [], undefined);
+  }
+  return entries;
+}
+
+/**
+ * Single-level entries for a flat `category -> keywords` map.
+ */
+export function entriesFromCategories(categories: Record<string, string[]>): TaxonomyEntry[] {
+  return Object.entries(categories).map(([category, keywords]) => ({
+    category,
+    path: [category],
+    keywords,
+  }));
+}
+
+/**
+ * Most specific taxonomy for the ticket: project-level, then tenant-wide, then tenant-agnostic.
+ */
+export function selectTopicTaxonomy(taxonomies: TopicTaxonomy[], ticket: Ticket): TopicTaxonomy | undefined {
+  return taxonomies.find(t => t.tenant_id === ticket.tenant_id && t.project_id === ticket.project_id)
+    ?? taxonomies.find(t => t.tenant_id === ticket.tenant_id && t.project_id === undefined)
+    ?? taxonomies.find(t => t.tenant_id === undefined);
+}
+
+/**
+ * Group results by their primary topic rolled up to `depth` levels
+ * (all levels when omitted). Results without topics are grouped under `general`.
+ */
+export function groupByTopic(
+  triageResults: TriageResult[],
+  depth?: number
+): Record<string, TriageResult[]> {
+  return triageResults.reduce((groups, result) => {
+    const category = result.topics[0]?.category;
+    const key = category === undefined ? 'general' : depth === undefined ? category : rollUpTopic(category, depth);
+    groups[key] ??= [];
+    groups[key].push(result);
+    return groups;
+  }, {} as Record<string, TriageResult[]>);
+}
+
+export function loadTopicTaxonomies(taxonomyPath: string): TopicTaxonomy[] {
+  const data: unknown = JSON.parse(readFileSync(resolve(taxonomyPath), 'utf-8'));
+  return validateTopicTaxonomies(Array.isArray(data) ? data : [data]);
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { getTriageSegments, getLatestCustomerSegment, hasAgentReply } from './thread.js';
+import { classifyTopics, classifyUrgency, extractMissingInfo } from './classifier.js';
+import { createTriagePacket } from './triage-packet.js';
+import { triageTicket } from './classifier.js';
+import { draftResponse } from '../draft/generator.js';
+import type { Ticket, TicketMessage } from '../contracts/ticket.js';
+
+const createMessage = (overrides: Partial<TicketMessage> = {}): TicketMessage => ({
+  author_role: 'customer',
+  channel: 'email',
+  visibility: 'public',
+  body: 'Follow-up',
+  created_at: '2024-01-15T11:00:00.000Z',
+  ...overrides,
+});
+
+const createThreadTicket = (messages: TicketMessage[], overrides: Partial<Ticket> = {}): Ticket => ({
+  tenant_id: 't1',
+  project_id: 'p1',
+  id: 'thread-1',
+  subject: 'Question about my account',
+  body: 'Something looks off with my account.',
+  status: 'open',
+  priority: 'medium',
+  created_at: '2024-01-15T10:00:00.000Z',
+  tags: [],
+  messages,
+  metadata: {},
+  ...overrides,
+});
+
+describe('getTriageSegments', () => {
+  it('should include customer messages and skip agent replies and internal notes', () => {
+    const ticket = createThreadTicket([
+      createMessage({ author_role: 'agent', body: 'Is the system down for you?' }),
+      createMessage({ author_role: 'agent', visibility: 'internal', body: 'Possible outage' }),
+      createMessage({ body: 'Still seeing the problem' }),
+    ]);
+
+    const segments = getTriageSegments(ticket);
+
+    expect(segments.map(s => s.field)).toEqual(['subject', 'body', 'messages[2].body']);
+  });
+
+  it('should order messages chronologically', () => {
+    const ticket = createThreadTicket([
+      createMessage({ body: 'second', created_at: '2024-01-15T12:00:00.000Z' }),
+      createMessage({ body: 'first', created_at: '2024-01-15T11:00:00.000Z' }),
+    ]);
+
+    expect(getLatestCustomerSegment(ticket)).toEqual({ field: 'messages[0].body', text: 'second' });
+  });
+
+  it('should fall back to the body when there are no follow-ups', () => {
+    const ticket = createThreadTicket([]);
+
+    expect(getLatestCustomerSegment(ticket).field).toBe('body');
+    expect(hasAgentReply(ticket)).toBe(false);
+  });
+});
+
+describe('thread-aware triage', () => {
+  it('should not classify urgency from agent wording', () => {
+    const ticket = createThreadTicket([
+      createMessage({ author_role: 'agent', body: 'Are you seeing an outage?' }),
+    ]);
+
+    expect(classifyUrgency(ticket)).toBe('medium');
+  });
+
+  it('should pick up urgency from a customer follow-up', () => {
+    const ticket = createThreadTicket([
+      createMessage({ body: 'Now the whole dashboard is down.' }),
+    ]);
+
+    expect(classifyUrgency(ticket)).toBe('critical');
+  });
+
+  it('should weight topics from the latest customer message', () => {
+    const ticket = createThreadTicket([
+      createMessage({ body: 'Actually this is about the invoice.' }),
+    ]);
+
+    const topics = classifyTopics(ticket);
+
+    expect(topics[0].category).toBe('billing');
+    expect(topics[0].confidence).toBe(1);
+  });
+
+  it('should not report info the customer supplied later in the thread', () => {
+    const ticket = createThreadTicket([
+      createMessage({ body: 'My account id is ACC-1 and I am on browser Firefox 120.' }),
+    ]);
+
+    const missing = extractMissingInfo(ticket);
+
+    expect(missing).not.toContain('account_id');
+    expect(missing).not.toContain('environment');
+  });
+});
+
+describe('thread-aware drafting and packets', () => {
+  it('should not re-ask for info supplied after triage ran', () => {
+    const ticket = createThreadTicket([
+      createMessage({ author_role: 'agent', body: 'Could you share your account id?' }),
+      createMessage({ body: 'Sure, account id ACC-1.', created_at: '2024-01-15T12:00:00.000Z' }),
+    ]);
+    const triage = { ...triageTicket(ticket), missing_info: ['account_id', 'environment'] };
+
+    const draft = draftResponse(ticket, triage, [], { tone: 'friendly' });
+
+    expect(draft.body).toContain('Thanks for following up.');
+    expect(draft.body).toContain('could you provide: environment?');
+  });
+
+  it('should carry redacted messages into the triage packet', () => {
+    const ticket = createThreadTicket([
+      createMessage({ body: 'Reach me at jane@example.com' }),
+    ]);
+
+    const packet = createTriagePacket(ticket, triageTicket(ticket));
+
+    expect(packet.ticket.messages).toHaveLength(1);
+    expect(packet.ticket.messages[0].body).toContain('[EMAIL_REDACTED]');
+    expect(packet.metadata.redaction_summary.some(r => r.fields.includes('messages[0].body'))).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+import type { Ticket, TicketMessage } from '../contracts/ticket.js';
+
+/**
+ * A piece of ticket text labelled with the field it came from.
+ * Field names use the ticket's own paths (`subject`, `body`, `messages[2].body`).
+ */
+export interface TextSegment {
+  field: string;
+  text: string;
+}
+
+export interface ThreadOptions {
+  includeAgentMessages?: boolean;
+  includeInternalNotes?: boolean;
+}
+
+function toTime(value: string | Date): number {
+  return value instanceof Date ? value.getTime() : Date.parse(value);
+}
+
+function isIncluded(message: TicketMessage, options: ThreadOptions): boolean {
+  if (message.visibility === 'internal' && options.includeInternalNotes !== true) {
+    return false;
+  }
+  if (message.author_role !== 'customer' && options.includeAgentMessages !== true) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Messages in chronological order, keeping their original array index so
+ * segment field paths still point at the source message.
+ */
+function orderedMessages(ticket: Ticket): Array<{ message: TicketMessage; index: number }> {
+  return (ticket.messages ?? [])
+    .map((message, index) => ({ message, index }))
+    .sort((a, b) => toTime(a.message.created_at) - toTime(b.message.created_at) || a.index - b.index);
+}
+
+/**
+ * Collect the text triage should reason over.
+ * By default only customer-authored, public messages are included so agent
+ * replies and internal notes never trigger customer-facing classifications.
+ */
+export function getTriageSegments(ticket: Ticket, options: ThreadOptions = {}): TextSegment[] {
+  const segments: TextSegment[] = [
+    { field: 'subject', text: ticket.subject },
+    { field: 'body', text: ticket.body },
+  ];
+
+  for (const { message, index } of orderedMessages(ticket)) {
+    if (isIncluded(message, options)) {
+      segments.push({ field: `messages[${index}].body`, text: message.body });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Flatten the triage segments into a single string.
+ */
+export function getThreadText(ticket: Ticket, options: ThreadOptions = {}): string {
+  return getTriageSegments(ticket, options).map(s => s.text).join(' ');
+}
+
+/**
+ * Customer-authored public messages, oldest first.
+ */
+export function getCustomerMessages(ticket: Ticket): TicketMessage[] {
+  return orderedMessages(ticket)
+    .map(({ message }) => message)
+    .filter(m => m.author_role === 'customer' && m.visibility === 'public');
+}
+
+/**
+ * The most recent thing the customer said. Falls back to the ticket body
+ * when the thread has no customer follow-ups.
+ */
+export function getLatestCustomerSegment(ticket: Ticket): TextSegment {
+  const ordered = orderedMessages(ticket).filter(
+    ({ message }) => message.author_role === 'customer' && message.visibility === 'public'
+  );
+  const latest = ordered[ordered.length - 1];
+  return latest !== undefined
+    ? { field: `messages[${latest.index}].body`, text: latest.message.body }
+    : { field: 'body', text: ticket.body };
+}
+
+/**
+ * Whether an agent has already replied publicly on this ticket.
+ */
+export function hasAgentReply(ticket: Ticket): boolean {
+  return (ticket.messages ?? []).some(m => m.author_role === 'agent' && m.visibility === 'public');
+}
@@ -73,6 +73,40 @@ describe('Triage Packet Creation', () => {
 
     expect(packet.metadata.classifier_version).toBe('2.0.0');
   });
+
+  it('should carry the normalized body next to the original, redacted alike', () => {
+    const ticket = createMockTicket({ body: 'Mail me at ana@acme.example\n\nOn Mon, Support wrote:\n> Hi' });
+    const triage = createMockTriageResult({
+      normalization: { body: 'Mail me at ana@acme.example', html_fields: [], removed: [] },
+    });
+
+    const packet = createTriagePacket(ticket, triage);
+
+    expect(packet.ticket.body).toContain('On Mon, Support wrote:');
+    expect(packet.ticket.normalized_body).toBe('Mail me at [EMAIL_REDACTED]');
+    expect(createTriagePacket(ticket, createMockTriageResult()).ticket.normalized_body).toBeUndefined();
+  });
+});
+
+describe('triage packet messages', () => {
+  const ticket = createMockTicket({
+    messages: [
+      { author_role: 'customer', channel: 'email', visibility: 'public', body: 'Any update?', created_at: '2024-01-02T00:00:00.000Z' },
+      { author_role: 'agent', channel: 'web', visibility: 'internal', body: 'Customer is on the churn list', created_at: '2024-01-02T01:00:00.000Z' },
+    ],
+  });
+
+  it('should leave internal notes out by default', () => {
+    const packet = createTriagePacket(ticket, createMockTriageResult());
+
+    expect(packet.ticket.messages.map(m => m.body)).toEqual(['Any update?']);
+  });
+
+  it('should keep internal notes when asked to', () => {
+    const packet = createTriagePacket(ticket, createMockTriageResult(), { includeInternalNotes: true });
+
+    expect(packet.ticket.messages.map(m => m.visibility)).toEqual(['public', 'internal']);
+  });
 });
 
 describe('PII Redaction in Triage Packets', () => {
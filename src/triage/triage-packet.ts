@@ -6,6 +6,7 @@ import {
   type TriagePacket,
   type ErrorEnvelope,
   type RedactionMetadata,
+  type EnrichmentProvenance,
 } from '../contracts/triage-packet.js';
 import { redactPII, hasPII, type RedactionResult } from '../utils/pii.js';
 import { stableHash } from '../utils/deterministic.js';
@@ -17,12 +18,18 @@ export interface TriagePacketOptions {
   classifierVersion?: string;
   applyRedaction?: boolean;
   redactFields?: string[];
+  /** Keep `internal` agent notes in the packet's messages (default false: packets go to downstream jobs). */
+  includeInternalNotes?: boolean;
 }
 
 /**
  * Default fields to redact if PII is detected.
  */
-const DEFAULT_REDACT_FIELDS = ['subject', 'body', 'customer_email', 'customer_name'];
+const DEFAULT_REDACT_FIELDS = ['subject', 'body', 'customer_email', 'customer_name', 'messages'];
+
+function toIsoString(value: string | Date): string {
+  return typeof value === 'string' ? value : value.toISOString();
+}
 
 /**
  * Redact PII from ticket fields.
@@ -36,6 +43,27 @@ function redactTicketFields(
   let totalRedactions = 0;
 
   for (const field of fields) {
+    if (field === 'messages') {
+      const messages = ticket.messages ?? [];
+      const redactedMessages = messages.map((message, index) => {
+        if (!hasPII(message.body)) {
+          return message;
+        }
+        const result: RedactionResult = redactPII(message.body);
+        redactionSummary.push({
+          type: 'pii',
+          count: result.redactionCount,
+          fields: [`messages[${index}].body`],
+        });
+        totalRedactions += result.redactionCount;
+        return { ...message, body: result.redacted };
+      });
+      if (redactedMessages.some((message, index) => message !== messages[index])) {
+        redacted.messages = redactedMessages;
+      }
+      continue;
+    }
+
     const value = ticket[field as keyof Ticket];
     if (typeof value === 'string') {
       if (hasPII(value)) {
@@ -54,21 +82,39 @@ function redactTicketFields(
   return { redacted, redactions: redactionSummary, totalRedactions };
 }
 
+function enrichmentProvenance(triageResult: TriageResult): EnrichmentProvenance[] {
+  if (!triageResult.customer) {
+    return [];
+  }
+  const { directory_id, matched_by, ...fields } = triageResult.customer;
+  return [{
+    source: 'customer_directory',
+    source_id: directory_id,
+    matched_by,
+    fields: Object.keys(fields),
+  }];
+}
+
 /**
  * Create a triage packet from a ticket and triage result.
  * Applies PII redaction if enabled.
  */
 export function createTriagePacket(
-  ticket: Ticket,
+  sourceTicket: Ticket,
   triageResult: TriageResult,
   options: TriagePacketOptions = {}
 ): TriagePacket {
   const {
-    classifierVersion = '1.0.0',
+    classifierVersion = triageResult.classifier_version ?? '1.0.0',
     applyRedaction = true,
     redactFields = DEFAULT_REDACT_FIELDS,
+    includeInternalNotes = false,
   } = options;
 
+  const ticket = includeInternalNotes || sourceTicket.messages === undefined
+    ? sourceTicket
+    : { ...sourceTicket, messages: sourceTicket.messages.filter(message => message.visibility !== 'internal') };
+
   const errors: ErrorEnvelope[] = [];
   let redactionSummary: RedactionMetadata[] = [];
   let totalRedactions = 0;
@@ -83,6 +129,10 @@ export function createTriagePacket(
     }
   }
 
+  // The cleaned body the rules classified, next to the original; redacted like `body`
+  const normalizedBody = triageResult.normalization?.body;
+  const redactNormalized = applyRedaction && redactFields.includes('body') && normalizedBody !== undefined;
+
   const packetId = `packet_${stableHash({
     tenant_id: ticket.tenant_id,
     project_id: ticket.project_id,
@@ -99,12 +149,22 @@ export function createTriagePacket(
       id: redactedTicket.id,
       subject: redactedTicket.subject,
       body: redactedTicket.body,
+      ...(normalizedBody !== undefined && {
+        normalized_body: redactNormalized ? redactPII(normalizedBody).redacted : normalizedBody,
+      }),
       status: redactedTicket.status,
       priority: redactedTicket.priority,
       customer_email: redactedTicket.customer_email,
       customer_name: redactedTicket.customer_name,
-      created_at: typeof redactedTicket.created_at === 'string' ? redactedTicket.created_at : redactedTicket.created_at.toISOString(),
+      created_at: toIsoString(redactedTicket.created_at),
       tags: redactedTicket.tags,
+      messages: (redactedTicket.messages ?? []).map(message => ({
+        author_role: message.author_role,
+        channel: message.channel,
+        visibility: message.visibility,
+        body: message.body,
+        created_at: toIsoString(message.created_at),
+      })),
     },
     classification: {
       urgency: triageResult.urgency,
@@ -121,6 +181,7 @@ export function createTriagePacket(
       redaction_applied: applyRedaction && totalRedactions > 0,
       redaction_summary: redactionSummary,
       total_redactions: totalRedactions,
+      enrichment: enrichmentProvenance(triageResult),
     },
     errors,
   };
@@ -172,6 +233,7 @@ export function createErrorTriagePacket(
       priority: 'medium',
       created_at: new Date().toISOString(),
       tags: ['triage-error'],
+      messages: [],
     },
     classification: {
       urgency: 'high',
@@ -187,6 +249,7 @@ export function createErrorTriagePacket(
       redaction_applied: false,
       redaction_summary: [],
       total_redactions: 0,
+      enrichment: [],
     },
     errors: [errorEnvelope],
   };
@@ -257,6 +320,7 @@ export function packetContainsPII(packet: TriagePacket): boolean {
     packet.ticket.body,
     packet.ticket.customer_email,
     packet.ticket.customer_name,
+    ...(packet.ticket.messages ?? []).map(message => message.body),
   ];
 
   return fieldsToCheck.some(field => field != null && field.length > 0 && hasPII(field));
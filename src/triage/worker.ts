@@ -0,0 +1,20 @@
+import { parentPort, workerData } from 'worker_threads';
+import { triageTicket, type TriageOptions } from './classifier.js';
+import type { TriageWorkerRequest, TriageWorkerResponse } from './parallel.js';
+
+/**
+ * Worker-thread entry for `triageBatchParallel`: triages each chunk it is sent
+ * with the options it was started with.
+ */
+
+const options = workerData as TriageOptions;
+
+parentPort?.on('message', (request: TriageWorkerRequest) => {
+  let response: TriageWorkerResponse;
+  try {
+    response = { chunk: request.chunk, results: request.tickets.map(ticket => triageTicket(ticket, options)) };
+  } catch (error) {
+    response = { chunk: request.chunk, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
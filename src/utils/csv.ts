@@ -0,0 +1,71 @@
+/**
+ * Minimal RFC 4180 CSV reader: quoted fields may contain commas, newlines
+ * and doubled quotes. The first row is the header; header names are trimmed
+ * and blank rows are skipped.
+ */
+
+function parseRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parse CSV text into one object per data row, keyed by header name.
+ * Empty cells are left out of the row object.
+ */
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseRows(text.replace(/^\uFEFF/, ''));
+  if (header === undefined) {
+    return [];
+  }
+  const names = header.map(name => name.trim());
+
+  return rows.map(values => {
+    const record: Record<string, string> = {};
+    names.forEach((name, index) => {
+      const value = values[index]?.trim() ?? '';
+      if (name !== '' && value !== '') {
+        record[name] = value;
+      }
+    });
+    return record;
+  });
+}
@@ -1,3 +1,7 @@
 export * from './pii.js';
 export * from './profiles.js';
 export * from './deterministic.js';
+export * from './language.js';
+export * from './csv.js';
+export * from './ndjson.js';
+export * from './normalize.js';
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage, foldDiacritics, segmentWords } from './language.js';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['en', 'Our server is down and we cannot log in. Please help urgently!'],
+    ['de', 'Unser Server ist ausgefallen und wir können uns nicht anmelden. Bitte dringend helfen!'],
+    ['fr', 'Notre serveur est en panne et nous ne pouvons plus nous connecter. Aidez-nous vite !'],
+    ['es', 'Nuestro servidor está caído y no podemos iniciar sesión. ¡Ayuda urgente por favor!'],
+    ['ja', 'サーバーがダウンしていてログインできません。至急対応をお願いします。'],
+  ])('should detect %s', (language, text) => {
+    const detection = detectLanguage(text);
+
+    expect(detection.language).toBe(language);
+    expect(detection.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('should not guess on very short text', () => {
+    expect(detectLanguage('Hi there')).toEqual({ language: 'und', confidence: 0 });
+  });
+});
+
+describe('segmentWords', () => {
+  it('should keep accented letters and offsets', () => {
+    const text = 'Die Rückerstattung für Café';
+    const words = segmentWords(text);
+
+    expect(words.map(w => w.value)).toEqual(['die', 'rückerstattung', 'für', 'café']);
+    expect(text.slice(words[1].start, words[1].end)).toBe('Rückerstattung');
+  });
+
+  it('should split Japanese into characters and keep apostrophes', () => {
+    expect(segmentWords('ログイン error').map(w => w.value)).toEqual(['ロ', 'グ', 'イ', 'ン', 'error']);
+    expect(segmentWords('n’est pas').map(w => w.value)).toEqual(["n'est", 'pas']);
+  });
+});
+
+describe('foldDiacritics', () => {
+  it('should strip accents', () => {
+    expect(foldDiacritics('facturación')).toBe('facturacion');
+    expect(foldDiacritics('débité')).toBe('debite');
+  });
+});
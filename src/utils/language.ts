@@ -0,0 +1,148 @@
+/**
+ * Offline language identification and Unicode word segmentation.
+ *
+ * Latin-script languages are told apart by character trigram profiles
+ * (Cavnar & Trenkle "out-of-place" ranking) built from the short reference
+ * texts below. Japanese is recognised by its kana. Words are split on Unicode
+ * letters and digits, so accented and non-Latin characters survive; runs of
+ * Japanese characters are split into single characters, which keeps phrase
+ * matching exact without a dictionary.
+ */
+
+export const SUPPORTED_LANGUAGES = ['en', 'de', 'fr', 'es', 'ja'] as const;
+
+export type LanguageCode = typeof SUPPORTED_LANGUAGES[number];
+
+export interface LanguageDetection {
+  /** Detected language, or `und` when there is too little text to tell. */
+  language: LanguageCode | 'und';
+  confidence: number;
+}
+
+export interface WordToken {
+  value: string;
+  start: number;
+  end: number;
+}
+
+const REFERENCE_TEXTS: Record<Exclude<LanguageCode, 'ja'>, string> = {
+  en: `Hello, I am writing because our account cannot log in since this morning and the dashboard shows an error
+    every time we try to open the project settings. We have already tried to reset the password and clear the
+    browser cache, but nothing has changed. Could you please check what is going on with our subscription and let
+    us know when this will be fixed? The invoice for last month was also charged twice, which we would like to have
+    refunded. Thank you for your help, we are waiting for your answer as soon as possible.`,
+  de: `Hallo, ich schreibe Ihnen, weil sich unser Konto seit heute Morgen nicht mehr anmelden kann und das Dashboard
+    jedes Mal einen Fehler anzeigt, wenn wir die Projekteinstellungen öffnen wollen. Wir haben bereits versucht, das
+    Passwort zurückzusetzen und den Browser-Cache zu leeren, aber es hat sich nichts geändert. Könnten Sie bitte
+    prüfen, was mit unserem Abonnement los ist, und uns mitteilen, wann das behoben wird? Die Rechnung für den
+    letzten Monat wurde außerdem doppelt abgebucht, und wir möchten eine Rückerstattung. Vielen Dank für Ihre Hilfe,
+    wir warten auf Ihre Antwort so schnell wie möglich.`,
+  fr: `Bonjour, je vous écris parce que notre compte ne peut plus se connecter depuis ce matin et que le tableau de
+    bord affiche une erreur chaque fois que nous essayons d'ouvrir les paramètres du projet. Nous avons déjà essayé de
+    réinitialiser le mot de passe et de vider le cache du navigateur, mais rien n'a changé. Pourriez-vous vérifier ce
+    qui se passe avec notre abonnement et nous dire quand cela sera corrigé ? La facture du mois dernier a aussi été
+    débitée deux fois et nous souhaitons être remboursés. Merci pour votre aide, nous attendons votre réponse dès que
+    possible.`,
+  es: `Hola, les escribo porque nuestra cuenta no puede iniciar sesión desde esta mañana y el panel muestra un error
+    cada vez que intentamos abrir la configuración del proyecto. Ya hemos intentado restablecer la contraseña y borrar
+    la caché del navegador, pero no ha cambiado nada. ¿Podrían revisar qué está pasando con nuestra suscripción y
+    decirnos cuándo se va a solucionar? La factura del mes pasado también se cobró dos veces y nos gustaría recibir
+    un reembolso. Gracias por su ayuda, esperamos su respuesta lo antes posible.`,
+};
+
+const PROFILE_SIZE = 300;
+// Letters needed before a guess is made
+const MIN_LETTERS = 12;
+
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]/u;
+const KANA_CHAR = /[\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+const LETTER = /\p{L}/gu;
+const WORD_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー])[\p{L}\p{M}\p{N}])+(?:'(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー])[\p{L}\p{M}])+)?/gu;
+
+function trigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  for (const word of words) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const gram = padded.slice(i, i + 3);
+      counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function rankProfile(counts: Map<string, number>): Map<string, number> {
+  const ranked = [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, PROFILE_SIZE);
+  return new Map(ranked.map(([gram], rank) => [gram, rank]));
+}
+
+const PROFILES = new Map(
+  Object.entries(REFERENCE_TEXTS).map(([language, text]) => [language as LanguageCode, rankProfile(trigrams(text))])
+);
+
+function outOfPlace(document: Map<string, number>, profile: Map<string, number>): number {
+  let distance = 0;
+  for (const [gram, rank] of document) {
+    const profileRank = profile.get(gram);
+    distance += profileRank === undefined ? PROFILE_SIZE : Math.abs(profileRank - rank);
+  }
+  return distance;
+}
+
+/**
+ * Guess the language of a text.
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const letters = text.match(LETTER)?.length ?? 0;
+  if (letters < MIN_LETTERS) {
+    return { language: 'und', confidence: 0 };
+  }
+
+  // Kana only occurs in Japanese
+  const kana = text.match(KANA_CHAR)?.length ?? 0;
+  if (kana / letters > 0.1) {
+    return { language: 'ja', confidence: Math.round(Math.min(1, (kana / letters) * 2) * 100) / 100 };
+  }
+
+  const document = rankProfile(trigrams(text));
+  const scored = [...PROFILES.entries()]
+    .map(([language, profile]) => ({ language, distance: outOfPlace(document, profile) }))
+    .sort((a, b) => a.distance - b.distance);
+
+  const [best, second] = scored;
+  // Relative margin over the runner-up: 0 when tied, approaching 1 when clear-cut
+  const margin = second.distance > 0 ? (second.distance - best.distance) / second.distance : 0;
+  return { language: best.language, confidence: Math.round(Math.min(1, margin * 5) * 100) / 100 };
+}
+
+export function isCjkWord(word: string): boolean {
+  return CJK_CHAR.test(word);
+}
+
+/**
+ * Split text into words with character offsets into the original text.
+ * Values are lowercased; curly apostrophes are treated as straight ones.
+ */
+export function segmentWords(text: string): WordToken[] {
+  // Same length as the input so offsets stay valid
+  const normalized = text.replace(/[‘’]/g, "'");
+  const words: WordToken[] = [];
+  for (const match of normalized.matchAll(WORD_PATTERN)) {
+    words.push({
+      value: match[0].toLowerCase(),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return words;
+}
+
+/**
+ * Remove diacritics ("facturación" -> "facturacion", "zurück" -> "zuruck").
+ */
+export function foldDiacritics(word: string): string {
+  return word.normalize('NFD').replace(/\p{M}/gu, '').normalize('NFC');
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { Readable, Writable } from 'stream';
+import { readLines, writeNdjson } from './ndjson.js';
+
+async function collect(lines: AsyncIterable<string>): Promise<string[]> {
+  const collected: string[] = [];
+  for await (const line of lines) {
+    collected.push(line);
+  }
+  return collected;
+}
+
+describe('readLines', () => {
+  it('should split chunks on newlines, keeping blank lines and a final unterminated line', async () => {
+    const input = Readable.from(['{"a":1}\r\n{"b"', ':2}\n\n', '{"c":3}']);
+
+    expect(await collect(readLines(input))).toEqual(['{"a":1}', '{"b":2}', '', '{"c":3}']);
+  });
+
+  it('should decode multi-byte characters split across chunks', async () => {
+    const bytes = Buffer.from('{"subject":"Störung"}\n');
+    const split = bytes.indexOf(0xc3) + 1;
+    const input = Readable.from([bytes.subarray(0, split), bytes.subarray(split)]);
+
+    expect(await collect(readLines(input))).toEqual(['{"subject":"Störung"}']);
+  });
+});
+
+describe('writeNdjson', () => {
+  it('should wait for drain when the destination buffer is full', async () => {
+    const written: string[] = [];
+    const output = new Writable({
+      highWaterMark: 8,
+      write(chunk: Buffer, _encoding, callback) {
+        written.push(chunk.toString());
+        setImmediate(callback);
+      },
+    });
+
+    await writeNdjson(output, { id: 'first-record' });
+    await writeNdjson(output, { id: 2 });
+
+    expect(output.writableLength).toBe(0);
+    expect(written.join('')).toBe('{"id":"first-record"}\n{"id":2}\n');
+  });
+});
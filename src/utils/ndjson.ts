@@ -0,0 +1,43 @@
+import { once } from 'events';
+import { StringDecoder } from 'string_decoder';
+import type { Writable } from 'stream';
+
+/**
+ * Newline-delimited JSON helpers for streams too large to hold in memory.
+ * Lines are read as the consumer pulls them, so a readable source is only
+ * drained as fast as its lines are processed.
+ */
+
+/**
+ * Split a byte or string stream (e.g. `process.stdin` or a file read stream)
+ * into lines. Every line is yielded, blank ones included, so positions match
+ * the input's line numbers; a trailing `\r` is dropped.
+ */
+export async function* readLines(source: AsyncIterable<string | Uint8Array>): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+
+  for await (const chunk of source) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.write(Buffer.from(chunk));
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      yield buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+    }
+  }
+
+  buffer += decoder.end();
+  if (buffer !== '') {
+    yield buffer.replace(/\r$/, '');
+  }
+}
+
+/**
+ * Write one value as a JSON line, waiting for `drain` when the stream's buffer is full.
+ */
+export async function writeNdjson(output: Writable, value: unknown): Promise<void> {
+  if (!output.write(JSON.stringify(value) + '\n')) {
+    await once(output, 'drain');
+  }
+}
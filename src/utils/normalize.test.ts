@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { htmlToText, normalizeText, normalizeTicket } from './normalize.js';
+import type { Ticket } from '../contracts/ticket.js';
+
+describe('htmlToText', () => {
+  it('should turn blocks into lines and decode entities', () => {
+    const html = '<html><head><style>p { color: red; }</style></head><body>'
+      + '<p>Hello&nbsp;team,</p><div>The export fails &amp; times out.<br>Steps:</div>'
+      + '<ul><li>Open reports</li><li>Click &quot;Export&quot;</li></ul></body></html>';
+
+    expect(htmlToText(html)).toBe('Hello team,\n\nThe export fails & times out.\nSteps:\n- Open reports\n- Click "Export"');
+  });
+
+  it('should quote blockquote content', () => {
+    expect(htmlToText('<p>New text</p><blockquote><p>Old text</p></blockquote>')).toBe('New text\n\n> Old text');
+  });
+});
+
+describe('normalizeText', () => {
+  it('should return clean text unchanged', () => {
+    const text = 'The dashboard is blank since this morning.\n\nCan you check?';
+
+    expect(normalizeText(text)).toEqual({ text, html: false, removed: [] });
+  });
+
+  it('should cut quoted history after a reply header', () => {
+    const text = 'Still broken after the update.\n\nOn Mon, 3 Jun 2024 at 10:02, Support <help@example.com> wrote:\n> Please update to 2.4.\n> It fixes the crash.';
+
+    const result = normalizeText(text);
+
+    expect(result.text).toBe('Still broken after the update.');
+    expect(result.removed).toEqual([{
+      kind: 'quoted_reply',
+      offset: 32,
+      length: text.length - 32,
+      excerpt: 'On Mon, 3 Jun 2024 at 10:02, Support <help@example.com> wrote:',
+    }]);
+  });
+
+  it('should recognize wrapped attributions and Outlook headers', () => {
+    const wrapped = 'Thanks, that worked.\n\nOn Mon, 3 Jun 2024 at 10:02, Support Team\n<help@example.com> wrote:\nPlease try again.';
+    const outlook = 'See the attached log.\n\nFrom: Support\nSent: Monday, June 3, 2024 10:02\nTo: Ana\nSubject: Re: crash\n\nPlease send a log.';
+
+    expect(normalizeText(wrapped).text).toBe('Thanks, that worked.');
+    expect(normalizeText(outlook).text).toBe('See the attached log.');
+  });
+
+  it('should keep a reply written below the quote', () => {
+    const text = 'On Mon, Support wrote:\n> Which browser do you use?\n\nChrome 125 on Windows.';
+
+    expect(normalizeText(text).text).toBe('Chrome 125 on Windows.');
+  });
+
+  it('should strip signatures and legal footers', () => {
+    const text = [
+      'Our invoice shows the wrong VAT number.',
+      '',
+      'Best regards,',
+      'Ana Silva',
+      'Finance, Acme Corp',
+      '',
+      'CONFIDENTIALITY NOTICE: This email and any attachments are intended solely for the addressee.',
+    ].join('\n');
+
+    const result = normalizeText(text);
+
+    expect(result.text).toBe('Our invoice shows the wrong VAT number.');
+    expect(result.removed.map(r => r.kind)).toEqual(['signature', 'legal_footer']);
+    expect(text.slice(result.removed[0].offset, result.removed[0].offset + result.removed[0].length))
+      .toBe('Best regards,\nAna Silva\nFinance, Acme Corp');
+  });
+
+  it('should strip a delimited signature and mobile sign-offs', () => {
+    expect(normalizeText('Login fails.\nSent from my iPhone').text).toBe('Login fails.');
+    expect(normalizeText('Login fails.\n-- \nAna Silva\n+1 555 0100').text).toBe('Login fails.');
+  });
+
+  it('should keep a sign-off followed by long text', () => {
+    const text = 'Quick question.\n\nThanks\n\nActually the real problem is that every export since Monday has been missing half of its rows.';
+
+    expect(normalizeText(text).text).toBe(text);
+  });
+
+  it('should keep a sign-off followed by a P.S. or a sentence', () => {
+    const postscript = 'Export fails on every run.\n\nThanks!\n\nP.S. production is down, we are losing data';
+    const request = 'billing page broken.\nBest\nPlease refund invoice INV-1234 asap';
+
+    expect(normalizeText(postscript).text).toBe(postscript);
+    expect(normalizeText(request).text).toBe(request);
+  });
+
+  it('should strip a sign-off followed by a name, title and contact details', () => {
+    const text = 'Export fails on every run.\n\nCheers,\nAna Silva\nHead of Customer Success\nAcme Inc.\n+1 (555) 010-0100\nhttps://acme.example';
+
+    expect(normalizeText(text).text).toBe('Export fails on every run.');
+  });
+
+  it('should not remove everything the customer wrote', () => {
+    const text = '> Please update to 2.4.';
+
+    expect(normalizeText(text).text).toBe(text);
+  });
+
+  it('should honor disabled steps and extra footer phrases', () => {
+    const text = 'Printer offline.\n\nThis mail was scanned by MailGuard.\n\nSent from my iPhone';
+
+    expect(normalizeText(text, { signatures: false, footerPhrases: ['scanned by mailguard'] }).text)
+      .toBe('Printer offline.\n\nSent from my iPhone');
+  });
+});
+
+describe('normalizeTicket', () => {
+  const ticket: Ticket = {
+    tenant_id: 't1',
+    project_id: 'p1',
+    id: 'norm-1',
+    subject: 'Export',
+    body: '<p>The export is empty.</p><p>Kind regards,<br>Ana</p>',
+    status: 'open',
+    priority: 'medium',
+    created_at: '2024-05-01T12:00:00.000Z',
+    tags: [],
+    messages: [{
+      author_role: 'customer',
+      channel: 'email',
+      visibility: 'public',
+      body: 'Any update?\n\nOn Tue, Support wrote:\n> We are looking into it.',
+      created_at: '2024-05-02T12:00:00.000Z',
+    }],
+    metadata: {},
+  };
+
+  it('should clean body and messages and record the removed segments per field', () => {
+    const { ticket: cleaned, normalization } = normalizeTicket(ticket);
+
+    expect(cleaned.body).toBe('The export is empty.');
+    expect(cleaned.messages?.[0].body).toBe('Any update?');
+    expect(ticket.body).toContain('<p>');
+    expect(normalization?.html_fields).toEqual(['body']);
+    expect(normalization?.removed.map(r => [r.field, r.kind])).toEqual([
+      ['body', 'signature'],
+      ['messages[0].body', 'quoted_reply'],
+    ]);
+  });
+
+  it('should leave a clean ticket as is', () => {
+    const clean = { ...ticket, body: 'The export is empty.', messages: [] };
+
+    expect(normalizeTicket(clean)).toEqual({ ticket: clean });
+  });
+});
@@ -0,0 +1,431 @@
+import type { Ticket } from '../contracts/ticket.js';
+import type { RemovedSegment, RemovedSegmentKind, TriageNormalization } from '../contracts/triage-result.js';
+
+/**
+ * Email body normalization.
+ *
+ * HTML is converted to text first: block elements become line breaks and
+ * `<blockquote>` content becomes `>`-quoted lines. Whole lines are then
+ * removed: quoted history (every `>` line, and from a reply header such as
+ * "On … wrote:", "-----Original Message-----" or an Outlook From/Sent block to
+ * the end unless the reply is written below the quote), paragraphs holding a
+ * confidentiality notice or disclaimer, and the signature (from a `-- `
+ * delimiter, or from a sign-off such as "Best regards," followed only by a
+ * name, job title, company or contact details, and "Sent from my iPhone"
+ * lines). A sign-off followed by a sentence or a "P.S." is kept, since the
+ * customer is still writing. A step that would remove
+ * everything the customer wrote is skipped. Text with nothing to remove is
+ * returned unchanged.
+ */
+
+export interface NormalizeOptions {
+  /** Convert HTML to text (default true). */
+  html?: boolean;
+  /** Strip quoted earlier messages (default true). */
+  quotedReplies?: boolean;
+  /** Strip signatures and sign-offs (default true). */
+  signatures?: boolean;
+  /** Strip confidentiality notices and disclaimers (default true). */
+  legalFooters?: boolean;
+  /** Phrases that mark a paragraph as a legal footer, on top of the built-in ones. */
+  footerPhrases?: string[];
+}
+
+export interface NormalizedText {
+  text: string;
+  /** The input was HTML and was converted to text. */
+  html: boolean;
+  removed: Array<Omit<RemovedSegment, 'field'>>;
+}
+
+export interface NormalizedTicket {
+  /** The ticket with cleaned body and message bodies. */
+  ticket: Ticket;
+  /** What was changed; undefined when the ticket text was already clean. */
+  normalization?: TriageNormalization;
+}
+
+export const DEFAULT_FOOTER_PHRASES = [
+  'confidentiality notice', 'this email is confidential', 'this e-mail is confidential',
+  'this message is confidential', 'this email and any attachments', 'this e-mail and any attachments',
+  'this message and any attachments', 'intended solely for', 'intended only for the use',
+  'if you have received this email in error', 'if you have received this e-mail in error',
+  'if you have received this message in error', 'please consider the environment before printing',
+  'diese e-mail enthält vertrauliche', 'ce message est confidentiel', 'este mensaje es confidencial',
+];
+
+const HTML_TAG = /<\/?(?:html|head|body|div|p|br|span|table|tbody|tr|td|th|a|b|i|u|strong|em|ul|ol|li|blockquote|font|h[1-6]|img|hr|pre)\b[^>]*>/i;
+const DROPPED_ELEMENTS = /<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+const HTML_COMMENT = /<!--[\s\S]*?-->/g;
+const TAG = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>/g;
+const LINE_TAGS = new Set(['div', 'br', 'tr', 'table', 'ul', 'ol', 'hr', 'pre']);
+const PARAGRAPH_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©', reg: '®', euro: '€',
+};
+
+const REPLY_ATTRIBUTION = [
+  /^on\b.{0,200}\bwrote:$/i,
+  /^am\b.{0,200}\bschrieb\b.{0,200}:$/i,
+  /^le\b.{0,200}\ba écrit\s?:$/i,
+  /^el\b.{0,200}\bescribió:$/i,
+];
+const ORIGINAL_MESSAGE = /^-{2,}\s*(?:original message|forwarded by|ursprüngliche nachricht|message d'origine|mensaje original)\s*-{2,}$/i;
+const OUTLOOK_FROM = /^(?:from|von|de):\s+\S/i;
+const OUTLOOK_SENT = /^(?:sent|date|gesendet|datum|envoyé|enviado):\s+\S/i;
+const QUOTED_LINE = /^\s*>/;
+
+const SIGNATURE_DELIMITER = /^--\s?$/;
+const MOBILE_SIGNATURE = /^(?:sent from my \S+(?: \S+)?|sent from (?:outlook|mail) for \S+|get outlook for \S+|von meinem \S+ gesendet|envoyé de mon \S+|enviado desde mi \S+)\.?$/i;
+const SIGN_OFF = /^(?:(?:best|kind|warm|many)\s+(?:regards|wishes)|regards|best|cheers|thanks|thank you|many thanks|thanks again|sincerely|yours sincerely|yours truly|mit freundlichen grüßen|viele grüße|beste grüße|cordialement|bien cordialement|salutations|saludos|un saludo|atentamente)[,.!]?$/i;
+// Lines after a sign-off that still read as a signature block
+const MAX_SIGNATURE_LINES = 6;
+const MAX_SIGNATURE_LINE_LENGTH = 60;
+const MAX_SIGNATURE_LINE_WORDS = 6;
+const POSTSCRIPT = /^p\.?\s?s\b/i;
+const CONTACT_LINE = /^(?:(?:tel|phone|mobile|mob|cell|fax|direct|office|email|e-mail|web|[tmpfew])\.?\s*:?\s*)?(?:\+?[\d\s()./-]{7,}|\S+@\S+\.\S+|(?:https?:\/\/|www\.)\S+|[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}(?:\/\S*)?)$/i;
+// A full stop that ends an initial or a company suffix rather than a sentence
+const ABBREVIATION_END = /(?:\b\p{Lu}|\b(?:inc|ltd|llc|corp|co|gmbh|plc|jr|sr))\.$/iu;
+// Lower-case words allowed in names, titles and company names
+const NAME_CONNECTORS = new Set(['of', 'and', 'the', 'for', 'at', 'in', 'de', 'la', 'von', 'van', 'der', 'und', 'et', 'y', 'da', 'di', 'du']);
+const EXCERPT_LENGTH = 80;
+
+interface Line {
+  text: string;
+  start: number;
+  kind?: RemovedSegmentKind;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+export function isHtml(text: string): boolean {
+  return HTML_TAG.test(text);
+}
+
+/**
+ * Plain text of an HTML body. Block elements end lines, list items become
+ * `- ` lines and text inside `<blockquote>` is prefixed with `>`.
+ */
+export function htmlToText(html: string): string {
+  const source = html.replace(HTML_COMMENT, '').replace(DROPPED_ELEMENTS, '');
+  const lines: string[] = [];
+  let line = '';
+  let depth = 0;
+
+  const endLine = (): void => {
+    const text = line.trim();
+    lines.push(depth > 0 && text !== '' ? `${'>'.repeat(depth)} ${text}` : text);
+    line = '';
+  };
+  const appendText = (raw: string): void => {
+    const text = decodeEntities(raw.replace(/\s+/g, ' '));
+    line += line === '' ? text.trimStart() : text;
+  };
+
+  let last = 0;
+  for (const match of source.matchAll(TAG)) {
+    appendText(source.slice(last, match.index));
+    last = match.index + match[0].length;
+    const closing = match[1] === '/';
+    const name = match[2].toLowerCase();
+
+    if (name === 'blockquote') {
+      if (line.trim() !== '') {
+        endLine();
+      }
+      depth = Math.max(0, depth + (closing ? -1 : 1));
+    } else if (name === 'br') {
+      endLine();
+    } else if (LINE_TAGS.has(name)) {
+      if (line.trim() !== '') {
+        endLine();
+      }
+    } else if (PARAGRAPH_TAGS.has(name)) {
+      if (line.trim() !== '') {
+        endLine();
+      }
+      if (closing) {
+        lines.push('');
+      }
+    } else if (name === 'li' && !closing) {
+      if (line.trim() !== '') {
+        endLine();
+      }
+      line = '- ';
+    } else if ((name === 'td' || name === 'th') && closing) {
+      line += ' ';
+    }
+  }
+  appendText(source.slice(last));
+  endLine();
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const line of text.split('\n')) {
+    lines.push({ text: line, start });
+    start += line.length + 1;
+  }
+  return lines;
+}
+
+function isBlank(line: Line): boolean {
+  return line.text.trim() === '';
+}
+
+/** Number of lines the reply header at `index` spans (0 when there is none). */
+function replyHeaderAt(lines: Line[], index: number): number {
+  const text = lines[index].text.trim();
+  if (ORIGINAL_MESSAGE.test(text) || REPLY_ATTRIBUTION.some(pattern => pattern.test(text))) {
+    return 1;
+  }
+  // Clients wrap long attributions: "On Mon, 3 Jun 2024 at 10:02, Ana Silva <ana@example.com>\nwrote:"
+  const next = lines[index + 1]?.text.trim();
+  if (next !== undefined && next !== '' && REPLY_ATTRIBUTION.some(pattern => pattern.test(`${text} ${next}`))) {
+    return 2;
+  }
+  if (OUTLOOK_FROM.test(text) && lines.slice(index + 1, index + 4).some(line => OUTLOOK_SENT.test(line.text.trim()))) {
+    return 1;
+  }
+  return 0;
+}
+
+function kept(lines: Line[]): Line[] {
+  return lines.filter(line => line.kind === undefined);
+}
+
+/**
+ * Apply `mark` unless it would leave no customer text behind.
+ */
+function markUnlessEmpty(lines: Line[], mark: () => void): void {
+  const before = lines.map(line => line.kind);
+  mark();
+  if (!kept(lines).some(line => !isBlank(line))) {
+    lines.forEach((line, i) => {
+      line.kind = before[i];
+    });
+  }
+}
+
+function markQuotedReplies(lines: Line[]): void {
+  for (const line of lines) {
+    if (line.kind === undefined && QUOTED_LINE.test(line.text)) {
+      line.kind = 'quoted_reply';
+    }
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].kind !== undefined) {
+      continue;
+    }
+    const span = replyHeaderAt(lines, i);
+    if (span === 0) {
+      continue;
+    }
+    const after = lines.slice(i + span).find(line => !isBlank(line));
+    // A reply written below `>` quotes keeps everything after the quote
+    const end = after?.kind === 'quoted_reply' ? i + span : lines.length;
+    for (let j = i; j < end; j++) {
+      lines[j].kind ??= 'quoted_reply';
+    }
+    if (end === lines.length) {
+      return;
+    }
+  }
+}
+
+function markLegalFooters(lines: Line[], phrases: string[]): void {
+  const lowerPhrases = phrases.map(phrase => phrase.toLowerCase());
+  let paragraph: Line[] = [];
+  let seenContent = false;
+
+  const flush = (): void => {
+    const text = paragraph.map(line => line.text).join(' ').toLowerCase();
+    if (seenContent && lowerPhrases.some(phrase => text.includes(phrase))) {
+      for (const line of paragraph) {
+        line.kind = 'legal_footer';
+      }
+    }
+    seenContent ||= paragraph.length > 0;
+    paragraph = [];
+  };
+
+  for (const line of lines) {
+    if (line.kind !== undefined || isBlank(line)) {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+}
+
+/**
+ * A line that can belong to a signature block: contact details, or a name, job
+ * title or company (a few capitalised words that do not end like a sentence).
+ */
+function isSignatureLine(text: string): boolean {
+  const line = text.trim();
+  if (line.length > MAX_SIGNATURE_LINE_LENGTH || POSTSCRIPT.test(line)) {
+    return false;
+  }
+  if (CONTACT_LINE.test(line)) {
+    return true;
+  }
+  if (/[!?;:]$/.test(line) || (line.endsWith('.') && !ABBREVIATION_END.test(line))) {
+    return false;
+  }
+  const words = line.split(/[\s,|/·•–—]+/).filter(word => word !== '');
+  return words.length <= MAX_SIGNATURE_LINE_WORDS
+    && words.every(word => !/^\p{Ll}/u.test(word) || NAME_CONNECTORS.has(word));
+}
+
+function markSignature(lines: Line[]): void {
+  const open = kept(lines);
+
+  for (const line of open) {
+    if (MOBILE_SIGNATURE.test(line.text.trim())) {
+      line.kind = 'signature';
+    }
+  }
+
+  const content = kept(lines).filter(line => !isBlank(line));
+  const delimiter = content.findIndex((line, i) => i > 0 && SIGNATURE_DELIMITER.test(line.text.trimEnd()));
+  if (delimiter > 0) {
+    for (const line of content.slice(delimiter)) {
+      line.kind = 'signature';
+    }
+    return;
+  }
+
+  for (let i = content.length - 1; i > 0; i--) {
+    const tail = content.slice(i + 1);
+    if (tail.length > MAX_SIGNATURE_LINES || !tail.every(line => isSignatureLine(line.text))) {
+      return;
+    }
+    if (SIGN_OFF.test(content[i].text.trim())) {
+      for (const line of content.slice(i)) {
+        line.kind = 'signature';
+      }
+      return;
+    }
+  }
+}
+
+/** Blank lines between two removed lines of the same kind belong to that segment. */
+function fillGaps(lines: Line[]): void {
+  let previous: RemovedSegmentKind | undefined;
+  let gap: Line[] = [];
+  for (const line of lines) {
+    if (line.kind === undefined && isBlank(line)) {
+      gap.push(line);
+      continue;
+    }
+    if (line.kind !== undefined && line.kind === previous) {
+      for (const blank of gap) {
+        blank.kind = line.kind;
+      }
+    }
+    previous = line.kind;
+    gap = [];
+  }
+}
+
+function removedSegments(lines: Line[]): NormalizedText['removed'] {
+  const segments: NormalizedText['removed'] = [];
+  let run: Line[] = [];
+
+  const flush = (): void => {
+    const kind = run[0]?.kind;
+    if (kind !== undefined) {
+      const first = run[0];
+      const last = run[run.length - 1];
+      const excerpt = run.find(line => !isBlank(line))?.text.trim() ?? '';
+      segments.push({
+        kind,
+        offset: first.start,
+        length: last.start + last.text.length - first.start,
+        excerpt: excerpt.length > EXCERPT_LENGTH ? `${excerpt.slice(0, EXCERPT_LENGTH - 1)}…` : excerpt,
+      });
+    }
+    run = [];
+  };
+
+  for (const line of lines) {
+    if (run.length > 0 && line.kind !== run[0].kind) {
+      flush();
+    }
+    run.push(line);
+  }
+  flush();
+
+  return segments;
+}
+
+/**
+ * Clean one email body: HTML to text, then quoted replies, legal footers and signatures removed.
+ */
+export function normalizeText(text: string, options: NormalizeOptions = {}): NormalizedText {
+  const html = options.html !== false && isHtml(text);
+  const plain = html ? htmlToText(text) : text.replace(/\r\n?/g, '\n');
+  const lines = splitLines(plain);
+
+  if (options.quotedReplies !== false) {
+    markUnlessEmpty(lines, () => markQuotedReplies(lines));
+  }
+  if (options.legalFooters !== false) {
+    markUnlessEmpty(lines, () => markLegalFooters(lines, [...DEFAULT_FOOTER_PHRASES, ...options.footerPhrases ?? []]));
+  }
+  if (options.signatures !== false) {
+    markUnlessEmpty(lines, () => markSignature(lines));
+  }
+  fillGaps(lines);
+
+  const removed = removedSegments(lines);
+  if (removed.length === 0 && !html) {
+    return { text, html, removed };
+  }
+
+  const cleaned = kept(lines).map(line => line.text.trimEnd()).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  return { text: cleaned, html, removed };
+}
+
+/**
+ * Normalize the ticket body and every message body. The original ticket is left untouched.
+ */
+export function normalizeTicket(ticket: Ticket, options: NormalizeOptions = {}): NormalizedTicket {
+  const body = normalizeText(ticket.body, options);
+  const messages = (ticket.messages ?? []).map(message => normalizeText(message.body, options));
+
+  const fields = [
+    { field: 'body', result: body },
+    ...messages.map((result, index) => ({ field: `messages[${index}].body`, result })),
+  ];
+  const htmlFields = fields.filter(f => f.result.html).map(f => f.field);
+  const removed = fields.flatMap(f => f.result.removed.map(segment => ({ field: f.field, ...segment })));
+  if (htmlFields.length === 0 && removed.length === 0) {
+    return { ticket };
+  }
+
+  return {
+    ticket: {
+      ...ticket,
+      body: body.text,
+      messages: (ticket.messages ?? []).map((message, index) => ({ ...message, body: messages[index].text })),
+    },
+    normalization: { body: body.text, html_fields: htmlFields, removed },
+  };
+}
@@ -1,5 +1,6 @@
 import { readFileSync } from 'fs';
 import { resolve } from 'path';
+import type { RoutingConfig } from '../contracts/routing-rule.js';
 
 export interface Profile {
   name: string;
@@ -26,6 +27,8 @@ export interface Profile {
     max_urgency: 'low' | 'medium' | 'high' | 'critical';
     auto_escalate: boolean;
   };
+  /** Routing rules applied to every tenant that uses this profile. */
+  routing?: RoutingConfig;
 }
 
 export function loadProfile(profilePath: string): Profile {